@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { auditStoryAccessibility, addA11yParameters } from '../story-generator/a11yAudit.js';
+
+function rules(code: string, fileName?: string, options = {}) {
+  return auditStoryAccessibility(code, fileName, options).map(finding => [finding.rule, finding.line]);
+}
+
+// ────────────────────────────────────────────────────────────────
+// auditStoryAccessibility
+// ────────────────────────────────────────────────────────────────
+
+describe('auditStoryAccessibility', () => {
+  it('flags missing alt text, labels and accessible names in JSX', () => {
+    const code = [
+      'export const Form = () => (',
+      '  <form>',
+      '    <img src="https://picsum.photos/200" />',
+      '    <img src="https://picsum.photos/200" alt="" />',
+      '    <input type="email" />',
+      '    <label>Name <input /></label>',
+      '    <label htmlFor="city">City</label><input id="city" />',
+      '    <button><Icon /></button>',
+      '    <IconButton aria-label="Close"><Icon /></IconButton>',
+      '    <Button label="Save" />',
+      '    <a href="/help">{t("help")}</a>',
+      '  </form>',
+      ');',
+    ].join('\n');
+    expect(rules(code)).toEqual([
+      ['image-alt', 3],
+      ['label', 5],
+      ['button-name', 8],
+    ]);
+  });
+
+  it('checks heading order, clickable elements and contrast with design tokens', () => {
+    const code = [
+      'export const Page = () => (<>',
+      '  <h1>Title</h1>',
+      '  <h3>Skipped</h3>',
+      '  <div onClick={open}>Open</div>',
+      '  <span role="button" tabIndex={0} onClick={open} onKeyDown={key}>Ok</span>',
+      "  <p style={{ color: 'var(--color-muted)', backgroundColor: '#fff' }}>Muted</p>",
+      "  <p style={{ color: '#111827', background: 'white' }}>Fine</p>",
+      '</>);',
+    ].join('\n');
+    const findings = auditStoryAccessibility(code, 'story.stories.tsx', { colorTokens: { '--color-muted': '#9ca3af' } });
+    expect(findings.map(f => [f.rule, f.line])).toEqual([
+      ['heading-order', 3],
+      ['interactive-role', 4],
+      ['color-contrast', 6],
+    ]);
+    expect(findings[2].message).toBe('Text color var(--color-muted) on #fff has a contrast ratio of 2.53:1; at least 4.5:1 is required (color-contrast)');
+  });
+
+  it('audits template markup in Svelte files and lit templates', () => {
+    const svelte = [
+      '<script module>',
+      "  import { defineMeta } from '@storybook/addon-svelte-csf';",
+      '</script>',
+      '<Story name="Default">',
+      '  <img src="a.png">',
+      '  <div on:click={go}>Go</div>',
+      '  <button aria-label="Close"><svg /></button>',
+      '</Story>',
+    ].join('\n');
+    expect(rules(svelte, 'story.stories.svelte')).toEqual([['image-alt', 5], ['interactive-role', 6]]);
+
+    const lit = 'export const A = { render: () => html`<input type="text" .value=${v}><label>Name <input></label>` };';
+    expect(rules(lit, 'story.stories.ts')).toEqual([['label', 1]]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// addA11yParameters
+// ────────────────────────────────────────────────────────────────
+
+describe('addA11yParameters', () => {
+  it('adds parameters to the exported meta, keeping its layout', () => {
+    const code = [
+      'const meta = {',
+      "  title: 'Generated/Card',",
+      '  component: Card,',
+      '} satisfies Meta<typeof Card>;',
+      'export default meta;',
+    ].join('\n');
+    expect(addA11yParameters(code)).toBe([
+      'const meta = {',
+      "  title: 'Generated/Card',",
+      '  component: Card,',
+      "  parameters: { a11y: { test: 'error' } },",
+      '} satisfies Meta<typeof Card>;',
+      'export default meta;',
+    ].join('\n'));
+  });
+
+  it('extends existing parameters and leaves configured a11y alone', () => {
+    expect(addA11yParameters("export default { title: 'x', parameters: { layout: 'centered' } };", 'todo'))
+      .toBe("export default { title: 'x', parameters: { layout: 'centered', a11y: { test: 'todo' } } };");
+    const configured = "export default { parameters: { a11y: { test: 'off' } } };";
+    expect(addA11yParameters(configured)).toBe(configured);
+  });
+
+  it('updates Svelte defineMeta in the module script', () => {
+    const code = [
+      '<script module>',
+      "  const { Story } = defineMeta({ title: 'Generated/Card', component: Card });",
+      '</script>',
+    ].join('\n');
+    expect(addA11yParameters(code)).toContain("defineMeta({ title: 'Generated/Card', component: Card, parameters: { a11y: { test: 'error' } } })");
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverAngularComponents } from '../story-generator/angularDiscovery.js';
+import { AngularAdapter } from '../story-generator/framework-adapters/angular-adapter.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+let projectRoot: string;
+
+const FILES: Record<string, string> = {
+  'package.json': JSON.stringify({ dependencies: { '@angular/core': '^17.3.0' } }),
+  'src/base-field.ts': [
+    "import { Directive, Input } from '@angular/core';",
+    '',
+    '@Directive()',
+    'export abstract class BaseField {',
+    '  /** Shown above the field */',
+    '  @Input() label = \'\';',
+    '}',
+  ].join('\n'),
+  'src/button.component.ts': [
+    "import { Component, EventEmitter, Input, Output, booleanAttribute, input, model, output } from '@angular/core';",
+    "import { BaseField } from './base-field';",
+    '',
+    '/** Material button wrapper */',
+    '@Component({',
+    "  selector: 'ui-button',",
+    '  standalone: true,',
+    '  imports: [],',
+    "  template: `<button><ng-content select=\"[icon]\"></ng-content><ng-content /></button>`,",
+    '})',
+    'export class ButtonComponent extends BaseField {',
+    "  @Input() variant: 'primary' | 'secondary' = 'primary';",
+    '  @Input({ required: true }) size!: number;',
+    "  @Input({ alias: 'isDisabled', transform: booleanAttribute }) disabled = false;",
+    '  /** Current count */',
+    '  count = input(0);',
+    "  tone = input.required<'info' | 'danger'>();",
+    "  checked = model<boolean>(false);",
+    '  /** Emits on click */',
+    '  @Output() pressed = new EventEmitter<MouseEvent>();',
+    "  closed = output<void>({ alias: 'dismissed' });",
+    '  private internal = 1;',
+    '}',
+  ].join('\n'),
+  'src/card.component.ts': [
+    "import { Component, Input } from '@angular/core';",
+    '',
+    "@Component({ selector: 'ui-card', templateUrl: './card.component.html' })",
+    'export class CardComponent {',
+    '  @Input() set elevation(value: 0 | 1 | 2) {}',
+    '}',
+  ].join('\n'),
+  'src/card.component.html': '<section><header><ng-content select="ui-card-title"></ng-content></header><ng-content></ng-content></section>',
+  'src/card.module.ts': [
+    "import { NgModule } from '@angular/core';",
+    "import { CardComponent } from './card.component';",
+    '',
+    '@NgModule({ declarations: [CardComponent], exports: [CardComponent] })',
+    'export class CardModule {}',
+  ].join('\n'),
+  'src/chip.component.ts': [
+    "import { Component } from '@angular/core';",
+    '',
+    "@Component({ selector: 'ui-chip', template: '<span><ng-content /></span>' })",
+    'export class ChipComponent {}',
+  ].join('\n'),
+};
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-angular-discovery-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+function discover(files: string[]) {
+  const components = discoverAngularComponents(files.map(file => path.join(projectRoot, file)), { projectRoot });
+  return Object.fromEntries(components.map(component => [component.name, component]));
+}
+
+// ────────────────────────────────────────────────────────────────
+// Decorators and signals
+// ────────────────────────────────────────────────────────────────
+
+describe('discoverAngularComponents', () => {
+  it('reads decorator and signal inputs and outputs, including inherited ones', () => {
+    const { ButtonComponent } = discover(['src/button.component.ts', 'src/base-field.ts']);
+
+    expect(ButtonComponent).toMatchObject({
+      selector: 'ui-button',
+      description: 'Material button wrapper',
+      standalone: true,
+      slots: ['[icon]', 'default'],
+    });
+    expect(ButtonComponent.ngModule).toBeUndefined();
+    expect(ButtonComponent.props).toEqual([
+      { name: 'variant', type: 'select', options: ['primary', 'secondary'], required: false, defaultValue: 'primary' },
+      { name: 'size', type: 'number', required: true },
+      { name: 'isDisabled', type: 'boolean', required: false, defaultValue: false },
+      { name: 'count', type: 'number', required: false, description: 'Current count', defaultValue: 0 },
+      { name: 'tone', type: 'select', options: ['info', 'danger'], required: true },
+      { name: 'checked', type: 'boolean', required: false, defaultValue: false },
+      { name: 'label', type: 'string', required: false, description: 'Shown above the field', defaultValue: '' },
+    ]);
+    expect(ButtonComponent.events).toEqual([
+      { name: 'checkedChange', payload: 'boolean' },
+      { name: 'pressed', payload: 'MouseEvent', description: 'Emits on click' },
+      { name: 'dismissed', payload: 'void' },
+    ]);
+  });
+
+  it('tells NgModule-declared components from standalone ones', () => {
+    const { CardComponent, ChipComponent } = discover(['src/card.component.ts', 'src/card.module.ts', 'src/chip.component.ts']);
+
+    expect(CardComponent).toMatchObject({
+      selector: 'ui-card',
+      standalone: false,
+      ngModule: 'CardModule',
+      slots: ['ui-card-title', 'default'],
+      props: [{ name: 'elevation', type: 'select', options: ['0', '1', '2'], required: false }],
+    });
+    // Not declared anywhere and no standalone flag: Angular 17 defaults to NgModule components
+    expect(ChipComponent.standalone).toBe(false);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Component reference
+// ────────────────────────────────────────────────────────────────
+
+describe('AngularAdapter component reference', () => {
+  it('describes selectors, inputs, outputs, projection and module membership', () => {
+    const component: DiscoveredComponent = {
+      name: 'CardComponent',
+      filePath: 'src/card.component.ts',
+      props: ['elevation'],
+      propTypes: [{ name: 'elevation', type: 'select', options: ['0', '1', '2'], required: true }],
+      events: [{ name: 'closed', payload: 'void' }],
+      slots: ['ui-card-title', 'default'],
+      selector: 'ui-card',
+      standalone: false,
+      ngModule: 'CardModule',
+      description: 'A surface for grouped content',
+      category: 'content',
+    };
+
+    const reference = new AngularAdapter().generateComponentReference([component], { importPath: 'my-ui' } as any);
+    expect(reference).toContain([
+      "- **CardComponent** (import from 'my-ui')",
+      '  Selector: <ui-card>',
+      '  Inputs: [elevation]: "0" | "1" | "2" (required)',
+      '  Outputs: (closed): void',
+      '  Content projection: <ng-content select="ui-card-title">, default <ng-content>',
+      '  Declared in CardModule: add CardModule to moduleMetadata imports',
+      '  A surface for grouped content',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { Request } from 'express';
+import { evaluateBudgets, resolveBudgets, BudgetExceededError } from '../story-generator/budgetGuard.js';
+import { getUsageClient } from '../mcp-server/routes/usage.js';
+import type { UsageRecord } from '../story-generator/usageLedger.js';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: Math.random().toString(36).slice(2),
+    timestamp: '2026-03-15T10:00:00.000Z',
+    day: '2026-03-15',
+    provider: 'claude',
+    model: 'claude-sonnet-4-6',
+    inputTokens: 1000,
+    outputTokens: 500,
+    cachedTokens: 0,
+    costUsd: 1,
+    responseCached: false,
+    ...overrides,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// resolveBudgets
+// ────────────────────────────────────────────────────────────────
+
+describe('resolveBudgets', () => {
+  it('lets environment variables override config limits', () => {
+    const budgets = resolveBudgets(
+      { dailyUsd: 10, perClient: { dailyUsd: 2 }, clients: { 'team-a': { monthlyUsd: 50 } } },
+      { STORY_UI_BUDGET_DAILY_USD: '25', STORY_UI_BUDGET_CLIENT_MONTHLY_TOKENS: '1000', STORY_UI_BUDGET_REQUIRE_CLIENT: 'true' }
+    );
+    expect(budgets.global).toEqual({ dailyUsd: 25 });
+    expect(budgets.perClient).toEqual({ dailyUsd: 2, monthlyTokens: 1000 });
+    expect(budgets.clients['team-a']).toEqual({ monthlyUsd: 50 });
+    expect(budgets.requireClient).toBe(true);
+    expect(budgets.clientIdentity).toBe('header');
+  });
+
+  it('reads the client identity source from config or environment', () => {
+    expect(resolveBudgets({ clientIdentity: 'ip' }, {}).clientIdentity).toBe('ip');
+    expect(resolveBudgets(undefined, { STORY_UI_BUDGET_CLIENT_IDENTITY: 'IP' }).clientIdentity).toBe('ip');
+    expect(resolveBudgets({ clientIdentity: 'ip' }, { STORY_UI_BUDGET_CLIENT_IDENTITY: 'nonsense' }).clientIdentity).toBe('ip');
+  });
+
+  it('ignores invalid environment values', () => {
+    expect(resolveBudgets(undefined, { STORY_UI_BUDGET_DAILY_USD: 'lots' }).global).toEqual({});
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// evaluateBudgets
+// ────────────────────────────────────────────────────────────────
+
+describe('evaluateBudgets', () => {
+  const records = [
+    record({ client: 'team-a' }),
+    record({ client: 'team-a', day: '2026-03-02', costUsd: 4 }),
+    record({ client: 'team-b', costUsd: 2 }),
+    record({ day: '2026-02-28', costUsd: 100 }),
+  ];
+
+  it('separates daily and monthly spend and ignores earlier months', () => {
+    const checks = evaluateBudgets(records, resolveBudgets({ dailyUsd: 5, monthlyUsd: 10 }, {}), undefined, NOW);
+    expect(checks.map(c => [c.period, c.used, c.exceeded])).toEqual([
+      ['daily', 3, false],
+      ['monthly', 7, false],
+    ]);
+    expect(checks[0].resetsAt).toBe('2026-03-16T00:00:00.000Z');
+    expect(checks[1].resetsAt).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('applies client overrides before the per-client default', () => {
+    const budgets = resolveBudgets({ perClient: { monthlyUsd: 3 }, clients: { 'team-b': { monthlyUsd: 10 } } }, {});
+    expect(evaluateBudgets(records, budgets, 'team-a', NOW)[0]).toMatchObject({ scope: 'client', used: 5, exceeded: true });
+    expect(evaluateBudgets(records, budgets, 'team-b', NOW)[0]).toMatchObject({ used: 2, exceeded: false });
+  });
+
+  it('applies the global limits whichever client a request claims', () => {
+    const budgets = resolveBudgets({ dailyUsd: 3, perClient: { dailyUsd: 100 } }, {});
+    const checks = evaluateBudgets(records, budgets, 'brand-new-client', NOW);
+    expect(checks.map(c => [c.scope, c.used, c.exceeded])).toEqual([
+      ['global', 3, true],
+      ['client', 0, false],
+    ]);
+  });
+
+  it('counts input and output tokens for token limits', () => {
+    const [check] = evaluateBudgets(records, resolveBudgets({ dailyTokens: 3000 }, {}), undefined, NOW);
+    expect(check).toMatchObject({ used: 3000, exceeded: true });
+    expect(new BudgetExceededError(check).message).toContain('3,000 tokens');
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// getUsageClient
+// ────────────────────────────────────────────────────────────────
+
+describe('getUsageClient', () => {
+  const request = (header?: string) =>
+    ({ ip: '203.0.113.7', get: (name: string) => (name === 'x-story-ui-client' ? header : undefined) }) as unknown as Request;
+
+  it('reads the self-declared header by default', () => {
+    expect(getUsageClient(request('  design-team '), 'header')).toBe('design-team');
+    expect(getUsageClient(request(), 'header')).toBeUndefined();
+  });
+
+  it('bills the caller address when configured, ignoring the header', () => {
+    expect(getUsageClient(request('someone-else'), 'ip')).toBe('203.0.113.7');
+  });
+});
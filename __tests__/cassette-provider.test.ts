@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Request, Response } from 'express';
+import { CassetteProvider, computeCassetteHash } from '../story-generator/llm-providers/cassette-provider.js';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { generateStoryFromPrompt } from '../mcp-server/routes/generateStory.js';
+import type { ChatMessage, ChatResponse, LLMProvider } from '../story-generator/llm-providers/types.js';
+
+// The sample story-ui.config.js at the repository root would shadow the config module
+vi.mock('../story-ui.config.js', () => import('../story-ui.config.ts'));
+
+const messages = [{ role: 'user' as const, content: 'Create a login form' }];
+
+function fakeUpstream(answer: string | ((messages: ChatMessage[]) => string)): LLMProvider & { calls: number } {
+  const upstream = {
+    name: 'Fake',
+    type: 'openai',
+    calls: 0,
+    isConfigured: () => true,
+    chat: async (messages: ChatMessage[]): Promise<ChatResponse> => {
+      upstream.calls++;
+      return {
+        id: 'resp-1',
+        model: 'fake-model',
+        content: typeof answer === 'string' ? answer : answer(messages),
+        finishReason: 'stop',
+        usage: { promptTokens: 5, completionTokens: 7, totalTokens: 12 },
+      };
+    },
+  };
+  return upstream as unknown as LLMProvider & { calls: number };
+}
+
+// ────────────────────────────────────────────────────────────────
+// CassetteProvider
+// ────────────────────────────────────────────────────────────────
+
+describe('CassetteProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-cassette-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records upstream responses and replays them without the upstream', async () => {
+    const upstream = fakeUpstream('export default {}');
+    const recorder = new CassetteProvider({ mode: 'record', directory: dir, upstream: () => upstream });
+    const recorded = await recorder.chat(messages, { systemPrompt: 'sys' });
+
+    expect(upstream.calls).toBe(1);
+    const fixturePath = path.join(dir, `${computeCassetteHash(messages, { systemPrompt: 'sys' })}.json`);
+    expect(fs.existsSync(fixturePath)).toBe(true);
+
+    const player = new CassetteProvider({ mode: 'replay', directory: dir });
+    const replayed = await player.chat(messages, { systemPrompt: 'sys', model: 'cassette' });
+    expect(replayed.content).toBe(recorded.content);
+    expect(replayed.usage.totalTokens).toBe(12);
+  });
+
+  it('keys recordings on the tool definitions', () => {
+    const tools = [{ name: 'list_components', description: 'List components', inputSchema: { type: 'object' } }];
+    expect(computeCassetteHash(messages, { tools })).not.toBe(computeCassetteHash(messages));
+    expect(computeCassetteHash(messages, { tools })).not.toBe(
+      computeCassetteHash(messages, { tools: [{ ...tools[0], description: 'Search components' }] })
+    );
+  });
+
+  it('fails clearly when a replay has no recording', async () => {
+    const player = new CassetteProvider({ mode: 'replay', directory: dir });
+    await expect(player.chat(messages)).rejects.toThrow(/no recording/);
+  });
+
+  it('is only configured for recording when an upstream is available', () => {
+    expect(new CassetteProvider({ mode: 'record', directory: dir }).isConfigured()).toBe(false);
+    expect(new CassetteProvider({ mode: 'replay', directory: dir }).isConfigured()).toBe(true);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Route replay
+// ────────────────────────────────────────────────────────────────
+
+const STORY = [
+  '```tsx',
+  "import type { Meta, StoryObj } from '@storybook/react';",
+  "import { Button } from 'test-ui';",
+  '',
+  'const meta = {',
+  "  title: 'Generated/Login Form',",
+  '  component: Button,',
+  '} satisfies Meta<typeof Button>;',
+  '',
+  'export default meta;',
+  'type Story = StoryObj<typeof meta>;',
+  '',
+  'export const Primary: Story = {',
+  '  render: () => <Button>Sign in</Button>,',
+  '};',
+  '```',
+].join('\n');
+
+/** Minimal Express response capturing the JSON body */
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function generate(prompt: string) {
+  const res = fakeResponse();
+  const req = { body: { prompt }, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await generateStoryFromPrompt(req as unknown as Request, res as unknown as Response);
+  return res;
+}
+
+describe('generateStory route with a cassette', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-cassette-route-'));
+    fs.mkdirSync(path.join(projectRoot, 'src/components'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectRoot, 'src/components/Button.tsx'),
+      'export interface ButtonProps { children?: React.ReactNode }\nexport function Button(props: ButtonProps) { return <button>{props.children}</button>; }\n'
+    );
+    fs.writeFileSync(path.join(projectRoot, 'story-ui.config.cjs'), `module.exports = ${JSON.stringify({
+      generatedStoriesPath: path.join(projectRoot, 'generated/stories'),
+      componentsPath: path.join(projectRoot, 'src/components'),
+      importPath: 'test-ui',
+      componentFramework: 'react',
+    })};`);
+    vi.spyOn(process, 'cwd').mockReturnValue(projectRoot);
+    vi.stubEnv('STORYBOOK_RUNTIME_VALIDATION', 'false');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('replays a recorded generation without the upstream provider', async () => {
+    const directory = path.join(projectRoot, 'cassettes');
+    const upstream = fakeUpstream(conversation =>
+      String(conversation[conversation.length - 1].content).startsWith('Given the following UI description') ? 'Login Form' : STORY
+    );
+    const registry = getProviderRegistry();
+
+    registry.register(new CassetteProvider({ mode: 'record', directory, upstream: () => upstream }));
+    const recorded = await generate('A login form with a sign in button');
+    expect(recorded.statusCode).toBe(200);
+    expect(recorded.body).toMatchObject({ success: true, title: 'Login Form' });
+    expect(upstream.calls).toBeGreaterThan(0);
+    const recordings = fs.readdirSync(directory);
+    expect(recordings.length).toBe(upstream.calls);
+
+    const callsWhileRecording = upstream.calls;
+    // Start the replay from a clean project so the story is not saved as a new version
+    fs.rmSync(path.join(projectRoot, 'generated'), { recursive: true, force: true });
+    registry.register(new CassetteProvider({ mode: 'replay', directory }));
+    const replayed = await generate('A login form with a sign in button');
+
+    expect(upstream.calls).toBe(callsWhileRecording);
+    expect(fs.readdirSync(directory)).toEqual(recordings);
+    expect(replayed.statusCode).toBe(200);
+    expect(replayed.body).toMatchObject({ success: true, title: recorded.body.title });
+    expect(replayed.body.story).toContain('<Button>Sign in</Button>');
+  });
+});
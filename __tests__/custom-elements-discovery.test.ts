@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverCustomElements, findCustomElementsManifest } from '../story-generator/customElementsDiscovery.js';
+import { WebComponentsAdapter } from '../story-generator/framework-adapters/web-components-adapter.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+let projectRoot: string;
+
+const MANIFEST = {
+  schemaVersion: '2.0.0',
+  modules: [
+    {
+      kind: 'javascript-module',
+      path: 'components/button/button.js',
+      declarations: [
+        {
+          kind: 'class',
+          name: 'SlButton',
+          tagName: 'sl-button',
+          customElement: true,
+          summary: 'Buttons represent actions.',
+          description: 'Buttons represent actions that are available to the user.\n\n@dependency sl-icon',
+          members: [
+            {
+              kind: 'field',
+              name: 'variant',
+              type: { text: "'default' | 'primary' | 'danger'" },
+              default: "'default'",
+              description: "The button's theme variant.",
+              attribute: 'variant',
+              reflects: true,
+            },
+            { kind: 'field', name: 'pill', type: { text: 'boolean' }, default: 'false', attribute: 'pill', reflects: true },
+            { kind: 'field', name: 'helpText', type: { text: 'string' }, default: "''" },
+            { kind: 'field', name: 'form', type: { text: 'HTMLFormElement | null' }, readonly: true },
+            { kind: 'field', name: 'validity', type: { text: 'ValidityState' } },
+            { kind: 'field', name: 'hasFocus', type: { text: 'boolean' }, privacy: 'private' },
+            { kind: 'field', name: 'styles', static: true },
+            { kind: 'method', name: 'focus' },
+          ],
+          attributes: [
+            { name: 'variant', fieldName: 'variant', type: { text: "'default' | 'primary' | 'danger'" } },
+            { name: 'pill', fieldName: 'pill', type: { text: 'boolean' } },
+            { name: 'help-text', fieldName: 'helpText', type: { text: 'string' }, description: 'Help text under the button.' },
+            { name: 'legacy-size', type: { text: "'s' | 'l'" }, deprecated: true },
+            { name: 'size', type: { text: "'small' | 'medium' | 'large'" }, default: "'medium'" },
+          ],
+          events: [
+            { name: 'sl-blur', description: 'Emitted when the button loses focus.' },
+            { name: 'sl-change', type: { text: 'CustomEvent<{ value: string }>' } },
+            { name: 'sl-invalid', type: { text: 'Event' } },
+          ],
+          slots: [
+            { name: '', description: "The button's label." },
+            { name: 'prefix', description: 'A presentational prefix icon.' },
+          ],
+          cssParts: [
+            { name: 'base', description: "The component's base wrapper." },
+            { name: 'label' },
+          ],
+          cssProperties: [
+            { name: '--sl-button-radius', syntax: '<length>', default: '4px', description: 'Corner radius.' },
+          ],
+        },
+        { kind: 'class', name: 'SlBase', description: 'Shared base class' },
+        { kind: 'function', name: 'registerIcons' },
+      ],
+    },
+  ],
+};
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-custom-elements-'));
+  fs.mkdirSync(path.join(projectRoot, 'meta'), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, 'package.json'), JSON.stringify({ customElements: 'meta/elements.json' }));
+  fs.writeFileSync(path.join(projectRoot, 'meta/elements.json'), JSON.stringify(MANIFEST));
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Manifest
+// ────────────────────────────────────────────────────────────────
+
+describe('discoverCustomElements', () => {
+  it('finds the manifest through package.json#customElements', () => {
+    expect(findCustomElementsManifest(projectRoot)).toBe(path.join(projectRoot, 'meta/elements.json'));
+  });
+
+  it('reads attributes, properties, events, slots, CSS parts and custom properties', () => {
+    const [button, ...rest] = discoverCustomElements(path.join(projectRoot, 'meta/elements.json'));
+
+    expect(rest).toEqual([]);
+    expect(button).toMatchObject({
+      name: 'SlButton',
+      tagName: 'sl-button',
+      modulePath: 'components/button/button.js',
+      description: 'Buttons represent actions.',
+      slots: ['default', 'prefix'],
+    });
+    expect(button.props).toEqual([
+      {
+        name: 'variant',
+        type: 'select',
+        options: ['default', 'primary', 'danger'],
+        description: "The button's theme variant.",
+        defaultValue: 'default',
+        attribute: 'variant',
+        reflects: true,
+      },
+      { name: 'pill', type: 'boolean', defaultValue: false, attribute: 'pill', reflects: true },
+      { name: 'helpText', type: 'string', description: 'Help text under the button.', defaultValue: '', attribute: 'help-text' },
+      { name: 'validity', type: 'object' },
+      { name: 'size', type: 'select', options: ['small', 'medium', 'large'], defaultValue: 'medium', attribute: 'size' },
+    ]);
+    expect(button.events).toEqual([
+      { name: 'sl-blur', description: 'Emitted when the button loses focus.' },
+      { name: 'sl-change', payload: '{ value: string }' },
+      { name: 'sl-invalid' },
+    ]);
+    expect(button.cssParts).toEqual([
+      { name: 'base', description: "The component's base wrapper." },
+      { name: 'label' },
+    ]);
+    expect(button.cssProperties).toEqual([
+      { name: '--sl-button-radius', description: 'Corner radius.', syntax: '<length>', defaultValue: '4px' },
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Component reference and sample story
+// ────────────────────────────────────────────────────────────────
+
+describe('WebComponentsAdapter', () => {
+  const component: DiscoveredComponent = {
+    name: 'SlButton',
+    filePath: 'components/button/button.js',
+    props: ['variant', 'pill', 'value'],
+    propTypes: [
+      { name: 'variant', type: 'select', options: ['default', 'primary'], defaultValue: 'default', attribute: 'variant', reflects: true },
+      { name: 'pill', type: 'boolean', attribute: 'pill' },
+      { name: 'value', type: 'array' },
+    ],
+    events: [{ name: 'sl-change', payload: '{ value: string }' }],
+    slots: ['default', 'prefix'],
+    selector: 'sl-button',
+    cssParts: [{ name: 'base', description: 'The base wrapper' }, { name: 'label' }],
+    cssProperties: [{ name: '--sl-button-radius', defaultValue: '4px' }],
+    description: 'Buttons represent actions.',
+    category: 'form',
+  };
+
+  it('describes the element API and its styling hooks', () => {
+    const reference = new WebComponentsAdapter().generateComponentReference([component], { importPath: 'my-ui' } as any);
+    expect(reference).toContain([
+      "- **SlButton** (import from 'my-ui')",
+      '  Tag: <sl-button>',
+      '  Attributes: variant (reflected): "default" | "primary" (default: "default"); ?pill: boolean',
+      '  Properties: .value: array',
+      '  Events: @sl-change (detail: { value: string })',
+      '  Slots: default, slot="prefix"',
+      '  CSS parts: ::part(base) - The base wrapper; ::part(label)',
+      '  CSS custom properties: --sl-button-radius (default: 4px)',
+      '  Buttons represent actions.',
+    ].join('\n'));
+  });
+
+  it('emits argTypes for attributes and events and a themed story', () => {
+    const story = new WebComponentsAdapter().generateSampleStory({ importPath: 'my-ui' } as any, [component]);
+
+    expect(story).toContain([
+      '  argTypes: {',
+      "    variant: { control: 'select', options: ['default', 'primary'] },",
+      "    pill: { control: 'boolean' },",
+      "    onSlChange: { action: 'sl-change' },",
+      '  },',
+      "  args: { variant: 'default' },",
+    ].join('\n'));
+    expect(story).toContain('<sl-button variant=${args.variant} ?pill=${args.pill} @sl-change=${args.onSlChange}></sl-button>');
+    expect(story).toContain('.themed { --sl-button-radius: 4px; }');
+    expect(story).toContain('.themed::part(base) { outline: 2px dashed currentColor; }');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CustomProvider } from '../story-generator/llm-providers/custom-provider.js';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { configureProviderRoute, validateApiKey as validateRoute } from '../mcp-server/routes/providers.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function stubFetch(handler: (url: string, init?: RequestInit) => Response | Promise<Response>) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => handler(url, init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function headersOf(init: RequestInit | undefined): Record<string, string> {
+  return (init?.headers || {}) as Record<string, string>;
+}
+
+/** Calls a provider route handler with a fake request and response */
+async function post(handler: typeof validateRoute, body: Record<string, unknown>) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+  };
+  await handler({ body } as any, res as any);
+  return res;
+}
+
+const COMPLETION = {
+  id: 'chatcmpl-1',
+  model: 'llama-3-70b',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'export default {};' }, finish_reason: 'length' }],
+  usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ────────────────────────────────────────────────────────────────
+// Requests
+// ────────────────────────────────────────────────────────────────
+
+describe('CustomProvider chat', () => {
+  it('posts an OpenAI-style request with declared model limits and extra headers', async () => {
+    const fetchMock = stubFetch(() => jsonResponse(COMPLETION));
+    const provider = new CustomProvider({
+      baseUrl: 'http://gateway.internal/v1/',
+      apiKey: 'secret',
+      headers: { 'X-Team': 'design' },
+      models: [{ id: 'llama-3-70b', maxOutputTokens: 2048 }],
+    });
+
+    const response = await provider.chat([{ role: 'user', content: 'A card story' }], {
+      systemPrompt: 'You write stories',
+      temperature: 0.2,
+      tools: [{ name: 'list_components', description: 'List components', inputSchema: { type: 'object' } }],
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://gateway.internal/v1/chat/completions');
+    expect(headersOf(init)).toMatchObject({ Authorization: 'Bearer secret', 'X-Team': 'design' });
+    expect(JSON.parse(String(init?.body))).toEqual({
+      model: 'llama-3-70b',
+      max_tokens: 2048,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: 'You write stories' },
+        { role: 'user', content: 'A card story' },
+      ],
+      tools: [{ type: 'function', function: { name: 'list_components', description: 'List components', parameters: { type: 'object' } } }],
+    });
+    expect(response).toMatchObject({
+      id: 'chatcmpl-1',
+      content: 'export default {};',
+      finishReason: 'length',
+      usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 },
+    });
+  });
+
+  it('keeps full chat-completions URLs with their query string', async () => {
+    const fetchMock = stubFetch(() => jsonResponse(COMPLETION));
+    const provider = new CustomProvider({
+      baseUrl: 'https://acme.openai.azure.com/openai/deployments/gpt/chat/completions?api-version=2024-10-21',
+      model: 'gpt',
+    });
+
+    await provider.chat([{ role: 'user', content: 'hi' }]);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://acme.openai.azure.com/openai/deployments/gpt/chat/completions?api-version=2024-10-21');
+  });
+
+  it('surfaces HTTP errors and timeouts', async () => {
+    stubFetch(() => new Response('model overloaded', { status: 503 }));
+    const provider = new CustomProvider({ baseUrl: 'http://localhost:8000/v1', model: 'local' });
+    await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow('Custom provider API error: 503 - model overloaded');
+
+    stubFetch(() => {
+      throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    });
+    provider.configure({ provider: 'custom', baseUrl: 'http://localhost:8000/v1', model: 'local' });
+    await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow('timed out after 120000ms');
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Models and validation
+// ────────────────────────────────────────────────────────────────
+
+describe('CustomProvider validation', () => {
+  it('lists the endpoint models when none are declared', async () => {
+    const fetchMock = stubFetch(() => jsonResponse({ data: [{ id: 'qwen-coder' }, { id: 'llama-3-8b' }] }));
+    const provider = new CustomProvider({ baseUrl: 'http://localhost:8000/v1' });
+
+    const result = await provider.validateApiKey('candidate');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/models');
+    expect(headersOf(fetchMock.mock.calls[0][1]).Authorization).toBe('Bearer candidate');
+    expect(result.valid).toBe(true);
+    expect(result.models?.map(model => model.id)).toEqual(['qwen-coder', 'llama-3-8b']);
+    expect(result.models?.[0]).toMatchObject({ provider: 'custom', contextWindow: 32768, maxOutputTokens: 4096 });
+  });
+
+  it('prefers declared models over the endpoint list', async () => {
+    stubFetch(() => jsonResponse({ data: [{ id: 'other' }] }));
+    const provider = new CustomProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      models: [{ id: 'llama-3-70b', name: 'Llama 3 70B', contextWindow: 128000, supportsVision: true }],
+    });
+
+    const result = await provider.validateApiKey('');
+
+    expect(result.models).toEqual([expect.objectContaining({ id: 'llama-3-70b', name: 'Llama 3 70B', contextWindow: 128000, supportsVision: true })]);
+    expect(provider.getConfig().model).toBe('llama-3-70b');
+  });
+
+  it('maps auth failures and falls back to a completion probe without /models', async () => {
+    stubFetch(() => new Response('unauthorized', { status: 401 }));
+    const provider = new CustomProvider({ baseUrl: 'http://localhost:8000/v1', model: 'local' });
+    expect(await provider.validateApiKey('wrong')).toEqual({ valid: false, error: 'Invalid API key' });
+
+    const fetchMock = stubFetch(url => url.endsWith('/models')
+      ? new Response('not found', { status: 404 })
+      : jsonResponse(COMPLETION));
+    expect((await provider.validateApiKey('key')).valid).toBe(true);
+    expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:8000/v1/chat/completions');
+    expect(JSON.parse(String(fetchMock.mock.calls[1][1]?.body))).toMatchObject({ model: 'local', max_tokens: 1 });
+  });
+
+  it('reports other probe failures with the response body', async () => {
+    stubFetch(url => url.endsWith('/models')
+      ? new Response('not found', { status: 404 })
+      : new Response('unknown model', { status: 400 }));
+    const provider = new CustomProvider({ baseUrl: 'http://localhost:8000/v1', model: 'local' });
+
+    expect(await provider.validateApiKey('key')).toEqual({ valid: false, error: 'API validation failed: unknown model' });
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Stored credentials
+// ────────────────────────────────────────────────────────────────
+
+describe('custom provider routes', () => {
+  const stored = { provider: 'custom' as const, baseUrl: 'http://gateway.internal/v1', apiKey: 'stored-secret', headers: { 'X-Gateway-Token': 'stored-token' }, model: 'llama' };
+
+  it('does not send stored credentials to an endpoint named in a validate request', async () => {
+    getProviderRegistry().configureProvider('custom', stored);
+    const fetchMock = stubFetch(() => jsonResponse({ data: [{ id: 'llama' }] }));
+
+    const res = await post(validateRoute, { provider: 'custom', baseUrl: 'http://elsewhere/v1' });
+
+    expect(res.body).toMatchObject({ valid: true });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://elsewhere/v1/models');
+    expect(headersOf(fetchMock.mock.calls[0][1])).toEqual({ 'Content-Type': 'application/json' });
+
+    await post(validateRoute, { provider: 'custom', baseUrl: stored.baseUrl });
+    expect(headersOf(fetchMock.mock.calls[1][1])).toMatchObject({ 'X-Gateway-Token': 'stored-token' });
+  });
+
+  it('drops stored headers when an endpoint is reconfigured without them', async () => {
+    getProviderRegistry().configureProvider('custom', stored);
+
+    await post(configureProviderRoute, { provider: 'custom', baseUrl: 'http://elsewhere/v1', model: 'llama' });
+    expect(getProviderRegistry().get('custom')!.getConfig()).toMatchObject({ baseUrl: 'http://elsewhere/v1', apiKey: undefined, headers: undefined });
+
+    getProviderRegistry().configureProvider('custom', stored);
+    await post(configureProviderRoute, { provider: 'custom', apiKey: 'new-key', model: 'llama' });
+    expect(getProviderRegistry().get('custom')!.getConfig()).toMatchObject({ baseUrl: stored.baseUrl, apiKey: 'new-key', headers: stored.headers });
+  });
+});
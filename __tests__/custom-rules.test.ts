@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCustomRules, getCustomRulePromptRules } from '../story-generator/customRules.js';
+import { validateStoryCode } from '../story-generator/validateStory.js';
+import { aggregateValidationErrors, formatErrorsForLog } from '../story-generator/selfHealingLoop.js';
+import { logger } from '../story-generator/logger.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+let dir: string;
+let config: StoryUIConfig;
+
+const components = [
+  { name: 'AppShell', props: [] },
+  { name: 'Grid', props: [], deprecatedProps: ['gutter'] },
+] as unknown as DiscoveredComponent[];
+
+const RULES = `
+module.exports = {
+  rules: [
+    {
+      name: 'require-app-shell',
+      description: 'Wrap every page story in <AppShell>',
+      check({ code, sourceFile, ts, lineOf }) {
+        if (!/title: 'Generated\\/Pages\\//.test(code) || code.includes('<AppShell')) return;
+        const story = sourceFile.statements.find(s => ts.isVariableStatement(s) && s.getText().includes('render'));
+        return { message: 'Page stories must render inside <AppShell>', line: story ? lineOf(story) : 1, fix: 'wrap the render output in <AppShell>' };
+      },
+    },
+    {
+      name: 'box-depth',
+      severity: 'warning',
+      description: 'Do not nest Box more than 3 levels deep',
+      check({ sourceFile, ts, lineOf }) {
+        const findings = [];
+        const visit = (node, depth) => {
+          const isBox = ts.isJsxElement(node) && node.openingElement.tagName.getText() === 'Box';
+          if (isBox && depth === 3) findings.push({ message: 'Box nested more than 3 levels deep', line: lineOf(node) });
+          ts.forEachChild(node, child => visit(child, isBox ? depth + 1 : depth));
+        };
+        visit(sourceFile, 0);
+        return findings;
+      },
+    },
+    {
+      name: 'deprecated-props',
+      check({ code, components, lineOf }) {
+        return components.flatMap(c => (c.deprecatedProps || []).flatMap(prop => {
+          const match = new RegExp('<' + c.name + '\\\\b[^>]*\\\\b' + prop + '=').exec(code);
+          return match ? [{ message: c.name + ' prop "' + prop + '" is deprecated', line: lineOf(match.index), fix: 'use gap instead' }] : [];
+        }));
+      },
+    },
+    { name: 'throws', check() { throw new Error('boom'); } },
+  ],
+};
+`;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-rules-'));
+  fs.writeFileSync(path.join(dir, 'story-rules.cjs'), RULES);
+  config = {
+    componentFramework: 'react',
+    customRules: { modules: [path.join(dir, 'story-rules.cjs')] },
+  } as StoryUIConfig;
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const story = [
+  "import React from 'react';",
+  "import { Box, Grid } from 'acme-ui';",
+  "export default { title: 'Generated/Pages/Settings' };",
+  'export const Default = {',
+  '  render: () => (',
+  '    <Box><Box><Box>',
+  '      <Box>Deep</Box>',
+  '    </Box></Box></Box>',
+  '  ),',
+  '};',
+  'export const Layout = { render: () => <Grid gutter={2} /> };',
+].join('\n');
+
+// ────────────────────────────────────────────────────────────────
+// runCustomRules
+// ────────────────────────────────────────────────────────────────
+
+describe('runCustomRules', () => {
+  it('runs rule modules against the story AST and discovered components', () => {
+    expect(runCustomRules(story, 'story.stories.tsx', config, components).map(f => [f.rule, f.severity, f.line, f.message, f.fix?.description])).toEqual([
+      ['require-app-shell', 'error', 4, 'Page stories must render inside <AppShell> (require-app-shell)', 'wrap the render output in <AppShell>'],
+      ['box-depth', 'warning', 7, 'Box nested more than 3 levels deep (box-depth)', undefined],
+      ['deprecated-props', 'error', 11, 'Grid prop "gutter" is deprecated (deprecated-props)', 'use gap instead'],
+    ]);
+  });
+
+  it('applies severity overrides from the config', () => {
+    const overridden = {
+      ...config,
+      customRules: { ...config.customRules, severity: { 'require-app-shell': 'off', 'box-depth': 'error' } },
+    } as StoryUIConfig;
+    expect(runCustomRules(story, 'story.stories.tsx', overridden, components).map(f => [f.rule, f.severity])).toEqual([
+      ['box-depth', 'error'],
+      ['deprecated-props', 'error'],
+    ]);
+    expect(runCustomRules(story, 'story.stories.tsx', { customRules: { modules: [path.join(dir, 'missing.cjs')] } } as StoryUIConfig)).toEqual([]);
+  });
+
+  it('states described rules in the prompt', () => {
+    expect(getCustomRulePromptRules(config)).toEqual([
+      '',
+      'PROJECT RULES:',
+      '- Wrap every page story in <AppShell>',
+      '- Do not nest Box more than 3 levels deep',
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Rule modules
+// ────────────────────────────────────────────────────────────────
+
+describe('rule modules', () => {
+  const rule = "{ name: 'no-todo', check: ({ code }) => code.includes('TODO') ? { message: 'Remove TODOs', line: 1 } : [] }";
+
+  it('keeps only the exports that are rules', () => {
+    const modulePath = path.join(dir, 'default-rules.cjs');
+    fs.writeFileSync(modulePath, `module.exports = { default: { rules: [${rule}, 'not a rule', { name: 'no-check' }] } };`);
+    const findings = runCustomRules('// TODO', 'story.stories.tsx', { customRules: { modules: [modulePath] } } as StoryUIConfig);
+    expect(findings.map(f => f.rule)).toEqual(['no-todo']);
+  });
+
+  it('explains when an ES module rule file cannot be required', () => {
+    const modulePath = path.join(dir, 'async-rules.mjs');
+    fs.writeFileSync(modulePath, `await Promise.resolve();\nexport default [${rule}];`);
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    try {
+      expect(runCustomRules('// TODO', 'story.stories.tsx', { customRules: { modules: [modulePath] } } as StoryUIConfig)).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('is an ES module that require() can\'t load'));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Self-healing integration
+// ────────────────────────────────────────────────────────────────
+
+describe('custom rules in validateStoryCode', () => {
+  it('reports errors for self-healing and warnings with the result', () => {
+    const result = validateStoryCode(story, 'story.stories.tsx', config, components);
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toContain('Line 7: Box nested more than 3 levels deep (box-depth)');
+
+    const errors = aggregateValidationErrors(result, [], []);
+    expect(errors.customRuleErrors).toEqual([
+      'Line 4: Page stories must render inside <AppShell> (require-app-shell). Fix: wrap the render output in <AppShell>',
+      'Line 11: Grid prop "gutter" is deprecated (deprecated-props). Fix: use gap instead',
+    ]);
+    expect(formatErrorsForLog(errors)).toBe('Rule(2)');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateDesignGuidelines,
+  getGuidelinePromptRules,
+  hasEnforcedGuidelines,
+} from '../story-generator/designGuidelinesValidator.js';
+import type { DesignSystemGuidelines } from '../story-ui.config.js';
+
+const guidelines: DesignSystemGuidelines = {
+  name: 'Acme',
+  spacingTokens: { prefix: '--space', values: ['4', '8', '16', '24'] },
+  colorTokens: { prefix: '--color', categories: ['primary', 'neutral'] },
+  enforcementRules: { requireDesignTokens: true, prohibitArbitraryValues: true, enforceComponentLibrary: true },
+};
+
+function violations(code: string, config: DesignSystemGuidelines = guidelines, fileName?: string, components: string[] = []) {
+  return validateDesignGuidelines(code, config, fileName, components).map(v => [v.rule, v.severity, v.line]);
+}
+
+// ────────────────────────────────────────────────────────────────
+// validateDesignGuidelines
+// ────────────────────────────────────────────────────────────────
+
+describe('validateDesignGuidelines', () => {
+  it('flags hard-coded colors and px spacing with token suggestions', () => {
+    const code = [
+      'export const Card = () => (',
+      "  <div style={{ padding: 18, color: '#ff0000', margin: 'var(--space-8)' }}>",
+      '    <Badge color="rgb(0, 0, 0)" />',
+      "    <Box sx={{ p: 2, '&:hover': { backgroundColor: 'white' } }} />",
+      '    <a href="#add">Add</a>',
+      '  </div>',
+      ');',
+    ].join('\n');
+    const found = validateDesignGuidelines(code, guidelines);
+    expect(found.map(v => [v.rule, v.line])).toEqual([
+      ['spacing-token', 2],
+      ['color-token', 2],
+      ['color-token', 3],
+      ['color-token', 4],
+    ]);
+    expect(found[0]).toMatchObject({ severity: 'warning', suggestion: 'var(--space-16)' });
+    expect(found[0].message).toBe('Raw spacing padding: 18px; use var(--space-16) (spacing-token)');
+    expect(found[1].message).toBe('Hard-coded color #ff0000 in color; use a color token (var(--color-primary), var(--color-neutral)) (color-token)');
+  });
+
+  it('flags arbitrary values and raw elements the library covers', () => {
+    const code = [
+      "import { Button, Checkbox } from 'acme-ui';",
+      'export const Form = () => (',
+      '  <form className={cn("grid", active && "w-[37px]")}>',
+      "    <h2 style={{ fontSize: '13px', lineHeight: 1.4 }}>Title</h2>",
+      '    <button>Save</button>',
+      '    <input type="checkbox" />',
+      '    <input type="hidden" />',
+      '  </form>',
+      ');',
+    ].join('\n');
+    expect(violations(code, guidelines, undefined, ['Button', 'Checkbox'])).toEqual([
+      ['arbitrary-value', 'error', 3],
+      ['arbitrary-value', 'error', 4],
+      ['component-library', 'warning', 5],
+      ['component-library', 'warning', 6],
+    ]);
+  });
+
+  it('applies prohibited patterns to classes, imports and inline styles in templates', () => {
+    const config: DesignSystemGuidelines = {
+      name: 'Acme',
+      prohibitedPatterns: { cssFrameworks: ['tailwindcss', 'bootstrap'], classNamePatterns: ['^legacy-'], inlineStyles: ['color'] },
+      enforcementRules: { severity: { 'inline-style': 'error', 'prohibited-class': 'off' } },
+    };
+    const svelte = [
+      '<script>',
+      "  import 'bootstrap/dist/css/bootstrap.min.css';",
+      '</script>',
+      '<div class="legacy-card flex gap-6 bg-blue-500" style="color: red; padding: 8px">',
+      '  <span class="btn btn-primary">Go</span>',
+      '</div>',
+    ].join('\n');
+    expect(violations(svelte, config, 'story.stories.svelte')).toEqual([
+      ['prohibited-css-framework', 'error', 2],
+      ['prohibited-css-framework', 'error', 4],
+      ['inline-style', 'error', 4],
+      ['prohibited-css-framework', 'error', 5],
+    ]);
+
+    const lit = 'export const A = { render: () => html`<sl-card class="legacy-card" style="color: #333"></sl-card>` };';
+    expect(violations(lit, { name: 'Acme', prohibitedPatterns: { classNamePatterns: ['^legacy-'], inlineStyles: ['*'] } }, 'story.stories.ts'))
+      .toEqual([['prohibited-class', 'error', 1], ['inline-style', 'warning', 1]]);
+  });
+
+  it('does nothing when no rules are enforced', () => {
+    expect(hasEnforcedGuidelines({ name: 'Acme', additionalNotes: 'Use Stack' })).toBe(false);
+    expect(validateDesignGuidelines("<div style={{ color: '#fff' }} />", { name: 'Acme' })).toEqual([]);
+    expect(getGuidelinePromptRules(undefined)).toEqual([]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// getGuidelinePromptRules
+// ────────────────────────────────────────────────────────────────
+
+describe('getGuidelinePromptRules', () => {
+  it('describes the enforced rules with the configured tokens', () => {
+    const rules = getGuidelinePromptRules({ ...guidelines, prohibitedPatterns: { inlineStyles: ['*'] } });
+    expect(rules[1]).toBe('ACME DESIGN SYSTEM RULES:');
+    expect(rules).toContain('- Use design tokens for spacing (var(--space-4), var(--space-8), var(--space-16), var(--space-24)) instead of px values');
+    expect(rules).toContain('- Do not use inline styles');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toDiagnostic,
+  parseDiagnostic,
+  formatDiagnostic,
+  isSuppressed,
+} from '../story-generator/diagnostics.js';
+import { aggregateValidationErrors, suppressDiagnostics, formatErrorsForLog } from '../story-generator/selfHealingLoop.js';
+import { validateComponentProps } from '../story-generator/propValidator.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+// ────────────────────────────────────────────────────────────────
+// Codes and text form
+// ────────────────────────────────────────────────────────────────
+
+describe('diagnostic codes', () => {
+  it('parses validator strings into codes and ranges', () => {
+    expect(parseDiagnostic('ts', "Line 4, Column 9: Type 'number' is not assignable to type 'string'. (TS2322)")).toEqual({
+      code: 'ts/2322',
+      severity: 'error',
+      source: 'ts',
+      rule: '2322',
+      message: "Type 'number' is not assignable to type 'string'. (TS2322)",
+      range: { start: { line: 4, column: 9 } },
+    });
+    expect(parseDiagnostic('syntax', "Line 2: ',' expected. (TS1005)").code).toBe('syntax/ts1005');
+    expect(parseDiagnostic('import', 'Unknown import "Buton" from "my-ui"')).toMatchObject({
+      code: 'import/unknown-import',
+      range: undefined,
+    });
+  });
+
+  it('formats diagnostics back into the strings the validators report', () => {
+    const texts = ['Line 4, Column 9: Bad value (TS2322)', 'Line 2: Missing export', 'No location'];
+    expect(texts.map(text => formatDiagnostic(parseDiagnostic('ts', text)))).toEqual(texts);
+    const finding = { line: 3, message: 'Use AppShell (require-app-shell)', rule: 'require-app-shell', fix: { description: 'wrap it' } };
+    expect(formatDiagnostic(toDiagnostic('custom', finding))).toBe('Line 3: Use AppShell (require-app-shell). Fix: wrap it');
+  });
+
+  it('matches suppressions by code, source and wildcard', () => {
+    expect(isSuppressed('a11y/image-alt', ['a11y/image-alt'])).toBe(true);
+    expect(isSuppressed('a11y/image-alt', ['a11y'])).toBe(true);
+    expect(isSuppressed('ts/2322', ['ts/23*'])).toBe(true);
+    expect(isSuppressed('ts/2741', ['ts/23*', 'a11y'])).toBe(false);
+    expect(isSuppressed('a11y-extra/x', ['a11y'])).toBe(false);
+    expect(isSuppressed('ts/2322', undefined)).toBe(false);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Self-healing integration
+// ────────────────────────────────────────────────────────────────
+
+describe('diagnostics in the self-healing loop', () => {
+  it('collects every category as diagnostics and drops suppressed codes', () => {
+    const errors = aggregateValidationErrors(
+      { isValid: true, errors: [], warnings: [] },
+      [{ line: 5, message: 'Inline styles are not allowed', rule: 'unsafe-style' }],
+      ['Unknown import "Buton" from "my-ui"'],
+      ["Line 8, Column 3: Property 'label' is missing (TS2741)"],
+      null,
+      null,
+      [{ line: 9, message: 'Image has no alt text', rule: 'image-alt' }]
+    );
+    expect(errors.diagnostics.map(d => d.code)).toEqual([
+      'pattern/unsafe-style',
+      'import/unknown-import',
+      'ts/2741',
+      'a11y/image-alt',
+    ]);
+    expect(errors.patternErrors).toEqual(['Line 5: Inline styles are not allowed']);
+
+    const suppressed = suppressDiagnostics(errors, ['a11y', 'ts/2741']);
+    expect(suppressed.diagnostics.map(d => d.code)).toEqual(['pattern/unsafe-style', 'import/unknown-import']);
+    expect(suppressed.typeErrors).toEqual([]);
+    expect(suppressed.a11yErrors).toEqual([]);
+    expect(formatErrorsForLog(suppressed)).toBe('Pattern(1), Import(1)');
+  });
+
+  it('attaches a machine-applicable rename fix to unknown props', () => {
+    const components = [
+      { name: 'Button', filePath: 'src/Button.tsx', props: ['color'], description: 'Button', category: 'form' },
+    ] as DiscoveredComponent[];
+    const code = [
+      "import { Button } from 'my-ui';",
+      'export const Primary = () => <Button colour="red" />;',
+    ].join('\n');
+
+    const [error] = validateComponentProps(code, components);
+    expect(error).toMatchObject({ rule: 'unknown-prop', line: 2, column: 38 });
+    const [edit] = error.fix!.edits!;
+    const line = code.split('\n')[1];
+    expect(line.slice(0, edit.startColumn - 1) + edit.newText + line.slice(edit.endColumn - 1))
+      .toBe('export const Primary = () => <Button color="red" />;');
+    expect(toDiagnostic('prop', error).code).toBe('prop/unknown-prop');
+  });
+});
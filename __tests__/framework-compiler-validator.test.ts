@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { validateFrameworkCompilation, mergeCompilerErrors } from '../story-generator/frameworkCompilerValidator.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+let projectRoot: string;
+let emptyRoot: string;
+
+/** Position of `<broken` in a template: 1-based line, 0-based column */
+const LOCATE = [
+  'function locate(source) {',
+  "  const before = source.slice(0, source.indexOf('<broken'));",
+  "  const lines = before.split('\\n');",
+  '  return { line: lines.length, column: lines[lines.length - 1].length };',
+  '}',
+].join('\n');
+
+function writePackage(name: string, files: Record<string, string>) {
+  const dir = path.join(projectRoot, 'node_modules', name);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+}
+
+beforeAll(() => {
+  // Vue, Svelte and Angular aren't dependencies of this repository, so the
+  // project gets minimal compilers that report the shapes the real ones do
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-compilers-'));
+  emptyRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-no-compilers-'));
+  fs.writeFileSync(path.join(projectRoot, 'package.json'), '{"name":"compiler-fixture","private":true}');
+
+  writePackage('@vue/compiler-sfc', {
+    'package.json': '{"name":"@vue/compiler-sfc","main":"index.js"}',
+    'index.js': [
+      LOCATE,
+      'exports.compileTemplate = ({ source }) => {',
+      "  if (!source.includes('<broken')) return { code: '', errors: [] };",
+      '  const { line, column } = locate(source);',
+      "  return { code: '', errors: [{ message: 'Element is missing end tag.', loc: { start: { line, column: column + 1 } } }] };",
+      '};',
+    ].join('\n'),
+  });
+
+  writePackage('svelte', {
+    'package.json': '{"name":"svelte","exports":{"./compiler":"./compiler.js"}}',
+    'compiler.js': [
+      LOCATE,
+      'exports.compile = (source) => {',
+      "  if (!source.includes('<broken')) return { warnings: [] };",
+      "  throw Object.assign(new Error('`<broken>` was left open\\nhttps://svelte.dev/e/element_unclosed'), { code: 'element_unclosed', start: locate(source) });",
+      '};',
+    ].join('\n'),
+  });
+
+  writePackage('@angular/compiler', {
+    'package.json': '{"name":"@angular/compiler","type":"module","exports":{".":{"default":"./index.js"}}}',
+    'index.js': [
+      LOCATE,
+      'export function parseTemplate(source) {',
+      "  const warning = { msg: 'Unused directive', level: 0, span: { start: { line: 0, col: 0 } } };",
+      '  if (!source.includes(\'<broken\')) return { errors: [warning], nodes: [] };',
+      '  const { line, column } = locate(source);',
+      '  return { errors: [warning, { msg: \'Unexpected character "EOF"\', level: 1, span: { start: { line: line - 1, col: column } } }], nodes: [] };',
+      '}',
+    ].join('\n'),
+  });
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+  fs.rmSync(emptyRoot, { recursive: true, force: true });
+});
+
+// ────────────────────────────────────────────────────────────────
+// validateFrameworkCompilation
+// ────────────────────────────────────────────────────────────────
+
+describe('validateFrameworkCompilation', () => {
+  it('maps Vue template errors back onto the story, across substitutions', async () => {
+    const code = [
+      "import type { Meta, StoryObj } from '@storybook/vue3';",
+      "import { Button } from 'my-ui';",
+      "export default { title: 'Generated/Button', component: Button } satisfies Meta<typeof Button>;",
+      'export const Primary: StoryObj = {',
+      '  render: (args) => ({',
+      '    components: { Button },',
+      '    setup: () => ({ args }),',
+      '    template: `<div class="${[',
+      "      'row',",
+      "    ].join(' ')}\">",
+      '      <Button v-bind="args"><broken>Save</Button>',
+      '    </div>`,',
+      '  }),',
+      '};',
+      "export const Inline: StoryObj = { render: () => ({ template: '<broken>' }) };",
+    ].join('\n');
+
+    const result = await validateFrameworkCompilation(code, 'story.stories.ts', 'vue', undefined, projectRoot);
+    expect(result).toMatchObject({ checked: true, compiler: 'vue' });
+    expect(result.errors.map(e => [e.line, e.column, e.message])).toEqual([
+      [11, 29, 'Element is missing end tag. (vue template compiler)'],
+      [15, 63, 'Element is missing end tag. (vue template compiler)'],
+    ]);
+  });
+
+  it('compiles .stories.svelte files with the Svelte compiler', async () => {
+    const code = [
+      '<script module>',
+      "  import { defineMeta } from '@storybook/addon-svelte-csf';",
+      "  const { Story } = defineMeta({ title: 'Generated/Card' });",
+      '</script>',
+      '<Story name="Default">',
+      '  <div><broken></div>',
+      '</Story>',
+    ].join('\n');
+
+    const result = await validateFrameworkCompilation(code, 'story.stories.svelte', 'svelte', undefined, projectRoot);
+    expect(result.errors).toEqual([
+      { compiler: 'svelte', rule: 'svelte', message: '`<broken>` was left open (svelte compiler)', line: 6, column: 8 },
+    ]);
+  });
+
+  it('parses Angular templates and ignores parser warnings', async () => {
+    const code = [
+      "import type { Meta, StoryObj } from '@storybook/angular';",
+      "export default { title: 'Generated/Alert' } satisfies Meta;",
+      'export const Default: StoryObj = {',
+      '  render: (args) => ({',
+      '    props: args,',
+      '    template: `',
+      '      @if (args.open) {',
+      '        <broken',
+      '      }`,',
+      '  }),',
+      '};',
+      "export const Valid: StoryObj = { render: () => ({ template: '<ui-alert>Saved</ui-alert>' }) };",
+    ].join('\n');
+
+    const result = await validateFrameworkCompilation(code, 'story.stories.ts', 'angular', undefined, projectRoot);
+    expect(result.errors.map(e => [e.line, e.column, e.message])).toEqual([
+      [8, 9, 'Unexpected character "EOF" (angular template parser)'],
+    ]);
+
+    const merged = mergeCompilerErrors({ isValid: true, errors: [], warnings: [] }, result.errors);
+    expect(merged).toMatchObject({
+      isValid: false,
+      errors: ['Line 8, Column 9: Unexpected character "EOF" (angular template parser)'],
+      warnings: [],
+    });
+  });
+
+  it('skips stories it has no compiler for', async () => {
+    const template = "export const A = { render: () => ({ template: '<broken>' }) };";
+    expect(await validateFrameworkCompilation(template, 'story.stories.ts', 'vue', undefined, emptyRoot))
+      .toMatchObject({ checked: false, skippedReason: '@vue/compiler-sfc is not installed', errors: [] });
+    expect(await validateFrameworkCompilation(template, 'story.stories.tsx', 'react', undefined, projectRoot))
+      .toMatchObject({ checked: false, errors: [] });
+    const config = { compilerCheck: { enabled: false } } as StoryUIConfig;
+    expect(await validateFrameworkCompilation(template, 'story.stories.ts', 'vue', config, projectRoot))
+      .toMatchObject({ checked: false, skippedReason: 'Compiler check is disabled' });
+  });
+});
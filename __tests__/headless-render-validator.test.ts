@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderStoryHeadless } from '../story-generator/headlessRenderValidator.js';
+import { formatRuntimeErrorForHealing } from '../story-generator/runtimeValidator.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+let projectRoot: string;
+let config: StoryUIConfig;
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-render-'));
+  fs.mkdirSync(path.join(projectRoot, 'src', 'stories'), { recursive: true });
+  fs.mkdirSync(path.join(projectRoot, '.storybook'));
+  // React, react-dom and esbuild come from this repository's node_modules
+  fs.symlinkSync(path.resolve('node_modules'), path.join(projectRoot, 'node_modules'), 'dir');
+  fs.writeFileSync(path.join(projectRoot, 'package.json'), '{"name":"render-fixture","private":true}');
+  fs.writeFileSync(path.join(projectRoot, 'src', 'ui.tsx'), [
+    "import { createContext, useContext } from 'react';",
+    "import './ui.css';",
+    'export const Theme = createContext<{ accent: string } | null>(null);',
+    'export function Badge({ label }: { label: string }) {',
+    '  const theme = useContext(Theme);',
+    "  if (!theme) throw new Error('Badge must be rendered inside <Theme.Provider>');",
+    '  return <span style={{ color: theme.accent }}>{label.toUpperCase()}</span>;',
+    '}',
+  ].join('\n'));
+  fs.writeFileSync(path.join(projectRoot, 'src', 'ui.css'), '.badge { color: red; }');
+  fs.writeFileSync(path.join(projectRoot, '.storybook', 'preview.tsx'), [
+    "import { Theme } from '../src/ui';",
+    'export default {',
+    "  decorators: [(Story) => <Theme.Provider value={{ accent: 'blue' }}><Story /></Theme.Provider>],",
+    '};',
+  ].join('\n'));
+  config = { generatedStoriesPath: path.join(projectRoot, 'src', 'stories'), renderCheck: { enabled: true } } as StoryUIConfig;
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+const storyHeader = [
+  "import type { Meta } from '@storybook/react';",
+  "import { Badge } from '../ui';",
+  "const meta = { title: 'Generated/Badge', component: Badge, args: { label: 'new' } } satisfies Meta<typeof Badge>;",
+  'export default meta;',
+];
+
+// ────────────────────────────────────────────────────────────────
+// renderStoryHeadless
+// ────────────────────────────────────────────────────────────────
+
+describe('renderStoryHeadless', () => {
+  it('renders stories composed with args and preview decorators', async () => {
+    const code = [
+      ...storyHeader,
+      'export const Default = {};',
+      "export const List = { render: (args) => <div>{['a', 'b'].map(l => <Badge key={l} {...args} label={l} />)}</div> };",
+    ].join('\n');
+    const result = await renderStoryHeadless(code, config, 'story.stories.tsx', projectRoot);
+    expect(result).toMatchObject({ success: true, checked: true, renderedStories: ['Default', 'List'] });
+  });
+
+  it('maps thrown render errors and React warnings into runtime results', async () => {
+    const throwing = [...storyHeader, 'export const Empty = { args: { label: undefined } };'].join('\n');
+    const failed = await renderStoryHeadless(throwing, config, 'story.stories.tsx', projectRoot);
+    expect(failed).toMatchObject({ success: false, storyExists: true, errorType: 'render_error' });
+    expect(failed.renderError).toMatch(/^Story "Empty" threw: TypeError: .*toUpperCase/);
+    expect(formatRuntimeErrorForHealing(failed)).toContain('component render error');
+
+  });
+
+  it('reports React warnings, and fails on them only with failOnWarnings', async () => {
+    const warning = [...storyHeader, "export const List = { render: () => <ul>{['a', 'b'].map(l => <li>{l}</li>)}</ul> };"].join('\n');
+    const passed = await renderStoryHeadless(warning, config, 'story.stories.tsx', projectRoot);
+    expect(passed).toMatchObject({ success: true, renderedStories: ['List'] });
+    expect(passed.warnings![0]).toContain('unique "key" prop');
+
+    const strict = { ...config, renderCheck: { enabled: true, failOnWarnings: true } };
+    const warned = await renderStoryHeadless(warning, strict, 'story.stories.tsx', projectRoot);
+    expect(warned).toMatchObject({ success: false, errorType: 'render_warning' });
+    expect(warned.warnings![0]).toContain('unique "key" prop');
+  });
+
+  it('reports unresolvable imports as module errors and skips non-React stories', async () => {
+    const code = ["import { Missing } from '../missing';", "export default { title: 'x' };", 'export const A = () => <Missing />;'].join('\n');
+    const result = await renderStoryHeadless(code, config, 'story.stories.tsx', projectRoot);
+    expect(result).toMatchObject({ success: false, storyExists: false, errorType: 'module_error' });
+    expect(result.renderError).toMatch(/^Line 1: Could not resolve "\.\.\/missing"/);
+
+    expect((await renderStoryHeadless('<script module></script>', config, 'story.stories.svelte', projectRoot)).checked).toBe(false);
+  });
+
+  it('only lets the story load React and the DOM emulation', async () => {
+    const code = [...storyHeader, "export const Escape = { render: () => { const load = require; load('fs'); return null; } };"].join('\n');
+    const result = await renderStoryHeadless(code, config, 'story.stories.tsx', projectRoot);
+    expect(result).toMatchObject({ success: false, errorType: 'render_error' });
+    expect(result.renderError).toContain('Cannot load "fs" in the render check');
+  });
+
+  it('runs the story without process, fetch or environment variables', async () => {
+    const probe = [
+      ...storyHeader,
+      "const reachable = [typeof process, typeof fetch, typeof globalThis.process?.getBuiltinModule].join(',');",
+      "export const Probe = { render: () => { if (reachable !== 'undefined,undefined,undefined') throw new Error(reachable); return null; } };",
+    ].join('\n');
+    expect(await renderStoryHeadless(probe, config, 'story.stories.tsx', projectRoot)).toMatchObject({ success: true, renderedStories: ['Probe'] });
+  });
+
+  it('is off unless enabled', async () => {
+    const code = [...storyHeader, 'export const Default = {};'].join('\n');
+    const result = await renderStoryHeadless(code, { ...config, renderCheck: undefined }, 'story.stories.tsx', projectRoot);
+    expect(result).toMatchObject({ success: true, checked: false, skippedReason: 'Render check is not enabled' });
+  });
+
+  it('stops stories that never finish rendering', async () => {
+    const code = [...storyHeader, 'export const Loop = { render: () => { for (;;) {} } };'].join('\n');
+    const result = await renderStoryHeadless(code, { ...config, renderCheck: { enabled: true, timeoutMs: 500 } }, 'story.stories.tsx', projectRoot);
+    expect(result).toMatchObject({ success: false, checked: true, errorType: 'timeout', renderError: 'The story did not finish rendering within 500ms' });
+  });
+});
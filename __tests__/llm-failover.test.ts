@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyProviderError,
+  computeBackoffDelay,
+  parseFailoverChain,
+  resolveFailoverPolicy,
+  DEFAULT_FAILOVER_POLICY,
+} from '../story-generator/llm-providers/failover.js';
+
+// ────────────────────────────────────────────────────────────────
+// classifyProviderError
+// ────────────────────────────────────────────────────────────────
+
+describe('classifyProviderError', () => {
+  it('classifies HTTP status codes from provider error messages', () => {
+    expect(classifyProviderError(new Error('Claude API error: 429 - slow down'))).toBe('rate_limit');
+    expect(classifyProviderError(new Error('Claude API error: 529 - {"type":"overloaded_error"}'))).toBe('overloaded');
+    expect(classifyProviderError(new Error('OpenAI API error: 503 - unavailable'))).toBe('overloaded');
+    expect(classifyProviderError(new Error('OpenAI API error: 401 - invalid key'))).toBe('auth');
+    expect(classifyProviderError(new Error('Gemini API error: 400 - bad request'))).toBe('invalid_request');
+  });
+
+  it('classifies Gemini key errors as auth', () => {
+    expect(classifyProviderError(new Error('Gemini API error: 400 - API_KEY_INVALID'))).toBe('auth');
+  });
+
+  it('classifies timeouts and network failures', () => {
+    const timeout = new Error('The operation was aborted due to timeout');
+    timeout.name = 'TimeoutError';
+    expect(classifyProviderError(timeout)).toBe('timeout');
+    expect(classifyProviderError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyProviderError(new Error('connect ECONNREFUSED 127.0.0.1:11434'))).toBe('network');
+  });
+
+  it('falls back to unknown', () => {
+    expect(classifyProviderError('something odd')).toBe('unknown');
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// computeBackoffDelay
+// ────────────────────────────────────────────────────────────────
+
+describe('computeBackoffDelay', () => {
+  const policy = { baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  it('doubles the ceiling on each retry', () => {
+    expect(computeBackoffDelay(0, policy, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(1, policy, () => 1)).toBe(2000);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(4000);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(computeBackoffDelay(10, policy, () => 1)).toBe(5000);
+  });
+
+  it('jitters between half and the full ceiling', () => {
+    expect(computeBackoffDelay(1, policy, () => 0)).toBe(1000);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// parseFailoverChain / resolveFailoverPolicy
+// ────────────────────────────────────────────────────────────────
+
+describe('parseFailoverChain', () => {
+  it('parses provider and optional model entries', () => {
+    expect(parseFailoverChain('openai:gpt-4o, ollama')).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'ollama' },
+    ]);
+  });
+
+  it('keeps colons inside model names', () => {
+    expect(parseFailoverChain('ollama:llama3.2-vision:11b')).toEqual([
+      { provider: 'ollama', model: 'llama3.2-vision:11b' },
+    ]);
+  });
+
+  it('drops unknown providers', () => {
+    expect(parseFailoverChain('mystery:model,gemini')).toEqual([{ provider: 'gemini' }]);
+  });
+});
+
+describe('resolveFailoverPolicy', () => {
+  it('returns defaults without config or env', () => {
+    expect(resolveFailoverPolicy(undefined, {})).toEqual(DEFAULT_FAILOVER_POLICY);
+  });
+
+  it('merges per-error-class rules from config', () => {
+    const policy = resolveFailoverPolicy({ rules: { auth: { failover: false } } }, {});
+    expect(policy.rules.auth).toEqual({ retry: false, failover: false });
+    expect(policy.rules.rate_limit).toEqual(DEFAULT_FAILOVER_POLICY.rules.rate_limit);
+  });
+
+  it('lets environment variables override config', () => {
+    const policy = resolveFailoverPolicy(
+      { chain: [{ provider: 'gemini' }], maxRetries: 5 },
+      { LLM_FALLBACK_CHAIN: 'openai:gpt-4o', LLM_MAX_RETRIES: '0' }
+    );
+    expect(policy.chain).toEqual([{ provider: 'openai', model: 'gpt-4o' }]);
+    expect(policy.maxRetries).toBe(0);
+  });
+});
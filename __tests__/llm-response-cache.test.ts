@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ResponseCache,
+  computeCacheKey,
+  resolveCacheOptions,
+  DEFAULT_CACHE_OPTIONS,
+} from '../story-generator/llm-providers/response-cache.js';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { chatCompletionDetailed } from '../story-generator/llm-providers/story-llm-service.js';
+
+const usage = { promptTokens: 10, completionTokens: 20, totalTokens: 30 };
+
+// ────────────────────────────────────────────────────────────────
+// computeCacheKey
+// ────────────────────────────────────────────────────────────────
+
+describe('computeCacheKey', () => {
+  const messages = [{ role: 'user' as const, content: 'Build a pricing card' }];
+
+  it('is stable for identical requests', () => {
+    expect(computeCacheKey('claude', messages, { model: 'a' })).toBe(computeCacheKey('claude', messages, { model: 'a' }));
+  });
+
+  it('changes with the model, provider or system prompt', () => {
+    const base = computeCacheKey('claude', messages, { model: 'a' });
+    expect(computeCacheKey('claude', messages, { model: 'b' })).not.toBe(base);
+    expect(computeCacheKey('openai', messages, { model: 'a' })).not.toBe(base);
+    expect(computeCacheKey('claude', messages, { model: 'a', systemPrompt: 'x' })).not.toBe(base);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// resolveCacheOptions
+// ────────────────────────────────────────────────────────────────
+
+describe('resolveCacheOptions', () => {
+  it('returns defaults without config or env', () => {
+    expect(resolveCacheOptions(undefined, {})).toEqual(DEFAULT_CACHE_OPTIONS);
+  });
+
+  it('converts hours and megabytes from config', () => {
+    const options = resolveCacheOptions({ ttlHours: 1, maxSizeMB: 2 }, {});
+    expect(options.ttlMs).toBe(60 * 60 * 1000);
+    expect(options.maxSizeBytes).toBe(2 * 1024 * 1024);
+  });
+
+  it('is opt-in', () => {
+    expect(resolveCacheOptions(undefined, {}).enabled).toBe(false);
+    expect(resolveCacheOptions({ enabled: true }, {}).enabled).toBe(true);
+  });
+
+  it('lets STORY_UI_LLM_CACHE turn the cache on or off', () => {
+    expect(resolveCacheOptions({ enabled: true }, { STORY_UI_LLM_CACHE: 'false' }).enabled).toBe(false);
+    expect(resolveCacheOptions(undefined, { STORY_UI_LLM_CACHE: 'true' }).enabled).toBe(true);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// ResponseCache
+// ────────────────────────────────────────────────────────────────
+
+describe('ResponseCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-llm-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores and returns responses', () => {
+    const cache = new ResponseCache({ ...DEFAULT_CACHE_OPTIONS, enabled: true, directory: dir });
+    cache.set({ key: 'k1', provider: 'claude', model: 'm', content: 'story', usage });
+    expect(cache.get('k1')?.content).toBe('story');
+    expect(cache.get('missing')).toBeNull();
+  });
+
+  it('ignores expired entries', () => {
+    const cache = new ResponseCache({ ...DEFAULT_CACHE_OPTIONS, enabled: true, directory: dir, ttlMs: -1 });
+    cache.set({ key: 'k1', provider: 'claude', model: 'm', content: 'story', usage });
+    expect(cache.get('k1')).toBeNull();
+  });
+
+  it('evicts entries beyond maxEntries and clears everything', () => {
+    const cache = new ResponseCache({ ...DEFAULT_CACHE_OPTIONS, enabled: true, directory: dir, maxEntries: 2 });
+    for (const key of ['a', 'b', 'c']) {
+      cache.set({ key, provider: 'claude', model: 'm', content: key, usage });
+    }
+    expect(cache.stats().entries).toBe(2);
+    expect(cache.clear()).toBe(2);
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it('does not cache empty responses', () => {
+    const cache = new ResponseCache({ ...DEFAULT_CACHE_OPTIONS, enabled: true, directory: dir });
+    cache.set({ key: 'k1', provider: 'claude', model: 'm', content: '  ', usage });
+    expect(cache.stats().entries).toBe(0);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Cache with failover
+// ────────────────────────────────────────────────────────────────
+
+describe('response cache with a failover chain', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-llm-cache-failover-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    vi.stubEnv('STORY_UI_LLM_CACHE', 'true');
+    vi.stubEnv('LLM_FALLBACK_CHAIN', 'custom');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves a fallback answer from the cache while the primary is down', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes(':11434')) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({
+        choices: [{ message: { role: 'assistant', content: 'export default {};' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const registry = getProviderRegistry();
+    registry.configureProvider('ollama', { model: 'qwen2.5-coder', baseUrl: 'http://localhost:11434' });
+    registry.configureProvider('custom', { baseUrl: 'http://gateway.internal/v1', model: 'llama' });
+    const messages = [{ role: 'user' as const, content: 'A button story' }];
+
+    const first = await chatCompletionDetailed(messages, { provider: 'ollama' });
+    expect(first).toMatchObject({ provider: 'custom', fallbackUsed: true, cached: false });
+
+    fetchMock.mockClear();
+    const second = await chatCompletionDetailed(messages, { provider: 'ollama' });
+    expect(second).toMatchObject({ provider: 'custom', content: 'export default {};', cached: true });
+    expect(fetchMock.mock.calls.filter(([url]) => !url.includes(':11434'))).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { chatCompletionDetailed } from '../story-generator/llm-providers/story-llm-service.js';
+import { createStreamEvent, formatSSE, type CodeDelta } from '../mcp-server/routes/streamTypes.js';
+
+let projectRoot: string;
+
+/** An OpenAI-style SSE body sending each piece of text as its own chunk */
+function sseResponse(pieces: string[], finishReason: string): Response {
+  const events = [
+    ...pieces.map(content => ({ choices: [{ delta: { content } }] })),
+    { choices: [{ delta: {}, finish_reason: finishReason }], usage: { prompt_tokens: 10, completion_tokens: pieces.length } },
+  ];
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/** Answers each chat request with the next scripted stream */
+function stubStreams(...responses: Array<() => Response>) {
+  const fetchMock = vi.fn(async () => responses.shift()!());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function requestBody(fetchMock: ReturnType<typeof stubStreams>, call: number) {
+  return JSON.parse(String((fetchMock.mock.calls[call] as unknown as [string, RequestInit])[1].body));
+}
+
+beforeAll(() => {
+  // Keep the usage ledger and response cache out of the repository
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-streaming-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(projectRoot);
+  getProviderRegistry().configureProvider('custom', { baseUrl: 'http://localhost:8000/v1', model: 'local' });
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ────────────────────────────────────────────────────────────────
+// Streamed completions
+// ────────────────────────────────────────────────────────────────
+
+describe('chatCompletionDetailed streaming', () => {
+  it('forwards deltas and reports the stream finish reason', async () => {
+    const fetchMock = stubStreams(() => sseResponse(['export ', 'default {};'], 'stop'));
+    const deltas: string[] = [];
+
+    const result = await chatCompletionDetailed([{ role: 'user', content: 'A button story' }], {
+      provider: 'custom',
+      bypassCache: true,
+      onDelta: delta => deltas.push(delta),
+    });
+
+    expect(requestBody(fetchMock, 0).stream).toBe(true);
+    expect(deltas).toEqual(['export ', 'default {};']);
+    expect(result).toMatchObject({ content: 'export default {};', finishReason: 'stop', attempts: 1 });
+    expect(result.usage).toMatchObject({ promptTokens: 10, completionTokens: 2 });
+  });
+
+  it('continues a stream that stops at the output limit', async () => {
+    const fetchMock = stubStreams(
+      () => sseResponse(['export const Primary = ', '{ args: '], 'length'),
+      () => sseResponse(['{} };'], 'stop'),
+    );
+    const deltas: string[] = [];
+
+    const result = await chatCompletionDetailed([{ role: 'user', content: 'A button story' }], {
+      provider: 'custom',
+      bypassCache: true,
+      onDelta: delta => deltas.push(delta),
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestBody(fetchMock, 1).messages.slice(-2)).toEqual([
+      { role: 'assistant', content: 'export const Primary = { args: ' },
+      { role: 'user', content: expect.stringContaining('Continue exactly where it stopped') },
+    ]);
+    expect(deltas.join('')).toBe('export const Primary = { args: {} };');
+    expect(result).toMatchObject({ content: 'export const Primary = { args: {} };', finishReason: 'stop', attempts: 1 });
+    expect(result.usage).toMatchObject({ promptTokens: 20, completionTokens: 3 });
+  });
+
+  it('gives up after the continuation limit and reports the truncation', async () => {
+    const fetchMock = stubStreams(
+      () => sseResponse(['a'], 'length'),
+      () => sseResponse(['b'], 'length'),
+      () => sseResponse(['c'], 'length'),
+    );
+
+    const result = await chatCompletionDetailed([{ role: 'user', content: 'A long story' }], {
+      provider: 'custom',
+      bypassCache: true,
+      onDelta: () => {},
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({ content: 'abc', finishReason: 'length' });
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// code_delta events
+// ────────────────────────────────────────────────────────────────
+
+describe('code_delta events', () => {
+  it('streams each delta to the panel as an SSE frame', async () => {
+    stubStreams(() => sseResponse(['<Button>', 'Save</Button>'], 'stop'));
+    const frames: string[] = [];
+
+    await chatCompletionDetailed([{ role: 'user', content: 'A button story' }], {
+      provider: 'custom',
+      bypassCache: true,
+      onDelta: delta => frames.push(formatSSE(createStreamEvent<CodeDelta>('code_delta', { attempt: 2, delta }))),
+    });
+
+    expect(frames).toHaveLength(2);
+    const [event, data] = frames[0].trimEnd().split('\n');
+    expect(event).toBe('event: code_delta');
+    expect(JSON.parse(data.slice('data: '.length))).toMatchObject({ type: 'code_delta', data: { attempt: 2, delta: '<Button>' } });
+    expect(frames[1]).toContain('"delta":"Save</Button>"');
+  });
+
+  it('marks a replaced draft with reset', () => {
+    const frame = formatSSE(createStreamEvent<CodeDelta>('code_delta', { attempt: 1, delta: '', reset: true }));
+    expect(frame).toMatch(/^event: code_delta\ndata: .*"reset":true.*\n\n$/);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OllamaProvider } from '../story-generator/llm-providers/ollama-provider.js';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { validateProviderKey } from '../story-generator/llm-providers/story-llm-service.js';
+import { validateApiKey as validateRoute } from '../mcp-server/routes/providers.js';
+
+const TAGS = { models: [{ name: 'qwen2.5-coder:7b', model: 'qwen2.5-coder:7b' }] };
+const SHOW = { capabilities: ['completion', 'tools'], model_info: { 'qwen2.context_length': 65536 } };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Answers the daemon's endpoints and records every request */
+function stubDaemon(chatBody: unknown = {}) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    if (url.endsWith('/api/tags')) return jsonResponse(TAGS);
+    if (url.endsWith('/api/show')) return jsonResponse(SHOW);
+    return jsonResponse(chatBody);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function headersOf(init: RequestInit | undefined): Record<string, string> {
+  return (init?.headers || {}) as Record<string, string>;
+}
+
+/** Calls the /mcp/providers/validate handler with a fake request and response */
+async function postValidate(body: Record<string, unknown>) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+  };
+  await validateRoute({ body } as any, res as any);
+  return res;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ────────────────────────────────────────────────────────────────
+// Requests
+// ────────────────────────────────────────────────────────────────
+
+describe('OllamaProvider chat', () => {
+  it('sends messages, context size and tools, and maps the response', async () => {
+    const fetchMock = stubDaemon({
+      model: 'qwen2.5-coder',
+      message: { role: 'assistant', content: 'export const Default = {};' },
+      done: true,
+      done_reason: 'length',
+      prompt_eval_count: 12,
+      eval_count: 30,
+    });
+    const provider = new OllamaProvider({ baseUrl: 'http://gpu-box:11434/', model: 'qwen2.5-coder' });
+
+    const response = await provider.chat([{ role: 'user', content: 'A button story' }], {
+      systemPrompt: 'You write stories',
+      maxTokens: 2048,
+      tools: [{ name: 'list_components', description: 'List components', inputSchema: { type: 'object', properties: {} } }],
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://gpu-box:11434/api/chat');
+    const body = JSON.parse(String(init?.body));
+    expect(body).toMatchObject({
+      model: 'qwen2.5-coder',
+      stream: false,
+      messages: [
+        { role: 'system', content: 'You write stories' },
+        { role: 'user', content: 'A button story' },
+      ],
+      options: { num_ctx: 32768, num_predict: 2048 },
+    });
+    expect(body.tools).toEqual([
+      { type: 'function', function: { name: 'list_components', description: 'List components', parameters: { type: 'object', properties: {} } } },
+    ]);
+    expect(response).toMatchObject({
+      content: 'export const Default = {};',
+      finishReason: 'length',
+      usage: { promptTokens: 12, completionTokens: 30, totalTokens: 42 },
+    });
+  });
+
+  it('streams tool calls and finishes with tool_calls', async () => {
+    const lines = [
+      { message: { role: 'assistant', content: 'Looking up ' } },
+      { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'list_components', arguments: { category: 'form' } } }] } },
+      { message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 8, eval_count: 4 },
+    ];
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(lines.map(line => JSON.stringify(line)).join('\n') + '\n')));
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434', model: 'qwen2.5-coder' });
+
+    const chunks = [];
+    for await (const chunk of provider.chatStream([{ role: 'user', content: 'A form story' }])) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { type: 'text', content: 'Looking up ' },
+      { type: 'tool_call', toolCall: { id: expect.stringMatching(/^ollama-call-/), name: 'list_components', arguments: { category: 'form' } } },
+      { type: 'done', usage: { promptTokens: 8, completionTokens: 4, totalTokens: 12 }, finishReason: 'tool_calls' },
+    ]);
+  });
+
+  it('reports timeouts with the default timeout when none is configured', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    }));
+    const provider = new OllamaProvider();
+    provider.configure({ provider: 'ollama', model: 'qwen2.5-coder', baseUrl: 'http://localhost:11434' });
+
+    await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow('timed out after 120000ms');
+  });
+
+  it('explains when the daemon cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    }));
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434' });
+
+    await expect(provider.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow('Is `ollama serve` running?');
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Validation
+// ────────────────────────────────────────────────────────────────
+
+describe('OllamaProvider validation', () => {
+  it('lists pulled models with the key under test without storing it', async () => {
+    const fetchMock = stubDaemon();
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434', apiKey: 'configured' });
+
+    const result = await provider.validateApiKey('candidate');
+
+    expect(result.valid).toBe(true);
+    expect(result.models?.map(model => model.id)).toEqual(['qwen2.5-coder:7b']);
+    expect(result.models?.[0]).toMatchObject({ supportsFunctionCalling: true, contextWindow: 65536 });
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(headersOf(init).Authorization).toBe('Bearer candidate');
+    }
+    expect(provider.getConfig().apiKey).toBe('configured');
+  });
+
+  it('validates another endpoint without reconfiguring the shared provider', async () => {
+    const fetchMock = stubDaemon();
+    const registered = getProviderRegistry().get('ollama')!;
+    registered.configure({ provider: 'ollama', model: 'qwen2.5-coder', baseUrl: 'http://localhost:11434' });
+    // Let the model refresh that configure() starts finish first
+    await new Promise(resolve => setTimeout(resolve, 0));
+    fetchMock.mockClear();
+
+    const result = await validateProviderKey('ollama', '', { baseUrl: 'http://gpu-box:11434' });
+
+    expect(result.valid).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://gpu-box:11434/api/tags');
+    expect(registered.getConfig().baseUrl).toBe('http://localhost:11434');
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Validation route
+// ────────────────────────────────────────────────────────────────
+
+describe('POST /mcp/providers/validate', () => {
+  it('never sends the stored key to an endpoint named by the request', async () => {
+    const fetchMock = stubDaemon();
+    getProviderRegistry().get('ollama')!.configure({ provider: 'ollama', model: 'qwen2.5-coder', baseUrl: 'http://localhost:11434', apiKey: 'stored-secret' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    fetchMock.mockClear();
+
+    const res = await postValidate({ provider: 'ollama', baseUrl: 'http://elsewhere:11434' });
+
+    expect(res.body).toMatchObject({ valid: true, provider: 'ollama' });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://elsewhere:11434/api/tags');
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(headersOf(init).Authorization).toBeUndefined();
+    }
+
+    fetchMock.mockClear();
+    await postValidate({ provider: 'ollama', baseUrl: 'http://localhost:11434' });
+    expect(headersOf(fetchMock.mock.calls[0][1]).Authorization).toBe('Bearer stored-secret');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { validatePlayFunctions, getInteractiveComponents } from '../story-generator/playFunctionValidator.js';
+import { getAdapter } from '../story-generator/framework-adapters/index.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+function component(name: string, category: DiscoveredComponent['category']): DiscoveredComponent {
+  return { name, source: 'test', category, props: [] } as unknown as DiscoveredComponent;
+}
+
+const header = [
+  "import type { Meta, StoryObj } from '@storybook/react';",
+  "import { expect, userEvent, within } from '@storybook/test';",
+  "import { Button, TextField, Stack } from 'my-ui';",
+  "const meta = { title: 'Generated/Signup', component: Button } satisfies Meta<typeof Button>;",
+  'export default meta;',
+];
+
+// ────────────────────────────────────────────────────────────────
+// validatePlayFunctions
+// ────────────────────────────────────────────────────────────────
+
+describe('validatePlayFunctions', () => {
+  it('accepts play functions that query what the story renders', () => {
+    const code = [
+      ...header,
+      'export const Filled = {',
+      '  render: () => (',
+      '    <form>',
+      '      <TextField label="Email address" placeholder="you@example.com" />',
+      '      <Button type="submit">Sign up</Button>',
+      '    </form>',
+      '  ),',
+      '  play: async ({ canvasElement }) => {',
+      '    const canvas = within(canvasElement);',
+      "    await userEvent.type(canvas.getByLabelText('Email address'), 'jane@example.com');",
+      "    await userEvent.click(canvas.getByRole('button', { name: /sign up/i }));",
+      "    await expect(canvas.getByPlaceholderText('you@example.com')).toBeInTheDocument();",
+      "    await expect(await canvas.findByText('Welcome!')).toBeInTheDocument();",
+      '  },',
+      '};',
+    ].join('\n');
+    expect(validatePlayFunctions(code, 'story.stories.tsx', { interactiveComponents: ['Button', 'TextField'] })).toEqual([]);
+  });
+
+  it('reports queries for text, names and roles the story does not render', () => {
+    const code = [
+      ...header,
+      'export const Filled = {',
+      '  render: () => (',
+      '    <form>',
+      '      <label htmlFor="email">Email</label>',
+      '      <input id="email" type="email" />',
+      '      <button type="submit">Sign up</button>',
+      '    </form>',
+      '  ),',
+      '  play: async ({ canvasElement }) => {',
+      '    const canvas = within(canvasElement);',
+      "    await userEvent.type(canvas.getByLabelText('Email address'), 'jane@example.com');",
+      "    await userEvent.click(canvas.getByRole('button', { name: 'Register' }));",
+      "    await userEvent.click(canvas.getByRole('checkbox'));",
+      "    await expect(canvas.getByRole('textbox')).toHaveValue('jane@example.com');",
+      '  },',
+      '};',
+    ].join('\n');
+    expect(validatePlayFunctions(code).map(f => [f.line, f.message])).toEqual([
+      [16, 'Play function for "Filled" calls getByLabelText(\'Email address\'), but the story renders no label \'Email address\''],
+      [17, 'Play function for "Filled" calls getByRole(\'button\', { name: \'Register\' }), but the story renders no accessible name \'Register\''],
+      [18, 'Play function for "Filled" calls getByRole(\'checkbox\'), but the story renders no element with role "checkbox"'],
+    ]);
+  });
+
+  it('requires play functions for interactive stories and imported helpers', () => {
+    const code = [
+      "import type { Meta } from '@storybook/react';",
+      "import { Button, Stack } from 'my-ui';",
+      "export default { title: 'Generated/Actions', component: Button } satisfies Meta<typeof Button>;",
+      "export const Primary = { args: { children: 'Save' } };",
+      'export const Layout = { render: () => <Stack>Just text</Stack> };',
+      'export const Clicked = {',
+      "  render: () => <Button>Save</Button>,",
+      '  play: async ({ canvasElement }) => {',
+      "    await userEvent.click(within(canvasElement).getByText('Save'));",
+      '  },',
+      '};',
+    ].join('\n');
+    expect(validatePlayFunctions(code, 'story.stories.tsx', { interactiveComponents: ['Button'] }).map(f => [f.story, f.line, f.message])).toEqual([
+      ['Primary', 4, "Story \"Primary\" renders <Button> but has no play function; add one that interacts with it using '@storybook/test'"],
+      ['Clicked', 9, "Play function for \"Clicked\" uses userEvent without importing it; import it from '@storybook/test'"],
+      ['Clicked', 9, "Play function for \"Clicked\" uses within without importing it; import it from '@storybook/test'"],
+    ]);
+  });
+
+  it('checks Svelte Story play props against the story markup', () => {
+    const code = [
+      '<script module>',
+      "  import { defineMeta } from '@storybook/addon-svelte-csf';",
+      "  import { expect, userEvent, within } from '@storybook/test';",
+      "  import { Input } from 'my-ui';",
+      "  const { Story } = defineMeta({ title: 'Generated/Login', component: Input });",
+      '</script>',
+      '',
+      '<Story name="Login" play={async ({ canvasElement }) => {',
+      '  const canvas = within(canvasElement);',
+      "  await userEvent.type(canvas.getByLabelText('Username'), 'jane');",
+      "  await userEvent.click(canvas.getByText('Log in'));",
+      '}}>',
+      '  <Input label="Username" />',
+      '  <button>Sign in</button>',
+      '</Story>',
+      '<Story name="Empty">',
+      '  <form><Input label="Username" /></form>',
+      '</Story>',
+    ].join('\n');
+    expect(validatePlayFunctions(code, 'story.stories.svelte').map(f => [f.story, f.line])).toEqual([
+      ['Login', 11],
+      ['Empty', 16],
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Prompt instructions
+// ────────────────────────────────────────────────────────────────
+
+describe('interaction test instructions', () => {
+  const components = [component('Button', 'form'), component('Tabs', 'navigation'), component('Card', 'layout')];
+
+  it('picks form and navigation components unless categories are configured', () => {
+    expect(getInteractiveComponents(components)).toEqual(['Button', 'Tabs']);
+    expect(getInteractiveComponents(components, ['layout'])).toEqual(['Card']);
+  });
+
+  it('names interactive components and uses each framework story format', () => {
+    const config = { importPath: 'my-ui' } as StoryUIConfig;
+    const react = getAdapter('react').generateInteractionTestInstructions(components, config);
+    expect(react).toContain('one of these interactive components (Button, Tabs)');
+    expect(react).toContain("import { expect, userEvent, within } from '@storybook/test';");
+    expect(react).toContain('play: async ({ canvasElement }) => {');
+    expect(getAdapter('svelte').generateInteractionTestInstructions(components, config)).toContain('<Story name="Filled In" play={async');
+    expect(getAdapter('web-components').generateInteractionTestInstructions([], config)).toContain('do not pierce shadow DOM');
+  });
+});
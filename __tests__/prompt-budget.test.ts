@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fitPromptToBudget,
+  insertPromptSections,
+  renderPromptSections,
+  PromptBudget,
+  PromptSection,
+} from '../story-generator/promptBudget.js';
+
+// One token per character keeps the arithmetic readable
+function budget(maxPromptTokens: number): PromptBudget {
+  return { contextWindow: maxPromptTokens * 2, maxPromptTokens, estimateTokens: text => text.length };
+}
+
+const sections: PromptSection[] = [
+  { id: 'instructions', content: 'i'.repeat(1000) },
+  { id: 'documentation', label: 'Docs', content: 'd'.repeat(1000), priority: 30, truncate: 'keepStart' },
+  { id: 'componentReference', content: 'c'.repeat(2000), priority: 60, fallback: 'c'.repeat(300), required: true },
+  { id: 'storybookContext', content: 's'.repeat(500), priority: 10 },
+  { id: 'userRequest', content: 'User request:\nMake a card' },
+];
+
+// ────────────────────────────────────────────────────────────────
+// fitPromptToBudget
+// ────────────────────────────────────────────────────────────────
+
+describe('fitPromptToBudget', () => {
+  it('leaves prompts that fit untouched', () => {
+    const { sections: fitted, report } = fitPromptToBudget(sections, budget(10_000));
+    expect(fitted).toEqual(sections);
+    expect(report.adjustments).toEqual([]);
+    expect(report.overBudget).toBe(false);
+  });
+
+  it('drops the lowest priority section first', () => {
+    const { sections: fitted, report } = fitPromptToBudget(sections, budget(4100));
+    expect(fitted.map(s => s.id)).not.toContain('storybookContext');
+    expect(report.adjustments).toEqual([
+      { section: 'storybookContext', label: 'storybookContext', action: 'dropped', tokensBefore: 500, tokensAfter: 0 },
+    ]);
+  });
+
+  it('truncates before dropping and keeps the requested end', () => {
+    const { sections: fitted, report } = fitPromptToBudget(sections, budget(3600));
+    const docs = fitted.find(s => s.id === 'documentation')!;
+    expect(docs.content.startsWith('ddd')).toBe(true);
+    expect(docs.content).toContain('trimmed to fit');
+    expect(report.adjustments[0]).toMatchObject({ section: 'documentation', label: 'Docs', action: 'truncated' });
+    expect(report.estimatedTokens).toBeLessThanOrEqual(3600);
+  });
+
+  it('condenses required sections instead of dropping them and reports leftover overflow', () => {
+    const { sections: fitted, report } = fitPromptToBudget(sections, budget(500));
+    expect(fitted.find(s => s.id === 'componentReference')!.content).toHaveLength(300);
+    expect(report.adjustments.map(a => [a.section, a.action])).toEqual([
+      ['documentation', 'dropped'],
+      ['componentReference', 'condensed'],
+      ['storybookContext', 'dropped'],
+    ]);
+    expect(report.overBudget).toBe(true);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Section helpers
+// ────────────────────────────────────────────────────────────────
+
+describe('prompt section helpers', () => {
+  it('inserts sections before the user request and renders non-empty ones', () => {
+    const inserted = insertPromptSections(
+      [{ id: 'instructions', content: 'Rules' }, { id: 'userRequest', content: 'User request:\nCard' }],
+      'userRequest',
+      { id: 'conversation', content: 'History' },
+      { id: 'empty', content: '  ' }
+    );
+    expect(inserted.map(s => s.id)).toEqual(['instructions', 'conversation', 'empty', 'userRequest']);
+    expect(renderPromptSections(inserted)).toBe('Rules\n\nHistory\n\nUser request:\nCard');
+  });
+});
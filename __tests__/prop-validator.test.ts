@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { validateComponentProps, suggestClosest } from '../story-generator/propValidator.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+const button: DiscoveredComponent = {
+  name: 'Button',
+  filePath: 'src/Button.tsx',
+  props: ['variant', 'color', 'label', 'size'],
+  propTypes: [
+    { name: 'variant', type: 'select', options: ['primary', 'secondary'] },
+    { name: 'color', type: 'string' },
+    { name: 'label', type: 'string', required: true },
+    { name: 'size', type: 'radio', options: ['sm', 'md', 'lg'] },
+  ],
+  description: 'Button',
+  category: 'form',
+};
+
+const components: DiscoveredComponent[] = [
+  button,
+  { name: 'CardHeader', filePath: 'src/Card.tsx', props: ['title'], description: 'Card header', category: 'layout' },
+  { name: 'Opaque', filePath: 'src/Opaque.tsx', props: [], description: 'No prop info', category: 'other' },
+];
+
+// ────────────────────────────────────────────────────────────────
+// JSX
+// ────────────────────────────────────────────────────────────────
+
+describe('validateComponentProps (JSX)', () => {
+  it('flags unknown props, invalid option values and missing required props', () => {
+    const code = [
+      "import { Button } from 'my-ui';",
+      'export const Primary = () => (',
+      '  <Button colour="red" variant="primary-ish" onClick={() => {}} aria-label="x" />',
+      ');',
+    ].join('\n');
+    const errors = validateComponentProps(code, components);
+    expect(errors.map(e => [e.kind, e.prop, e.line, e.suggestion])).toEqual([
+      ['unknown-prop', 'colour', 3, 'color'],
+      ['invalid-value', 'variant', 3, 'primary'],
+      ['missing-required', 'label', 3, undefined],
+    ]);
+    expect(errors[0].message).toBe('<Button> has no prop "colour". Did you mean "color"?');
+  });
+
+  it('resolves aliases and compound tags, and trusts spreads, expressions and unknown prop lists', () => {
+    const code = [
+      "import { Button as Btn, Card } from 'my-ui';",
+      "import * as UI from 'my-ui';",
+      "import { Opaque } from 'my-ui';",
+      'export const Story = (args) => (<>',
+      '  <Btn {...args} size={args.size} />',
+      '  <UI.Button label="Go" size={"xl"} />',
+      '  <Card.Header heading="x" />',
+      '  <Opaque anything="goes" />',
+      '  <button colour="red" />',
+      '</>);',
+    ].join('\n');
+    const errors = validateComponentProps(code, components);
+    expect(errors.map(e => [e.kind, e.component, e.prop, e.line])).toEqual([
+      ['invalid-value', 'Button', 'size', 6],
+      ['unknown-prop', 'CardHeader', 'heading', 7],
+    ]);
+  });
+
+  it('checks story args against the meta component without requiring props', () => {
+    const code = [
+      "import { Button } from 'my-ui';",
+      'const meta = { title: "Button", component: Button };',
+      'export default meta;',
+      'export const Primary = { args: { variant: "tertiary", lable: "Hi" } };',
+    ].join('\n');
+    expect(validateComponentProps(code, components).map(e => e.message)).toEqual([
+      '<Button> variant="tertiary" is not a valid value. Allowed: "primary", "secondary"',
+      '<Button> has no prop "lable". Did you mean "label"?',
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Templates
+// ────────────────────────────────────────────────────────────────
+
+describe('validateComponentProps (templates)', () => {
+  it('checks custom element tags in lit templates without imports', () => {
+    const code = [
+      "import { html } from 'lit';",
+      'export const Primary = {',
+      '  render: () => html`<my-button lable="Go" size="lg" @click=${() => {}}></my-button>`,',
+      '};',
+    ].join('\n');
+    const wc: DiscoveredComponent[] = [{ ...button, name: 'MyButton', props: ['label', 'size'], propTypes: undefined }];
+    expect(validateComponentProps(code, wc).map(e => [e.prop, e.line, e.suggestion])).toEqual([
+      ['lable', 3, 'label'],
+    ]);
+  });
+
+  it('checks Svelte markup outside script blocks', () => {
+    const code = [
+      '<script module>',
+      "  import { Button } from 'my-ui';",
+      '</script>',
+      '',
+      '<Story name="Primary">',
+      '  <Button label="Go" size="huge" on:click={go} />',
+      '  <Button {...args} />',
+      '</Story>',
+    ].join('\n');
+    expect(validateComponentProps(code, components, 'story.stories.svelte').map(e => [e.prop, e.line])).toEqual([
+      ['size', 6],
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Severity
+// ────────────────────────────────────────────────────────────────
+
+describe('validateComponentProps (severity)', () => {
+  const code = [
+    "import { Button } from 'my-ui';",
+    'export const Primary = () => <Button colour="red" variant="huge" label="Go" />;',
+  ].join('\n');
+
+  it('reports unknown props of scanned components as warnings', () => {
+    expect(validateComponentProps(code, components).map(e => [e.kind, e.severity])).toEqual([
+      ['unknown-prop', 'warning'],
+      ['invalid-value', 'error'],
+    ]);
+  });
+
+  it('reports unknown props as errors when the prop list is complete', () => {
+    const typed = [{ ...button, propsComplete: true }];
+    expect(validateComponentProps(code, typed).map(e => [e.kind, e.severity])).toEqual([
+      ['unknown-prop', 'error'],
+      ['invalid-value', 'error'],
+    ]);
+  });
+
+  it('applies configured severities and the config switch', () => {
+    const settings = { severity: { 'unknown-prop': 'error', 'invalid-value': 'off' } } as const;
+    expect(validateComponentProps(code, components, 'story.stories.tsx', settings).map(e => [e.kind, e.severity])).toEqual([
+      ['unknown-prop', 'error'],
+    ]);
+    expect(validateComponentProps(code, components, 'story.stories.tsx', { enabled: false })).toEqual([]);
+  });
+});
+
+describe('suggestClosest', () => {
+  it('only suggests plausible near misses', () => {
+    expect(suggestClosest('colr', ['color', 'size'])).toBe('color');
+    expect(suggestClosest('elevation', ['color', 'size'])).toBeUndefined();
+  });
+});
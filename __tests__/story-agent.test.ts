@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  executeStoryAgentTool,
+  runStoryAgent,
+  shouldUseAgentMode,
+  suggestComponentNames,
+  StoryAgentToolContext,
+} from '../story-generator/storyAgent.js';
+import { parseOpenAIToolCalls, partitionToolContent } from '../story-generator/llm-providers/tool-format.js';
+import { getProviderRegistry } from '../story-generator/llm-providers/index.js';
+import { createEmptyErrors } from '../story-generator/selfHealingLoop.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+function component(overrides: Partial<DiscoveredComponent>): DiscoveredComponent {
+  return {
+    name: 'Button',
+    filePath: '',
+    props: [],
+    description: 'Button component',
+    category: 'form',
+    ...overrides,
+  };
+}
+
+const context: StoryAgentToolContext = {
+  components: [
+    component({
+      name: 'Button',
+      propTypes: [{ name: 'variant', type: 'string', required: false, options: ['primary', 'secondary'] }],
+      examples: ['<Button variant="primary">Save</Button>'],
+    }),
+    component({ name: 'ButtonGroup', category: 'layout', description: 'Groups related buttons' }),
+    component({ name: 'Card', category: 'content', description: 'Surface for grouped content' }),
+  ],
+  config: { importPath: '@acme/ui', sampleStory: 'export default { title: "Sample" };' } as StoryUIConfig,
+  validate: async (code) => ({
+    errors: code.includes('Bogus') ? { ...createEmptyErrors(), importErrors: ['"Bogus" is not exported'] } : createEmptyErrors(),
+  }),
+};
+
+const call = (name: string, args: Record<string, any> = {}) => ({ id: 'call-1', name, arguments: args });
+
+// ────────────────────────────────────────────────────────────────
+// shouldUseAgentMode
+// ────────────────────────────────────────────────────────────────
+
+describe('shouldUseAgentMode', () => {
+  it('is off unless enabled in config', () => {
+    expect(shouldUseAgentMode(undefined, undefined, 500)).toBe(false);
+    expect(shouldUseAgentMode({ enabled: true }, undefined, 5)).toBe(true);
+  });
+
+  it('switches on automatically for large component sets', () => {
+    expect(shouldUseAgentMode({ enabled: 'auto' }, undefined, 149)).toBe(false);
+    expect(shouldUseAgentMode({ enabled: 'auto' }, undefined, 150)).toBe(true);
+    expect(shouldUseAgentMode({ enabled: 'auto', autoThreshold: 10 }, undefined, 12)).toBe(true);
+  });
+
+  it('lets the request override the config', () => {
+    expect(shouldUseAgentMode({ enabled: true }, false, 500)).toBe(false);
+    expect(shouldUseAgentMode(undefined, true, 5)).toBe(true);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// executeStoryAgentTool
+// ────────────────────────────────────────────────────────────────
+
+describe('executeStoryAgentTool', () => {
+  it('lists components matching a query and category', async () => {
+    const result = await executeStoryAgentTool(call('list_components', { query: 'button' }), context);
+    expect(result.content).toContain('2 matching component(s)');
+    expect(result.content).toContain('- ButtonGroup [layout] - Groups related buttons');
+
+    const layout = await executeStoryAgentTool(call('list_components', { category: 'content' }), context);
+    expect(layout.content).toContain('- Card');
+    expect(layout.content).not.toContain('Button');
+  });
+
+  it('returns props with import paths and suggests names for unknown components', async () => {
+    const result = await executeStoryAgentTool(call('get_component_props', { components: ['Button', 'Buton'] }), context);
+    expect(result.content).toContain("- Button (import from '@acme/ui')");
+    expect(result.content).toContain('variant');
+    expect(result.content).toContain('Buton: not a component in this design system.');
+  });
+
+  it('falls back to the sample story when a component has no examples', async () => {
+    expect((await executeStoryAgentTool(call('get_story_example', { component: 'Button' }), context)).content)
+      .toContain('<Button variant="primary">');
+    expect((await executeStoryAgentTool(call('get_story_example', { component: 'Card' }), context)).content)
+      .toContain('No example for Card; project sample story');
+  });
+
+  it('rejects invalid submissions and accepts valid ones without code fences', async () => {
+    const rejected = await executeStoryAgentTool(call('submit_story', { code: 'import { Bogus } from "@acme/ui";' }), context);
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content).toContain('Import errors:\n- "Bogus" is not exported');
+    expect(rejected.submittedCode).toBeUndefined();
+
+    const accepted = await executeStoryAgentTool(call('submit_story', { code: '```tsx\nexport const Primary = {};\n```' }), context);
+    expect(accepted.submittedCode).toBe('export const Primary = {};');
+  });
+
+  it('reports unknown tools as errors', async () => {
+    expect((await executeStoryAgentTool(call('delete_everything'), context)).isError).toBe(true);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// suggestComponentNames
+// ────────────────────────────────────────────────────────────────
+
+describe('suggestComponentNames', () => {
+  it('prefers prefix matches over substring matches', () => {
+    expect(suggestComponentNames('Button', ['IconButton', 'ButtonGroup', 'Card'])).toEqual(['ButtonGroup', 'IconButton']);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Tool wire formats
+// ────────────────────────────────────────────────────────────────
+
+describe('tool wire formats', () => {
+  it('parses OpenAI tool call arguments from strings and objects', () => {
+    const calls = parseOpenAIToolCalls([
+      { id: 'a', function: { name: 'list_components', arguments: '{"query":"card"}' } },
+      { function: { name: 'validate_story', arguments: { code: 'x' } } },
+      { id: 'c', function: { name: 'list_components', arguments: '{broken' } },
+    ], 'test');
+    expect(calls?.[0]).toEqual({ id: 'a', name: 'list_components', arguments: { query: 'card' } });
+    expect(calls?.[1].id).toMatch(/^test-/);
+    expect(calls?.[1].arguments).toEqual({ code: 'x' });
+    expect(calls?.[2].arguments).toEqual({ _raw: '{broken' });
+    expect(parseOpenAIToolCalls([], 'test')).toBeUndefined();
+  });
+
+  it('separates tool calls and results from other content', () => {
+    const parts = partitionToolContent([
+      { type: 'text', text: 'Looking up props' },
+      { type: 'tool_use', id: 'a', name: 'get_component_props', input: { components: ['Card'] } },
+      { type: 'tool_result', toolCallId: 'a', name: 'get_component_props', content: '- Card' },
+    ]);
+    expect(parts.toolUses.map(use => use.id)).toEqual(['a']);
+    expect(parts.toolResults.map(result => result.content)).toEqual(['- Card']);
+    expect(parts.other).toEqual([{ type: 'text', text: 'Looking up props' }]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// runStoryAgent
+// ────────────────────────────────────────────────────────────────
+
+describe('runStoryAgent', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs at least one turn when maxTurns is zero or negative', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-agent-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      choices: [{ message: { role: 'assistant', content: '```tsx\nexport default {};\n```' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    getProviderRegistry().configureProvider('custom', {
+      baseUrl: 'http://localhost:8000/v1',
+      models: [{ id: 'local', supportsFunctionCalling: true }],
+    });
+
+    try {
+      for (const maxTurns of [0, -3]) {
+        const result = await runStoryAgent([{ role: 'user', content: 'A button story' }], context, { provider: 'custom', maxTurns });
+        expect(result).toMatchObject({ submitted: false, turns: 1, content: '```tsx\nexport default {};\n```' });
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
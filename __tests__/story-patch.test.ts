@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { applyStoryPatch, parsePatch } from '../story-generator/storyPatch.js';
+import {
+  aggregateValidationErrors,
+  buildSelfHealingPrompt,
+  buildPatchFallbackPrompt,
+  createGenerationMetrics,
+  createEmptyErrors,
+} from '../story-generator/selfHealingLoop.js';
+
+const story = [
+  "import { Button, Card } from 'my-ui';",
+  "export default { title: 'Generated/Settings' };",
+  'export const Default = {',
+  '  render: () => (',
+  '    <Card>',
+  '      <Button colour="primary">Save</Button>',
+  '      <Button colour="secondary">Cancel</Button>',
+  '    </Card>',
+  '  ),',
+  '};',
+].join('\n');
+
+// ────────────────────────────────────────────────────────────────
+// Parsing and applying edits
+// ────────────────────────────────────────────────────────────────
+
+describe('applyStoryPatch', () => {
+  it('applies SEARCH/REPLACE blocks, tolerating lost indentation', () => {
+    const response = [
+      'Here are the fixes:',
+      '```',
+      '<<<<<<< SEARCH',
+      '      <Button colour="primary">Save</Button>',
+      '=======',
+      '      <Button color="primary">Save</Button>',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '<Button colour="secondary">Cancel</Button>',
+      '=======',
+      '      <Button color="secondary">Cancel</Button>',
+      '>>>>>>> REPLACE',
+      '```',
+    ].join('\n');
+
+    const result = applyStoryPatch(story, response);
+    expect(result).toMatchObject({ applied: true, hunks: 2 });
+    expect(result.code).toBe(story.replace(/colour=/g, 'color='));
+  });
+
+  it('applies unified diff hunks', () => {
+    const response = [
+      '```diff',
+      '--- a/story.stories.tsx',
+      '+++ b/story.stories.tsx',
+      '@@ -4,5 +4,5 @@',
+      '   render: () => (',
+      '     <Card>',
+      '-      <Button colour="primary">Save</Button>',
+      '+      <Button color="primary">Save</Button>',
+      '       <Button colour="secondary">Cancel</Button>',
+      '```',
+    ].join('\n');
+
+    expect(parsePatch(response)).toHaveLength(1);
+    const result = applyStoryPatch(story, response);
+    expect(result.applied).toBe(true);
+    expect(result.code.split('\n')[5]).toBe('      <Button color="primary">Save</Button>');
+    expect(result.code.split('\n')[6]).toBe('      <Button colour="secondary">Cancel</Button>');
+  });
+
+  it('rejects edits that are missing, ambiguous or change nothing', () => {
+    expect(applyStoryPatch(story, '```tsx\nexport const A = {};\n```')).toMatchObject({
+      applied: false,
+      hunks: 0,
+      reason: 'no edits found in the response',
+      code: story,
+    });
+
+    const ambiguous = ['<<<<<<< SEARCH', '<Button', '=======', '<Btn', '>>>>>>> REPLACE'].join('\n');
+    expect(applyStoryPatch(story, `${ambiguous.replace('<Button', '    </Card>')}\n${ambiguous.replace('<Button', 'not in the story')}`))
+      .toMatchObject({ applied: false, hunks: 2, reason: 'edit 2 of 2 does not match the story exactly once', code: story });
+
+    const unchanged = ['<<<<<<< SEARCH', '    <Card>', '=======', '    <Card>', '>>>>>>> REPLACE'].join('\n');
+    expect(applyStoryPatch(story, unchanged)).toMatchObject({ applied: false, reason: 'the edits do not change the story' });
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Self-healing integration
+// ────────────────────────────────────────────────────────────────
+
+describe('patch repair mode', () => {
+  const options = { maxAttempts: 3, availableComponents: ['Button', 'Card'], framework: 'react', importPath: 'my-ui' };
+  const errors = aggregateValidationErrors(null, [{ line: 6, message: '<Button> has no prop "colour"', rule: 'unknown-prop' }], null);
+
+  it('asks for edit blocks instead of the whole story', () => {
+    const patchPrompt = buildSelfHealingPrompt(story, errors, 1, { ...options, repairMode: 'patch' });
+    expect(patchPrompt).toContain('8. Return ONLY SEARCH/REPLACE edit blocks in the format below - do NOT resend the whole story');
+    expect(patchPrompt).toContain('### Edit Format');
+
+    const fullPrompt = buildSelfHealingPrompt(story, errors, 1, options);
+    expect(fullPrompt).toContain('8. Return the COMPLETE corrected code in a ```tsx code block');
+    expect(fullPrompt).not.toContain('### Edit Format');
+
+    expect(buildPatchFallbackPrompt('edit 1 of 1 does not match the story exactly once', 'svelte')).toBe(
+      'Your edits could not be applied: edit 1 of 1 does not match the story exactly once. Return the COMPLETE corrected story in a single ```svelte code block instead, with every error above fixed.'
+    );
+  });
+
+  it('records the repair mode of each attempt', () => {
+    const metrics = createGenerationMetrics(3, [errors, errors, createEmptyErrors()], [false, true, false], ['initial', 'patch', 'full']);
+    expect(metrics.validationHistory.map(entry => [entry.attempt, entry.repairMode, entry.propErrors, entry.autoFixApplied])).toEqual([
+      [1, 'initial', 0, false],
+      [2, 'patch', 0, true],
+      [3, 'full', 0, false],
+    ]);
+  });
+});
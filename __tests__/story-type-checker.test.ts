@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { typeCheckStory, resetStoryTypeChecker } from '../story-generator/storyTypeChecker.js';
+import type { StoryUIConfig } from '../story-ui.config.js';
+
+let projectRoot: string;
+let config: StoryUIConfig;
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-typecheck-'));
+  fs.mkdirSync(path.join(projectRoot, 'src', 'stories'), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), JSON.stringify({
+    compilerOptions: { strict: true, target: 'es2022', module: 'esnext', moduleResolution: 'bundler', noUnusedLocals: true },
+    include: ['src'],
+  }));
+  fs.writeFileSync(
+    path.join(projectRoot, 'src', 'button.ts'),
+    "export function Button(props: { variant: 'primary' | 'secondary'; size?: number }) { return props; }\n"
+  );
+  fs.writeFileSync(path.join(projectRoot, 'src', 'env.d.ts'), [
+    'declare const __APP_VERSION__: string;',
+    'interface Window { analytics: { track(event: string): void } }',
+  ].join('\n'));
+  config = { generatedStoriesPath: path.join(projectRoot, 'src', 'stories') } as StoryUIConfig;
+});
+
+afterAll(() => {
+  resetStoryTypeChecker();
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+// ────────────────────────────────────────────────────────────────
+// typeCheckStory
+// ────────────────────────────────────────────────────────────────
+
+describe('typeCheckStory', () => {
+  it('reports invalid prop values against the project typings', () => {
+    const code = "import { Button } from '../button';\nexport const Primary = () => Button({ variant: 'primary-ish', size: 'large' });\n";
+    const result = typeCheckStory(code, config, 'story.stories.ts', projectRoot);
+    expect(result.checked).toBe(true);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toMatch(/^Line 2, Column \d+: Type '"primary-ish"' is not assignable to type '"primary" \| "secondary"'\. \(TS2322\)$/);
+  });
+
+  it('passes valid stories and ignores unused and unresolvable imports', () => {
+    const code = "import { Button } from '../button';\nimport { Card } from 'not-installed';\nexport const Primary = () => Button({ variant: 'primary' });\n";
+    expect(typeCheckStory(code, config, 'story.stories.ts', projectRoot)).toMatchObject({ checked: true, errors: [] });
+  });
+
+  it('loads the ambient declarations the tsconfig includes', () => {
+    const code = "export const Version = () => { window.analytics.track('view'); return __APP_VERSION__.toUpperCase(); };\n";
+    expect(typeCheckStory(code, config, 'story.stories.ts', projectRoot)).toMatchObject({ checked: true, errors: [] });
+  });
+
+  it('reuses the compiler between attempts and picks up edited project files', () => {
+    const code = "import { Button } from '../button';\nexport const Primary = () => Button({ variant: 'tertiary' });\n";
+    expect(typeCheckStory(code, config, 'story.stories.ts', projectRoot).errors).toHaveLength(1);
+
+    const buttonPath = path.join(projectRoot, 'src', 'button.ts');
+    const original = fs.readFileSync(buttonPath, 'utf-8');
+    fs.writeFileSync(buttonPath, "export function Button(props: { variant: 'primary' | 'tertiary' }) { return props; }\n");
+    const later = new Date(Date.now() + 1000);
+    fs.utimesSync(buttonPath, later, later);
+    try {
+      expect(typeCheckStory(code, config, 'story.stories.ts', projectRoot)).toMatchObject({ checked: true, errors: [] });
+    } finally {
+      fs.writeFileSync(buttonPath, original);
+      fs.utimesSync(buttonPath, new Date(), new Date(Date.now() + 2000));
+    }
+  });
+
+  it('skips non-TypeScript stories and respects the config switch', () => {
+    expect(typeCheckStory('<script module></script>', config, 'story.stories.svelte', projectRoot).checked).toBe(false);
+    expect(typeCheckStory('export const x: number = "a";', { ...config, typeCheck: { enabled: false } }, 'story.stories.ts', projectRoot).checked).toBe(false);
+  });
+});
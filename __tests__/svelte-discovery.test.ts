@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverSvelteComponents } from '../story-generator/svelteDiscovery.js';
+import { SvelteAdapter } from '../story-generator/framework-adapters/svelte-adapter.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+let projectRoot: string;
+
+const FILES: Record<string, string> = {
+  'src/types.ts': [
+    'export interface BaseProps {',
+    '  /** Identifier for tests */',
+    '  testId?: string;',
+    '}',
+  ].join('\n'),
+  'src/Button.svelte': [
+    '<!--',
+    '  @component',
+    '  A clickable button',
+    '-->',
+    '<script lang="ts">',
+    "  import type { Snippet } from 'svelte';",
+    "  import type { BaseProps } from './types';",
+    '',
+    '  interface Props extends BaseProps {',
+    '    /** Visual style */',
+    "    variant?: 'primary' | 'secondary';",
+    '    label: string;',
+    '    pressed?: boolean;',
+    '    onclick?: (event: MouseEvent) => void;',
+    '    icon?: Snippet;',
+    '    children?: Snippet;',
+    '  }',
+    '',
+    "  let { variant = 'primary', label, pressed = $bindable(false), onclick, icon, children, ...rest }: Props = $props();",
+    '</script>',
+    '',
+    '<button class={variant} aria-pressed={pressed} {onclick} {...rest}>',
+    '  {#if icon}{@render icon()}{/if}',
+    '  {#snippet fallback()}{label}{/snippet}',
+    '  {@render (children ?? fallback)()}',
+    '</button>',
+  ].join('\n'),
+  'src/Badge.svelte': [
+    '<script>',
+    "  let { tone = 'neutral', count = 0, children } = $props();",
+    '</script>',
+    '<span data-tone={tone}>{count}{@render children?.()}</span>',
+  ].join('\n'),
+  'src/Dialog.svelte': [
+    '<script lang="ts">',
+    "  import { createEventDispatcher } from 'svelte';",
+    '',
+    '  /** Dialog heading */',
+    '  export let title: string;',
+    '  export let open = false;',
+    "  export const role = 'dialog';",
+    '',
+    '  const dispatch = createEventDispatcher<{ close: null; confirm: { reason: string } }>();',
+    "  const cancel = () => dispatch('cancel');",
+    '</script>',
+    '',
+    '<div {role} on:keydown on:click={cancel}>',
+    '  <header><slot name="header">{title}</slot></header>',
+    '  <slot />',
+    '</div>',
+    '<style>div { padding: 1rem; }</style>',
+  ].join('\n'),
+};
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-svelte-discovery-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+function discover(...files: string[]) {
+  const components = discoverSvelteComponents(files.map(file => path.join(projectRoot, file)), { projectRoot });
+  return Object.fromEntries(components.map(component => [path.basename(component.filePath, '.svelte'), component]));
+}
+
+// ────────────────────────────────────────────────────────────────
+// Runes and legacy syntax
+// ────────────────────────────────────────────────────────────────
+
+describe('discoverSvelteComponents', () => {
+  it('reads typed $props() with defaults, $bindable and snippet props', () => {
+    const { Button } = discover('src/Button.svelte');
+
+    expect(Button.description).toBe('A clickable button');
+    expect(Button.props).toEqual([
+      { name: 'variant', type: 'select', options: ['primary', 'secondary'], required: false, description: 'Visual style', defaultValue: 'primary' },
+      { name: 'label', type: 'string', required: true },
+      { name: 'pressed', type: 'boolean', required: false, defaultValue: false },
+      { name: 'onclick', type: 'function', required: false },
+      { name: 'testId', type: 'string', required: false, description: 'Identifier for tests' },
+    ]);
+    expect(Button.slots).toEqual(['icon', 'children']);
+    expect(Button.events).toEqual([]);
+  });
+
+  it('infers untyped $props() from defaults and finds snippets from {@render}', () => {
+    const { Badge } = discover('src/Badge.svelte');
+
+    expect(Badge.props).toEqual([
+      { name: 'tone', type: 'string', required: false, defaultValue: 'neutral' },
+      { name: 'count', type: 'number', required: false, defaultValue: 0 },
+    ]);
+    expect(Badge.slots).toEqual(['children']);
+  });
+
+  it('reads legacy export let props, slots and dispatched events', () => {
+    const { Dialog } = discover('src/Dialog.svelte');
+
+    expect(Dialog.props).toEqual([
+      { name: 'title', type: 'string', required: true, description: 'Dialog heading' },
+      { name: 'open', type: 'boolean', required: false, defaultValue: false },
+    ]);
+    expect(Dialog.slots).toEqual(['header', 'default']);
+    expect(Dialog.events).toEqual([
+      { name: 'close' },
+      { name: 'confirm', payload: '{ reason: string; }' },
+      { name: 'cancel' },
+      { name: 'keydown' },
+    ]);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Component reference
+// ────────────────────────────────────────────────────────────────
+
+describe('SvelteAdapter component reference', () => {
+  it('describes props, snippets and events', () => {
+    const component: DiscoveredComponent = {
+      name: 'Dialog',
+      filePath: 'src/Dialog.svelte',
+      props: ['title', 'open'],
+      propTypes: [
+        { name: 'title', type: 'string', required: true, description: 'Dialog heading' },
+        { name: 'open', type: 'boolean', defaultValue: false },
+      ],
+      events: [{ name: 'confirm', payload: '{ reason: string; }' }],
+      slots: ['header', 'default'],
+      description: 'A modal dialog',
+      category: 'feedback',
+    };
+
+    const reference = new SvelteAdapter().generateComponentReference([component], { importPath: 'my-ui' } as any);
+    expect(reference).toContain([
+      "- **Dialog** (import from 'my-ui')",
+      '  Props: title: string (required) - Dialog heading; open: boolean (default: false)',
+      '  Snippets: {#snippet header()}, children',
+      '  Events: confirm ({ reason: string; })',
+      '  A modal dialog',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverTypeScriptComponents } from '../story-generator/typeScriptDiscovery.js';
+import { EnhancedComponentDiscovery } from '../story-generator/enhancedComponentDiscovery.js';
+
+let projectRoot: string;
+
+const FILES: Record<string, string> = {
+  'package.json': '{"name":"fixture"}',
+  'tsconfig.json': JSON.stringify({ compilerOptions: { jsx: 'react-jsx', strict: true, moduleResolution: 'bundler', module: 'esnext' } }),
+  'src/types.ts': [
+    'export interface BaseProps {',
+    '  /** Identifier for tests */',
+    '  testId?: string;',
+    "  size?: 'sm' | 'md' | 'lg';",
+    '}',
+  ].join('\n'),
+  'src/Button.tsx': [
+    "import * as React from 'react';",
+    "import type { BaseProps } from './types';",
+    '',
+    'export interface ButtonProps extends BaseProps, React.ButtonHTMLAttributes<HTMLButtonElement> {',
+    '  /** Visual style */',
+    "  variant: 'primary' | 'secondary';",
+    '  /** @default false */',
+    '  loading?: boolean;',
+    '  onPress?: () => void;',
+    '}',
+    '',
+    '/** A clickable button */',
+    "export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(({ size = 'md', ...rest }, ref) => (",
+    '  <button ref={ref} {...rest} />',
+    '));',
+    '',
+    'export function formatLabel(label: string) {',
+    '  return label.trim();',
+    '}',
+    '',
+    "export const Theme = { radius: 4 };",
+  ].join('\n'),
+  'src/Card.tsx': [
+    "import { memo } from 'react';",
+    "import type { BaseProps } from './types';",
+    '',
+    "export type CardProps = Omit<BaseProps, 'size'> & { title: string; elevation?: 0 | 1 | 2 };",
+    '',
+    'export const Card = memo(function Card({ title, elevation = 1 }: CardProps) {',
+    '  return <section data-elevation={elevation}>{title}</section>;',
+    '});',
+  ].join('\n'),
+  'src/List.tsx': [
+    "import type { ReactNode, ElementType, ComponentPropsWithoutRef } from 'react';",
+    '',
+    'export function List<T>(props: { items: T[]; renderItem: (item: T) => ReactNode; emptyText?: string }) {',
+    '  return <ul>{props.items.map(props.renderItem)}</ul>;',
+    '}',
+    '',
+    "type TextProps<C extends ElementType> = { as?: C; tone?: 'muted' | 'default' } & Omit<ComponentPropsWithoutRef<C>, 'as' | 'tone'>;",
+    '',
+    "export default function Text<C extends ElementType = 'span'>({ as, tone = 'default', ...rest }: TextProps<C>) {",
+    "  const Component = as || 'span';",
+    '  return <Component data-tone={tone} {...rest} />;',
+    '}',
+  ].join('\n'),
+  'src/Legacy.tsx': [
+    "import React from 'react';",
+    '',
+    'type LegacyProps = { label: string; kind: "info" | "warning" } | { label: string; icon: string };',
+    '',
+    'export class Legacy extends React.Component<LegacyProps> {',
+    '  static defaultProps = {};',
+    '  render() { return null; }',
+    '}',
+  ].join('\n'),
+  'src/Button.stories.tsx': [
+    "import { Button } from './Button';",
+    'export default {',
+    '  component: Button,',
+    "  argTypes: { variant: { control: 'radio', options: ['primary', 'secondary'], description: 'Button style' } },",
+    '};',
+  ].join('\n'),
+  'node_modules/acme-ui/package.json': '{"name":"acme-ui","types":"index.d.ts"}',
+  'node_modules/acme-ui/index.d.ts': "export * from './badge';\nexport declare const VERSION: string;",
+  'node_modules/acme-ui/badge.d.ts': [
+    "import type { FC, HTMLAttributes } from 'react';",
+    'export interface BadgeProps extends HTMLAttributes<HTMLSpanElement> {',
+    '  /** @default "neutral" */',
+    "  tone?: 'neutral' | 'success' | (string & {});",
+    '  count: number;',
+    '}',
+    '/** Small status label */',
+    'export declare const Badge: FC<BadgeProps>;',
+  ].join('\n'),
+};
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-ts-discovery-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  }
+  // React's typings come from this repository, so inherited DOM props can be told apart
+  fs.mkdirSync(path.join(projectRoot, 'node_modules/@types'), { recursive: true });
+  fs.symlinkSync(path.resolve('node_modules/@types/react'), path.join(projectRoot, 'node_modules/@types/react'), 'dir');
+  fs.symlinkSync(path.resolve('node_modules/csstype'), path.join(projectRoot, 'node_modules/csstype'), 'dir');
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+function discover(...files: string[]) {
+  const components = discoverTypeScriptComponents(files.map(file => path.join(projectRoot, file)), { projectRoot });
+  return Object.fromEntries(components.map(component => [component.name, component]));
+}
+
+// ────────────────────────────────────────────────────────────────
+// Local components
+// ────────────────────────────────────────────────────────────────
+
+describe('discoverTypeScriptComponents', () => {
+  it('reads forwardRef components with props from extended interfaces', () => {
+    const { Button, formatLabel, Theme } = discover('src/Button.tsx');
+    expect(formatLabel).toBeUndefined();
+    expect(Theme).toBeUndefined();
+    expect(Button.description).toBe('A clickable button');
+    expect(Button.props).toEqual([
+      { name: 'variant', type: 'select', options: ['primary', 'secondary'], required: true, description: 'Visual style' },
+      { name: 'loading', type: 'boolean', required: false, defaultValue: false },
+      { name: 'onPress', type: 'function', required: false },
+      { name: 'testId', type: 'string', required: false, description: 'Identifier for tests' },
+      { name: 'size', type: 'select', options: ['sm', 'md', 'lg'], required: false, defaultValue: 'md' },
+    ]);
+  });
+
+  it('handles memo, Omit intersections, generic, polymorphic and class components', () => {
+    const { Card, List, Text, Legacy } = discover('src/Card.tsx', 'src/List.tsx', 'src/Legacy.tsx');
+
+    expect(Card.props.map(p => [p.name, p.type, p.required, p.options, p.defaultValue])).toEqual([
+      ['testId', 'string', false, undefined, undefined],
+      ['title', 'string', true, undefined, undefined],
+      ['elevation', 'select', false, ['0', '1', '2'], 1],
+    ]);
+    expect(List.props.map(p => [p.name, p.type, p.required])).toEqual([
+      ['items', 'array', true],
+      ['renderItem', 'function', true],
+      ['emptyText', 'string', false],
+    ]);
+    expect(Text.props.map(p => [p.name, p.type, p.options])).toEqual([
+      ['as', 'unknown', undefined],
+      ['tone', 'select', ['muted', 'default']],
+    ]);
+    expect(Legacy.props.map(p => [p.name, p.required])).toEqual([
+      ['label', true],
+      ['kind', false],
+      ['icon', false],
+    ]);
+  });
+
+  it('follows re-exports from a package type entry', () => {
+    const { Badge, VERSION } = discover('node_modules/acme-ui/index.d.ts');
+    expect(VERSION).toBeUndefined();
+    expect(Badge).toMatchObject({
+      filePath: path.join(projectRoot, 'node_modules/acme-ui/badge.d.ts'),
+      description: 'Small status label',
+      props: [
+        { name: 'tone', type: 'string', required: false, defaultValue: 'neutral' },
+        { name: 'count', type: 'number', required: true },
+      ],
+    });
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Enhanced discovery integration
+// ────────────────────────────────────────────────────────────────
+
+describe('EnhancedComponentDiscovery with TypeScript', () => {
+  it('uses resolved props for local components and keeps story argTypes', async () => {
+    const discovery = new EnhancedComponentDiscovery({
+      importPath: 'acme-ui',
+      componentPrefix: '',
+      componentsPath: path.join(projectRoot, 'src'),
+      generatedStoriesPath: path.join(projectRoot, 'src/stories/generated'),
+      componentsMetadataPath: undefined,
+      layoutRules: { multiColumnWrapper: 'div', columnComponent: 'div', containerComponent: 'div' },
+    } as any);
+    const components = Object.fromEntries((await discovery.discoverAll()).map(c => [c.name, c]));
+
+    expect(components.Button.description).toBe('A clickable button');
+    expect(components.Button.props).toEqual(['variant', 'loading', 'onPress', 'testId', 'size']);
+    expect(components.Button.propTypes?.find(p => p.name === 'variant')).toMatchObject({
+      type: 'radio',
+      options: ['primary', 'secondary'],
+      required: true,
+      description: 'Button style',
+      control: 'radio',
+    });
+    expect(components.Badge?.propTypes?.map(p => p.name)).toEqual(['tone', 'count']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { estimateCost, summarizeUsage, getUsageLedger, UsageRecord } from '../story-generator/usageLedger.js';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: Math.random().toString(36).slice(2),
+    timestamp: '2026-03-01T12:00:00.000Z',
+    day: '2026-03-01',
+    provider: 'claude',
+    model: 'claude-sonnet-4-6',
+    inputTokens: 1000,
+    outputTokens: 500,
+    cachedTokens: 0,
+    costUsd: 0.01,
+    responseCached: false,
+    ...overrides,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────
+// estimateCost
+// ────────────────────────────────────────────────────────────────
+
+describe('estimateCost', () => {
+  const pricing = { inputPricePer1kTokens: 0.003, outputPricePer1kTokens: 0.015, cachedInputPricePer1kTokens: 0.0003 };
+
+  it('prices input and output tokens per 1k', () => {
+    expect(estimateCost({ promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 }, pricing)).toBe(0.021);
+  });
+
+  it('bills cached input tokens at the cached rate', () => {
+    const usage = { promptTokens: 2000, completionTokens: 0, totalTokens: 2000, cachedTokens: 1000 };
+    expect(estimateCost(usage, pricing)).toBe(0.0033);
+  });
+
+  it('is free when the model has no prices', () => {
+    expect(estimateCost({ promptTokens: 2000, completionTokens: 1000, totalTokens: 3000 })).toBe(0);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// summarizeUsage
+// ────────────────────────────────────────────────────────────────
+
+describe('summarizeUsage', () => {
+  const records = [
+    record({ fileName: 'card.stories.tsx', chatId: 'card.stories.tsx', client: 'team-a' }),
+    record({ fileName: 'card.stories.tsx', chatId: 'card.stories.tsx', client: 'team-a', day: '2026-03-02' }),
+    record({ client: 'team-b', day: '2026-03-02', provider: 'openai', model: 'gpt-5.4', costUsd: 0.02 }),
+  ];
+
+  it('aggregates per story, chat, day, model and client', () => {
+    const summary = summarizeUsage(records);
+    expect(summary.totals.calls).toBe(3);
+    expect(summary.totals.costUsd).toBe(0.04);
+    expect(summary.byStory['card.stories.tsx'].calls).toBe(2);
+    expect(summary.byStory['(none)'].calls).toBe(1);
+    expect(summary.byDay['2026-03-02'].calls).toBe(2);
+    expect(summary.byModel['openai:gpt-5.4'].costUsd).toBe(0.02);
+    expect(summary.byClient['team-a'].inputTokens).toBe(2000);
+  });
+
+  it('filters by inclusive day range and client', () => {
+    expect(summarizeUsage(records, { from: '2026-03-02' }).totals.calls).toBe(2);
+    expect(summarizeUsage(records, { to: '2026-03-01' }).totals.calls).toBe(1);
+    expect(summarizeUsage(records, { client: 'team-b' }).totals.costUsd).toBe(0.02);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Shutdown
+// ────────────────────────────────────────────────────────────────
+
+describe('getUsageLedger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes pending usage when the process exits or is stopped', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-ledger-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    const handlers = new Map<string, () => void>();
+    vi.spyOn(process, 'once').mockImplementation(((event: string, handler: () => void) => {
+      handlers.set(event, handler);
+      return process;
+    }) as any);
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const ledgerFile = path.join(dir, '.story-ui', 'usage-ledger.json');
+
+    try {
+      const ledger = getUsageLedger();
+      expect([...handlers.keys()]).toEqual(['exit', 'SIGINT', 'SIGTERM']);
+
+      ledger.record({ provider: 'claude', model: 'claude-sonnet-4-6', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } });
+      expect(fs.existsSync(ledgerFile)).toBe(false);
+      handlers.get('exit')!();
+      expect(JSON.parse(fs.readFileSync(ledgerFile, 'utf-8')).records).toHaveLength(1);
+
+      ledger.record({ provider: 'claude', model: 'claude-sonnet-4-6', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } });
+      handlers.get('SIGTERM')!();
+      expect(JSON.parse(fs.readFileSync(ledgerFile, 'utf-8')).records).toHaveLength(2);
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
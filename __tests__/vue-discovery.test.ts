@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverVueComponents } from '../story-generator/vueDiscovery.js';
+import { VueAdapter } from '../story-generator/framework-adapters/vue-adapter.js';
+import type { DiscoveredComponent } from '../story-generator/componentDiscovery.js';
+
+let projectRoot: string;
+
+const FILES: Record<string, string> = {
+  'src/types.ts': [
+    'export interface BaseProps {',
+    '  /** Identifier for tests */',
+    '  testId?: string;',
+    '}',
+  ].join('\n'),
+  'src/Button.vue': [
+    '<script setup lang="ts">',
+    "import type { BaseProps } from './types';",
+    '',
+    'interface Props extends BaseProps {',
+    '  /** Visual style */',
+    "  variant?: 'primary' | 'secondary';",
+    '  label: string;',
+    '  items?: string[];',
+    '}',
+    '',
+    "const props = withDefaults(defineProps<Props>(), { variant: 'primary', items: () => [] });",
+    'const emit = defineEmits<{',
+    '  /** Fired on click */',
+    '  (e: \'click\', event: MouseEvent): void;',
+    "  (e: 'focus' | 'blur'): void;",
+    '}>();',
+    "const open = defineModel<boolean>('open');",
+    '</script>',
+    '',
+    '<template>',
+    '  <button :class="props.variant" @click="emit(\'click\', $event)">',
+    '    <slot name="icon" />',
+    '    <slot>{{ label }}</slot>',
+    '    <template v-if="open"><slot :name="dynamicName" /></template>',
+    '  </button>',
+    '</template>',
+    '',
+    '<style scoped>',
+    '.primary { color: red; }',
+    '</style>',
+  ].join('\n'),
+  'src/Card.vue': [
+    '<template>',
+    '  <section><header><slot name="header"></slot></header><slot /></section>',
+    '</template>',
+    '',
+    '<script lang="ts">',
+    "import { defineComponent, type PropType } from 'vue';",
+    '',
+    '/** A surface for grouped content */',
+    'export default defineComponent({',
+    "  name: 'Card',",
+    '  props: {',
+    '    /** Card heading */',
+    '    title: { type: String, required: true },',
+    "    elevation: { type: Number as PropType<0 | 1 | 2>, default: 1 },",
+    '    flat: Boolean,',
+    '  },',
+    '  emits: {',
+    '    select: (id: number) => true,',
+    '    close: null,',
+    '  },',
+    '});',
+    '</script>',
+  ].join('\n'),
+  'src/Tag.vue': [
+    '<script setup>',
+    "const { tone = 'neutral' } = defineProps({ tone: String, removable: { type: Boolean, required: true } });",
+    "defineEmits(['remove']);",
+    'defineSlots<{ default(): any; suffix(props: { tone: string }): any }>();',
+    '</script>',
+    '<template><span><slot /></span></template>',
+  ].join('\n'),
+};
+
+beforeAll(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'story-ui-vue-discovery-'));
+  for (const [file, content] of Object.entries(FILES)) {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  }
+});
+
+afterAll(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+function discover(...files: string[]) {
+  const components = discoverVueComponents(files.map(file => path.join(projectRoot, file)), { projectRoot });
+  return Object.fromEntries(components.map(component => [path.basename(component.filePath, '.vue'), component]));
+}
+
+// ────────────────────────────────────────────────────────────────
+// Single-file components
+// ────────────────────────────────────────────────────────────────
+
+describe('discoverVueComponents', () => {
+  it('reads <script setup> macros and template slots', () => {
+    const { Button } = discover('src/Button.vue');
+
+    expect(Button.props).toEqual([
+      { name: 'variant', type: 'select', options: ['primary', 'secondary'], required: false, description: 'Visual style', defaultValue: 'primary' },
+      { name: 'label', type: 'string', required: true },
+      { name: 'items', type: 'array', required: false, defaultValue: '[]' },
+      { name: 'testId', type: 'string', required: false, description: 'Identifier for tests' },
+      { name: 'open', type: 'boolean', required: false },
+    ]);
+    expect(Button.events).toEqual([
+      { name: 'click', payload: 'event: MouseEvent', description: 'Fired on click' },
+      { name: 'focus' },
+      { name: 'blur' },
+      { name: 'update:open', payload: 'value: boolean' },
+    ]);
+    expect(Button.slots).toEqual(['icon', 'default']);
+  });
+
+  it('reads Options API props, emits and the component description', () => {
+    const { Card } = discover('src/Card.vue');
+
+    expect(Card.description).toBe('A surface for grouped content');
+    expect(Card.props).toEqual([
+      { name: 'title', type: 'string', required: true, description: 'Card heading' },
+      { name: 'elevation', type: 'select', options: ['0', '1', '2'], required: false, defaultValue: 1 },
+      { name: 'flat', type: 'boolean', required: false },
+    ]);
+    expect(Card.events).toEqual([{ name: 'select', payload: 'id: number' }, { name: 'close' }]);
+    expect(Card.slots).toEqual(['header', 'default']);
+  });
+
+  it('reads runtime declarations with destructured defaults and defineSlots', () => {
+    const { Tag } = discover('src/Tag.vue');
+
+    expect(Tag.props).toEqual([
+      { name: 'tone', type: 'string', required: false, defaultValue: 'neutral' },
+      { name: 'removable', type: 'boolean', required: true },
+    ]);
+    expect(Tag.events).toEqual([{ name: 'remove' }]);
+    expect(Tag.slots).toEqual(['default', 'suffix']);
+  });
+});
+
+// ────────────────────────────────────────────────────────────────
+// Component reference
+// ────────────────────────────────────────────────────────────────
+
+describe('VueAdapter component reference', () => {
+  it('describes props, events and slots in Vue syntax', () => {
+    const component: DiscoveredComponent = {
+      name: 'Card',
+      filePath: 'src/Card.vue',
+      props: ['title', 'elevation'],
+      propTypes: [
+        { name: 'title', type: 'string', required: true, description: 'Card heading' },
+        { name: 'elevation', type: 'select', options: ['0', '1', '2'], defaultValue: 1 },
+      ],
+      events: [{ name: 'select', payload: 'id: number' }, { name: 'update:open', payload: 'value: boolean' }],
+      slots: ['header', 'default'],
+      description: 'A surface for grouped content',
+      category: 'content',
+    };
+
+    const reference = new VueAdapter().generateComponentReference([component], { importPath: 'my-ui' } as any);
+    expect(reference).toContain([
+      "- **Card** (import from 'my-ui')",
+      '  Props: title: string (required) - Card heading; elevation: "0" | "1" | "2" (default: 1)',
+      '  Events: @select(id: number), @update:open(value: boolean)',
+      '  Slots: #header, #default',
+      '  A surface for grouped content',
+    ].join('\n'));
+  });
+});
@@ -8,6 +8,8 @@ import { fileURLToPath } from 'url';
 import { setupCommand, cleanupDefaultStorybookComponents } from './setup.js';
 import { deployCommand } from './deploy.js';
 import { updateCommand, statusCommand } from './update.js';
+import { loadUserConfig } from '../story-generator/configLoader.js';
+import { ResponseCache, resolveCacheOptions } from '../story-generator/llm-providers/response-cache.js';
 import net from 'net';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -205,6 +207,27 @@ function writeConfig(config: any, type: 'json' | 'js', filename?: string) {
   }
 }
 
+const cache = program
+  .command('cache')
+  .description('Manage the on-disk LLM response cache');
+
+cache
+  .command('clear')
+  .description('Delete all cached LLM responses')
+  .action(() => {
+    const responseCache = new ResponseCache(resolveCacheOptions(loadUserConfig().llmCache));
+    const removed = responseCache.clear();
+    console.log(`✅ Cleared ${removed} cached ${removed === 1 ? 'response' : 'responses'}`);
+  });
+
+cache
+  .command('stats')
+  .description('Show how many responses are cached and how much space they use')
+  .action(() => {
+    const stats = new ResponseCache(resolveCacheOptions(loadUserConfig().llmCache)).stats();
+    console.log(`📦 ${stats.entries} cached responses (${(stats.sizeBytes / 1024 / 1024).toFixed(2)} MB) in ${stats.directory}`);
+  });
+
 program
   .command('cleanup')
   .description('Remove default Storybook template files that conflict with component discovery')
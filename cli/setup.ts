@@ -1387,7 +1387,9 @@ VITE_STORY_UI_PORT=${answers.mcpPort || '4001'}
     const patterns = [
       '.env',
       path.relative(process.cwd(), config.generatedStoriesPath),
-      '.story-ui-history/'
+      '.story-ui-history/',
+      '.story-ui-cache/',
+      '.story-ui/usage-ledger.json'
     ];
 
     let gitignoreUpdated = false;
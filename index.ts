@@ -34,6 +34,45 @@ export {
   buildClaudePrompt
 } from './story-generator/promptGenerator.js';
 
+export type {
+  CustomValidationRule,
+  CustomRuleContext,
+  CustomRuleResult,
+  CustomRuleSeverity
+} from './story-generator/customRules.js';
+
+export type {
+  StoryDiagnostic,
+  DiagnosticSeverity,
+  DiagnosticSource,
+  DiagnosticFix,
+  DiagnosticEdit
+} from './story-generator/diagnostics.js';
+
+export type {
+  TypeScriptComponent,
+  TypeScriptDiscoveryOptions
+} from './story-generator/typeScriptDiscovery.js';
+
+export type {
+  VueComponent,
+  VueDiscoveryOptions
+} from './story-generator/vueDiscovery.js';
+
+export type {
+  AngularComponent,
+  AngularDiscoveryOptions
+} from './story-generator/angularDiscovery.js';
+
+export type {
+  SvelteComponent,
+  SvelteDiscoveryOptions
+} from './story-generator/svelteDiscovery.js';
+
+export type {
+  CustomElementComponent
+} from './story-generator/customElementsDiscovery.js';
+
 
 export {
   ProductionGitignoreManager,
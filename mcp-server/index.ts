@@ -53,6 +53,8 @@ import {
   manifestPollHandler,
 } from './routes/manifest.js';
 import { getManifestManager } from '../story-generator/manifestManager.js';
+// Usage ledger — tokens and estimated cost per story/chat/client/day
+import { usageSummaryHandler, usageRecordsHandler, usageBudgetHandler } from './routes/usage.js';
 
 // Supported story file extensions for all frameworks
 const STORY_EXTENSIONS = ['.stories.tsx', '.stories.ts', '.stories.svelte', '.stories.js'];
@@ -163,6 +165,12 @@ app.post('/story-ui/manifest/reconcile', manifestReconcileHandler);
 app.get('/story-ui/manifest', manifestGetHandler);
 app.patch('/story-ui/manifest/:fileName', manifestPatchHandler);
 app.delete('/story-ui/manifest/:fileName', manifestDeleteHandler);
+
+// Usage ledger
+app.get('/story-ui/usage', usageSummaryHandler);
+app.get('/story-ui/usage/records', usageRecordsHandler);
+app.get('/story-ui/usage/budget', usageBudgetHandler);
+
 // Expose design-system config for auto-registry loading
 app.get('/mcp/canvas-config', (_req, res) => {
   res.json({
@@ -25,6 +25,7 @@ import { loadUserConfig } from '../../story-generator/configLoader.js';
 import { EnhancedComponentDiscovery } from '../../story-generator/enhancedComponentDiscovery.js';
 import { buildClaudePrompt } from '../../story-generator/promptGenerator.js';
 import { chatCompletion } from '../../story-generator/llm-providers/story-llm-service.js';
+import { getUsageClient, sendBudgetError } from './usage.js';
 import { logger } from '../../story-generator/logger.js';
 
 // ── Component discovery cache ─────────────────────────────────
@@ -441,6 +442,7 @@ export async function canvasGenerateHandler(req: Request, res: Response) {
       model,
       maxTokens: 4096,
       temperature: 0.3,
+      usageContext: { source: 'canvas', fileName: VOICE_CANVAS_STORY_FILE, client: getUsageClient(req) },
     });
 
     // Extract the canvas code from the LLM response and sanitize it.
@@ -462,6 +464,7 @@ export async function canvasGenerateHandler(req: Request, res: Response) {
       storyId: VOICE_CANVAS_STORY_ID,
     });
   } catch (error) {
+    if (sendBudgetError(res, error)) return;
     const message = error instanceof Error ? error.message : String(error);
     logger.error('[canvas-generate] Error', { error: message });
     return res.status(500).json({ error: message });
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { chatCompletion, isProviderConfigured, getProviderInfo } from '../../story-generator/llm-providers/story-llm-service.js';
 import { logger } from '../../story-generator/logger.js';
+import { getUsageClient, sendBudgetError } from './usage.js';
 
 export async function claudeProxy(req: Request, res: Response) {
   const { prompt, messages, model, maxTokens, systemPrompt, prefillAssistant } = req.body;
@@ -14,7 +15,7 @@ export async function claudeProxy(req: Request, res: Response) {
   if (!isProviderConfigured()) {
     return res.status(500).json({
       error: 'No LLM provider configured',
-      message: 'Please set CLAUDE_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY in your environment'
+      message: 'Please set CLAUDE_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, or OLLAMA_BASE_URL in your environment'
     });
   }
 
@@ -53,7 +54,8 @@ export async function claudeProxy(req: Request, res: Response) {
 
     const response = await chatCompletion(chatMessages, {
       model,
-      maxTokens: maxTokens || 4096
+      maxTokens: maxTokens || 4096,
+      usageContext: { source: 'proxy', client: getUsageClient(req) }
     });
 
     // If we used a prefill, prepend it to the response so the client gets the full output
@@ -66,6 +68,7 @@ export async function claudeProxy(req: Request, res: Response) {
       model: providerInfo.currentModel
     });
   } catch (err) {
+    if (sendBudgetError(res, err)) return;
     logger.error('LLM proxy error', {
       error: err instanceof Error ? err.message : String(err)
     });
@@ -3,7 +3,7 @@ import fs from 'fs';
 import path from 'path';
 import { loadUserConfig } from '../../story-generator/configLoader.js';
 import { EnhancedComponentDiscovery } from '../../story-generator/enhancedComponentDiscovery.js';
-import { PropInfo } from '../../story-generator/componentDiscovery.js';
+import { EventInfo, PropInfo, StyleHookInfo } from '../../story-generator/componentDiscovery.js';
 
 // Cache discovered components for performance (includes propTypes for rich type info)
 interface CachedComponent {
@@ -13,6 +13,10 @@ interface CachedComponent {
   props: string[];
   propTypes?: PropInfo[];
   slots?: string[];
+  events?: EventInfo[];
+  selector?: string;
+  cssParts?: StyleHookInfo[];
+  cssProperties?: StyleHookInfo[];
 }
 
 let cachedComponents: CachedComponent[] | null = null;
@@ -42,7 +46,11 @@ export async function getComponents(req: Request, res: Response) {
       category: comp.category,
       props: comp.props,
       propTypes: comp.propTypes,
-      slots: comp.slots
+      slots: comp.slots,
+      events: comp.events,
+      selector: comp.selector,
+      cssParts: comp.cssParts,
+      cssProperties: comp.cssProperties
     }));
 
     // Cache the results
@@ -78,7 +86,11 @@ export async function getProps(req: Request, res: Response) {
         category: comp.category,
         props: comp.props,
         propTypes: comp.propTypes,
-        slots: comp.slots
+        slots: comp.slots,
+        events: comp.events,
+        selector: comp.selector,
+        cssParts: comp.cssParts,
+        cssProperties: comp.cssProperties
       }));
       cacheTimestamp = now;
     }
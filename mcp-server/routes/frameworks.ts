@@ -12,6 +12,8 @@ import {
   getFrameworkAdapter,
 } from '../../story-generator/promptGenerator.js';
 import { detectFramework } from '../../story-generator/framework-adapters/index.js';
+import { validateFrameworkCompilation } from '../../story-generator/frameworkCompilerValidator.js';
+import { toDiagnostic, parseDiagnostic, formatDiagnostic } from '../../story-generator/diagnostics.js';
 import { logger } from '../../story-generator/logger.js';
 
 /**
@@ -143,12 +145,18 @@ export async function validateStoryForFramework(req: Request, res: Response) {
 
     const adapter = getFrameworkAdapter(framework as any);
     const validation = adapter.validate(content);
+    const compileResult = await validateFrameworkCompilation(content, `story${adapter.defaultExtension}`, adapter.type);
+    const diagnostics = [
+      ...validation.errors.map(error => parseDiagnostic('framework', error)),
+      ...compileResult.errors.map(error => toDiagnostic('compiler', error)),
+    ];
 
     res.json({
       success: true,
       validation: {
-        isValid: validation.valid,
-        errors: validation.errors,
+        isValid: diagnostics.length === 0,
+        errors: diagnostics.map(formatDiagnostic),
+        diagnostics,
         framework: adapter.type,
       },
     });
@@ -7,14 +7,34 @@ import { fileURLToPath } from 'url';
 import { discoverComponents } from '../../story-generator/componentDiscovery.js';
 import {
   buildClaudePrompt as buildFlexiblePrompt,
-  buildFrameworkAwarePrompt,
+  buildFrameworkAwarePromptSections,
   detectProjectFramework,
   getAvailableFrameworks,
 } from '../../story-generator/promptGenerator.js';
+import {
+  PromptBudget,
+  PromptBudgetReport,
+  PromptSection,
+  PROMPT_SECTION_PRIORITY,
+  describePromptBudget,
+  fitPromptToBudget,
+  insertPromptSections,
+  renderPromptSections,
+} from '../../story-generator/promptBudget.js';
 import { FrameworkType, StoryGenerationOptions, getAdapter } from '../../story-generator/framework-adapters/index.js';
 import { loadUserConfig, validateConfig } from '../../story-generator/configLoader.js';
 import { extractAndValidateCodeBlock, validateStoryCode } from '../../story-generator/validateStory.js';
+import { typeCheckStory } from '../../story-generator/storyTypeChecker.js';
+import { validateComponentProps } from '../../story-generator/propValidator.js';
+import { renderStoryHeadless } from '../../story-generator/headlessRenderValidator.js';
+import { auditStoryAccessibility, addA11yParameters } from '../../story-generator/a11yAudit.js';
+import { validatePlayFunctions, getInteractiveComponents } from '../../story-generator/playFunctionValidator.js';
+import { validateDesignGuidelines } from '../../story-generator/designGuidelinesValidator.js';
+import { validateFrameworkCompilation, mergeCompilerErrors } from '../../story-generator/frameworkCompilerValidator.js';
 import { createFrameworkAwareFallbackStory } from './storyHelpers.js';
+import { getUsageClient, sendBudgetError } from './usage.js';
+import { assertRequestWithinBudget } from '../../story-generator/budgetGuard.js';
+import { getUsageLedger, UsageContext } from '../../story-generator/usageLedger.js';
 import { isBlacklistedComponent, isBlacklistedIcon, getBlacklistErrorMessage, ICON_CORRECTIONS } from '../../story-generator/componentBlacklist.js';
 import { StoryTracker, StoryMapping } from '../../story-generator/storyTracker.js';
 import { getManifestManager } from '../../story-generator/manifestManager.js';
@@ -25,7 +45,7 @@ import { validateStory, ValidationError } from '../../story-generator/storyValid
 import { StoryHistoryManager } from '../../story-generator/storyHistory.js';
 import { logger } from '../../story-generator/logger.js';
 import { UrlRedirectService } from '../../story-generator/urlRedirectService.js';
-import { chatCompletion, generateTitle as llmGenerateTitle, isProviderConfigured, getProviderInfo, chatCompletionWithImages, buildMessageWithImages } from '../../story-generator/llm-providers/story-llm-service.js';
+import { chatCompletionDetailed, generateTitle as llmGenerateTitle, isProviderConfigured, getProviderInfo, chatCompletionWithImagesDetailed, buildMessageWithImages, getPromptBudget, StoryChatResult } from '../../story-generator/llm-providers/story-llm-service.js';
 import { processImageInputs, ImageInput } from '../../story-generator/imageProcessor.js';
 import { VisionPromptType, buildVisionAwarePrompt } from '../../story-generator/visionPrompts.js';
 import { ImageContent } from '../../story-generator/llm-providers/types.js';
@@ -45,7 +65,13 @@ import {
   createEmptyErrors,
   formatErrorsForLog,
   selectBestAttempt,
+  suppressDiagnostics,
+  RepairMode,
+  buildPatchFallbackPrompt,
+  createGenerationMetrics,
 } from '../../story-generator/selfHealingLoop.js';
+import { applyStoryPatch } from '../../story-generator/storyPatch.js';
+import { StoryDiagnostic, toDiagnostic, formatDiagnostic, isSuppressed } from '../../story-generator/diagnostics.js';
 import {
   validateStoryRuntime,
   formatRuntimeErrorForHealing,
@@ -93,8 +119,11 @@ async function buildClaudePromptWithContext(
     visionMode?: VisionPromptType;
     designSystem?: string;
     storybookContext?: StorybookMcpContext;  // Optional context from Storybook MCP
+    promptBudget?: PromptBudget | null;  // Trim sections to fit the model's context window
+    includeA11yTests?: boolean;  // Add accessibility requirements to the prompt
+    includeInteractionTests?: boolean;  // Add play-function instructions to the prompt
   }
-) {
+): Promise<{ prompt: string; promptBudget?: PromptBudgetReport }> {
   const discovery = new EnhancedComponentDiscovery(config);
   const components = await discovery.discoverAll();
 
@@ -105,7 +134,11 @@ async function buildClaudePromptWithContext(
     throw new Error('Framework must be passed to buildClaudePromptWithContext - early detection should have determined it');
   }
 
-  const frameworkOptions: StoryGenerationOptions = { framework: options.framework };
+  const frameworkOptions: StoryGenerationOptions = {
+    framework: options.framework,
+    includeA11yTests: options.includeA11yTests,
+    includeInteractionTests: options.includeInteractionTests,
+  };
 
   // Always start with component discovery as the authoritative source
   logger.log(`📦 Discovered ${components.length} components from ${config.importPath}`);
@@ -113,7 +146,7 @@ async function buildClaudePromptWithContext(
   logger.log(`✅ Available components: ${availableComponents}`);
 
   // Build framework-aware prompt since we now always have a framework
-  let prompt: string = await buildFrameworkAwarePrompt(userPrompt, config, components, frameworkOptions);
+  let sections = await buildFrameworkAwarePromptSections(userPrompt, config, components, frameworkOptions);
   logger.log(`🔧 Built framework-aware prompt for ${options.framework}`);
 
   // Enhance prompt with vision-aware context if vision mode is provided
@@ -127,16 +160,21 @@ async function buildClaudePromptWithContext(
       designSystem: options.designSystem,
     });
     // Combine the vision system prompt with the existing prompt and add the user prompt
-    prompt = `${visionPrompts.systemPrompt}\n\n---\n\n${prompt}\n\n---\n\n${visionPrompts.userPrompt}`;
+    sections = [
+      { id: 'visionInstructions', content: `${visionPrompts.systemPrompt}\n\n---` },
+      ...sections,
+      { id: 'visionRequest', content: `---\n\n${visionPrompts.userPrompt}` },
+    ];
   }
 
+  // Context sections go right before the user request, in this order
+  const contextSections: PromptSection[] = [];
+
 // Try to enhance with bundled documentation for usage patterns and design tokens
   logger.log('📋 Using bundled documentation for enhancement');
   const documentation = getDocumentation(config.importPath);
   if (documentation) {
-    const bundledEnhancement = `
-
-📚 BUNDLED DOCUMENTATION:
+    const bundledEnhancement = `📚 BUNDLED DOCUMENTATION:
 ${Object.entries(documentation.components || {}).map(([name, info]: [string, any]) => {
   // Only include docs for components that actually exist in the discovered list
   if (components.some(c => c.name === name)) {
@@ -149,9 +187,13 @@ ${Object.entries(documentation.components || {}).map(([name, info]: [string, any
   return null;
 }).filter(Boolean).join('\n\n')}`;
 
-    prompt = prompt.replace('User request:', `${bundledEnhancement}
-
-User request:`);
+    contextSections.push({
+      id: 'bundledDocumentation',
+      label: 'Bundled documentation',
+      content: bundledEnhancement,
+      priority: PROMPT_SECTION_PRIORITY.bundledDocumentation,
+      truncate: 'keepStart',
+    });
   }
 
   // Inject Storybook MCP context if available
@@ -159,31 +201,37 @@ User request:`);
     const storybookContextStr = formatStorybookContext(options.storybookContext);
     if (storybookContextStr) {
       logger.log('📚 Injecting Storybook MCP context into prompt');
-      prompt = prompt.replace('User request:', `${storybookContextStr}
-
-User request:`);
+      contextSections.push({
+        id: 'storybookContext',
+        label: 'Storybook MCP context',
+        content: storybookContextStr,
+        priority: PROMPT_SECTION_PRIORITY.storybookContext,
+        truncate: 'keepStart',
+      });
     }
   }
 
-  // If no conversation context, return the prompt as-is
-  if (!conversation || conversation.length <= 1) {
-    return prompt;
-  }
-
-  // Extract conversation context for modifications
-  const conversationContext = conversation
-    .slice(0, -1) // Remove the current message (last one)
-    .map((msg: any) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-    .join('\n\n');
-
-  // Build contextual prompt with previous code if available
-  let contextSection = `CONVERSATION CONTEXT (for modifications/updates):
-${conversationContext}`;
-
-  if (previousCode) {
-    contextSection += `
+  // Add conversation context for modifications
+  if (conversation && conversation.length > 1) {
+    const conversationContext = conversation
+      .slice(0, -1) // Remove the current message (last one)
+      .map((msg: any) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    // Keep the most recent turns when the history has to be cut
+    contextSections.push({
+      id: 'conversation',
+      label: 'Conversation history',
+      content: `CONVERSATION CONTEXT (for modifications/updates):
+${conversationContext}`,
+      priority: PROMPT_SECTION_PRIORITY.conversation,
+      truncate: 'keepEnd',
+    });
 
-PREVIOUS GENERATED CODE (this is what you're modifying):
+    if (previousCode) {
+      contextSections.push({
+        id: 'previousCode',
+        content: `PREVIOUS GENERATED CODE (this is what you're modifying):
 \`\`\`tsx
 ${previousCode}
 \`\`\`
@@ -194,23 +242,35 @@ CRITICAL INSTRUCTIONS FOR MODIFICATIONS:
 3. ONLY change what the user specifically requests
 4. Keep the exact same layout (Grid structure, columns, etc.) unless explicitly asked to change it
 5. Maintain all visual styling (colors, shadows, spacing) unless asked to modify them
-6. Think of this as EDITING the code above, not creating new code`;
-  }
-
-  // Add conversation context to the prompt
-  const contextualPrompt = prompt.replace(
-    'User request:',
-    `${contextSection}
+6. Think of this as EDITING the code above, not creating new code`,
+      });
+    }
 
-IMPORTANT: The user is asking to modify/update the story based on the above conversation.
+    sections = sections.map(section => section.id === 'userRequest'
+      ? {
+        ...section,
+        content: `IMPORTANT: The user is asking to modify/update the story based on the above conversation.
 - Keep the SAME layout structure (number of columns, grid setup) unless explicitly asked to change it
 - Only modify the specific aspects mentioned in the latest request
 - Maintain the overall story concept from the original request
 
-Current modification request:`
-  );
+Current modification request:
+${userPrompt}`,
+      }
+      : section);
+  }
+
+  sections = insertPromptSections(sections, 'userRequest', ...contextSections);
 
-  return contextualPrompt;
+  if (!options?.promptBudget) {
+    return { prompt: renderPromptSections(sections) };
+  }
+
+  const fitted = fitPromptToBudget(sections, options.promptBudget);
+  if (fitted.report.adjustments.length > 0 || fitted.report.overBudget) {
+    logger.log(`✂️ ${describePromptBudget(fitted.report)}`);
+  }
+  return { prompt: renderPromptSections(fitted.sections), promptBudget: fitted.report };
 }
 
 function slugify(str: string) {
@@ -262,11 +322,11 @@ function extractCodeBlock(text: string, framework?: string): string | null {
 async function callLLM(
   messages: { role: 'user' | 'assistant', content: string }[],
   images?: ImageContent[],
-  options?: { provider?: string; model?: string }
-): Promise<string> {
+  options?: { provider?: string; model?: string; bypassCache?: boolean; usageContext?: UsageContext }
+): Promise<StoryChatResult> {
   // Check if any provider is configured
   if (!isProviderConfigured()) {
-    throw new Error('No LLM provider configured. Please set CLAUDE_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY.');
+    throw new Error('No LLM provider configured. Please set CLAUDE_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, or OLLAMA_BASE_URL.');
   }
 
   const providerInfo = getProviderInfo();
@@ -279,10 +339,12 @@ async function callLLM(
   }
 
   // Build options to pass to chat completion
-  const llmOptions: { provider?: any; model?: string; maxTokens: number } = {
+  const llmOptions: { provider?: any; model?: string; maxTokens: number; bypassCache?: boolean; usageContext?: UsageContext } = {
     maxTokens: 8192,
     provider: options?.provider,
     model: options?.model,
+    bypassCache: options?.bypassCache,
+    usageContext: options?.usageContext,
   };
 
   // If images are provided, use vision-capable chat
@@ -304,10 +366,10 @@ async function callLLM(
       return msg;
     });
 
-    return await chatCompletionWithImages(messagesWithImages, llmOptions);
+    return await chatCompletionWithImagesDetailed(messagesWithImages, llmOptions);
   }
 
-  return await chatCompletion(messages, llmOptions);
+  return await chatCompletionDetailed(messages, llmOptions);
 }
 
 function cleanPromptForTitle(prompt: string): string {
@@ -503,11 +565,17 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
     visionMode,          // Vision mode: 'screenshot_to_story', 'design_to_story', 'component_analysis', 'layout_analysis'
     designSystem,        // Design system being used (chakra-ui, mantine, etc.)
     provider,            // LLM provider selected in UI (claude, openai, gemini)
-    model                // Model selected in UI
+    model,               // Model selected in UI
+    bypassCache,         // Skip the LLM response cache and always call the provider
+    includeA11yTests,    // Audit accessibility and add a11y addon parameters (default: config.a11y.enabled)
+    includeInteractionTests // Generate and check play functions (default: config.interactionTests.enabled)
   } = req.body;
   if (!prompt) return res.status(400).json({ error: 'Missing prompt' });
 
   try {
+    // Refuse over-budget requests before any discovery or LLM work
+    assertRequestWithinBudget(getUsageClient(req));
+
     // Load and validate configuration
     const config = loadUserConfig();
     const validation = validateConfig(config);
@@ -581,6 +649,8 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
     let validationErrors: ValidationError[] = [];
     const maxRetries = 3;
     let attempts = 0;
+    let answeredBy: StoryChatResult | null = null;
+    const usageRecordIds: string[] = [];
     let selfHealingUsed = false;
 
     // Build framework-aware options with vision support
@@ -656,6 +726,11 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       logger.warn('⚠️ No framework configured, defaulting to React. Consider setting componentFramework in story-ui.config.js');
     }
 
+    const a11yEnabled = includeA11yTests ?? config.a11y?.enabled === true;
+    const a11ySelfHeal = a11yEnabled && config.a11y?.selfHeal === true;
+    const interactionTestsEnabled = includeInteractionTests ?? config.interactionTests?.enabled === true;
+    const guidelinesSelfHeal = config.designSystemGuidelines?.enforcementRules?.selfHeal === true;
+
     // CREATE a properly-typed options object with the detected framework
     // This ensures TypeScript knows framework is definitely set
     const promptOptions = {
@@ -664,6 +739,9 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       visionMode: visionMode as VisionPromptType | undefined,
       designSystem: designSystem as string | undefined,
       storybookContext,              // Optional context from Storybook MCP
+      promptBudget: getPromptBudget(provider, model, 8192),
+      includeA11yTests: a11yEnabled,
+      includeInteractionTests: interactionTestsEnabled,
     };
 
     // Get the framework adapter early for consistent use
@@ -675,25 +753,60 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       availableComponents: componentNames,
       framework: detectedFramework,
       importPath: config.importPath || 'your-library',
+      repairMode: config.selfHealing?.repairMode ?? 'patch',
     };
 
     // Track all attempts for best-attempt selection
     const allAttempts: Array<{ code: string; errors: ValidationErrors; autoFixed: boolean }> = [];
     const errorHistory: ValidationErrors[] = [];
+    // How the current attempt is produced, and the story its edits apply to in patch mode
+    let repairMode: RepairMode = 'initial';
+    let patchBase = '';
+    const repairModes: RepairMode[] = [];
 
-    const initialPrompt = await buildClaudePromptWithContext(prompt, config, conversation, previousCode, promptOptions);
+    const { prompt: initialPrompt, promptBudget } = await buildClaudePromptWithContext(prompt, config, conversation, previousCode, promptOptions);
     const messages: { role: 'user' | 'assistant', content: string }[] = [{ role: 'user', content: initialPrompt }];
 
     while (attempts < maxRetries) {
       attempts++;
       logger.log(`--- Story Generation Attempt ${attempts} ---`);
 
-      const claudeResponse = await callLLM(
+      answeredBy = await callLLM(
         messages,
         processedImages.length > 0 ? processedImages : undefined,
-        { provider, model }
+        {
+          provider,
+          model,
+          bypassCache: bypassCache === true,
+          usageContext: { source: 'generate', chatId: providedStoryId, client: getUsageClient(req) },
+        }
       );
-      const extractedCode = extractCodeBlock(claudeResponse);
+      usageRecordIds.push(answeredBy.usageRecordId);
+      const claudeResponse = answeredBy.content;
+
+      // Patch mode: apply the returned edits to the previous attempt
+      let extractedCode: string | null = null;
+      if (repairMode === 'patch') {
+        const patch = applyStoryPatch(patchBase, claudeResponse);
+        // The model may resend the whole story instead of edits
+        const resentStory = patch.hunks === 0 ? extractCodeBlock(claudeResponse) : null;
+        if (patch.applied) {
+          logger.log(`🩹 Applied ${patch.hunks} edit(s) to the previous attempt`);
+          extractedCode = patch.code;
+        } else if (resentStory) {
+          extractedCode = resentStory;
+          repairMode = 'full';
+        } else {
+          logger.log(`🩹 Patch did not apply (${patch.reason}), falling back to full regeneration`);
+          if (attempts >= maxRetries) break;
+          messages.push({ role: 'assistant', content: claudeResponse });
+          messages.push({ role: 'user', content: buildPatchFallbackPrompt(patch.reason!, detectedFramework) });
+          repairMode = 'full';
+          continue;
+        }
+      } else {
+        extractedCode = extractCodeBlock(claudeResponse);
+      }
 
       if (!extractedCode) {
         aiText = claudeResponse; // Use raw response if no code block
@@ -701,6 +814,7 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
           logger.log('No code block found, retrying...');
           messages.push({ role: 'assistant', content: aiText });
           messages.push({ role: 'user', content: 'You did not provide a code block. Please provide the complete story in a single `tsx` code block.' });
+          repairMode = 'full';
           continue;
         } else {
           // On last attempt, accept the response as is
@@ -718,7 +832,13 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       // 2. TypeScript AST validation (validateStory.ts)
       // Use correct filename extension for framework-specific validation (e.g., .stories.svelte for Svelte)
       const validationFileName = `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`;
-      const astValidation = validateStoryCode(aiText, validationFileName, config);
+      let astValidation = validateStoryCode(aiText, validationFileName, config, discoveredComponents);
+
+      // 2b. Compile Vue/Angular templates and Svelte stories with the project's framework compiler
+      if (astValidation.isValid) {
+        const compileResult = await validateFrameworkCompilation(astValidation.fixedCode || aiText, validationFileName, detectedFramework, config);
+        astValidation = mergeCompilerErrors(astValidation, compileResult.errors);
+      }
 
       // 3. Import validation (check against discovered components)
       // Skip for web-components - they use custom element tags, not imported component classes
@@ -726,12 +846,56 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
         ? { isValid: true, errors: [] }
         : await preValidateImports(aiText, config, discovery);
 
+      // 4. Type check against the project's tsconfig, once the code parses and its imports exist
+      const typeErrors = astValidation.isValid && importValidation.isValid
+        ? typeCheckStory(astValidation.fixedCode || aiText, config, validationFileName).errors
+        : [];
+
+      // 5. Prop usage against discovered prop info (also covers web components and plain JS)
+      const propErrors = astValidation.isValid
+        ? validateComponentProps(astValidation.fixedCode || aiText, discoveredComponents, validationFileName, config.propValidation)
+          .filter(issue => issue.severity === 'error')
+        : [];
+
+      // 6. Accessibility audit (drives retries only when a11y self-healing is on)
+      const a11yErrors = a11ySelfHeal && astValidation.isValid
+        ? auditStoryAccessibility(astValidation.fixedCode || aiText, validationFileName, config.a11y)
+        : [];
+
+      // 7. Play functions: required for interactive stories, queries must match the render
+      const interactionErrors = interactionTestsEnabled && astValidation.isValid
+        ? validatePlayFunctions(astValidation.fixedCode || aiText, validationFileName, {
+          interactiveComponents: getInteractiveComponents(discoveredComponents, config.interactionTests?.categories),
+        })
+        : [];
+
+      // 8. Design system guidelines (error-severity violations drive retries only when guideline self-healing is on)
+      const guidelineErrors = guidelinesSelfHeal && astValidation.isValid
+        ? validateDesignGuidelines(astValidation.fixedCode || aiText, config.designSystemGuidelines, validationFileName, componentNames)
+          .filter(violation => violation.severity === 'error')
+        : [];
+
       // Aggregate all errors
-      const aggregatedErrors = aggregateValidationErrors(
+      let aggregatedErrors = suppressDiagnostics(aggregateValidationErrors(
         astValidation,
         validationErrors,
-        importValidation.isValid ? [] : importValidation.errors
-      );
+        importValidation.isValid ? [] : importValidation.errors,
+        typeErrors,
+        propErrors,
+        null,
+        a11yErrors,
+        interactionErrors,
+        guidelineErrors
+      ), config.diagnostics?.suppress);
+
+      // 9. Render React stories headlessly once static validation passes
+      if (hasNoErrors(aggregatedErrors) && detectedFramework === 'react') {
+        const renderResult = await renderStoryHeadless(astValidation.fixedCode || aiText, config, validationFileName);
+        aggregatedErrors = suppressDiagnostics(
+          aggregateValidationErrors(astValidation, validationErrors, [], typeErrors, propErrors, renderResult, a11yErrors, interactionErrors, guidelineErrors),
+          config.diagnostics?.suppress
+        );
+      }
 
       // Track this attempt
       const autoFixApplied = !!astValidation.fixedCode;
@@ -741,6 +905,7 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
         autoFixed: autoFixApplied,
       });
       errorHistory.push(aggregatedErrors);
+      repairModes.push(repairMode);
 
       // Log validation results
       logger.log(`Validation: ${formatErrorsForLog(aggregatedErrors)}`);
@@ -765,7 +930,7 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       // --- SELF-HEALING: Send errors back to LLM for correction ---
       selfHealingUsed = true;
       logger.log(`🔄 Self-healing attempt ${attempts} of ${maxRetries}`);
-      logger.log(`   Errors: Syntax(${aggregatedErrors.syntaxErrors.length}), Pattern(${aggregatedErrors.patternErrors.length}), Import(${aggregatedErrors.importErrors.length})`);
+      logger.log(`   Errors: ${formatErrorsForLog(aggregatedErrors)}`);
 
       // Build the self-healing prompt with all errors
       const selfHealingPrompt = buildSelfHealingPrompt(
@@ -777,6 +942,8 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
 
       messages.push({ role: 'assistant', content: claudeResponse });
       messages.push({ role: 'user', content: selfHealingPrompt });
+      repairMode = selfHealingOptions.repairMode ?? 'full';
+      patchBase = aiText;
     }
     // --- End of Self-Healing Validation and Retry Loop ---
 
@@ -843,6 +1010,30 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       fixedFileContents = frameworkAdapter.postProcess(fixedFileContents);
     }
 
+    // Accessibility: configure the Storybook a11y addon and report audit findings as warnings
+    let a11yWarnings: StoryDiagnostic[] = [];
+    if (a11yEnabled && !isFallbackStory) {
+      fixedFileContents = addA11yParameters(fixedFileContents, config.a11y?.test);
+      a11yWarnings = auditStoryAccessibility(fixedFileContents, `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`, config.a11y)
+        .map(finding => toDiagnostic('a11y', finding, 'warning'))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, config.diagnostics?.suppress));
+    }
+
+    // Design system guidelines: report every violation with its severity
+    const guidelineWarnings = isFallbackStory
+      ? []
+      : validateDesignGuidelines(fixedFileContents, config.designSystemGuidelines, `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`, componentNames)
+        .map(violation => toDiagnostic('guideline', violation))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, config.diagnostics?.suppress));
+
+    // Prop issues that don't drive self-healing (e.g. unknown props of scanned components)
+    const propWarnings = isFallbackStory
+      ? []
+      : validateComponentProps(fixedFileContents, discoveredComponents, `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`, config.propValidation)
+        .filter(issue => issue.severity === 'warning')
+        .map(issue => toDiagnostic('prop', issue))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, config.diagnostics?.suppress));
+
     // Generate title based on conversation context
     let aiTitle;
     if (isActualUpdate && originalTitle) {
@@ -1062,12 +1253,21 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
         title: cleanTitle,
         source: manifestConversation.length > 0 ? 'panel' : 'mcp-external',
         conversation: manifestConversation,
-        metadata: { prompt },
+        metadata: {
+          provider: answeredBy?.provider,
+          model: answeredBy?.model,
+          requestedProvider: answeredBy?.fallbackUsed ? provider ?? undefined : undefined,
+          requestedModel: answeredBy?.fallbackUsed ? model ?? undefined : undefined,
+          prompt,
+        },
       });
     } catch (manifestErr) {
       logger.warn('[manifest] upsert error (non-fatal):', manifestErr);
     }
 
+    // Bill the LLM calls of this generation to the saved story
+    getUsageLedger().attribute(usageRecordIds, { fileName: finalFileName, chatId: providedStoryId || finalFileName });
+
     // Save to history
     historyManager.addVersion(
       finalFileName,
@@ -1137,12 +1337,15 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       isUpdate: isActualUpdate,
       validation: {
         hasWarnings: hasValidationWarnings,
-        errors: [...finalErrors.syntaxErrors, ...finalErrors.patternErrors, ...finalErrors.importErrors],
-        warnings: [],
+        errors: [...finalErrors.syntaxErrors, ...finalErrors.patternErrors, ...finalErrors.importErrors, ...finalErrors.typeErrors, ...finalErrors.propErrors, ...finalErrors.runtimeErrors, ...finalErrors.a11yErrors, ...finalErrors.interactionErrors, ...finalErrors.guidelineErrors, ...finalErrors.customRuleErrors],
+        warnings: [...propWarnings, ...a11yWarnings, ...guidelineWarnings].map(formatDiagnostic),
+        diagnostics: [...finalErrors.diagnostics, ...propWarnings, ...a11yWarnings, ...guidelineWarnings],
         selfHealingUsed,
         attempts,
         isFallback: isFallbackStory  // Also in validation for convenience
       },
+      selfHealing: createGenerationMetrics(attempts, errorHistory, allAttempts.map(attempt => attempt.autoFixed), repairModes),
+      promptBudget,  // Context window budget and any prompt sections trimmed to fit it
       runtimeValidation: {
         enabled: isRuntimeValidationEnabled(),
         success: runtimeValidationResult.success,
@@ -1153,6 +1356,7 @@ export async function generateStoryFromPrompt(req: Request, res: Response) {
       }
     });
   } catch (err: any) {
+    if (sendBudgetError(res, err)) return;
     res.status(500).json({ error: err.message || 'Story generation failed' });
   }
 }
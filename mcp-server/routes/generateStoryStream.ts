@@ -15,13 +15,26 @@ import { generateStory } from '../../story-generator/generateStory.js';
 import { EnhancedComponentDiscovery } from '../../story-generator/enhancedComponentDiscovery.js';
 import {
   buildClaudePrompt as buildFlexiblePrompt,
-  buildFrameworkAwarePrompt,
+  buildFrameworkAwarePromptSections,
   detectProjectFramework,
 } from '../../story-generator/promptGenerator.js';
+import {
+  PromptBudget,
+  PromptBudgetReport,
+  PromptSection,
+  PROMPT_SECTION_PRIORITY,
+  describePromptBudget,
+  fitPromptToBudget,
+  insertPromptSections,
+  renderPromptSections,
+} from '../../story-generator/promptBudget.js';
 import { FrameworkType, StoryGenerationOptions, getAdapter } from '../../story-generator/framework-adapters/index.js';
 import { loadUserConfig, validateConfig } from '../../story-generator/configLoader.js';
 import { extractAndValidateCodeBlock } from '../../story-generator/validateStory.js';
 import { createFrameworkAwareFallbackStory } from './storyHelpers.js';
+import { getUsageClient } from './usage.js';
+import { assertRequestWithinBudget, BudgetExceededError, BudgetClientRequiredError } from '../../story-generator/budgetGuard.js';
+import { getUsageLedger, UsageContext } from '../../story-generator/usageLedger.js';
 import { isBlacklistedComponent, isBlacklistedIcon, getBlacklistErrorMessage, ICON_CORRECTIONS } from '../../story-generator/componentBlacklist.js';
 import { StoryTracker, StoryMapping } from '../../story-generator/storyTracker.js';
 import { getManifestManager } from '../../story-generator/manifestManager.js';
@@ -29,25 +42,39 @@ import { getDocumentation } from '../../story-generator/documentation-sources.js
 import { postProcessStory } from '../../story-generator/postProcessStory.js';
 import { validateStory, ValidationError } from '../../story-generator/storyValidator.js';
 import { validateStoryCode, ValidationResult } from '../../story-generator/validateStory.js';
+import { typeCheckStory } from '../../story-generator/storyTypeChecker.js';
+import { validateComponentProps } from '../../story-generator/propValidator.js';
+import { renderStoryHeadless } from '../../story-generator/headlessRenderValidator.js';
+import { auditStoryAccessibility, addA11yParameters } from '../../story-generator/a11yAudit.js';
+import { validatePlayFunctions, getInteractiveComponents } from '../../story-generator/playFunctionValidator.js';
+import { validateDesignGuidelines } from '../../story-generator/designGuidelinesValidator.js';
+import { validateFrameworkCompilation, mergeCompilerErrors } from '../../story-generator/frameworkCompilerValidator.js';
+import { StoryDiagnostic, toDiagnostic, parseDiagnostic, formatDiagnostic, isSuppressed } from '../../story-generator/diagnostics.js';
 import {
   ValidationErrors,
   SelfHealingOptions,
+  RepairMode,
   aggregateValidationErrors,
+  suppressDiagnostics,
   shouldContinueRetrying,
   buildSelfHealingPrompt,
+  buildPatchFallbackPrompt,
   hasNoErrors,
   getTotalErrorCount,
   createEmptyErrors,
   formatErrorsForLog,
   selectBestAttempt,
+  createGenerationMetrics,
 } from '../../story-generator/selfHealingLoop.js';
+import { applyStoryPatch } from '../../story-generator/storyPatch.js';
 import { StoryHistoryManager } from '../../story-generator/storyHistory.js';
 import { logger } from '../../story-generator/logger.js';
 import { UrlRedirectService } from '../../story-generator/urlRedirectService.js';
-import { chatCompletion, generateTitle as llmGenerateTitle, isProviderConfigured, getProviderInfo, chatCompletionWithImages, buildMessageWithImages } from '../../story-generator/llm-providers/story-llm-service.js';
+import { chatCompletionDetailed, generateTitle as llmGenerateTitle, isProviderConfigured, getProviderInfo, chatCompletionWithImagesDetailed, buildMessageWithImages, supportsToolCalling, getPromptBudget, TextDeltaHandler, FailoverHandler, StoryChatResult } from '../../story-generator/llm-providers/story-llm-service.js';
+import { shouldUseAgentMode, runStoryAgent, createStoryValidator } from '../../story-generator/storyAgent.js';
 import { processImageInputs, ImageInput } from '../../story-generator/imageProcessor.js';
 import { VisionPromptType, buildVisionAwarePrompt } from '../../story-generator/visionPrompts.js';
-import { ImageContent } from '../../story-generator/llm-providers/types.js';
+import { ChatMessage, ImageContent, ProviderType } from '../../story-generator/llm-providers/types.js';
 import {
   createStorybookMcpClient,
   formatStorybookContext,
@@ -57,6 +84,7 @@ import {
   StreamEvent,
   IntentPreview,
   ProgressUpdate,
+  CodeDelta,
   ValidationFeedback,
   RetryInfo,
   CompletionFeedback,
@@ -71,6 +99,8 @@ class StreamWriter {
   private res: Response;
   private startTime: number;
   private llmCalls: number = 0;
+  private tokensUsed: number = 0;
+  private costUsd: number = 0;
 
   constructor(res: Response) {
     this.res = res;
@@ -104,6 +134,11 @@ class StreamWriter {
     }));
   }
 
+  // Send incremental LLM output
+  sendCodeDelta(attempt: number, delta: string, reset?: boolean): void {
+    this.send(createStreamEvent<CodeDelta>('code_delta', { attempt, delta, ...(reset && { reset }) }));
+  }
+
   // Send validation feedback
   sendValidation(validation: ValidationFeedback): void {
     this.send(createStreamEvent('validation', validation));
@@ -127,7 +162,9 @@ class StreamWriter {
       ...completion,
       metrics: {
         totalTimeMs: Date.now() - this.startTime,
-        llmCallsCount: this.llmCalls
+        llmCallsCount: this.llmCalls,
+        tokensUsed: this.tokensUsed,
+        estimatedCostUsd: Math.round(this.costUsd * 1e6) / 1e6
       }
     };
     console.log('[Story UI Server DEBUG] sendCompletion called:', {
@@ -152,6 +189,13 @@ class StreamWriter {
     this.llmCalls++;
   }
 
+  // Track tokens and cost of a completed LLM call (cached responses cost nothing)
+  trackUsage(result: Pick<StoryChatResult, 'usage' | 'costUsd' | 'cached'>): void {
+    if (result.cached) return;
+    this.tokensUsed += result.usage.totalTokens;
+    this.costUsd += result.costUsd;
+  }
+
   // Get elapsed time
   getElapsedMs(): number {
     return Date.now() - this.startTime;
@@ -500,6 +544,10 @@ export async function generateStoryFromPromptStream(req: Request, res: Response)
     provider,            // LLM provider selected in UI (claude, openai, gemini)
     model,               // Model selected in UI
     useStorybookMcp,     // Whether to use Storybook MCP context
+    bypassCache,         // Skip the LLM response cache
+    agentMode,           // Force tool-calling agent mode on/off
+    includeA11yTests,    // Audit accessibility and add a11y addon parameters
+    includeInteractionTests, // Generate and check play functions
     voiceMode            // Whether this request originated from voice input
   } = req.body as StreamGenerateRequest & { voiceMode?: boolean };
 
@@ -524,7 +572,12 @@ export async function generateStoryFromPromptStream(req: Request, res: Response)
     return;
   }
 
+  const usageClient = getUsageClient(req);
+
   try {
+    // Refuse over-budget requests before any discovery or LLM work
+    assertRequestWithinBudget(usageClient);
+
     // Step 1: Load configuration
     currentStep++;
     stream.sendProgress(currentStep, totalSteps, 'config_loaded', 'Loading configuration...');
@@ -625,6 +678,23 @@ export async function generateStoryFromPromptStream(req: Request, res: Response)
       { componentCount: components.length }
     );
 
+    // Agent mode: the model looks up components through tools instead of
+    // getting the full reference in the prompt
+    let useAgent = shouldUseAgentMode(config.agentMode, agentMode, components.length);
+    if (useAgent && !supportsToolCalling(provider as ProviderType | undefined, model)) {
+      logger.log('⚠️ Agent mode requested but the selected model does not support tool calling - using standard generation');
+      stream.sendProgress(currentStep, totalSteps, 'components_discovered',
+        'Selected model does not support tool calling, using standard generation');
+      useAgent = false;
+    }
+
+    const a11yEnabled = includeA11yTests ?? config.a11y?.enabled === true;
+    const a11ySelfHeal = a11yEnabled && config.a11y?.selfHeal === true;
+    const interactionTestsEnabled = includeInteractionTests ?? config.interactionTests?.enabled === true;
+    const interactiveComponents = getInteractiveComponents(components, config.interactionTests?.categories);
+    const guidelinesSelfHeal = config.designSystemGuidelines?.enforcementRules?.selfHeal === true;
+    const suppressedCodes = config.diagnostics?.suppress;
+
     // Fetch Storybook MCP context if configured AND enabled via toggle
     const componentNames = components.map((c: any) => c.name);
     let storybookContext: StorybookMcpContext | undefined;
@@ -689,7 +759,9 @@ export async function generateStoryFromPromptStream(req: Request, res: Response)
       hasImages: processedImages.length > 0
     });
 
-    stream.sendIntent(intent);
+    if (useAgent) {
+      intent.strategy += ' (agent mode: looking up components on demand)';
+    }
 
     // Step 3: Build prompt
     currentStep++;
@@ -706,11 +778,26 @@ export async function generateStoryFromPromptStream(req: Request, res: Response)
       designSystem: designSystem as string | undefined,
       considerations: considerations as string | undefined,
       storybookContext,              // Optional context from Storybook MCP
+      componentReference: useAgent ? 'index' as const : undefined,
+      includeA11yTests: a11yEnabled,
+      includeInteractionTests: interactionTestsEnabled,
+      promptBudget: getPromptBudget(provider as ProviderType | undefined, model, 8192),
     };
 
-    let initialPrompt = await buildClaudePromptWithContext(
+    const builtPrompt = await buildClaudePromptWithContext(
       prompt, config, conversation, previousCode, components, frameworkOptions
     );
+    let initialPrompt = builtPrompt.prompt;
+
+    // The intent is sent once the prompt is built so it can say what had to be
+    // trimmed to fit the model's context window
+    if (builtPrompt.promptBudget) {
+      intent.promptBudget = builtPrompt.promptBudget;
+      if (builtPrompt.promptBudget.adjustments.length > 0) {
+        stream.sendProgress(currentStep, totalSteps, 'prompt_built', describePromptBudget(builtPrompt.promptBudget));
+      }
+    }
+    stream.sendIntent(intent);
 
     // Voice mode: add context for incremental voice-driven modifications
     if (voiceMode && conversation && conversation.length > 0) {
@@ -743,11 +830,13 @@ CRITICAL VOICE MODE RULES:
 
     // Self-healing options (design-system agnostic)
     // Uses detectedFramework from early detection - no need to re-detect
+    // Agent mode submits whole stories through its tools, so it always regenerates
     const selfHealingOptions: SelfHealingOptions = {
       maxAttempts: 3,
       availableComponents: availableComponentNames,
       framework: detectedFramework,
       importPath: config.importPath,
+      repairMode: useAgent || config.selfHealing?.repairMode === 'full' ? 'full' : 'patch',
     };
 
     // Initialize self-healing state
@@ -755,9 +844,20 @@ CRITICAL VOICE MODE RULES:
     let finalErrors: ValidationErrors = createEmptyErrors();
     const errorHistory: ValidationErrors[] = [];
     const allAttempts: Array<{ code: string; errors: ValidationErrors }> = [];
+    // How the current attempt is produced, and the story its edits apply to in patch mode
+    let repairMode: RepairMode = 'initial';
+    let patchBase = '';
+    const repairModes: RepairMode[] = [];
+    const autoFixes: boolean[] = [];
     let attempts = 0;
     let selfHealingUsed = false;
     let lastClaudeResponse = '';
+    let answeredBy: StoryChatResult | null = null;
+    const usageRecordIds: string[] = [];
+    const agentStats = { turns: 0, toolCalls: 0, submitted: false };
+
+    // Use correct filename extension for framework-specific validation (e.g., .stories.svelte for Svelte)
+    const validationFileName = `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`;
 
     // Self-Healing Retry Loop
     while (attempts < selfHealingOptions.maxAttempts) {
@@ -770,27 +870,125 @@ CRITICAL VOICE MODE RULES:
           ...finalErrors.syntaxErrors,
           ...finalErrors.patternErrors,
           ...finalErrors.importErrors,
+          ...finalErrors.typeErrors,
+          ...finalErrors.propErrors,
+          ...finalErrors.runtimeErrors,
+          ...finalErrors.a11yErrors,
+          ...finalErrors.interactionErrors,
+          ...finalErrors.guidelineErrors,
+          ...finalErrors.customRuleErrors,
         ];
-        stream.sendRetry(attempts, selfHealingOptions.maxAttempts, 'AI self-healing: fixing validation errors', allErrors);
+        stream.sendRetry(attempts, selfHealingOptions.maxAttempts,
+          repairMode === 'patch' ? 'AI self-healing: patching validation errors' : 'AI self-healing: fixing validation errors',
+          allErrors);
         logger.log(`🔄 Self-healing attempt ${attempts}/${selfHealingOptions.maxAttempts}`);
       }
 
       // Call LLM
-      const claudeResponse = await callLLM(
-        messages,
-        processedImages.length > 0 ? processedImages : undefined,
-        { provider, model }
-      );
+      const currentAttempt = attempts;
+      const usageContext: UsageContext = { source: 'generate', chatId: providedStoryId, client: usageClient };
+      const onFailover: FailoverHandler = (event) => {
+        // Drop any partial output from the failed call before the next one streams
+        stream.sendCodeDelta(currentAttempt, '', true);
+        stream.sendProgress(currentStep, totalSteps, 'llm_thinking',
+          event.action === 'retry'
+            ? `${event.from.provider} is unavailable (${event.errorClass}), retrying...`
+            : `${event.from.provider} failed (${event.errorClass}), switching to ${event.to.provider} (${event.to.model})...`,
+          { failover: event }
+        );
+      };
+
+      let claudeResponse: string;
+      if (useAgent) {
+        const agentMessages: ChatMessage[] = messages.map((msg, index) =>
+          index === 0 && processedImages.length > 0
+            ? { role: msg.role, content: buildMessageWithImages(msg.content, processedImages) }
+            : msg
+        );
+        const agentResult = await runStoryAgent(agentMessages, {
+          components,
+          config,
+          validate: createStoryValidator(config, validationFileName, detectedFramework === 'web-components'
+            ? undefined
+            : async (code) => (await preValidateImports(code, config, discovery)).errors,
+            components),
+        }, {
+          provider: provider as ProviderType | undefined,
+          model,
+          maxTokens: 8192,
+          maxTurns: config.agentMode?.maxTurns,
+          usageContext,
+          onFailover,
+          onTurn: (turn) => {
+            usageRecordIds.push(turn.usageRecordId);
+            stream.trackUsage(turn);
+          },
+          onToolCall: (call, result) => {
+            stream.sendProgress(currentStep, totalSteps, 'llm_thinking',
+              `Agent called ${call.name}${result.isError ? ' (needs fixes)' : ''}`,
+              { tool: call.name }
+            );
+          },
+        });
+        // One LLM call is already tracked per attempt
+        for (let turn = 1; turn < agentResult.turns; turn++) stream.trackLLMCall();
+        agentStats.turns += agentResult.turns;
+        agentStats.toolCalls += agentResult.toolCalls;
+        agentStats.submitted = agentResult.submitted;
+        answeredBy = agentResult.lastTurn;
+        claudeResponse = agentResult.content;
+        stream.sendCodeDelta(currentAttempt, claudeResponse);
+      } else {
+        const llmResult = await callLLM(
+          messages,
+          processedImages.length > 0 ? processedImages : undefined,
+          {
+            provider,
+            model,
+            bypassCache,
+            usageContext,
+            onDelta: (delta) => stream.sendCodeDelta(currentAttempt, delta),
+            onFailover,
+          }
+        );
+        answeredBy = llmResult;
+        usageRecordIds.push(llmResult.usageRecordId);
+        stream.trackUsage(llmResult);
+        claudeResponse = llmResult.content;
+      }
       lastClaudeResponse = claudeResponse;
 
-      // Extract code block
-      const extractedCode = extractCodeBlock(claudeResponse);
+      // Patch mode: apply the returned edits to the previous attempt
+      let extractedCode: string | null = null;
+      if (repairMode === 'patch') {
+        const patch = applyStoryPatch(patchBase, claudeResponse);
+        // The model may resend the whole story instead of edits
+        const resentStory = patch.hunks === 0 ? extractCodeBlock(claudeResponse) : null;
+        if (patch.applied) {
+          logger.log(`🩹 Applied ${patch.hunks} edit(s) to the previous attempt`);
+          extractedCode = patch.code;
+          stream.sendCodeDelta(currentAttempt, patch.code, true);
+        } else if (resentStory) {
+          extractedCode = resentStory;
+          repairMode = 'full';
+        } else {
+          logger.log(`🩹 Patch did not apply (${patch.reason}), falling back to full regeneration`);
+          if (attempts >= selfHealingOptions.maxAttempts) break;
+          messages.push({ role: 'assistant', content: claudeResponse });
+          messages.push({ role: 'user', content: buildPatchFallbackPrompt(patch.reason!, detectedFramework) });
+          repairMode = 'full';
+          continue;
+        }
+      } else {
+        extractedCode = extractCodeBlock(claudeResponse);
+      }
 
       if (!extractedCode) {
         aiText = claudeResponse;
         if (attempts < selfHealingOptions.maxAttempts) {
           messages.push({ role: 'assistant', content: aiText });
           messages.push({ role: 'user', content: 'You did not provide a code block. Please provide the complete story in a single `tsx` code block.' });
+          repairMode = 'full';
           continue;
         } else {
           break;
@@ -807,12 +1005,10 @@ CRITICAL VOICE MODE RULES:
       const patternErrors = validateStory(aiText);
 
       // 2. AST validation with auto-fix attempt
-      // Use correct filename extension for framework-specific validation (e.g., .stories.svelte for Svelte)
-      const validationFileName = `story${frameworkAdapter?.defaultExtension || '.stories.tsx'}`;
       let astResult: ValidationResult | null = null;
       let codeToValidate = aiText;
       try {
-        astResult = validateStoryCode(aiText, validationFileName, config);
+        astResult = validateStoryCode(aiText, validationFileName, config, components);
         if (astResult.fixedCode) {
           codeToValidate = astResult.fixedCode;
           aiText = codeToValidate;
@@ -822,6 +1018,12 @@ CRITICAL VOICE MODE RULES:
         logger.error('AST validation error:', astError);
       }
 
+      // 2b. Compile Vue/Angular templates and Svelte stories with the project's framework compiler
+      if (astResult?.isValid) {
+        const compileResult = await validateFrameworkCompilation(codeToValidate, validationFileName, detectedFramework, config);
+        astResult = mergeCompilerErrors(astResult, compileResult.errors);
+      }
+
       // 3. Import validation
       // Skip for web-components - they use custom element tags, not imported component classes
       const importValidation = detectedFramework === 'web-components'
@@ -829,10 +1031,53 @@ CRITICAL VOICE MODE RULES:
         : await preValidateImports(codeToValidate, config, discovery);
       const importErrors = importValidation.isValid ? [] : importValidation.errors;
 
-      // Aggregate all errors
-      const currentErrors = aggregateValidationErrors(astResult, patternErrors, importErrors);
+      // 4. Type check against the project's tsconfig, once the code parses and its imports exist
+      const typeErrors = astResult?.isValid !== false && importErrors.length === 0
+        ? typeCheckStory(codeToValidate, config, validationFileName).errors
+        : [];
+
+      // 5. Prop usage against discovered prop info (also covers web components and plain JS)
+      const propErrors = astResult?.isValid !== false
+        ? validateComponentProps(codeToValidate, components, validationFileName, config.propValidation)
+          .filter(issue => issue.severity === 'error')
+        : [];
+
+      // 6. Accessibility audit (drives retries only when a11y self-healing is on)
+      const a11yErrors = a11ySelfHeal && astResult?.isValid !== false
+        ? auditStoryAccessibility(codeToValidate, validationFileName, config.a11y)
+        : [];
+
+      // 7. Play functions: required for interactive stories, queries must match the render
+      const interactionErrors = interactionTestsEnabled && astResult?.isValid !== false
+        ? validatePlayFunctions(codeToValidate, validationFileName, { interactiveComponents })
+        : [];
+
+      // 8. Design system guidelines (error-severity violations drive retries only when guideline self-healing is on)
+      const guidelineErrors = guidelinesSelfHeal && astResult?.isValid !== false
+        ? validateDesignGuidelines(codeToValidate, config.designSystemGuidelines, validationFileName, componentNames)
+          .filter(violation => violation.severity === 'error')
+        : [];
+
+      // Aggregate all errors, minus the diagnostic codes the project suppresses
+      let currentErrors = suppressDiagnostics(
+        aggregateValidationErrors(astResult, patternErrors, importErrors, typeErrors, propErrors, null, a11yErrors, interactionErrors, guidelineErrors),
+        suppressedCodes
+      );
+
+      // 9. Render React stories headlessly once static validation passes
+      if (hasNoErrors(currentErrors) && detectedFramework === 'react') {
+        stream.sendProgress(currentStep, totalSteps, 'validating', 'Rendering story...');
+        const renderResult = await renderStoryHeadless(codeToValidate, config, validationFileName);
+        currentErrors = suppressDiagnostics(
+          aggregateValidationErrors(astResult, patternErrors, importErrors, typeErrors, propErrors, renderResult, a11yErrors, interactionErrors, guidelineErrors),
+          suppressedCodes
+        );
+      }
+
       errorHistory.push(currentErrors);
       allAttempts.push({ code: aiText, errors: currentErrors });
+      repairModes.push(repairMode);
+      autoFixes.push(!!astResult?.fixedCode);
 
       // Check if we have no errors
       if (hasNoErrors(currentErrors)) {
@@ -841,6 +1086,7 @@ CRITICAL VOICE MODE RULES:
           isValid: true,
           errors: [],
           warnings: [],
+          diagnostics: [],
           autoFixApplied: !!astResult?.fixedCode
         });
         finalErrors = currentErrors;
@@ -855,8 +1101,16 @@ CRITICAL VOICE MODE RULES:
           ...currentErrors.syntaxErrors,
           ...currentErrors.patternErrors,
           ...currentErrors.importErrors,
+          ...currentErrors.typeErrors,
+          ...currentErrors.propErrors,
+          ...currentErrors.runtimeErrors,
+          ...currentErrors.a11yErrors,
+          ...currentErrors.interactionErrors,
+          ...currentErrors.guidelineErrors,
+          ...currentErrors.customRuleErrors,
         ],
         warnings: [],
+        diagnostics: currentErrors.diagnostics,
         autoFixApplied: !!astResult?.fixedCode
       });
 
@@ -873,6 +1127,8 @@ CRITICAL VOICE MODE RULES:
       const healingPrompt = buildSelfHealingPrompt(aiText, currentErrors, attempts, selfHealingOptions);
       messages.push({ role: 'assistant', content: claudeResponse });
       messages.push({ role: 'user', content: healingPrompt });
+      repairMode = selfHealingOptions.repairMode ?? 'full';
+      patchBase = aiText;
     }
 
     // Select best attempt if we still have errors
@@ -996,6 +1252,33 @@ CRITICAL VOICE MODE RULES:
     logger.log(`🔧 Applying ${detectedFramework} framework post-processing`);
     fixedFileContents = frameworkAdapter.postProcess(fixedFileContents);
 
+    // Accessibility: configure the Storybook a11y addon and report audit findings as warnings
+    let a11yWarnings: StoryDiagnostic[] = [];
+    if (a11yEnabled && !isFallbackStory) {
+      fixedFileContents = addA11yParameters(fixedFileContents, config.a11y?.test);
+      a11yWarnings = auditStoryAccessibility(fixedFileContents, validationFileName, config.a11y)
+        .map(finding => toDiagnostic('a11y', finding, 'warning'))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, suppressedCodes));
+      if (a11yWarnings.length > 0) {
+        logger.log(`♿ Accessibility audit: ${a11yWarnings.length} finding(s)`);
+      }
+    }
+
+    // Design system guidelines: report every violation with its severity
+    const guidelineWarnings = isFallbackStory
+      ? []
+      : validateDesignGuidelines(fixedFileContents, config.designSystemGuidelines, validationFileName, componentNames)
+        .map(violation => toDiagnostic('guideline', violation))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, suppressedCodes));
+
+    // Prop issues that don't drive self-healing (e.g. unknown props of scanned components)
+    const propWarnings = isFallbackStory
+      ? []
+      : validateComponentProps(fixedFileContents, components, validationFileName, config.propValidation)
+        .filter(issue => issue.severity === 'warning')
+        .map(issue => toDiagnostic('prop', issue))
+        .filter(diagnostic => !isSuppressed(diagnostic.code, suppressedCodes));
+
     // Generate title
     let aiTitle;
     if (isActualUpdate && originalTitle) {
@@ -1155,13 +1438,22 @@ CRITICAL VOICE MODE RULES:
         title: cleanTitle,
         source: manifestConversation.length > 0 ? 'panel' : 'mcp-external',
         conversation: manifestConversation,
-        metadata: { provider: provider ?? undefined, model: model ?? undefined, prompt },
+        metadata: {
+          provider: answeredBy?.provider ?? provider ?? undefined,
+          model: answeredBy?.model ?? model ?? undefined,
+          requestedProvider: answeredBy?.fallbackUsed ? provider ?? undefined : undefined,
+          requestedModel: answeredBy?.fallbackUsed ? model ?? undefined : undefined,
+          prompt,
+        },
       });
     } catch (manifestErr) {
       // Non-fatal — manifest sync failure doesn't break generation
       console.error('[manifest] upsert error:', manifestErr);
     }
 
+    // Bill the LLM calls of this generation to the saved story
+    getUsageLedger().attribute(usageRecordIds, { fileName: finalFileName, chatId: providedStoryId || finalFileName });
+
     // Save to history
     historyManager.addVersion(finalFileName, prompt, fixedFileContents, parentVersionId);
 
@@ -1206,15 +1498,33 @@ CRITICAL VOICE MODE RULES:
       validation: {
         isValid: !hasValidationWarnings && !isFallbackStory,
         errors: validationResult?.errors || [],
-        warnings: validationResult?.warnings || [],
+        warnings: [...(validationResult?.warnings || []), ...[...propWarnings, ...a11yWarnings, ...guidelineWarnings].map(formatDiagnostic)],
+        diagnostics: [
+          ...(validationResult?.errors || []).map(error => parseDiagnostic('syntax', error)),
+          ...(validationResult?.ruleWarnings || []).map(finding => toDiagnostic('custom', finding, 'warning')),
+          ...propWarnings,
+          ...a11yWarnings,
+          ...guidelineWarnings,
+        ],
         autoFixApplied: !!validationResult?.fixedCode
       },
-      code: fixedFileContents
+      code: fixedFileContents,
+      llm: answeredBy
+        ? { provider: answeredBy.provider, model: answeredBy.model, fallbackUsed: answeredBy.fallbackUsed, cached: answeredBy.cached }
+        : undefined,
+      agent: useAgent ? agentStats : undefined,
+      selfHealing: createGenerationMetrics(attempts, errorHistory, autoFixes, repairModes)
     });
 
     res.end();
 
   } catch (err: any) {
+    const budgetError = toBudgetErrorFeedback(err);
+    if (budgetError) {
+      stream.sendError(budgetError);
+      res.end();
+      return;
+    }
     stream.sendError({
       code: 'GENERATION_ERROR',
       message: err.message || 'Story generation failed',
@@ -1225,6 +1535,31 @@ CRITICAL VOICE MODE RULES:
   }
 }
 
+/**
+ * Budget errors are not recoverable by retrying with another prompt, so they
+ * get their own codes instead of GENERATION_ERROR
+ */
+function toBudgetErrorFeedback(err: unknown): ErrorFeedback | null {
+  if (err instanceof BudgetExceededError) {
+    return {
+      code: err.code,
+      message: err.message,
+      details: JSON.stringify(err.check),
+      recoverable: false,
+      suggestion: 'Wait for the budget to reset or ask the administrator of this Story UI server to raise it'
+    };
+  }
+  if (err instanceof BudgetClientRequiredError) {
+    return {
+      code: err.code,
+      message: err.message,
+      recoverable: false,
+      suggestion: 'Send an X-Story-UI-Client header identifying your team or API client'
+    };
+  }
+  return null;
+}
+
 // Helper functions (copied from generateStory.ts for consistency)
 
 // NOTE: Framework is now REQUIRED - caller must pass the detected framework
@@ -1241,8 +1576,12 @@ async function buildClaudePromptWithContext(
     designSystem?: string;
     considerations?: string;
     storybookContext?: StorybookMcpContext;  // Optional context from Storybook MCP
+    componentReference?: StoryGenerationOptions['componentReference'];  // 'index' in agent mode
+    includeA11yTests?: boolean;  // Add accessibility requirements to the prompt
+    includeInteractionTests?: boolean;  // Add play-function instructions to the prompt
+    promptBudget?: PromptBudget | null;  // Trim sections to fit the model's context window
   }
-) {
+): Promise<{ prompt: string; promptBudget?: PromptBudgetReport }> {
   const discovery = new EnhancedComponentDiscovery(config);
   const discoveredComponents = components || await discovery.discoverAll();
 
@@ -1252,10 +1591,15 @@ async function buildClaudePromptWithContext(
     throw new Error('Framework must be passed to buildClaudePromptWithContext - early detection should have determined it');
   }
 
-  const frameworkOptions: StoryGenerationOptions = { framework: options.framework };
+  const frameworkOptions: StoryGenerationOptions = {
+    framework: options.framework,
+    componentReference: options.componentReference,
+    includeA11yTests: options.includeA11yTests,
+    includeInteractionTests: options.includeInteractionTests,
+  };
 
   // Always use framework-aware prompt since we now always have a framework
-  let prompt = await buildFrameworkAwarePrompt(userPrompt, config, discoveredComponents, frameworkOptions);
+  let sections = await buildFrameworkAwarePromptSections(userPrompt, config, discoveredComponents, frameworkOptions);
 
   if (options?.visionMode) {
     const visionPrompts = buildVisionAwarePrompt({
@@ -1265,26 +1609,42 @@ async function buildClaudePromptWithContext(
       framework: options.framework,  // Use the required framework, no fallback
       designSystem: options.designSystem,
     });
-    prompt = `${visionPrompts.systemPrompt}\n\n---\n\n${prompt}\n\n---\n\n${visionPrompts.userPrompt}`;
+    sections = [
+      { id: 'visionInstructions', content: `${visionPrompts.systemPrompt}\n\n---` },
+      ...sections,
+      { id: 'visionRequest', content: `---\n\n${visionPrompts.userPrompt}` },
+    ];
   }
 
+  // Context sections go right before the user request, in this order
+  const contextSections: PromptSection[] = [];
+
   // Inject passed considerations (from frontend) for environment parity
   // This takes precedence over file system loading for production deployments
   if (options?.considerations) {
-    const considerationsEnhancement = `\n\n📋 DESIGN SYSTEM CONSIDERATIONS:\n${options.considerations}`;
-    prompt = prompt.replace('User request:', `${considerationsEnhancement}\n\nUser request:`);
+    contextSections.push({
+      id: 'considerations',
+      label: 'Design system considerations',
+      content: `📋 DESIGN SYSTEM CONSIDERATIONS:\n${options.considerations}`,
+      priority: PROMPT_SECTION_PRIORITY.considerations,
+      truncate: 'keepStart',
+    });
   }
 
   const documentation = getDocumentation(config.importPath);
   if (documentation) {
-    const bundledEnhancement = `\n\n📚 BUNDLED DOCUMENTATION:\n${Object.entries(documentation.components || {}).map(([name, info]: [string, any]) => {
-      if (discoveredComponents.some((c: any) => c.name === name)) {
-        return `- ${name}: ${info.description || 'Component available'}`;
-      }
-      return null;
-    }).filter(Boolean).join('\n')}`;
-
-    prompt = prompt.replace('User request:', `${bundledEnhancement}\n\nUser request:`);
+    contextSections.push({
+      id: 'bundledDocumentation',
+      label: 'Bundled documentation',
+      content: `📚 BUNDLED DOCUMENTATION:\n${Object.entries(documentation.components || {}).map(([name, info]: [string, any]) => {
+        if (discoveredComponents.some((c: any) => c.name === name)) {
+          return `- ${name}: ${info.description || 'Component available'}`;
+        }
+        return null;
+      }).filter(Boolean).join('\n')}`,
+      priority: PROMPT_SECTION_PRIORITY.bundledDocumentation,
+      truncate: 'keepStart',
+    });
   }
 
   // Inject Storybook MCP context if available
@@ -1292,31 +1652,54 @@ async function buildClaudePromptWithContext(
     const storybookContextStr = formatStorybookContext(options.storybookContext);
     if (storybookContextStr) {
       logger.log('📚 Injecting Storybook MCP context into prompt');
-      prompt = prompt.replace('User request:', `${storybookContextStr}\n\nUser request:`);
+      contextSections.push({
+        id: 'storybookContext',
+        label: 'Storybook MCP context',
+        content: storybookContextStr,
+        priority: PROMPT_SECTION_PRIORITY.storybookContext,
+        truncate: 'keepStart',
+      });
     }
   }
 
-  if (!conversation || conversation.length <= 1) {
-    return prompt;
-  }
-
-  const conversationContext = conversation
-    .slice(0, -1)
-    .map((msg: any) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-    .join('\n\n');
+  if (conversation && conversation.length > 1) {
+    const conversationContext = conversation
+      .slice(0, -1)
+      .map((msg: any) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    // Keep the most recent turns when the history has to be cut
+    contextSections.push({
+      id: 'conversation',
+      label: 'Conversation history',
+      content: `CONVERSATION CONTEXT (for modifications/updates):\n${conversationContext}`,
+      priority: PROMPT_SECTION_PRIORITY.conversation,
+      truncate: 'keepEnd',
+    });
 
-  let contextSection = `CONVERSATION CONTEXT (for modifications/updates):\n${conversationContext}`;
+    if (previousCode) {
+      contextSections.push({
+        id: 'previousCode',
+        content: `PREVIOUS GENERATED CODE (this is what you're modifying):\n\`\`\`tsx\n${previousCode}\n\`\`\`\n\nCRITICAL INSTRUCTIONS FOR MODIFICATIONS:\n1. DO NOT regenerate the entire story from scratch\n2. PRESERVE all existing styling, components, and structure\n3. ONLY change what the user specifically requests`,
+      });
+    }
 
-  if (previousCode) {
-    contextSection += `\n\nPREVIOUS GENERATED CODE (this is what you're modifying):\n\`\`\`tsx\n${previousCode}\n\`\`\`\n\nCRITICAL INSTRUCTIONS FOR MODIFICATIONS:\n1. DO NOT regenerate the entire story from scratch\n2. PRESERVE all existing styling, components, and structure\n3. ONLY change what the user specifically requests`;
+    sections = sections.map(section => section.id === 'userRequest'
+      ? { ...section, content: `IMPORTANT: The user is asking to modify/update the story based on the above conversation.\n\nCurrent modification request:\n${userPrompt}` }
+      : section);
   }
 
-  const contextualPrompt = prompt.replace(
-    'User request:',
-    `${contextSection}\n\nIMPORTANT: The user is asking to modify/update the story based on the above conversation.\n\nCurrent modification request:`
-  );
+  sections = insertPromptSections(sections, 'userRequest', ...contextSections);
+
+  if (!options?.promptBudget) {
+    return { prompt: renderPromptSections(sections) };
+  }
 
-  return contextualPrompt;
+  const fitted = fitPromptToBudget(sections, options.promptBudget);
+  if (fitted.report.adjustments.length > 0 || fitted.report.overBudget) {
+    logger.log(`✂️ ${describePromptBudget(fitted.report)}`);
+  }
+  return { prompt: renderPromptSections(fitted.sections), promptBudget: fitted.report };
 }
 
 function extractCodeBlock(text: string, framework?: string): string | null {
@@ -1358,8 +1741,8 @@ function extractCodeBlock(text: string, framework?: string): string | null {
 async function callLLM(
   messages: { role: 'user' | 'assistant', content: string }[],
   images?: ImageContent[],
-  options?: { provider?: string; model?: string }
-): Promise<string> {
+  options?: { provider?: string; model?: string; bypassCache?: boolean; usageContext?: UsageContext; onDelta?: TextDeltaHandler; onFailover?: FailoverHandler }
+): Promise<StoryChatResult> {
   if (!isProviderConfigured()) {
     throw new Error('No LLM provider configured');
   }
@@ -1370,10 +1753,14 @@ async function callLLM(
   }
 
   // Build options to pass to chat completion
-  const llmOptions: { provider?: any; model?: string; maxTokens: number } = {
+  const llmOptions: { provider?: any; model?: string; maxTokens: number; bypassCache?: boolean; usageContext?: UsageContext; onDelta?: TextDeltaHandler; onFailover?: FailoverHandler } = {
     maxTokens: 8192,
     provider: options?.provider,
     model: options?.model,
+    bypassCache: options?.bypassCache,
+    usageContext: options?.usageContext,
+    onDelta: options?.onDelta,
+    onFailover: options?.onFailover,
   };
 
   if (images && images.length > 0) {
@@ -1392,10 +1779,10 @@ async function callLLM(
       return msg;
     });
 
-    return await chatCompletionWithImages(messagesWithImages, llmOptions);
+    return await chatCompletionWithImagesDetailed(messagesWithImages, llmOptions);
   }
 
-  return await chatCompletion(messages, llmOptions);
+  return await chatCompletionDetailed(messages, llmOptions);
 }
 
 function cleanPromptForTitle(prompt: string): string {
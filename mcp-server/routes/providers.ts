@@ -9,7 +9,9 @@ import {
   getProviderRegistry,
   ProviderType,
   ModelInfo,
+  CustomModelDefinition,
 } from '../../story-generator/llm-providers/index.js';
+import { DEFAULT_OLLAMA_BASE_URL } from '../../story-generator/llm-providers/ollama-provider.js';
 import {
   getAvailableProviders,
   getProviderInfo,
@@ -24,6 +26,9 @@ import {
 } from '../../story-generator/llm-providers/settings-manager.js';
 import { logger } from '../../story-generator/logger.js';
 
+// Providers that may run without an API key (local daemons, self-hosted endpoints)
+const KEYLESS_PROVIDERS: ProviderType[] = ['ollama', 'custom'];
+
 /**
  * GET /mcp/providers
  * Returns list of available providers and their configuration status
@@ -88,21 +93,25 @@ export function getModels(req: Request, res: Response) {
  * Configure a provider with API key and optional model
  *
  * Body: {
- *   provider: 'claude' | 'openai' | 'gemini',
- *   apiKey: string,
+ *   provider: 'claude' | 'openai' | 'gemini' | 'ollama' | 'custom',
+ *   apiKey: string,          // not required for ollama or custom
  *   model?: string,
+ *   baseUrl?: string,        // ollama daemon address (default http://localhost:11434),
+ *                            // required for custom (OpenAI-compatible API root)
+ *   headers?: Record<string, string>,   // custom only
+ *   models?: CustomModelDefinition[],   // custom only
  *   setAsDefault?: boolean
  * }
  */
 export async function configureProviderRoute(req: Request, res: Response) {
   try {
-    const { provider, apiKey, model, setAsDefault } = req.body;
+    const { provider, apiKey, model, baseUrl, headers, models, setAsDefault } = req.body;
 
     if (!provider) {
       return res.status(400).json({ error: 'Provider type is required' });
     }
 
-    if (!apiKey) {
+    if (!apiKey && !KEYLESS_PROVIDERS.includes(provider)) {
       return res.status(400).json({ error: 'API key is required' });
     }
 
@@ -114,8 +123,22 @@ export async function configureProviderRoute(req: Request, res: Response) {
       });
     }
 
+    if (provider === 'custom') {
+      const registry = getProviderRegistry();
+      if (!baseUrl && !registry.get('custom')?.getConfig().baseUrl) {
+        return res.status(400).json({ error: 'Base URL is required for the custom provider' });
+      }
+      if (models !== undefined && (!Array.isArray(models) || models.some((m: CustomModelDefinition | null) => !m?.id))) {
+        return res.status(400).json({ error: 'models must be an array of { id, ... } objects' });
+      }
+    }
+
     // Configure the provider
-    const success = configureProvider(provider, apiKey, model);
+    const success = configureProvider(provider, apiKey, model, {
+      baseUrl: baseUrl || (provider === 'ollama' ? DEFAULT_OLLAMA_BASE_URL : undefined),
+      headers,
+      models,
+    });
 
     if (!success) {
       return res.status(500).json({ error: 'Failed to configure provider' });
@@ -151,23 +174,25 @@ export async function configureProviderRoute(req: Request, res: Response) {
  * Validate an API key for a provider without saving it
  *
  * Body: {
- *   provider: 'claude' | 'openai' | 'gemini',
- *   apiKey: string
+ *   provider: 'claude' | 'openai' | 'gemini' | 'ollama' | 'custom',
+ *   apiKey: string,          // not required for ollama or custom
+ *   baseUrl?: string,        // ollama/custom: checks the endpoint at this address is reachable
+ *   headers?: Record<string, string>   // custom only
  * }
  */
 export async function validateApiKey(req: Request, res: Response) {
   try {
-    const { provider, apiKey } = req.body;
+    const { provider, apiKey, baseUrl, headers } = req.body;
 
     if (!provider) {
       return res.status(400).json({ error: 'Provider type is required' });
     }
 
-    if (!apiKey) {
+    if (!apiKey && !KEYLESS_PROVIDERS.includes(provider)) {
       return res.status(400).json({ error: 'API key is required' });
     }
 
-    const validProviders: ProviderType[] = ['claude', 'openai', 'gemini'];
+    const validProviders: ProviderType[] = ['claude', 'openai', 'gemini', 'ollama', 'custom'];
     if (!validProviders.includes(provider)) {
       return res.status(400).json({
         error: 'Invalid provider type',
@@ -175,7 +200,7 @@ export async function validateApiKey(req: Request, res: Response) {
       });
     }
 
-    const result = await validateProviderKey(provider, apiKey);
+    const result = await validateProviderKey(provider, apiKey || '', { baseUrl, headers });
 
     res.json({
       valid: result.valid,
@@ -79,7 +79,7 @@ export async function callLLM(
   images?: ImageContent[]
 ): Promise<string> {
   if (!isProviderConfigured()) {
-    throw new Error('No LLM provider configured. Please set ANTHROPIC_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY.');
+    throw new Error('No LLM provider configured. Please set ANTHROPIC_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, or OLLAMA_BASE_URL.');
   }
 
   const providerInfo = getProviderInfo();
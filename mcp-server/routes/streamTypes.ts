@@ -5,10 +5,14 @@
  * that enable real-time feedback during story generation.
  */
 
+import type { StoryDiagnostic } from '../../story-generator/diagnostics.js';
+import type { GenerationMetrics } from '../../story-generator/selfHealingLoop.js';
+
 // Event types for SSE stream
 export type StreamEventType =
   | 'intent'           // Initial plan/intent before execution
   | 'progress'         // Step-by-step progress updates
+  | 'code_delta'       // Incremental LLM output while the story is being written
   | 'validation'       // Validation results (errors, warnings)
   | 'retry'            // Retry attempt information
   | 'completion'       // Final completion with details
@@ -26,6 +30,20 @@ export interface IntentPreview {
     hasConversationContext: boolean;
     hasPreviousCode: boolean;
   };
+  // Context window budget; lists prompt sections trimmed to fit the model
+  promptBudget?: {
+    contextWindow: number;
+    maxPromptTokens: number;
+    estimatedTokens: number;
+    adjustments: Array<{
+      section: string;
+      label: string;
+      action: 'condensed' | 'truncated' | 'dropped';
+      tokensBefore: number;
+      tokensAfter: number;
+    }>;
+    overBudget: boolean;
+  };
 }
 
 // Progress update during execution
@@ -45,11 +63,20 @@ export interface ProgressUpdate {
   details?: Record<string, unknown>;
 }
 
+// Incremental LLM output - clients append deltas until the attempt number changes
+export interface CodeDelta {
+  attempt: number;   // Self-healing attempt the text belongs to (1-based)
+  delta: string;     // Newly generated text since the previous event
+  reset?: boolean;   // Discard text received so far for this attempt (provider retry/failover)
+}
+
 // Validation feedback
 export interface ValidationFeedback {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  /** The errors and warnings as structured diagnostics (code, severity, range, rule, fix) */
+  diagnostics?: StoryDiagnostic[];
   autoFixApplied: boolean;
   fixDetails?: string[];
 }
@@ -103,11 +130,30 @@ export interface CompletionFeedback {
   // The generated code
   code: string;
 
+  // Provider/model that produced the final answer
+  llm?: {
+    provider: string;
+    model: string;
+    fallbackUsed: boolean;
+    cached: boolean;
+  };
+
+  // Set when the story was generated in tool-calling agent mode
+  agent?: {
+    turns: number;
+    toolCalls: number;
+    submitted: boolean;
+  };
+
+  // Errors per validated attempt and how each attempt's code was produced
+  selfHealing?: GenerationMetrics;
+
   // Performance metrics
   metrics: {
     totalTimeMs: number;
     llmCallsCount: number;
     tokensUsed?: number;
+    estimatedCostUsd?: number;  // From the model price table; 0 for local/unpriced models
   };
 }
 
@@ -124,7 +170,7 @@ export interface ErrorFeedback {
 export interface StreamEvent {
   type: StreamEventType;
   timestamp: number;
-  data: IntentPreview | ProgressUpdate | ValidationFeedback | RetryInfo | CompletionFeedback | ErrorFeedback;
+  data: IntentPreview | ProgressUpdate | CodeDelta | ValidationFeedback | RetryInfo | CompletionFeedback | ErrorFeedback;
 }
 
 // Request body for streaming endpoint
@@ -150,6 +196,10 @@ export interface StreamGenerateRequest {
   model?: string;     // Model ID
   considerations?: string;  // Design system considerations (passed from frontend for environment parity)
   useStorybookMcp?: boolean;  // Whether to use Storybook MCP context for enhanced generation
+  bypassCache?: boolean;  // Skip the LLM response cache and always call the provider
+  agentMode?: boolean;  // Force tool-calling agent mode on/off (default: config.agentMode)
+  includeA11yTests?: boolean;  // Audit accessibility and add a11y addon parameters (default: config.a11y.enabled)
+  includeInteractionTests?: boolean;  // Generate and check play functions (default: config.interactionTests.enabled)
 }
 
 // Helper to create SSE-formatted message
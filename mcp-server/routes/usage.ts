@@ -0,0 +1,117 @@
+/**
+ * Usage API Routes
+ *
+ * Exposes the LLM usage ledger (tokens and estimated cost per call) so spend
+ * can be broken down per story, chat, model, API client and day.
+ *
+ * GET /story-ui/usage          → summary, filtered by ?from=&to=&client=&chatId=&fileName=
+ * GET /story-ui/usage/records  → raw records for the same filters (?limit=, newest first)
+ * GET /story-ui/usage/budget   → configured budgets and how much of each is used (?client=)
+ *
+ * Requests are attributed to an API client via the `X-Story-UI-Client` header,
+ * or to the caller's IP address when `budgets.clientIdentity` is 'ip'.
+ */
+
+import { Request, Response } from 'express';
+import { getUsageLedger, UsageFilter } from '../../story-generator/usageLedger.js';
+import { BudgetClientRequiredError, BudgetExceededError, getBudgetChecks, resolveBudgets } from '../../story-generator/budgetGuard.js';
+import { loadUserConfig } from '../../story-generator/configLoader.js';
+import type { ClientIdentity } from '../../story-ui.config.js';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RECORD_LIMIT = 200;
+
+/**
+ * Client/team a request is billed to. The X-Story-UI-Client header is
+ * self-declared and only advisory; the global budget applies whatever it says.
+ * With `clientIdentity: 'ip'` the server-observed address is used instead
+ * (set Express `trust proxy` when running behind a reverse proxy).
+ */
+export function getUsageClient(
+  req: Request,
+  identity: ClientIdentity = resolveBudgets(loadUserConfig().budgets).clientIdentity
+): string | undefined {
+  if (identity === 'ip') {
+    return req.ip || req.socket?.remoteAddress || undefined;
+  }
+  const client = req.get('x-story-ui-client')?.trim();
+  return client ? client.slice(0, 100) : undefined;
+}
+
+/**
+ * Respond to budget errors from JSON routes: 429 when a budget is used up,
+ * 400 when the server requires a client header. Returns false for other errors.
+ */
+export function sendBudgetError(res: Response, err: unknown): boolean {
+  if (err instanceof BudgetExceededError) {
+    res.status(429).json({ error: err.message, code: err.code, budget: err.check });
+    return true;
+  }
+  if (err instanceof BudgetClientRequiredError) {
+    res.status(400).json({ error: err.message, code: err.code });
+    return true;
+  }
+  return false;
+}
+
+function parseFilter(req: Request): UsageFilter | { error: string } {
+  const query = (key: string) => (typeof req.query[key] === 'string' ? (req.query[key] as string) : undefined);
+  const filter: UsageFilter = {
+    from: query('from'),
+    to: query('to'),
+    client: query('client'),
+    chatId: query('chatId'),
+    fileName: query('fileName'),
+  };
+
+  for (const key of ['from', 'to'] as const) {
+    if (filter[key] && !DAY_PATTERN.test(filter[key]!)) {
+      return { error: `${key} must be a UTC day (YYYY-MM-DD)` };
+    }
+  }
+  return filter;
+}
+
+// ── GET /story-ui/usage ───────────────────────────────────────────────────
+
+export function usageSummaryHandler(req: Request, res: Response): void {
+  try {
+    const filter = parseFilter(req);
+    if ('error' in filter) {
+      res.status(400).json({ error: filter.error });
+      return;
+    }
+    res.json(getUsageLedger().summarize(filter));
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+// ── GET /story-ui/usage/records ───────────────────────────────────────────
+
+export function usageRecordsHandler(req: Request, res: Response): void {
+  try {
+    const filter = parseFilter(req);
+    if ('error' in filter) {
+      res.status(400).json({ error: filter.error });
+      return;
+    }
+    const limit = Math.max(1, parseInt(String(req.query.limit ?? DEFAULT_RECORD_LIMIT), 10) || DEFAULT_RECORD_LIMIT);
+    const records = getUsageLedger().getRecords(filter).slice(-limit).reverse();
+    res.json({ records });
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+// ── GET /story-ui/usage/budget ────────────────────────────────────────────
+
+export function usageBudgetHandler(req: Request, res: Response): void {
+  try {
+    const client = typeof req.query.client === 'string' ? req.query.client : getUsageClient(req);
+    const checks = getBudgetChecks(client);
+    res.json({ client: client ?? null, exceeded: checks.some(check => check.exceeded), checks });
+  } catch (err) {
+    res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
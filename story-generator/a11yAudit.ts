@@ -0,0 +1,515 @@
+/**
+ * Accessibility Audit
+ *
+ * Static accessibility checks for generated stories: images without alt
+ * text, unlabeled form controls, buttons and links without an accessible
+ * name, skipped heading levels, clickable non-interactive elements and low
+ * text contrast in inline styles (resolving design tokens when their values
+ * are configured). Covers JSX and template markup (Vue, Lit, Svelte).
+ *
+ * Also adds Storybook a11y addon parameters to the story meta, so the addon
+ * runs its own (axe) checks when the story is rendered.
+ */
+
+import * as ts from 'typescript';
+import type { A11yConfig } from '../story-ui.config.js';
+import type { ValidationError } from './storyValidator.js';
+import { TEMPLATE_ATTRIBUTE, TEMPLATE_ATTRIBUTE_VALUE, lineAt } from './templateMarkup.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface A11yFinding extends ValidationError {
+  /** axe-style rule id, e.g. 'image-alt' */
+  rule: string;
+}
+
+interface AuditElement {
+  tag: string;
+  line: number;
+  /** Lower-cased attribute names; values are undefined when not a literal */
+  attributes: Map<string, string | undefined>;
+  /** Spread props may supply any attribute */
+  hasSpread: boolean;
+  /** Has text, an expression or a labelled child inside */
+  hasText: boolean;
+  insideLabel: boolean;
+  /** Literal inline style declarations, keys lower-cased without dashes */
+  style: Map<string, string>;
+}
+
+type Rgb = [number, number, number];
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_MIN_CONTRAST = 4.5;
+
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const INTERACTIVE_ELEMENTS = new Set(['a', 'button', 'input', 'select', 'textarea', 'details', 'summary', 'option', 'label']);
+
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+
+/** Attributes that give an element an accessible name */
+const NAME_ATTRIBUTES = ['aria-label', 'aria-labelledby', 'title'];
+
+/** Click handlers across JSX, Vue (@click, v-on:click), Svelte (on:click), Angular ((click)) and Lit (@click) */
+const CLICK_HANDLER = /^(onclick|@click|v-on:click|on:click|\(click\))$/;
+const KEY_HANDLER = /^(onkey(down|up|press)|@key(down|up|press)|v-on:key(down|up|press)|on:key(down|up|press)|\(key(down|up|press)\))/;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff', black: '#000000', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  gray: '#808080', grey: '#808080', silver: '#c0c0c0', yellow: '#ffff00', orange: '#ffa500',
+  purple: '#800080', navy: '#000080', teal: '#008080', maroon: '#800000', lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', whitesmoke: '#f5f5f5',
+};
+
+const TEMPLATE_TOKEN = new RegExp(
+  String.raw`<\/([A-Za-z][\w.:-]*)\s*>|<([A-Za-z][\w.:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:${TEMPLATE_ATTRIBUTE_VALUE}))?)*)\s*(\/?)>|([^<]+)`,
+  'g'
+);
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function has(element: AuditElement, ...names: string[]): boolean {
+  return names.some(name => element.attributes.has(name));
+}
+
+function literal(element: AuditElement, name: string): string | undefined {
+  return element.attributes.get(name);
+}
+
+function styleKey(property: string): string {
+  return property.replace(/-/g, '').toLowerCase();
+}
+
+function parseStyleString(style: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) {
+      declarations.set(styleKey(declaration.slice(0, colon).trim()), declaration.slice(colon + 1).trim());
+    }
+  }
+  return declarations;
+}
+
+function markText(stack: AuditElement[]): void {
+  stack.forEach(element => { element.hasText = true; });
+}
+
+function givesName(element: AuditElement): boolean {
+  const alt = literal(element, 'alt');
+  return has(element, 'aria-label', 'aria-labelledby', 'title') || (alt !== undefined && alt.trim().length > 0);
+}
+
+// ── Element collection ─────────────────────────────────────────────────────
+
+function collectJsxElements(code: string, fileName: string): AuditElement[] {
+  const scriptKind = /\.(tsx|jsx)$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const elements: AuditElement[] = [];
+  const stack: AuditElement[] = [];
+
+  const visitOpening = (node: ts.JsxOpeningElement | ts.JsxSelfClosingElement): AuditElement => {
+    const attributes = new Map<string, string | undefined>();
+    const style = new Map<string, string>();
+    let hasSpread = false;
+    for (const attribute of node.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(attribute)) {
+        hasSpread = true;
+        continue;
+      }
+      const name = attribute.name.getText(sourceFile).toLowerCase();
+      const initializer = attribute.initializer;
+      let value: string | undefined;
+      if (!initializer) {
+        value = 'true';
+      } else if (ts.isStringLiteral(initializer)) {
+        value = initializer.text;
+      } else if (ts.isJsxExpression(initializer) && initializer.expression) {
+        const expression = initializer.expression;
+        if (ts.isStringLiteralLike(expression)) {
+          value = expression.text;
+        } else if (ts.isNumericLiteral(expression)) {
+          value = expression.text;
+        } else if (name === 'style' && ts.isObjectLiteralExpression(expression)) {
+          for (const property of expression.properties) {
+            if (ts.isPropertyAssignment(property) && ts.isStringLiteralLike(property.initializer)) {
+              style.set(styleKey(property.name.getText(sourceFile).replace(/^['"]|['"]$/g, '')), property.initializer.text);
+            }
+          }
+        }
+      }
+      attributes.set(name, value);
+    }
+    if (attributes.has('style') && attributes.get('style') !== undefined) {
+      parseStyleString(attributes.get('style')!).forEach((value, key) => style.set(key, value));
+    }
+
+    const element: AuditElement = {
+      tag: node.tagName.getText(sourceFile),
+      line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+      attributes,
+      hasSpread,
+      hasText: false,
+      insideLabel: stack.some(ancestor => ancestor.tag === 'label'),
+      style,
+    };
+    elements.push(element);
+    if (givesName(element)) markText(stack);
+    return element;
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxSelfClosingElement(node)) {
+      visitOpening(node);
+      return;
+    }
+    if (ts.isJsxElement(node)) {
+      const element = visitOpening(node.openingElement);
+      stack.push(element);
+      node.children.forEach(visit);
+      stack.pop();
+      return;
+    }
+    if (ts.isJsxText(node)) {
+      if (!node.containsOnlyTriviaWhiteSpaces) markText(stack);
+      return;
+    }
+    if (ts.isJsxExpression(node) && stack.length > 0 && node.parent && (ts.isJsxElement(node.parent) || ts.isJsxFragment(node.parent))) {
+      // Dynamic children may render text; assume they do
+      if (node.expression) markText(stack);
+      ts.forEachChild(node, visit);
+      return;
+    }
+    if ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node))) {
+      const text = node.getText(sourceFile);
+      if (text.includes('<')) {
+        const baseLine = lineAt(code, node.getStart(sourceFile));
+        for (const element of collectTemplateElements(text)) {
+          elements.push({ ...element, line: baseLine + element.line - 1 });
+        }
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return elements;
+}
+
+/**
+ * Tokenize template markup into elements. Line numbers are relative to
+ * `markup`.
+ */
+function collectTemplateElements(markup: string): AuditElement[] {
+  const elements: AuditElement[] = [];
+  const stack: AuditElement[] = [];
+
+  for (const match of markup.matchAll(TEMPLATE_TOKEN)) {
+    const [, closingTag, tag, rawAttributes = '', selfClosing, text] = match;
+
+    if (text !== undefined) {
+      if (text.trim().length > 0) markText(stack);
+      continue;
+    }
+    if (closingTag) {
+      const index = stack.map(element => element.tag).lastIndexOf(closingTag);
+      if (index !== -1) stack.length = index;
+      continue;
+    }
+
+    const attributes = new Map<string, string | undefined>();
+    let hasSpread = false;
+    for (const [, rawName, rawValue] of rawAttributes.matchAll(TEMPLATE_ATTRIBUTE)) {
+      if (rawName.startsWith('{...') || rawName.startsWith('${') || rawName === 'v-bind') {
+        hasSpread = true;
+        continue;
+      }
+      // Bound attributes (:alt, v-bind:alt, .alt, ?disabled, [alt], [attr.aria-label]) hold expressions
+      const bound = /^(:|v-bind:|\.|\?|\[)/.test(rawName);
+      const name = rawName.replace(/^(:|v-bind:|\.|\?|\[(attr\.)?)/, '').replace(/\]$/, '').toLowerCase();
+      const unquoted = rawValue?.replace(/^["']|["']$/g, '');
+      const dynamic = bound || unquoted === undefined || unquoted.includes('${') || /^\{.*\}$/s.test(unquoted);
+      attributes.set(/^(on:|@|\(|v-on:)/.test(rawName) ? rawName.toLowerCase() : name, unquoted === undefined && !bound ? 'true' : dynamic ? undefined : unquoted);
+    }
+
+    const element: AuditElement = {
+      tag,
+      line: lineAt(markup, match.index!),
+      attributes,
+      hasSpread,
+      hasText: false,
+      insideLabel: stack.some(ancestor => ancestor.tag === 'label'),
+      style: attributes.get('style') !== undefined ? parseStyleString(attributes.get('style')!) : new Map(),
+    };
+    elements.push(element);
+    if (givesName(element)) markText(stack);
+    if (!selfClosing && !VOID_ELEMENTS.has(tag.toLowerCase())) stack.push(element);
+  }
+
+  return elements;
+}
+
+// ── Colors ─────────────────────────────────────────────────────────────────
+
+function parseColor(value: string, tokens: Record<string, string>, depth = 0): Rgb | undefined {
+  const color = value.trim().toLowerCase().replace(/\s*!important$/, '');
+  if (depth > 3) return undefined;
+
+  const variable = color.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+  if (variable) {
+    const token = tokens[variable[1]] ?? tokens[variable[1].slice(2)];
+    if (token) return parseColor(token, tokens, depth + 1);
+    return variable[2] ? parseColor(variable[2], tokens, depth + 1) : undefined;
+  }
+  if (tokens[value.trim()] && depth === 0) {
+    return parseColor(tokens[value.trim()], tokens, depth + 1);
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.split('').map(d => d + d).join('');
+    if (digits.length === 8 && digits.slice(6) !== 'ff') return undefined;
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*(?:[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) < (rgb[4].endsWith('%') ? 100 : 1)) return undefined;
+    return [rgb[1], rgb[2], rgb[3]].map(Number) as Rgb;
+  }
+
+  return NAMED_COLORS[color] ? parseColor(NAMED_COLORS[color], tokens, depth + 1) : undefined;
+}
+
+function luminance([r, g, b]: Rgb): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** WCAG contrast ratio between two colors */
+export function contrastRatio(foreground: Rgb, background: Rgb): number {
+  const [light, dark] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// ── Rules ──────────────────────────────────────────────────────────────────
+
+function auditElements(elements: AuditElement[], options: A11yConfig): A11yFinding[] {
+  const findings: A11yFinding[] = [];
+  const report = (element: AuditElement, rule: string, message: string) => {
+    findings.push({ rule, line: element.line, message: `${message} (${rule})` });
+  };
+
+  const labelledIds = new Set(
+    elements
+      .filter(element => element.tag === 'label')
+      .map(element => literal(element, 'htmlfor') ?? literal(element, 'for'))
+      .filter((id): id is string => id !== undefined)
+  );
+  let previousHeading = 0;
+
+  for (const element of elements) {
+    const tag = element.tag;
+    const native = tag === tag.toLowerCase();
+    const hidden = literal(element, 'aria-hidden') === 'true' || ['presentation', 'none'].includes(literal(element, 'role') ?? '');
+    const named = element.hasSpread || has(element, ...NAME_ATTRIBUTES);
+
+    if (tag === 'img' && !hidden && !element.hasSpread && !has(element, 'alt', 'aria-label', 'aria-labelledby')) {
+      report(element, 'image-alt', '<img> has no alt text. Describe the image, or use alt="" if it is decorative');
+    }
+
+    if (['input', 'select', 'textarea'].includes(tag) && !named && !element.insideLabel) {
+      const type = literal(element, 'type') ?? 'text';
+      const id = literal(element, 'id');
+      if (!UNLABELED_INPUT_TYPES.has(type) && !(id && labelledIds.has(id)) && !(element.attributes.has('id') && id === undefined)) {
+        report(element, 'label', `<${tag}> has no label. Wrap it in a <label>, point a label's htmlFor at its id, or add aria-label`);
+      }
+    }
+
+    const isButton = tag === 'button' || (!native && /Button$/.test(tag));
+    if (isButton && !hidden && !named && !element.hasText && !has(element, 'label', 'text', 'children', 'value')) {
+      report(element, 'button-name', `<${tag}> has no accessible name. Give it text content or an aria-label`);
+    }
+
+    if (tag === 'a' && !hidden && !named && !element.hasText) {
+      report(element, 'link-name', '<a> has no accessible name. Give it text content or an aria-label');
+    }
+
+    const headingLevel = tag.match(/^h([1-6])$/)?.[1]
+      ?? literal(element, 'as')?.match(/^h([1-6])$/)?.[1]
+      ?? (literal(element, 'role') === 'heading' ? literal(element, 'aria-level') : undefined);
+    if (headingLevel) {
+      const level = Number(headingLevel);
+      if (previousHeading > 0 && level > previousHeading + 1) {
+        report(element, 'heading-order', `Heading level ${level} follows level ${previousHeading}. Don't skip heading levels`);
+      }
+      previousHeading = level;
+    }
+
+    const attributeNames = [...element.attributes.keys()];
+    const clickable = attributeNames.some(name => CLICK_HANDLER.test(name));
+    if (clickable && native && !INTERACTIVE_ELEMENTS.has(tag) && !element.hasSpread) {
+      if (!has(element, 'role')) {
+        report(element, 'interactive-role', `<${tag}> has a click handler but no role. Use a <button>, or add role="button", tabIndex={0} and a keyboard handler`);
+      } else if (!has(element, 'tabindex')) {
+        report(element, 'interactive-supports-focus', `<${tag} role="${literal(element, 'role') ?? '...'}"> is clickable but not focusable. Add tabIndex={0}`);
+      } else if (!attributeNames.some(name => KEY_HANDLER.test(name))) {
+        report(element, 'click-events-have-key-events', `<${tag}> has a click handler but no keyboard handler. Handle Enter and Space with onKeyDown`);
+      }
+    }
+    if (clickable && tag === 'a' && !has(element, 'href')) {
+      report(element, 'anchor-is-valid', '<a> without href is used as a button. Use a <button> instead');
+    }
+
+    const foreground = element.style.get('color');
+    const background = element.style.get('backgroundcolor') ?? element.style.get('background');
+    if (foreground && background) {
+      const tokens = options.colorTokens ?? {};
+      const fg = parseColor(foreground, tokens);
+      const bg = parseColor(background, tokens);
+      const minimum = options.minContrastRatio ?? DEFAULT_MIN_CONTRAST;
+      if (fg && bg) {
+        const ratio = contrastRatio(fg, bg);
+        if (ratio < minimum) {
+          report(element, 'color-contrast', `Text color ${foreground} on ${background} has a contrast ratio of ${(Math.floor(ratio * 100) / 100).toFixed(2)}:1; at least ${minimum}:1 is required`);
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+// ── Storybook parameters ───────────────────────────────────────────────────
+
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * The story meta object: `export default { ... }`, the variable it exports,
+ * or the argument of Svelte's `defineMeta({ ... })`
+ */
+function findMetaObject(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  let meta: ts.ObjectLiteralExpression | undefined;
+  let exportedName: string | undefined;
+  const declarations = new Map<string, ts.Expression>();
+
+  const visit = (node: ts.Node) => {
+    if (meta) return;
+    if (ts.isExportAssignment(node)) {
+      const expression = unwrapExpression(node.expression);
+      if (ts.isObjectLiteralExpression(expression)) meta = expression;
+      else if (ts.isIdentifier(expression)) exportedName = expression.text;
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      declarations.set(node.name.text, node.initializer);
+    } else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'defineMeta') {
+      const [argument] = node.arguments;
+      if (argument && ts.isObjectLiteralExpression(unwrapExpression(argument))) {
+        meta = unwrapExpression(argument) as ts.ObjectLiteralExpression;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!meta && exportedName && declarations.has(exportedName)) {
+    const initializer = unwrapExpression(declarations.get(exportedName)!);
+    if (ts.isObjectLiteralExpression(initializer)) meta = initializer;
+  }
+  return meta;
+}
+
+/**
+ * Text that appends `property` to an object literal, matching its layout
+ */
+function appendProperty(
+  code: string,
+  object: ts.ObjectLiteralExpression,
+  sourceFile: ts.SourceFile,
+  property: string
+): { position: number; text: string } {
+  const properties = object.properties;
+  if (properties.length === 0) {
+    return { position: object.getStart(sourceFile) + 1, text: ` ${property} ` };
+  }
+  const last = properties[properties.length - 1];
+  const lastStart = last.getStart(sourceFile);
+  const multiline = code.slice(object.getStart(sourceFile), lastStart).includes('\n');
+  const lineStart = code.lastIndexOf('\n', lastStart) + 1;
+  const separator = multiline ? `\n${code.slice(lineStart, lastStart).match(/^\s*/)![0]}` : ' ';
+  return properties.hasTrailingComma
+    ? { position: code.indexOf(',', last.end) + 1, text: `${separator}${property},` }
+    : { position: last.end, text: `,${separator}${property}` };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Audit a story for common accessibility problems. Findings carry the line
+ * and an axe-style rule id.
+ */
+export function auditStoryAccessibility(
+  code: string,
+  fileName: string = 'story.stories.tsx',
+  options: A11yConfig = {}
+): A11yFinding[] {
+  let elements: AuditElement[];
+  if (/\.(svelte|vue|html)$/.test(fileName)) {
+    // Blank out script blocks (keeping newlines) so only markup is audited
+    const markup = code.replace(/<script[\s\S]*?<\/script>/g, block => block.replace(/[^\n]/g, ' '));
+    elements = collectTemplateElements(markup);
+  } else {
+    try {
+      elements = collectJsxElements(code, fileName);
+    } catch {
+      // Unparseable code is reported by syntax validation
+      return [];
+    }
+  }
+  return auditElements(elements, options);
+}
+
+/**
+ * Add `parameters.a11y` to the story meta so the Storybook a11y addon checks
+ * the story. Existing a11y parameters are left alone; code without a
+ * recognizable meta object is returned unchanged.
+ */
+export function addA11yParameters(code: string, test: A11yConfig['test'] = 'error'): string {
+  // Svelte CSF keeps defineMeta in the module script
+  const script = code.match(/<script[^>]*\bmodule\b[^>]*>([\s\S]*?)<\/script>/);
+  const offset = script ? script.index! + script[0].indexOf('>') + 1 : 0;
+  const source = script ? script[1] : code;
+
+  const sourceFile = ts.createSourceFile('story.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const meta = findMetaObject(sourceFile);
+  if (!meta) return code;
+
+  const a11y = `a11y: { test: '${test}' }`;
+  const parameters = meta.properties.find(
+    (property): property is ts.PropertyAssignment => ts.isPropertyAssignment(property) && property.name.getText(sourceFile) === 'parameters'
+  );
+
+  let insertion: { position: number; text: string };
+  if (!parameters) {
+    insertion = appendProperty(source, meta, sourceFile, `parameters: { ${a11y} }`);
+  } else {
+    const value = unwrapExpression(parameters.initializer);
+    if (!ts.isObjectLiteralExpression(value)) return code;
+    if (value.properties.some(property => property.name?.getText(sourceFile) === 'a11y')) return code;
+    insertion = appendProperty(source, value, sourceFile, a11y);
+  }
+
+  const position = offset + insertion.position;
+  return code.slice(0, position) + insertion.text + code.slice(position);
+}
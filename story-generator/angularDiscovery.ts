@@ -0,0 +1,396 @@
+/**
+ * Angular Component Discovery
+ *
+ * Reads what a story needs to render an Angular component from its
+ * decorators and signal APIs:
+ * - `@Component({ selector })` and whether the component is standalone or
+ *   declared in an NgModule (`@NgModule({ declarations })`)
+ * - Inputs: `@Input()` properties and setters, `input()`, `input.required()`
+ *   and `model()`, with aliases, `required` and boolean transforms
+ * - Outputs: `@Output()` EventEmitters, `output()` and the `xChange` output
+ *   of `model()`
+ * - Content projection slots: `<ng-content select>` in the inline template
+ *   or the `templateUrl` file
+ *
+ * Members inherited from base classes are included, as Angular inherits them.
+ * Files are type-checked so input types resolve from their declarations.
+ */
+
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import type { EventInfo, PropInfo } from './componentDiscovery.js';
+import {
+  DISCOVERY_OPTIONS,
+  describeType,
+  literalValue,
+  loadCompilerOptions,
+} from './typeScriptDiscovery.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface AngularComponent {
+  /** The component class name */
+  name: string;
+  filePath: string;
+  selector?: string;
+  /** The class's JSDoc description */
+  description?: string;
+  props: PropInfo[];
+  events: EventInfo[];
+  /** Content projection slots: 'default' or the `select` of each <ng-content> */
+  slots: string[];
+  standalone: boolean;
+  /** The NgModule that declares the component */
+  ngModule?: string;
+}
+
+export interface AngularDiscoveryOptions {
+  /** Where to look for tsconfig.json and @angular/core (default: process.cwd()) */
+  projectRoot?: string;
+}
+
+interface MemberOptions {
+  alias?: string;
+  required: boolean;
+  /** Set by `transform: booleanAttribute` */
+  boolean: boolean;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const NG_CONTENT = /<ng-content\b([^>]*)>/gi;
+const NG_CONTENT_SELECT = /(?:^|\s)select\s*=\s*["']([^"']+)["']/;
+
+/** Angular 19 made components standalone unless they opt out */
+const STANDALONE_BY_DEFAULT_VERSION = 19;
+
+const MAX_BASE_CLASSES = 5;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** `Component`, `Input` and `Output` for `@Component({...})`, `@Input()` ... */
+function decoratorCall(node: ts.Node, name: string): ts.CallExpression | undefined {
+  if (!ts.canHaveDecorators(node)) return undefined;
+  for (const decorator of ts.getDecorators(node) ?? []) {
+    const expression = decorator.expression;
+    if (ts.isCallExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === name) {
+      return expression;
+    }
+  }
+  return undefined;
+}
+
+function objectArgument(call: ts.CallExpression | undefined, index = 0): ts.ObjectLiteralExpression | undefined {
+  const argument = call?.arguments[index];
+  return argument && ts.isObjectLiteralExpression(argument) ? argument : undefined;
+}
+
+function optionValue(options: ts.ObjectLiteralExpression | undefined, key: string): ts.Expression | undefined {
+  const property = options?.properties.find(p =>
+    ts.isPropertyAssignment(p) && (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name)) && p.name.text === key);
+  return property && ts.isPropertyAssignment(property) ? property.initializer : undefined;
+}
+
+function stringValue(node: ts.Expression | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+/** Alias, required flag and boolean transform from an `@Input()` argument or signal options */
+function memberOptions(argument: ts.Expression | undefined): MemberOptions {
+  const alias = stringValue(argument);
+  if (alias !== undefined || !argument || !ts.isObjectLiteralExpression(argument)) {
+    return { alias, required: false, boolean: false };
+  }
+  const transform = optionValue(argument, 'transform');
+  return {
+    alias: stringValue(optionValue(argument, 'alias')),
+    required: optionValue(argument, 'required')?.kind === ts.SyntaxKind.TrueKeyword,
+    boolean: !!transform && ts.isIdentifier(transform) && transform.text === 'booleanAttribute',
+  };
+}
+
+/** `input`, `input.required`, `model`, `output` ... as written */
+function signalFunction(initializer: ts.Expression | undefined): { call: ts.CallExpression; name: string } | undefined {
+  if (!initializer || !ts.isCallExpression(initializer)) return undefined;
+  const callee = initializer.expression;
+  if (ts.isIdentifier(callee)) return { call: initializer, name: callee.text };
+  if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)) {
+    return { call: initializer, name: `${callee.expression.text}.${callee.name.text}` };
+  }
+  return undefined;
+}
+
+function memberName(member: ts.ClassElement): string | undefined {
+  const name = member.name;
+  return name && (ts.isIdentifier(name) || ts.isStringLiteral(name)) ? name.text : undefined;
+}
+
+function documentation(checker: ts.TypeChecker, member: ts.ClassElement): string | undefined {
+  const symbol = member.name && checker.getSymbolAtLocation(member.name);
+  const text = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+  return text || undefined;
+}
+
+/** Literal defaults keep their value; `new Date()` and other expressions are not defaults */
+function defaultValue(initializer: ts.Expression | undefined): unknown {
+  if (!initializer) return undefined;
+  if (ts.isStringLiteral(initializer) || ts.isNoSubstitutionTemplateLiteral(initializer) || ts.isNumericLiteral(initializer) ||
+      initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword ||
+      ts.isArrayLiteralExpression(initializer) || ts.isObjectLiteralExpression(initializer)) {
+    return literalValue(initializer.getText());
+  }
+  return undefined;
+}
+
+function prop(
+  name: string,
+  type: Pick<PropInfo, 'type' | 'options'>,
+  required: boolean,
+  value: unknown,
+  description: string | undefined
+): PropInfo {
+  return {
+    name,
+    ...type,
+    required: required && value === undefined,
+    ...(description ? { description } : {}),
+    ...(value !== undefined ? { defaultValue: value } : {}),
+  };
+}
+
+/** The type of a signal input or model: its type argument, or its initial value widened */
+function signalType(checker: ts.TypeChecker, call: ts.CallExpression, initial: ts.Expression | undefined): Pick<PropInfo, 'type' | 'options'> {
+  const typeArgument = call.typeArguments?.[0];
+  if (typeArgument) return describeType(checker, checker.getTypeFromTypeNode(typeArgument));
+  if (initial) return describeType(checker, checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(initial)));
+  return { type: 'unknown' };
+}
+
+/** `EventEmitter<T>` / `output<T>()` payload type as written */
+function payloadOf(call: ts.CallExpression | ts.NewExpression): string | undefined {
+  return call.typeArguments?.[0]?.getText();
+}
+
+/** Inputs and outputs declared on one class */
+function classMembers(checker: ts.TypeChecker, node: ts.ClassLikeDeclaration): { props: PropInfo[]; events: EventInfo[] } {
+  const props: PropInfo[] = [];
+  const events: EventInfo[] = [];
+
+  for (const member of node.members) {
+    const name = memberName(member);
+    if (!name) continue;
+    const description = documentation(checker, member);
+
+    const input = decoratorCall(member, 'Input');
+    if (input) {
+      const options = memberOptions(input.arguments[0]);
+      let type: Pick<PropInfo, 'type' | 'options'> = { type: 'boolean' };
+      if (!options.boolean) {
+        const typed = ts.isSetAccessor(member) ? member.parameters[0] : member;
+        type = describeType(checker, checker.getTypeAtLocation(typed));
+      }
+      const initializer = ts.isPropertyDeclaration(member) ? member.initializer : undefined;
+      props.push(prop(options.alias ?? name, type, options.required, defaultValue(initializer), description));
+      continue;
+    }
+
+    const output = decoratorCall(member, 'Output');
+    if (output) {
+      const alias = stringValue(output.arguments[0]);
+      const initializer = ts.isPropertyDeclaration(member) ? member.initializer : undefined;
+      const payload = initializer && ts.isNewExpression(initializer) ? payloadOf(initializer) : undefined;
+      events.push({ name: alias ?? name, ...(payload ? { payload } : {}), ...(description ? { description } : {}) });
+      continue;
+    }
+
+    if (!ts.isPropertyDeclaration(member)) continue;
+    const signal = signalFunction(member.initializer);
+    if (!signal) continue;
+    const { call } = signal;
+
+    switch (signal.name) {
+      case 'input':
+      case 'model': {
+        const [initial, optionsArgument] = call.arguments;
+        const options = memberOptions(optionsArgument);
+        const type = options.boolean ? { type: 'boolean' as const } : signalType(checker, call, initial);
+        const inputName = options.alias ?? name;
+        props.push(prop(inputName, type, false, defaultValue(initial), description));
+        if (signal.name === 'model') {
+          const payload = payloadOf(call);
+          events.push({ name: `${inputName}Change`, ...(payload ? { payload } : {}) });
+        }
+        break;
+      }
+      case 'input.required':
+      case 'model.required': {
+        const options = memberOptions(call.arguments[0]);
+        const type = options.boolean ? { type: 'boolean' as const } : signalType(checker, call, undefined);
+        const inputName = options.alias ?? name;
+        props.push(prop(inputName, type, true, undefined, description));
+        if (signal.name === 'model.required') {
+          const payload = payloadOf(call);
+          events.push({ name: `${inputName}Change`, ...(payload ? { payload } : {}) });
+        }
+        break;
+      }
+      case 'output':
+      case 'outputFromObservable': {
+        const options = memberOptions(call.arguments[signal.name === 'output' ? 0 : 1]);
+        const payload = payloadOf(call);
+        events.push({ name: options.alias ?? name, ...(payload ? { payload } : {}), ...(description ? { description } : {}) });
+        break;
+      }
+    }
+  }
+
+  return { props, events };
+}
+
+/** The class a component extends, when it is declared in source */
+function baseClass(checker: ts.TypeChecker, node: ts.ClassLikeDeclaration): ts.ClassLikeDeclaration | undefined {
+  const base = node.heritageClauses
+    ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)?.types[0];
+  if (!base) return undefined;
+  let symbol = checker.getSymbolAtLocation(base.expression);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol);
+  const declaration = symbol?.valueDeclaration;
+  return declaration && ts.isClassLike(declaration) ? declaration : undefined;
+}
+
+/** Own members first, then those inherited from base classes */
+function collectMembers(checker: ts.TypeChecker, node: ts.ClassLikeDeclaration): { props: PropInfo[]; events: EventInfo[] } {
+  const props = new Map<string, PropInfo>();
+  const events = new Map<string, EventInfo>();
+  let current: ts.ClassLikeDeclaration | undefined = node;
+
+  for (let depth = 0; current && depth <= MAX_BASE_CLASSES; depth++) {
+    const members = classMembers(checker, current);
+    for (const p of members.props) if (!props.has(p.name)) props.set(p.name, p);
+    for (const e of members.events) if (!events.has(e.name)) events.set(e.name, e);
+    current = baseClass(checker, current);
+  }
+
+  return { props: Array.from(props.values()), events: Array.from(events.values()) };
+}
+
+/** The inline template, or the contents of `templateUrl` */
+function componentTemplate(options: ts.ObjectLiteralExpression | undefined, filePath: string): string {
+  const inline = optionValue(options, 'template');
+  if (inline && (ts.isStringLiteral(inline) || ts.isNoSubstitutionTemplateLiteral(inline) || ts.isTemplateExpression(inline))) {
+    return inline.getText();
+  }
+  const templateUrl = stringValue(optionValue(options, 'templateUrl'));
+  if (!templateUrl) return '';
+  try {
+    return fs.readFileSync(path.resolve(path.dirname(filePath), templateUrl), 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+function projectionSlots(template: string): string[] {
+  const slots = Array.from(template.matchAll(NG_CONTENT), match => NG_CONTENT_SELECT.exec(match[1])?.[1] ?? 'default');
+  return Array.from(new Set(slots));
+}
+
+/** Component class names mapped to the NgModule that declares them */
+function moduleDeclarations(sourceFiles: readonly ts.SourceFile[]): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+      const declared = optionValue(objectArgument(decoratorCall(statement, 'NgModule')), 'declarations');
+      if (!declared || !ts.isArrayLiteralExpression(declared)) continue;
+      for (const element of declared.elements) {
+        if (ts.isIdentifier(element)) declarations.set(element.text, statement.name.text);
+      }
+    }
+  }
+  return declarations;
+}
+
+/** Major version of the project's @angular/core, when it can be found */
+function angularMajorVersion(projectRoot: string): number | undefined {
+  const candidates = [
+    path.join(projectRoot, 'node_modules', '@angular', 'core', 'package.json'),
+    path.join(projectRoot, 'package.json'),
+  ];
+  for (const candidate of candidates) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(candidate, 'utf-8'));
+      const version: unknown = packageJson.name === '@angular/core'
+        ? packageJson.version
+        : packageJson.dependencies?.['@angular/core'] ?? packageJson.devDependencies?.['@angular/core'];
+      const major = typeof version === 'string' ? /(\d+)/.exec(version)?.[1] : undefined;
+      if (major) return Number(major);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Angular components declared in the given files, with their selectors,
+ * inputs, outputs, projection slots and NgModule membership. NgModules in the
+ * same files are used to tell standalone components from declared ones.
+ */
+export function discoverAngularComponents(
+  files: string[],
+  options: AngularDiscoveryOptions = {}
+): AngularComponent[] {
+  const rootFiles = files.filter(file => /\.[cm]?ts$/.test(file) && !file.endsWith('.d.ts')).map(file => path.resolve(file));
+  if (rootFiles.length === 0) return [];
+
+  const projectRoot = options.projectRoot ?? process.cwd();
+  const program = ts.createProgram(rootFiles, { ...loadCompilerOptions(projectRoot), ...DISCOVERY_OPTIONS });
+  const checker = program.getTypeChecker();
+  const sourceFiles = rootFiles
+    .map(file => program.getSourceFile(file))
+    .filter((sourceFile): sourceFile is ts.SourceFile => !!sourceFile);
+  const declaredIn = moduleDeclarations(sourceFiles);
+  const majorVersion = angularMajorVersion(projectRoot);
+
+  const components: AngularComponent[] = [];
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+      const decorator = decoratorCall(statement, 'Component');
+      if (!decorator) continue;
+
+      const name = statement.name.text;
+      const metadata = objectArgument(decorator);
+      const selector = stringValue(optionValue(metadata, 'selector'));
+      const standaloneOption = optionValue(metadata, 'standalone');
+      const ngModule = declaredIn.get(name);
+      // Explicit flag first; then NgModule membership; then the version default
+      const standalone = standaloneOption
+        ? standaloneOption.kind === ts.SyntaxKind.TrueKeyword
+        : !ngModule && (majorVersion !== undefined
+          ? majorVersion >= STANDALONE_BY_DEFAULT_VERSION
+          : !!optionValue(metadata, 'imports'));
+
+      const symbol = checker.getSymbolAtLocation(statement.name);
+      const description = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+      const { props, events } = collectMembers(checker, statement);
+
+      components.push({
+        name,
+        filePath: sourceFile.fileName,
+        ...(selector ? { selector } : {}),
+        ...(description ? { description } : {}),
+        props,
+        events,
+        slots: projectionSlots(componentTemplate(metadata, sourceFile.fileName)),
+        standalone,
+        ...(ngModule ? { ngModule } : {}),
+      });
+    }
+  }
+
+  return components;
+}
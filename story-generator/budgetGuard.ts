@@ -0,0 +1,230 @@
+/**
+ * Budget Guard
+ *
+ * Enforces daily/monthly token and dollar budgets, globally and per API client,
+ * before an LLM call is made. Spend is read from the usage ledger, so budgets
+ * count every call the server has made (including failed generations and
+ * self-healing retries) and survive restarts. Responses served from the
+ * response cache cost nothing and are never blocked.
+ *
+ * Limits come from `budgets` in story-ui.config.js; STORY_UI_BUDGET_* variables
+ * override the global and per-client defaults so a hosted instance can be
+ * capped from its environment.
+ *
+ * The global limits always apply. Client identities taken from the
+ * X-Story-UI-Client header are chosen by the caller, so per-client limits only
+ * divide spend between cooperating clients; `clientIdentity: 'ip'` bills the
+ * caller's address instead.
+ */
+
+import type { BudgetConfig, BudgetLimits, ClientIdentity } from '../story-ui.config.js';
+import { loadUserConfig } from './configLoader.js';
+import { getUsageLedger, summarizeUsage, toUsageDay, UsageRecord, UsageTotals } from './usageLedger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'usd' | 'tokens';
+
+export interface ResolvedBudgets {
+  global: BudgetLimits;
+  perClient: BudgetLimits;
+  clients: Record<string, BudgetLimits>;
+  requireClient: boolean;
+  clientIdentity: ClientIdentity;
+}
+
+/** One limit compared against the spend it covers */
+export interface BudgetCheck {
+  scope: 'global' | 'client';
+  /** Set for client-scoped checks */
+  client?: string;
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  exceeded: boolean;
+  /** When the period rolls over (ISO timestamp, UTC) */
+  resetsAt: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const LIMIT_KEYS: Array<{ key: keyof BudgetLimits; period: BudgetPeriod; metric: BudgetMetric }> = [
+  { key: 'dailyUsd', period: 'daily', metric: 'usd' },
+  { key: 'monthlyUsd', period: 'monthly', metric: 'usd' },
+  { key: 'dailyTokens', period: 'daily', metric: 'tokens' },
+  { key: 'monthlyTokens', period: 'monthly', metric: 'tokens' },
+];
+
+const ENV_SUFFIXES: Record<keyof BudgetLimits, string> = {
+  dailyUsd: 'DAILY_USD',
+  monthlyUsd: 'MONTHLY_USD',
+  dailyTokens: 'DAILY_TOKENS',
+  monthlyTokens: 'MONTHLY_TOKENS',
+};
+
+// ── Errors ─────────────────────────────────────────────────────────────────
+
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED';
+
+  constructor(readonly check: BudgetCheck) {
+    super(describeBudgetCheck(check));
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class BudgetClientRequiredError extends Error {
+  readonly code = 'CLIENT_REQUIRED';
+
+  constructor() {
+    super('This server requires requests to identify their API client with the X-Story-UI-Client header');
+    this.name = 'BudgetClientRequiredError';
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Merge config budgets with STORY_UI_BUDGET_* (global),
+ * STORY_UI_BUDGET_CLIENT_* (default per-client) and
+ * STORY_UI_BUDGET_CLIENT_IDENTITY environment overrides
+ */
+export function resolveBudgets(config?: BudgetConfig, env: NodeJS.ProcessEnv = process.env): ResolvedBudgets {
+  const envLimits = (prefix: string, base: BudgetLimits = {}): BudgetLimits => {
+    const limits: BudgetLimits = { ...base };
+    for (const { key } of LIMIT_KEYS) {
+      const raw = env[`${prefix}${ENV_SUFFIXES[key]}`];
+      const parsed = raw !== undefined && raw !== '' ? parseFloat(raw) : NaN;
+      if (Number.isFinite(parsed) && parsed >= 0) limits[key] = parsed;
+    }
+    return limits;
+  };
+
+  const { perClient, clients, requireClient, clientIdentity, ...global } = config ?? {};
+  const envRequire = env.STORY_UI_BUDGET_REQUIRE_CLIENT;
+  const envIdentity = env.STORY_UI_BUDGET_CLIENT_IDENTITY?.toLowerCase();
+
+  return {
+    global: envLimits('STORY_UI_BUDGET_', global),
+    perClient: envLimits('STORY_UI_BUDGET_CLIENT_', perClient),
+    clients: clients ?? {},
+    requireClient: envRequire !== undefined
+      ? ['true', '1', 'on'].includes(envRequire.toLowerCase())
+      : !!requireClient,
+    clientIdentity: envIdentity === 'ip' || envIdentity === 'header'
+      ? envIdentity
+      : clientIdentity ?? 'header',
+  };
+}
+
+function hasLimits(limits: BudgetLimits): boolean {
+  return LIMIT_KEYS.some(({ key }) => limits[key] !== undefined);
+}
+
+function periodBounds(now: Date): Record<BudgetPeriod, { from: string; resetsAt: string }> {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  return {
+    daily: { from: toUsageDay(now), resetsAt: new Date(Date.UTC(year, month, day + 1)).toISOString() },
+    monthly: { from: toUsageDay(new Date(Date.UTC(year, month, 1))), resetsAt: new Date(Date.UTC(year, month + 1, 1)).toISOString() },
+  };
+}
+
+function usedAmount(totals: UsageTotals | undefined, metric: BudgetMetric): number {
+  if (!totals) return 0;
+  return metric === 'usd' ? totals.costUsd : totals.inputTokens + totals.outputTokens;
+}
+
+/**
+ * Compare every configured limit that applies to `client` against the spend in
+ * `records`. A check is exceeded once spend reaches the limit, so a limit of 0
+ * blocks all calls.
+ */
+export function evaluateBudgets(
+  records: UsageRecord[],
+  budgets: ResolvedBudgets,
+  client?: string,
+  now: Date = new Date()
+): BudgetCheck[] {
+  const bounds = periodBounds(now);
+  const checks: BudgetCheck[] = [];
+
+  const evaluate = (scope: BudgetCheck['scope'], limits: BudgetLimits) => {
+    if (!hasLimits(limits)) return;
+    const summary = summarizeUsage(records, {
+      from: bounds.monthly.from,
+      client: scope === 'client' ? client : undefined,
+    });
+    const periodTotals: Record<BudgetPeriod, UsageTotals | undefined> = {
+      daily: summary.byDay[bounds.daily.from],
+      monthly: summary.totals,
+    };
+
+    for (const { key, period, metric } of LIMIT_KEYS) {
+      const limit = limits[key];
+      if (limit === undefined) continue;
+      const used = usedAmount(periodTotals[period], metric);
+      checks.push({
+        scope,
+        client: scope === 'client' ? client : undefined,
+        period,
+        metric,
+        limit,
+        used,
+        exceeded: used >= limit,
+        resetsAt: bounds[period].resetsAt,
+      });
+    }
+  };
+
+  evaluate('global', budgets.global);
+  if (client) {
+    evaluate('client', budgets.clients[client] ?? budgets.perClient);
+  }
+  return checks;
+}
+
+/** Human-readable summary of a check, e.g. for error messages */
+export function describeBudgetCheck(check: BudgetCheck): string {
+  const format = (value: number) =>
+    check.metric === 'usd' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString('en-US')} tokens`;
+  const owner = check.scope === 'client' ? `API client "${check.client}"` : 'this server';
+  return `The ${check.period} budget of ${format(check.limit)} for ${owner} has been reached ` +
+    `(${format(check.used)} used). It resets at ${check.resetsAt}.`;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Current budget checks for a client, using the configured budgets and the
+ * shared usage ledger
+ */
+export function getBudgetChecks(client?: string): BudgetCheck[] {
+  const budgets = resolveBudgets(loadUserConfig().budgets);
+  return evaluateBudgets(getUsageLedger().getRecords(), budgets, client);
+}
+
+/**
+ * Throw BudgetExceededError when the global or client budget is used up.
+ * Called before every uncached LLM call.
+ */
+export function assertWithinBudget(client?: string): void {
+  const exceeded = getBudgetChecks(client).find(check => check.exceeded);
+  if (exceeded) {
+    throw new BudgetExceededError(exceeded);
+  }
+}
+
+/**
+ * Request-level gate for generation routes: enforces `requireClient` and the
+ * budgets before any work is done for the request
+ */
+export function assertRequestWithinBudget(client?: string): void {
+  if (!client && resolveBudgets(loadUserConfig().budgets).requireClient) {
+    throw new BudgetClientRequiredError();
+  }
+  assertWithinBudget(client);
+}
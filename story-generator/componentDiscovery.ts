@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { ComponentConfig, StoryUIConfig } from '../story-ui.config.js';
+import { discoverCustomElements } from './customElementsDiscovery.js';
 
 /**
  * Rich prop type information extracted from argTypes
@@ -14,6 +15,27 @@ export interface PropInfo {
   required?: boolean;       // From TypeScript types or explicit marking
   defaultValue?: unknown;   // From argTypes defaultValue
   control?: string;         // Original control type from argTypes
+  attribute?: string;       // HTML attribute that sets the prop (web components)
+  reflects?: boolean;       // Prop changes are written back to the attribute (web components)
+}
+
+/**
+ * An event a component emits (Vue emits, Angular outputs, DOM events)
+ */
+export interface EventInfo {
+  name: string;
+  payload?: string;         // Payload as declared in source (e.g., "id: number")
+  description?: string;
+}
+
+/**
+ * A styling hook a web component exposes: a CSS shadow part or a CSS custom property
+ */
+export interface StyleHookInfo {
+  name: string;             // Part name, or custom property name including the leading --
+  description?: string;
+  syntax?: string;          // Accepted values of a custom property (e.g., "<length>")
+  defaultValue?: string;
 }
 
 export interface DiscoveredComponent {
@@ -21,9 +43,16 @@ export interface DiscoveredComponent {
   filePath: string;
   props: string[];                // Prop names (backward compatible)
   propTypes?: PropInfo[];         // Rich type information (new)
+  propsComplete?: boolean;        // Props were read by the TypeScript compiler or a custom elements manifest, so none are missing
   description: string;
   category: 'layout' | 'content' | 'form' | 'navigation' | 'feedback' | 'other';
   slots?: string[];
+  events?: EventInfo[];
+  selector?: string;              // Element selector (Angular) or tag name (web components)
+  standalone?: boolean;           // Standalone vs declared in an NgModule (Angular)
+  ngModule?: string;              // The NgModule that declares the component (Angular)
+  cssParts?: StyleHookInfo[];     // CSS shadow parts (web components)
+  cssProperties?: StyleHookInfo[]; // CSS custom properties (web components)
   examples?: string[];
   __componentPath?: string;
 }
@@ -108,35 +137,23 @@ export function discoverComponentsFromCustomElements(
   }
 
   try {
-    const customElements = JSON.parse(fs.readFileSync(customElementsPath, 'utf-8'));
-    const components: DiscoveredComponent[] = [];
-
-    if (customElements.modules) {
-      for (const module of customElements.modules) {
-        if (module.declarations) {
-          for (const declaration of module.declarations) {
-            if (declaration.kind === 'class' && declaration.customElement) {
-              const componentName = componentPrefix + declaration.name;
-              const props = declaration.members
-                ?.filter((m: any) => m.kind === 'field' && m.privacy !== 'private')
-                ?.map((m: any) => m.name) || [];
-
-              components.push({
-                name: componentName,
-                filePath: module.path || '',
-                props,
-                description: declaration.description || `${componentName} component`,
-                category: categorizeComponent(componentName, declaration.description || ''),
-                slots: declaration.slots?.map((s: any) => s.name) || [],
-                examples: []
-              });
-            }
-          }
-        }
-      }
-    }
-
-    return components;
+    return discoverCustomElements(customElementsPath).map(element => {
+      const componentName = componentPrefix + element.name;
+      return {
+        name: componentName,
+        filePath: element.modulePath,
+        props: element.props.map(prop => prop.name),
+        propTypes: element.props,
+        description: element.description || `${componentName} component`,
+        category: categorizeComponent(componentName, element.description || ''),
+        slots: element.slots,
+        events: element.events,
+        selector: element.tagName,
+        cssParts: element.cssParts,
+        cssProperties: element.cssProperties,
+        examples: []
+      };
+    });
   } catch (error) {
     console.error('Error parsing custom-elements.json:', error);
     return [];
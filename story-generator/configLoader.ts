@@ -116,6 +116,12 @@ function normalizeConfigPaths(config: StoryUIConfig, configFileDir: string): Sto
   if (config.considerationsPath) {
     config.considerationsPath = resolvePath(config.considerationsPath);
   }
+  if (config.customRules?.modules) {
+    config.customRules = {
+      ...config.customRules,
+      modules: config.customRules.modules.map(modulePath => resolvePath(modulePath)!),
+    };
+  }
 
   return config;
 }
@@ -0,0 +1,279 @@
+/**
+ * Custom Elements Manifest Discovery
+ *
+ * Reads the public API of web components from a custom-elements.json
+ * manifest (https://github.com/webcomponents/custom-elements-manifest):
+ * - Props: public fields, linked to the attribute that sets them (and whether
+ *   the attribute reflects), plus attributes that have no backing field
+ * - Events: dispatched events, with the `detail` type of `CustomEvent<T>`
+ * - Slots: named slots; the unnamed default slot is 'default'
+ * - Styling hooks: CSS shadow parts and CSS custom properties
+ *
+ * Manifest analyzers already flatten inherited members onto each class, so
+ * declarations are read as written.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { EventInfo, PropInfo, StyleHookInfo } from './componentDiscovery.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CustomElementComponent {
+  /** Class name of the declaration */
+  name: string;
+  /** Missing on abstract base classes that are never registered */
+  tagName?: string;
+  /** Module path as recorded in the manifest */
+  modulePath: string;
+  /** The declaration's summary, or its description */
+  description?: string;
+  props: PropInfo[];
+  events: EventInfo[];
+  /** Named slots; the unnamed default slot is 'default' */
+  slots: string[];
+  cssParts: StyleHookInfo[];
+  cssProperties: StyleHookInfo[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Where packages commonly ship their manifest, after package.json#customElements */
+const MANIFEST_LOCATIONS = [
+  'custom-elements.json',
+  'dist/custom-elements.json',
+  'cdn/custom-elements.json',
+  'lib/custom-elements.json',
+  'build/custom-elements.json',
+];
+
+const CUSTOM_EVENT = /^CustomEvent\s*<([\s\S]+)>$/;
+const PLAIN_EVENT = /^(?:Custom)?Event$/;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Split a union type on its top-level `|`, leaving generics, object
+ * literals and quoted strings intact
+ */
+function splitUnion(typeText: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  for (const char of typeText) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('<({['.includes(char)) {
+      depth++;
+    } else if ('>)}]'.includes(char)) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+/** `'primary'` → `primary`, `2` → `2`, anything else → undefined */
+function literalOption(part: string): string | undefined {
+  const quoted = /^(['"`])(.*)\1$/.exec(part);
+  if (quoted) return quoted[2];
+  return /^-?\d+(?:\.\d+)?$/.test(part) ? part : undefined;
+}
+
+/**
+ * Map a manifest `type.text` onto a control type. Manifests carry types as
+ * source text, so this reads the common shapes rather than resolving them.
+ */
+function describeTypeText(typeText: string | undefined): Pick<PropInfo, 'type' | 'options'> {
+  const parts = splitUnion(typeText ?? '').filter(part => part !== 'undefined' && part !== 'null');
+  if (parts.length === 0) {
+    return { type: 'unknown' };
+  }
+
+  const options = parts.map(literalOption);
+  if (options.every(option => option !== undefined)) {
+    return { type: 'select', options: options as string[] };
+  }
+  if (parts.length > 1) {
+    return { type: parts.every(part => part === 'true' || part === 'false' || part === 'boolean') ? 'boolean' : 'unknown' };
+  }
+
+  const [part] = parts;
+  if (part === 'boolean' || part === 'number' || part === 'string') return { type: part };
+  if (/\[\]$|^(?:ReadonlyArray|Array)\s*</.test(part)) return { type: 'array' };
+  if (/=>/.test(part)) return { type: 'function' };
+  if (/^[{A-Z]/.test(part)) return { type: 'object' };
+  return { type: 'unknown' };
+}
+
+/** Manifest defaults are source text: keep the ones that are plain literals */
+function literalDefault(value: unknown): unknown {
+  const source = text(value);
+  if (source === undefined) return undefined;
+  const quoted = /^(['"`])(.*)\1$/.exec(source);
+  if (quoted) return quoted[2];
+  if (source === 'true' || source === 'false') return source === 'true';
+  return /^-?\d+(?:\.\d+)?$/.test(source) ? Number(source) : undefined;
+}
+
+function toProp(name: string, typeText: string | undefined, defaultText: unknown, description: string | undefined): PropInfo {
+  const defaultValue = literalDefault(defaultText);
+  return {
+    name,
+    ...describeTypeText(typeText),
+    ...(description ? { description } : {}),
+    ...(defaultValue !== undefined ? { defaultValue } : {}),
+  };
+}
+
+/**
+ * Public fields first, each linked to the attribute that sets it, then
+ * attributes with no backing field
+ */
+function readProps(declaration: any): PropInfo[] {
+  const attributes: any[] = Array.isArray(declaration.attributes) ? declaration.attributes : [];
+  const props: PropInfo[] = [];
+  const linked = new Set<string>();
+
+  for (const member of Array.isArray(declaration.members) ? declaration.members : []) {
+    if (member?.kind !== 'field' || !text(member.name) || member.static || member.readonly || member.deprecated) continue;
+    if (member.privacy === 'private' || member.privacy === 'protected' || member.name.startsWith('#')) continue;
+
+    const attribute = attributes.find(attr => attr?.fieldName === member.name);
+    const attributeName = text(member.attribute) ?? text(attribute?.name);
+    if (attributeName) linked.add(attributeName);
+
+    const prop = toProp(
+      member.name,
+      text(member.type?.text) ?? text(attribute?.type?.text),
+      member.default ?? attribute?.default,
+      text(member.summary) ?? text(member.description) ?? text(attribute?.description),
+    );
+    if (attributeName) prop.attribute = attributeName;
+    if (member.reflects) prop.reflects = true;
+    props.push(prop);
+  }
+
+  for (const attribute of attributes) {
+    const name = text(attribute?.name);
+    if (!name || linked.has(name) || attribute.deprecated) continue;
+    const prop = toProp(name, text(attribute.type?.text), attribute.default, text(attribute.summary) ?? text(attribute.description));
+    prop.attribute = name;
+    props.push(prop);
+  }
+
+  return props;
+}
+
+function readEvents(declaration: any): EventInfo[] {
+  const events = new Map<string, EventInfo>();
+  for (const event of Array.isArray(declaration.events) ? declaration.events : []) {
+    const name = text(event?.name);
+    if (!name || events.has(name) || event.deprecated) continue;
+
+    // Listeners receive `event.detail`, so name the detail type rather than the event class
+    const typeText = text(event.type?.text);
+    const payload = typeText && (CUSTOM_EVENT.exec(typeText)?.[1].trim() ?? (PLAIN_EVENT.test(typeText) ? undefined : typeText));
+    const description = text(event.summary) ?? text(event.description);
+    events.set(name, {
+      name,
+      ...(payload ? { payload } : {}),
+      ...(description ? { description } : {}),
+    });
+  }
+  return Array.from(events.values());
+}
+
+function readStyleHooks(entries: unknown): StyleHookInfo[] {
+  const hooks: StyleHookInfo[] = [];
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const name = text(entry?.name);
+    if (!name || entry.deprecated) continue;
+    const description = text(entry.summary) ?? text(entry.description);
+    const syntax = text(entry.syntax);
+    const defaultValue = text(entry.default);
+    hooks.push({
+      name,
+      ...(description ? { description } : {}),
+      ...(syntax ? { syntax } : {}),
+      ...(defaultValue ? { defaultValue } : {}),
+    });
+  }
+  return hooks;
+}
+
+function readDeclaration(declaration: any, modulePath: string): CustomElementComponent {
+  const slots: string[] = Array.isArray(declaration.slots)
+    ? declaration.slots.map((slot: any) => text(slot?.name) ?? 'default')
+    : [];
+  const tagName = text(declaration.tagName);
+  const description = text(declaration.summary) ?? text(declaration.description);
+
+  return {
+    name: declaration.name,
+    ...(tagName ? { tagName } : {}),
+    modulePath,
+    ...(description ? { description } : {}),
+    props: readProps(declaration),
+    events: readEvents(declaration),
+    slots: Array.from(new Set(slots)),
+    cssParts: readStyleHooks(declaration.cssParts),
+    cssProperties: readStyleHooks(declaration.cssProperties),
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Locate a package's custom-elements.json: the `customElements` field of its
+ * package.json, then the usual build output folders
+ */
+export function findCustomElementsManifest(packagePath: string): string | undefined {
+  const candidates = [...MANIFEST_LOCATIONS];
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(packagePath, 'package.json'), 'utf-8'));
+    if (typeof packageJson.customElements === 'string') {
+      candidates.unshift(packageJson.customElements);
+    }
+  } catch {
+    // No readable package.json: fall back to the usual locations
+  }
+
+  return candidates
+    .map(candidate => path.join(packagePath, candidate))
+    .find(candidate => fs.existsSync(candidate));
+}
+
+/**
+ * Read every custom element declared in a custom-elements.json manifest.
+ * Throws when the manifest cannot be read or parsed.
+ */
+export function discoverCustomElements(manifestPath: string): CustomElementComponent[] {
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  const components: CustomElementComponent[] = [];
+
+  for (const module of Array.isArray(manifest?.modules) ? manifest.modules : []) {
+    for (const declaration of Array.isArray(module?.declarations) ? module.declarations : []) {
+      // Older manifests mark elements with tagName only, newer ones with customElement too
+      if (declaration?.kind !== 'class' || !text(declaration.name) || !(declaration.customElement || declaration.tagName)) {
+        continue;
+      }
+      components.push(readDeclaration(declaration, text(module.path) ?? ''));
+    }
+  }
+
+  return components;
+}
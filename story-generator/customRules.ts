@@ -0,0 +1,241 @@
+/**
+ * Custom Validation Rules
+ *
+ * Lets teams enforce house rules (wrap pages in AppShell, no Box nesting
+ * deeper than 3, no deprecated Grid props) as code instead of prose in the
+ * considerations file. Rule modules are listed in `customRules.modules` of
+ * story-ui.config.js; each exports rules that receive the parsed story, the
+ * discovered components and the config, and return findings with fix hints.
+ *
+ * Rules run inside validateStoryCode. Error findings are sent back to the
+ * model by the self-healing loop; warnings are only reported.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as ts from 'typescript';
+import { createRequire } from 'module';
+import type { StoryUIConfig } from '../story-ui.config.js';
+import type { DiscoveredComponent } from './componentDiscovery.js';
+import type { ValidationError } from './storyValidator.js';
+import type { DiagnosticFix } from './diagnostics.js';
+import { lineAt } from './templateMarkup.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type CustomRuleSeverity = 'error' | 'warning';
+
+export interface CustomRuleContext {
+  /** Story source; for .svelte stories this is the whole file */
+  code: string;
+  fileName: string;
+  framework: string;
+  /** TypeScript AST of the story (undefined for .svelte stories) */
+  sourceFile?: ts.SourceFile;
+  /** The TypeScript API, so rule modules don't need their own copy */
+  ts: typeof ts;
+  components: DiscoveredComponent[];
+  config: StoryUIConfig;
+  /** 1-based line of an AST node or a character offset */
+  lineOf(target: ts.Node | number): number;
+}
+
+export interface CustomRuleResult {
+  message: string;
+  /** 1-based story line (default: 1) */
+  line?: number;
+  /** Overrides the rule's severity for this finding */
+  severity?: CustomRuleSeverity;
+  /** 1-based column */
+  column?: number;
+  /** How to fix it, sent to the model with the error; a DiagnosticFix can carry machine-applicable edits */
+  fix?: string | DiagnosticFix;
+}
+
+export interface CustomValidationRule {
+  /** Unique name, used in messages and `customRules.severity` */
+  name: string;
+  /** One-line statement of the rule, added to the generation prompt */
+  description?: string;
+  /** Default: 'error' */
+  severity?: CustomRuleSeverity;
+  /** Frameworks the rule applies to (default: all) */
+  frameworks?: string[];
+  check(context: CustomRuleContext): CustomRuleResult[] | CustomRuleResult | void;
+}
+
+export interface CustomRuleFinding extends ValidationError {
+  rule: string;
+  severity: CustomRuleSeverity;
+}
+
+// ── State ──────────────────────────────────────────────────────────────────
+
+/** Loaded rule modules by path, reloaded when the file changes */
+const moduleCache = new Map<string, { mtimeMs: number; rules: CustomValidationRule[] }>();
+
+/** Modules that failed to load, so the warning is logged once per change */
+const failedModules = new Map<string, number>();
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function isRule(value: unknown): value is CustomValidationRule {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as CustomValidationRule).name === 'string' &&
+    typeof (value as CustomValidationRule).check === 'function';
+}
+
+/**
+ * Accepts `module.exports = [rule]`, `module.exports = rule`,
+ * `module.exports = { rules: [...] }` and the same shapes on `default`
+ */
+function rulesFromExports(exported: unknown): CustomValidationRule[] {
+  const value = (exported as { default?: unknown } | null | undefined)?.default ?? exported;
+  const rules = (value as { rules?: unknown } | null | undefined)?.rules;
+  const candidates: unknown[] = Array.isArray(value) ? value : Array.isArray(rules) ? rules : [value];
+  return candidates.filter(isRule);
+}
+
+/**
+ * Rule modules are loaded with require(), which can't load ES modules on
+ * older Node versions, nor ES modules with top-level await on any
+ */
+function isEsModuleError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'ERR_REQUIRE_ESM' || code === 'ERR_REQUIRE_ASYNC_MODULE';
+}
+
+function loadRuleModule(modulePath: string): CustomValidationRule[] {
+  const resolved = path.resolve(modulePath);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolved).mtimeMs;
+  } catch {
+    if (failedModules.get(resolved) !== -1) {
+      logger.warn(`Custom rule module not found: ${resolved}`);
+      failedModules.set(resolved, -1);
+    }
+    return [];
+  }
+
+  const cached = moduleCache.get(resolved);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.rules;
+  if (failedModules.get(resolved) === mtimeMs) return [];
+
+  try {
+    const require = createRequire(resolved);
+    delete require.cache[resolved];
+    const rules = rulesFromExports(require(resolved));
+    if (rules.length === 0) {
+      logger.warn(`Custom rule module ${resolved} exports no rules (expected objects with name and check)`);
+    }
+    moduleCache.set(resolved, { mtimeMs, rules });
+    failedModules.delete(resolved);
+    return rules;
+  } catch (error) {
+    if (isEsModuleError(error)) {
+      logger.warn(`Custom rule module ${resolved} is an ES module that require() can't load; export the rules with module.exports from a .cjs file`);
+    } else {
+      logger.warn(`Failed to load custom rule module ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    failedModules.set(resolved, mtimeMs);
+    return [];
+  }
+}
+
+function createContext(
+  code: string,
+  fileName: string,
+  config: StoryUIConfig,
+  components: DiscoveredComponent[]
+): CustomRuleContext {
+  const framework = config.componentFramework || 'react';
+  const sourceFile = fileName.endsWith('.svelte')
+    ? undefined
+    : ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, /x$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+
+  return {
+    code,
+    fileName,
+    framework,
+    sourceFile,
+    ts,
+    components,
+    config,
+    lineOf: target => {
+      const position = typeof target === 'number' ? target : target.getStart(sourceFile);
+      return lineAt(code, position);
+    },
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * The rules configured in `customRules.modules`, minus those turned 'off'
+ */
+export function loadCustomRules(config: StoryUIConfig | undefined): CustomValidationRule[] {
+  const settings = config?.customRules;
+  if (!settings?.modules?.length) return [];
+  return settings.modules
+    .flatMap(loadRuleModule)
+    .filter(rule => settings.severity?.[rule.name] !== 'off');
+}
+
+/**
+ * Run the configured custom rules against a story. A rule that throws is
+ * skipped (and logged) rather than failing validation.
+ */
+export function runCustomRules(
+  code: string,
+  fileName: string,
+  config: StoryUIConfig | undefined,
+  components: DiscoveredComponent[] = []
+): CustomRuleFinding[] {
+  const rules = loadCustomRules(config);
+  if (!config || rules.length === 0) return [];
+
+  const context = createContext(code, fileName, config, components);
+  const findings: CustomRuleFinding[] = [];
+
+  for (const rule of rules) {
+    if (rule.frameworks && !rule.frameworks.includes(context.framework)) continue;
+
+    let results: CustomRuleResult[];
+    try {
+      const returned = rule.check(context);
+      results = !returned ? [] : Array.isArray(returned) ? returned : [returned];
+    } catch (error) {
+      logger.warn(`Custom rule "${rule.name}" failed: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const configured = config.customRules?.severity?.[rule.name];
+    for (const result of results) {
+      if (!result?.message) continue;
+      const severity = configured && configured !== 'off' ? configured : result.severity ?? rule.severity ?? 'error';
+      findings.push({
+        rule: rule.name,
+        severity,
+        line: result.line ?? 1,
+        column: result.column,
+        message: `${result.message} (${rule.name})`,
+        fix: typeof result.fix === 'string' ? { description: result.fix } : result.fix,
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Prompt lines stating the configured rules that have a description
+ */
+export function getCustomRulePromptRules(config: StoryUIConfig | undefined): string[] {
+  const framework = config?.componentFramework || 'react';
+  const described = loadCustomRules(config)
+    .filter(rule => rule.description && (!rule.frameworks || rule.frameworks.includes(framework)));
+  if (described.length === 0) return [];
+  return ['', 'PROJECT RULES:', ...described.map(rule => `- ${rule.description}`)];
+}
@@ -0,0 +1,511 @@
+/**
+ * Design Guidelines Validator
+ *
+ * Enforces `designSystemGuidelines.enforcementRules` and `prohibitedPatterns`
+ * on generated stories: hard-coded colors and px spacing where tokens are
+ * required, arbitrary values, prohibited class names and CSS frameworks,
+ * inline styles, and raw HTML elements where the library has a component.
+ * Covers JSX, `sx` props and template markup (Vue templates, Lit html``,
+ * Svelte markup). Each violation carries a rule id and a severity.
+ */
+
+import * as ts from 'typescript';
+import type { DesignSystemGuidelines, GuidelineRule, GuidelineSeverity } from '../story-ui.config.js';
+import type { ValidationError } from './storyValidator.js';
+import { TEMPLATE_ATTRIBUTE, TEMPLATE_ATTRIBUTE_VALUE, lineAt } from './templateMarkup.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface GuidelineViolation extends ValidationError {
+  rule: GuidelineRule;
+  severity: GuidelineSeverity;
+  /** Token or component to use instead, when one can be suggested */
+  suggestion?: string;
+}
+
+interface StyleDeclaration {
+  property: string;
+  value: string;
+  /** Unitless number; React reads these as px in `style` */
+  numeric: boolean;
+  /** `sx` values are theme-aware, so bare numbers there are spacing multipliers */
+  source: 'style' | 'sx';
+}
+
+interface GuidelineElement {
+  tag: string;
+  line: number;
+  /** Literal attribute values; undefined for expressions */
+  attributes: Map<string, string | undefined>;
+  /** Class names, including string literals inside cn()/clsx() expressions */
+  classes: string[];
+  styles: StyleDeclaration[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_SEVERITY: Record<GuidelineRule, GuidelineSeverity> = {
+  'color-token': 'error',
+  'spacing-token': 'warning',
+  'arbitrary-value': 'error',
+  'prohibited-class': 'error',
+  'prohibited-css-framework': 'error',
+  'inline-style': 'warning',
+  'component-library': 'warning',
+};
+
+const COLOR_LITERAL = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|\b(?:rgba?|hsla?)\([^)]*\)/i;
+const COLOR_VALUE = new RegExp(`^\\s*(?:${COLOR_LITERAL.source})\\s*$`, 'i');
+const NAMED_COLOR = /^(?:white|black|red|green|blue|gray|grey|silver|yellow|orange|purple|pink|navy|teal|maroon|olive|lime|aqua|fuchsia|brown|gold|indigo|violet|crimson|coral|salmon|tomato|lightgray|lightgrey|darkgray|darkgrey|whitesmoke)$/i;
+const COLOR_PROPERTIES = /^(color|background|backgroundcolor|bg|bgcolor|bordercolor|outlinecolor|fill|stroke|c)$/;
+
+/** Attributes whose values can look like hex colors (#add, #fab) */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'id', 'for', 'htmlFor', 'to', 'action', 'xlinkHref']);
+
+const LENGTH = /(-?\d*\.?\d+)(px|rem|em)\b/g;
+const SPACING_PROPERTIES = /^(margin|padding)(top|right|bottom|left|block|inline|blockstart|blockend|inlinestart|inlineend|x|y)?$|^(gap|rowgap|columngap|top|right|bottom|left|inset|m|mt|mr|mb|ml|mx|my|p|pt|pr|pb|pl|px|py)$/;
+const SIZE_PROPERTIES = /^(width|height|minwidth|maxwidth|minheight|maxheight|fontsize|borderradius|borderwidth|lineheight|letterspacing|flexbasis|outlinewidth)$/;
+
+/** Tailwind arbitrary value classes: w-[37px], bg-[#fff], hover:p-[3px] */
+const ARBITRARY_CLASS = /^(?:[\w-]+:)*!?-?[\w-]+-\[[^\]]+\]$/;
+
+/** Class signatures and import names of CSS frameworks that can be prohibited */
+const CSS_FRAMEWORKS: Record<string, { name: string; classes: RegExp }> = {
+  tailwind: {
+    name: 'Tailwind CSS',
+    classes: /^(?:[\w-]+:)*-?(?:(?:p|px|py|pt|pr|pb|pl|m|mx|my|mt|mr|mb|ml|gap|gap-x|gap-y|space-x|space-y|w|h|min-w|min-h|max-w|max-h|inset|top|right|bottom|left)-(?:\d+(?:\.5)?|px|full|screen|auto|\[.+\])|(?:bg|text|border|ring|fill|stroke|from|to|via)-(?:[a-z]+-\d{2,3}|white|black|transparent|\[.+\])|text-(?:xs|sm|base|lg|[2-9]?xl)|font-(?:thin|light|normal|medium|semibold|bold|extrabold)|rounded(?:-[a-z0-9]+)?|shadow(?:-[a-z]+)?|inline-flex|grid-cols-\d+|items-(?:start|center|end|stretch)|justify-(?:start|center|end|between|around))$/,
+  },
+  bootstrap: {
+    name: 'Bootstrap',
+    classes: /^(?:btn(?:-[a-z-]+)?|col-(?:sm|md|lg|xl|xxl|\d+)(?:-\d+)?|container-fluid|d-(?:none|block|flex|inline-flex|grid)|[mp][trblxy]?-[0-5]|justify-content-\w+|align-items-\w+|form-(?:control|label|select|check)|card-(?:body|title|text|header|footer)|text-(?:muted|center)|bg-(?:primary|secondary|light|dark))$/,
+  },
+};
+
+/** Raw HTML elements and the component names a library might provide for them */
+const LIBRARY_EQUIVALENTS: Record<string, string[]> = {
+  button: ['Button'],
+  a: ['Link', 'Anchor'],
+  select: ['Select', 'NativeSelect'],
+  textarea: ['Textarea', 'TextArea'],
+  h1: ['Heading', 'Title', 'Typography'],
+  h2: ['Heading', 'Title', 'Typography'],
+  h3: ['Heading', 'Title', 'Typography'],
+  h4: ['Heading', 'Title', 'Typography'],
+  h5: ['Heading', 'Title', 'Typography'],
+  h6: ['Heading', 'Title', 'Typography'],
+  p: ['Text', 'Typography', 'Paragraph'],
+  label: ['Label'],
+  table: ['Table'],
+  img: ['Image'],
+  hr: ['Divider', 'Separator'],
+  ul: ['List'],
+  ol: ['List'],
+  dialog: ['Dialog', 'Modal'],
+};
+
+const INPUT_EQUIVALENTS: Record<string, string[]> = {
+  checkbox: ['Checkbox'],
+  radio: ['Radio'],
+  range: ['Slider'],
+  text: ['Input', 'TextInput', 'TextField'],
+};
+
+const TEMPLATE_TAG = new RegExp(String.raw`<([A-Za-z][\w.:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:${TEMPLATE_ATTRIBUTE_VALUE}))?)*)\s*\/?>`, 'g');
+
+const MAX_LISTED = 6;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function normalizeProperty(property: string): string {
+  return property.replace(/[-_]/g, '').toLowerCase();
+}
+
+function parseStyleString(style: string, source: StyleDeclaration['source'] = 'style'): StyleDeclaration[] {
+  return style.split(';').flatMap(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) return [];
+    return [{ property: declaration.slice(0, colon).trim(), value: declaration.slice(colon + 1).trim(), numeric: false, source }];
+  }).filter(declaration => declaration.property && declaration.value);
+}
+
+function splitClasses(value: string): string[] {
+  return value.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * `var(--color-primary)` for CSS custom property prefixes; otherwise the
+ * prefix and name joined with '-' unless the prefix already ends in a separator
+ */
+function tokenReference(prefix: string, name: string): string {
+  if (prefix.startsWith('--')) return `var(${prefix.replace(/-$/, '')}-${name})`;
+  return /[-_.]$/.test(prefix) ? `${prefix}${name}` : `${prefix}-${name}`;
+}
+
+function listTokens(prefix: string, names: string[]): string {
+  const listed = names.slice(0, MAX_LISTED).map(name => tokenReference(prefix, name));
+  return listed.join(', ') + (names.length > MAX_LISTED ? ', ...' : '');
+}
+
+function suggestColor(guidelines: DesignSystemGuidelines): string | undefined {
+  const tokens = guidelines.colorTokens;
+  return tokens?.categories?.length ? listTokens(tokens.prefix, tokens.categories) : undefined;
+}
+
+/** Nearest token for numeric token scales; otherwise the scale itself */
+function suggestSpacing(px: number, guidelines: DesignSystemGuidelines): string | undefined {
+  const tokens = guidelines.spacingTokens;
+  if (!tokens?.values?.length) return undefined;
+  if (tokens.values.every(value => /^\d+(\.\d+)?$/.test(value))) {
+    const nearest = tokens.values.reduce((best, value) =>
+      Math.abs(Number(value) - px) < Math.abs(Number(best) - px) ? value : best
+    );
+    return tokenReference(tokens.prefix, nearest);
+  }
+  return listTokens(tokens.prefix, tokens.values);
+}
+
+function toPx(value: number, unit: string): number {
+  return unit === 'px' ? value : value * 16;
+}
+
+// ── Element collection ─────────────────────────────────────────────────────
+
+function propertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  return ts.isIdentifier(name) || ts.isStringLiteralLike(name) ? name.text : name.getText(sourceFile);
+}
+
+function collectStyleObject(
+  object: ts.ObjectLiteralExpression,
+  source: StyleDeclaration['source'],
+  sourceFile: ts.SourceFile,
+  styles: StyleDeclaration[]
+): void {
+  for (const property of object.properties) {
+    if (!ts.isPropertyAssignment(property)) continue;
+    const name = propertyName(property.name, sourceFile);
+    const initializer = property.initializer;
+    if (ts.isStringLiteralLike(initializer)) {
+      styles.push({ property: name, value: initializer.text, numeric: false, source });
+    } else if (ts.isNumericLiteral(initializer)) {
+      styles.push({ property: name, value: initializer.text, numeric: true, source });
+    } else if (ts.isPrefixUnaryExpression(initializer) && ts.isNumericLiteral(initializer.operand)) {
+      styles.push({ property: name, value: `-${initializer.operand.text}`, numeric: true, source });
+    } else if (ts.isObjectLiteralExpression(initializer)) {
+      // sx selectors and breakpoints: { '&:hover': { color: '#fff' } }
+      collectStyleObject(initializer, source, sourceFile, styles);
+    }
+  }
+}
+
+function stringLiteralsIn(node: ts.Node): string[] {
+  const literals: string[] = [];
+  const visit = (child: ts.Node) => {
+    if (ts.isStringLiteralLike(child)) literals.push(child.text);
+    else if (ts.isTemplateExpression(child)) {
+      literals.push(child.head.text, ...child.templateSpans.map(span => span.literal.text));
+      child.templateSpans.forEach(span => visit(span.expression));
+    } else ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return literals;
+}
+
+function collectJsxElements(code: string, fileName: string): GuidelineElement[] {
+  const scriptKind = /\.(tsx|jsx)$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const elements: GuidelineElement[] = [];
+
+  const visitOpening = (node: ts.JsxOpeningElement | ts.JsxSelfClosingElement) => {
+    const element: GuidelineElement = {
+      tag: node.tagName.getText(sourceFile),
+      line: lineAt(code, node.getStart(sourceFile)),
+      attributes: new Map(),
+      classes: [],
+      styles: [],
+    };
+    for (const attribute of node.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(attribute)) continue;
+      const name = attribute.name.getText(sourceFile);
+      const initializer = attribute.initializer;
+      const expression = initializer && ts.isJsxExpression(initializer) ? initializer.expression : undefined;
+      let value: string | undefined;
+      if (!initializer) value = 'true';
+      else if (ts.isStringLiteral(initializer)) value = initializer.text;
+      else if (expression && (ts.isStringLiteralLike(expression) || ts.isNumericLiteral(expression))) value = expression.text;
+      element.attributes.set(name, value);
+
+      if (name === 'className' || name === 'class') {
+        element.classes.push(...(value !== undefined ? splitClasses(value) : expression ? stringLiteralsIn(expression).flatMap(splitClasses) : []));
+      } else if ((name === 'style' || name === 'sx') && expression && ts.isObjectLiteralExpression(expression)) {
+        collectStyleObject(expression, name, sourceFile, element.styles);
+      } else if (name === 'style' && value !== undefined) {
+        element.styles.push(...parseStyleString(value));
+      }
+    }
+    elements.push(element);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxSelfClosingElement(node)) {
+      visitOpening(node);
+    } else if (ts.isJsxOpeningElement(node)) {
+      visitOpening(node);
+    } else if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      const text = node.getText(sourceFile);
+      if (text.includes('<')) {
+        const baseLine = lineAt(code, node.getStart(sourceFile));
+        for (const element of collectTemplateElements(text)) {
+          elements.push({ ...element, line: baseLine + element.line - 1 });
+        }
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return elements;
+}
+
+/**
+ * Tokenize template markup into elements. Line numbers are relative to
+ * `markup`.
+ */
+function collectTemplateElements(markup: string): GuidelineElement[] {
+  const elements: GuidelineElement[] = [];
+  for (const match of markup.matchAll(TEMPLATE_TAG)) {
+    const [, tag, rawAttributes = ''] = match;
+    const element: GuidelineElement = { tag, line: lineAt(markup, match.index!), attributes: new Map(), classes: [], styles: [] };
+    for (const [, rawName, rawValue] of rawAttributes.matchAll(TEMPLATE_ATTRIBUTE)) {
+      // Bound attributes (:class, v-bind:class, .style, [class]) hold expressions
+      const bound = /^(:|v-bind:|\.|\[)/.test(rawName);
+      const name = rawName.replace(/^(:|v-bind:|\.|\[(attr\.)?)/, '').replace(/\]$/, '');
+      const unquoted = rawValue?.replace(/^["']|["']$/g, '');
+      const dynamic = bound || (unquoted !== undefined && (unquoted.includes('${') || /^\{.*\}$/s.test(unquoted)));
+      element.attributes.set(name, unquoted === undefined ? 'true' : dynamic ? undefined : unquoted);
+
+      if (name === 'class' || name === 'className') {
+        const literals = dynamic ? Array.from(unquoted?.matchAll(/'([^']*)'|"([^"]*)"/g) ?? [], m => m[1] ?? m[2]) : [unquoted ?? ''];
+        element.classes.push(...literals.flatMap(splitClasses));
+      } else if (name === 'style' && unquoted !== undefined && !dynamic) {
+        element.styles.push(...parseStyleString(unquoted));
+      }
+    }
+    elements.push(element);
+  }
+  return elements;
+}
+
+// ── Rules ──────────────────────────────────────────────────────────────────
+
+function checkElement(
+  element: GuidelineElement,
+  guidelines: DesignSystemGuidelines,
+  componentNames: Set<string>,
+  report: (rule: GuidelineRule, line: number, message: string, suggestion?: string) => void
+): void {
+  const rules = guidelines.enforcementRules ?? {};
+  const prohibited = guidelines.prohibitedPatterns ?? {};
+  const { line } = element;
+
+  // Design tokens: colors and spacing
+  if (rules.requireDesignTokens) {
+    for (const style of element.styles) {
+      const property = normalizeProperty(style.property);
+      const color = style.value.match(COLOR_LITERAL)?.[0] ?? (COLOR_PROPERTIES.test(property) && NAMED_COLOR.test(style.value.trim()) ? style.value.trim() : undefined);
+      if (color) {
+        const suggestion = suggestColor(guidelines);
+        report('color-token', line, `Hard-coded color ${color} in ${style.property}; use ${suggestion ? `a color token (${suggestion})` : 'a color token'}`, suggestion);
+        continue;
+      }
+      if (!SPACING_PROPERTIES.test(property)) continue;
+      const lengths = Array.from(style.value.matchAll(LENGTH)).map(m => toPx(Number(m[1]), m[2]));
+      if (style.numeric && style.source === 'style') lengths.push(Number(style.value));
+      const raw = lengths.find(px => px !== 0);
+      if (raw !== undefined) {
+        const suggestion = suggestSpacing(Math.abs(raw), guidelines);
+        report('spacing-token', line, `Raw spacing ${style.property}: ${style.value}${style.numeric ? 'px' : ''}; use ${suggestion ? (suggestion.includes(',') ? `a spacing token (${suggestion})` : suggestion) : 'a spacing token'}`, suggestion);
+      }
+    }
+    for (const [name, value] of element.attributes) {
+      if (value !== undefined && !URL_ATTRIBUTES.has(name) && COLOR_VALUE.test(value)) {
+        const suggestion = suggestColor(guidelines);
+        report('color-token', line, `Hard-coded color ${value.trim()} in ${name}; use ${suggestion ? `a color token (${suggestion})` : 'a color token'}`, suggestion);
+      }
+    }
+  }
+
+  // Arbitrary values: Tailwind [..] classes and one-off sizes
+  if (rules.prohibitArbitraryValues) {
+    for (const className of element.classes.filter(c => ARBITRARY_CLASS.test(c))) {
+      report('arbitrary-value', line, `Arbitrary value class "${className}"; use the design system scale instead`);
+    }
+    for (const style of element.styles) {
+      if (!SIZE_PROPERTIES.test(normalizeProperty(style.property))) continue;
+      const unitless = style.numeric && style.source === 'style' && normalizeProperty(style.property) !== 'lineheight' && Number(style.value) !== 0;
+      if (unitless || Array.from(style.value.matchAll(LENGTH)).some(m => Number(m[1]) !== 0)) {
+        report('arbitrary-value', line, `Arbitrary value ${style.property}: ${style.value}${style.numeric ? 'px' : ''}; use a design token or a component prop instead`);
+      }
+    }
+  }
+
+  // Prohibited class name patterns
+  for (const pattern of prohibited.classNamePatterns ?? []) {
+    let matches: (className: string) => boolean;
+    try {
+      const regex = new RegExp(pattern);
+      matches = className => regex.test(className);
+    } catch {
+      matches = className => className.includes(pattern);
+    }
+    for (const className of element.classes.filter(matches)) {
+      report('prohibited-class', line, `Class "${className}" matches the prohibited pattern ${pattern}`);
+    }
+  }
+
+  // Prohibited CSS framework utility classes
+  for (const framework of prohibited.cssFrameworks ?? []) {
+    const known = CSS_FRAMEWORKS[framework.toLowerCase().replace(/\s*css$/, '')];
+    const used = known ? element.classes.filter(className => known.classes.test(className)) : [];
+    if (used.length > 0) {
+      report('prohibited-css-framework', line, `<${element.tag}> uses ${known.name} classes (${used.slice(0, MAX_LISTED).join(' ')}); ${known.name} is not allowed in this design system`);
+    }
+  }
+
+  // Inline styles
+  const inlineStyles = (prohibited.inlineStyles ?? []).map(normalizeProperty);
+  const inline = element.styles.filter(style => style.source === 'style');
+  if (inlineStyles.includes('*') && (inline.length > 0 || element.attributes.has('style'))) {
+    report('inline-style', line, `<${element.tag}> uses an inline style; use component props, classes or design tokens instead`);
+  } else {
+    for (const style of inline.filter(s => inlineStyles.includes(normalizeProperty(s.property)))) {
+      report('inline-style', line, `Inline style "${style.property}" is not allowed; use component props or design tokens instead`);
+    }
+  }
+
+  // Raw HTML elements the component library covers
+  if (rules.enforceComponentLibrary) {
+    const type = element.attributes.get('type')?.toLowerCase();
+    const candidates = element.tag === 'input'
+      ? INPUT_EQUIVALENTS[type && INPUT_EQUIVALENTS[type] ? type : 'text']
+      : LIBRARY_EQUIVALENTS[element.tag];
+    const component = candidates?.find(name => componentNames.has(name));
+    if (component && !(element.tag === 'input' && type === 'hidden')) {
+      report('component-library', line, `<${element.tag}> is a raw HTML element; use <${component}> from the component library`, component);
+    }
+  }
+}
+
+function checkImports(
+  code: string,
+  guidelines: DesignSystemGuidelines,
+  report: (rule: GuidelineRule, line: number, message: string) => void
+): void {
+  const frameworks = guidelines.prohibitedPatterns?.cssFrameworks ?? [];
+  if (frameworks.length === 0) return;
+  for (const match of code.matchAll(/\bimport\s+(?:[^'";]*?\s+from\s+)?['"]([^'"]+)['"]/g)) {
+    const specifier = match[1].toLowerCase();
+    for (const framework of frameworks) {
+      const key = framework.toLowerCase().replace(/\s*css$/, '');
+      if (specifier.includes(key)) {
+        report('prohibited-css-framework', lineAt(code, match.index!), `Import "${match[1]}" uses ${CSS_FRAMEWORKS[key]?.name ?? framework}, which is not allowed in this design system`);
+      }
+    }
+  }
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether the guidelines configure anything this validator enforces
+ */
+export function hasEnforcedGuidelines(guidelines: DesignSystemGuidelines | undefined): boolean {
+  const rules = guidelines?.enforcementRules ?? {};
+  const prohibited = guidelines?.prohibitedPatterns ?? {};
+  return !!(
+    rules.requireDesignTokens || rules.prohibitArbitraryValues || rules.enforceComponentLibrary ||
+    prohibited.classNamePatterns?.length || prohibited.cssFrameworks?.length || prohibited.inlineStyles?.length
+  );
+}
+
+/**
+ * Check a story against the design system guidelines. `componentNames` are
+ * the discovered components, used to suggest them in place of raw HTML
+ * elements. Messages end with the rule id.
+ */
+export function validateDesignGuidelines(
+  code: string,
+  guidelines: DesignSystemGuidelines | undefined,
+  fileName: string = 'story.stories.tsx',
+  componentNames: string[] = []
+): GuidelineViolation[] {
+  if (!guidelines || !hasEnforcedGuidelines(guidelines)) return [];
+
+  let elements: GuidelineElement[];
+  if (/\.(svelte|vue|html)$/.test(fileName)) {
+    // Blank out script and style blocks (keeping newlines) so only markup is checked
+    const markup = code.replace(/<(script|style)[\s\S]*?<\/\1>/g, block => block.replace(/[^\n]/g, ' '));
+    elements = collectTemplateElements(markup);
+  } else {
+    try {
+      elements = collectJsxElements(code, fileName);
+    } catch {
+      // Unparseable code is reported by syntax validation
+      return [];
+    }
+  }
+
+  const severities = guidelines.enforcementRules?.severity ?? {};
+  const violations: GuidelineViolation[] = [];
+  const report = (rule: GuidelineRule, line: number, message: string, suggestion?: string) => {
+    const severity = severities[rule] ?? DEFAULT_SEVERITY[rule];
+    if (severity === 'off') return;
+    violations.push({ rule, severity, line, message: `${message} (${rule})`, ...(suggestion ? { suggestion } : {}) });
+  };
+
+  checkImports(code, guidelines, report);
+  const names = new Set(componentNames);
+  for (const element of elements) {
+    checkElement(element, guidelines, names, report);
+  }
+  return violations.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Prompt rules describing the enforced guidelines, so the model follows them
+ * up front instead of learning them through self-healing
+ */
+export function getGuidelinePromptRules(guidelines: DesignSystemGuidelines | undefined): string[] {
+  if (!guidelines || !hasEnforcedGuidelines(guidelines)) return [];
+  const rules = guidelines.enforcementRules ?? {};
+  const prohibited = guidelines.prohibitedPatterns ?? {};
+  const lines: string[] = [];
+
+  if (rules.requireDesignTokens) {
+    const color = suggestColor(guidelines);
+    const spacing = guidelines.spacingTokens?.values?.length
+      ? listTokens(guidelines.spacingTokens.prefix, guidelines.spacingTokens.values)
+      : undefined;
+    lines.push(`- Use design tokens for colors${color ? ` (${color})` : ''} - never hex, rgb() or hsl() colors`);
+    lines.push(`- Use design tokens for spacing${spacing ? ` (${spacing})` : ''} instead of px values`);
+  }
+  if (rules.prohibitArbitraryValues) {
+    lines.push('- No arbitrary values: no Tailwind [..] classes and no one-off px sizes in inline styles');
+  }
+  if (rules.enforceComponentLibrary) {
+    lines.push('- Use the library components instead of raw HTML elements (e.g. <Button>, not <button>); plain <div> wrappers are fine');
+  }
+  if (prohibited.cssFrameworks?.length) {
+    lines.push(`- Do not use these CSS frameworks or their classes: ${prohibited.cssFrameworks.join(', ')}`);
+  }
+  if (prohibited.classNamePatterns?.length) {
+    lines.push(`- Class names must not match: ${prohibited.classNamePatterns.join(', ')}`);
+  }
+  if (prohibited.inlineStyles?.length) {
+    lines.push(prohibited.inlineStyles.includes('*')
+      ? '- Do not use inline styles'
+      : `- Do not set these properties in inline styles: ${prohibited.inlineStyles.join(', ')}`);
+  }
+
+  return ['', `${guidelines.name.toUpperCase()} DESIGN SYSTEM RULES:`, ...lines];
+}
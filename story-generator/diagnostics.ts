@@ -0,0 +1,181 @@
+/**
+ * Story Diagnostics
+ *
+ * One structured shape for everything the validators report: a stable code
+ * (`<source>/<rule>`, e.g. 'a11y/image-alt', 'ts/2322', 'custom/require-app-shell'),
+ * a severity, the story range, the rule that reported it and an optional fix.
+ * Validation errors are collected as diagnostics, streamed to the panel, and
+ * formatted into the strings the self-healing prompt uses. Projects can
+ * suppress codes with `diagnostics.suppress` in story-ui.config.js.
+ */
+
+import type { ValidationError } from './storyValidator.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** The validator that reported a diagnostic; the first part of its code */
+export type DiagnosticSource =
+  | 'syntax'
+  | 'ts'
+  | 'compiler'
+  | 'framework'
+  | 'pattern'
+  | 'import'
+  | 'prop'
+  | 'runtime'
+  | 'a11y'
+  | 'interaction'
+  | 'guideline'
+  | 'custom';
+
+/** 1-based line and column */
+export interface DiagnosticPosition {
+  line: number;
+  column?: number;
+}
+
+export interface DiagnosticRange {
+  start: DiagnosticPosition;
+  end?: DiagnosticPosition;
+}
+
+/** Replace the text of a single-line range (1-based columns, end exclusive) */
+export interface DiagnosticEdit {
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  newText: string;
+}
+
+export interface DiagnosticFix {
+  /** What to change, when the message doesn't already say; sent to the model with the error */
+  description?: string;
+  /** Machine-applicable edits, when the validator knows exactly what to change */
+  edits?: DiagnosticEdit[];
+}
+
+export interface StoryDiagnostic {
+  /** Stable `<source>/<rule>` code, used for suppression */
+  code: string;
+  severity: DiagnosticSeverity;
+  source: DiagnosticSource;
+  /** Id of the rule within its source */
+  rule: string;
+  message: string;
+  range?: DiagnosticRange;
+  fix?: DiagnosticFix;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Rule id for findings whose validator doesn't name one */
+const DEFAULT_RULES: Record<DiagnosticSource, string> = {
+  syntax: 'invalid-code',
+  ts: 'error',
+  compiler: 'template',
+  framework: 'invalid-story',
+  pattern: 'forbidden-pattern',
+  import: 'unknown-import',
+  prop: 'invalid-prop',
+  runtime: 'render-error',
+  a11y: 'audit',
+  interaction: 'play-function',
+  guideline: 'violation',
+  custom: 'rule',
+};
+
+/** `Line 3: ...` and `Line 3, Column 7: ...` as produced by the validators */
+const LOCATED_MESSAGE = /^Line (\d+)(?:, Column (\d+))?: ([\s\S]*)$/;
+
+/** TypeScript diagnostics end in their code, e.g. `(TS2322)` */
+const TS_CODE = /\(TS(\d+)\)$/;
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Diagnostic for a structured finding (pattern, prop, a11y, interaction,
+ * guideline, custom rule and compiler findings)
+ */
+export function toDiagnostic(
+  source: DiagnosticSource,
+  finding: ValidationError & { severity?: string },
+  severity: DiagnosticSeverity = 'error'
+): StoryDiagnostic {
+  const rule = finding.rule || DEFAULT_RULES[source];
+  return {
+    code: `${source}/${rule}`,
+    severity: finding.severity === 'error' || finding.severity === 'warning' ? finding.severity : severity,
+    source,
+    rule,
+    message: finding.message,
+    range: { start: { line: finding.line, column: finding.column } },
+    fix: finding.fix,
+  };
+}
+
+/**
+ * Diagnostic for a validator that reports strings (AST, import and type
+ * checks); the `Line N, Column M:` prefix becomes the range and a trailing
+ * `(TS1234)` the rule
+ */
+export function parseDiagnostic(
+  source: DiagnosticSource,
+  text: string,
+  severity: DiagnosticSeverity = 'error'
+): StoryDiagnostic {
+  const located = LOCATED_MESSAGE.exec(text);
+  const message = located ? located[3] : text;
+  const tsCode = TS_CODE.exec(message)?.[1];
+  // Type errors are 'ts/2322'; TypeScript syntax errors are 'syntax/ts1005'
+  const rule = !tsCode ? DEFAULT_RULES[source] : source === 'ts' ? tsCode : `ts${tsCode}`;
+  return {
+    code: `${source}/${rule}`,
+    severity,
+    source,
+    rule,
+    message,
+    range: located
+      ? { start: { line: Number(located[1]), column: located[2] ? Number(located[2]) : undefined } }
+      : undefined,
+  };
+}
+
+/**
+ * The text form used in prompts, logs and `errors`/`warnings` arrays
+ */
+export function formatDiagnostic(diagnostic: StoryDiagnostic): string {
+  const start = diagnostic.range?.start;
+  const location = !start ? '' : start.column !== undefined
+    ? `Line ${start.line}, Column ${start.column}: `
+    : `Line ${start.line}: `;
+  const fix = diagnostic.fix?.description ? `. Fix: ${diagnostic.fix.description}` : '';
+  return `${location}${diagnostic.message}${fix}`;
+}
+
+/**
+ * Whether a code matches a suppression: an exact code ('a11y/image-alt'),
+ * a source ('a11y') or a wildcard ('custom/*', 'ts/23*')
+ */
+export function isSuppressed(code: string, suppress: string[] | undefined): boolean {
+  if (!suppress?.length) return false;
+  return suppress.some(pattern => {
+    if (pattern === code || code.startsWith(`${pattern}/`)) return true;
+    if (!pattern.includes('*')) return false;
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(code);
+  });
+}
+
+/**
+ * An edit replacing the only occurrence of `text` on a line, or undefined
+ * when it isn't there exactly once
+ */
+export function replaceOnLine(code: string, line: number, text: string, newText: string): DiagnosticEdit | undefined {
+  const lineText = code.split('\n')[line - 1];
+  if (lineText === undefined) return undefined;
+  const index = lineText.indexOf(text);
+  if (index === -1 || lineText.indexOf(text, index + 1) !== -1) return undefined;
+  return { line, startColumn: index + 1, endColumn: index + 1 + text.length, newText };
+}
@@ -3,6 +3,7 @@ import path from 'path';
 import { createRequire } from 'module';
 import { fileURLToPath } from 'url';
 import { logger } from './logger.js';
+import { findCustomElementsManifest } from './customElementsDiscovery.js';
 
 export interface RealPackageComponent {
   name: string;
@@ -614,28 +615,13 @@ export class DynamicPackageDiscovery {
    */
   private discoverWebComponentsFromManifest(packagePath: string): any {
     try {
-      // GENERIC: Try multiple common locations for custom-elements.json manifest
-      const possiblePaths = [
-        path.join(packagePath, 'custom-elements.json'),
-        path.join(packagePath, 'dist', 'custom-elements.json'),
-        path.join(packagePath, 'cdn', 'custom-elements.json'),
-        path.join(packagePath, 'lib', 'custom-elements.json'),
-        path.join(packagePath, 'build', 'custom-elements.json'),
-      ];
-
-      let manifestPath: string | null = null;
-      for (const p of possiblePaths) {
-        if (fs.existsSync(p)) {
-          manifestPath = p;
-          logger.log(`📁 Found custom-elements.json manifest at: ${p}`);
-          break;
-        }
-      }
-
+      // GENERIC: package.json#customElements, then common locations for custom-elements.json
+      const manifestPath = findCustomElementsManifest(packagePath);
       if (!manifestPath) {
         logger.log(`📁 No custom-elements.json manifest found in common locations`);
         return null;
       }
+      logger.log(`📁 Found custom-elements.json manifest at: ${manifestPath}`);
 
       const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
       const exports: any = {};
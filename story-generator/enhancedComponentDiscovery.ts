@@ -1,9 +1,14 @@
 import fs from 'fs';
 import path from 'path';
-import { DiscoveredComponent, PropInfo } from './componentDiscovery.js';
+import { DiscoveredComponent, EventInfo, PropInfo } from './componentDiscovery.js';
 import { StoryUIConfig } from '../story-ui.config.js';
 import { DynamicPackageDiscovery } from './dynamicPackageDiscovery.js';
 import { logger } from './logger.js';
+import { discoverTypeScriptComponents } from './typeScriptDiscovery.js';
+import { discoverVueComponents } from './vueDiscovery.js';
+import { discoverAngularComponents } from './angularDiscovery.js';
+import { discoverSvelteComponents } from './svelteDiscovery.js';
+import { CustomElementComponent, discoverCustomElements, findCustomElementsManifest } from './customElementsDiscovery.js';
 import { BaseFrameworkAdapter } from './framework-adapters/base-adapter.js';
 import { ReactAdapter } from './framework-adapters/react-adapter.js';
 import { VueAdapter } from './framework-adapters/vue-adapter.js';
@@ -26,6 +31,17 @@ export interface EnhancedComponent extends DiscoveredComponent {
   isComposite?: boolean; // Component that contains other components
 }
 
+/** Component details read from source by a framework-aware discovery */
+interface TypedComponent {
+  description?: string;
+  props: PropInfo[];
+  events?: EventInfo[];
+  slots?: string[];
+  selector?: string;
+  standalone?: boolean;
+  ngModule?: string;
+}
+
 export class EnhancedComponentDiscovery {
   private config: StoryUIConfig;
   private discoveredComponents: Map<string, EnhancedComponent> = new Map();
@@ -232,6 +248,14 @@ export class EnhancedComponentDiscovery {
       }
     }
 
+    // Check for a custom elements manifest describing local web components
+    if (this.config.componentsMetadataPath && fs.existsSync(this.config.componentsMetadataPath)) {
+      sources.push({
+        type: 'custom-elements',
+        path: this.config.componentsMetadataPath
+      });
+    }
+
     // Check for local component directories
     // 1. Manually configured componentsPath (highest priority)
     if (this.config.componentsPath) {
@@ -290,10 +314,12 @@ export class EnhancedComponentDiscovery {
       const packagePath = path.join(nodeModulesPath, this.config.importPath);
       const typesPath = path.join(nodeModulesPath, '@types', this.config.importPath.replace(/^@/, '').replace('/', '__'));
 
-      if (fs.existsSync(path.join(packagePath, 'index.d.ts'))) {
+      const typesEntry = this.resolvePackageTypes(packagePath);
+
+      if (typesEntry) {
         sources.push({
           type: 'typescript',
-          path: path.join(packagePath, 'index.d.ts')
+          path: typesEntry
         });
       } else if (fs.existsSync(typesPath)) {
         sources.push({
@@ -306,6 +332,25 @@ export class EnhancedComponentDiscovery {
     return sources;
   }
 
+  /**
+   * The type entry of an installed package: its package.json "types" or
+   * "typings" field, or index.d.ts at the package root
+   */
+  private resolvePackageTypes(packagePath: string): string | undefined {
+    const candidates: string[] = [];
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(path.join(packagePath, 'package.json'), 'utf-8'));
+      const declared = packageJson.types || packageJson.typings;
+      if (typeof declared === 'string') {
+        candidates.push(path.join(packagePath, declared));
+      }
+    } catch {
+      // No readable package.json; fall back to the conventional entry
+    }
+    candidates.push(path.join(packagePath, 'index.d.ts'));
+    return candidates.find(candidate => fs.existsSync(candidate));
+  }
+
   /**
    * Auto-discovery removed - now handled by guided installation during init
    * This function is kept for backward compatibility but does nothing
@@ -421,21 +466,28 @@ export class EnhancedComponentDiscovery {
       }
     }
 
+    // Web component packages document their full API in custom-elements.json
+    const customElements = this.frameworkAdapter.type === 'web-components'
+      ? this.readPackageCustomElements(packagePath)
+      : new Map<string, CustomElementComponent>();
+
     for (const realComp of realComponents) {
       // Get enhanced metadata from predefined list if available
       const knownComponents = this.getKnownDesignSystemComponents(source.path);
       const knownComp = knownComponents.find(k => k.name === realComp.name);
+      const customElement = customElements.get(realComp.name);
 
       this.discoveredComponents.set(realComp.name, {
         name: realComp.name,
         source,
         filePath: '',
         // Use known metadata if available, otherwise generate basic metadata
-        description: knownComp?.description || `${realComp.name} component`,
-        category: knownComp?.category || this.categorizeComponent(realComp.name, '') as any,
+        description: knownComp?.description || customElement?.description || `${realComp.name} component`,
+        category: knownComp?.category || this.categorizeComponent(realComp.name, customElement?.description || '') as any,
         props: knownComp?.props || [],
         slots: knownComp?.slots || [],
         examples: knownComp?.examples || [],
+        ...(customElement ? this.customElementDetails(customElement) : {}),
         __componentPath: realComp.__componentPath
       } as EnhancedComponent);
     }
@@ -739,6 +791,7 @@ export class EnhancedComponentDiscovery {
     const defaultPatterns = this.frameworkAdapter.getComponentFilePatterns()
       .map(p => p.replace('**/', '')); // Convert glob to simpler patterns
     const files = this.findComponentFiles(source.path, source.patterns || defaultPatterns);
+    const typedComponents = this.discoverTypedComponents(files);
 
     for (const file of files) {
       // Skip story files, test files, and other non-component files
@@ -761,7 +814,10 @@ export class EnhancedComponentDiscovery {
           continue;
         }
 
-        let props = this.extractPropsFromFile(content);
+        // Prefer the props the type checker resolved over the regex scan
+        const typed = typedComponents.get(`${path.resolve(file)}::${componentName}`)
+          ?? typedComponents.get(path.resolve(file));
+        let props = typed ? typed.props.map(prop => prop.name) : this.extractPropsFromFile(content);
 
         // Always check co-located story file for additional props (argTypes, args)
         // Story files often define props that aren't in the component source (e.g., disabled, children)
@@ -773,23 +829,98 @@ export class EnhancedComponentDiscovery {
         }
 
         // Extract rich prop type information from story file argTypes
-        const propTypes = this.extractRichPropsFromStoryFile(file);
+        const storyPropTypes = this.extractRichPropsFromStoryFile(file);
+        const propTypes = typed ? this.mergePropTypes(typed.props, storyPropTypes) : storyPropTypes;
 
         this.discoveredComponents.set(componentName, {
           name: componentName,
           filePath: file,
           props,
           propTypes: propTypes.length > 0 ? propTypes : undefined,
+          // Vue and Svelte props may be forwarded through $attrs/rest props the discovery can't see
+          ...(typed && this.isCompilerTyped() ? { propsComplete: true } : {}),
           source,
-          description: `${componentName} component`,
+          description: typed?.description || `${componentName} component`,
           category: this.categorizeComponent(componentName, content),
-          slots: this.extractSlots(content),
+          slots: typed?.slots ?? this.extractSlots(content),
+          ...(typed?.events?.length ? { events: typed.events } : {}),
+          ...(typed?.selector ? { selector: typed.selector } : {}),
+          ...(typed?.standalone !== undefined ? { standalone: typed.standalone } : {}),
+          ...(typed?.ngModule ? { ngModule: typed.ngModule } : {}),
           examples: []
         });
       }
     }
   }
 
+  /**
+   * Read components with the framework's types: React and Angular
+   * components in TypeScript files (keyed by file path and component name),
+   * and Vue and Svelte single-file components (keyed by file path)
+   */
+  private discoverTypedComponents(files: string[]): Map<string, TypedComponent> {
+    const typed = new Map<string, TypedComponent>();
+    const componentFiles = files
+      .filter(file => !this.isNonComponentFile(file))
+      .map(file => path.resolve(file));
+    const options = { projectRoot: this.getProjectRoot() };
+
+    try {
+      switch (this.frameworkAdapter.type) {
+        case 'react':
+          for (const component of discoverTypeScriptComponents(componentFiles.filter(file => /\.tsx?$/.test(file)), options)) {
+            typed.set(`${component.filePath}::${component.name}`, component);
+          }
+          break;
+        case 'angular':
+          for (const component of discoverAngularComponents(componentFiles.filter(file => /\.ts$/.test(file)), options)) {
+            typed.set(`${component.filePath}::${component.name}`, component);
+          }
+          break;
+        case 'vue':
+          for (const component of discoverVueComponents(componentFiles.filter(file => file.endsWith('.vue')), options)) {
+            typed.set(component.filePath, component);
+          }
+          break;
+        case 'svelte':
+          for (const component of discoverSvelteComponents(componentFiles.filter(file => file.endsWith('.svelte')), options)) {
+            typed.set(component.filePath, component);
+          }
+          break;
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Typed component discovery failed, falling back to source scanning: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return typed;
+  }
+
+  /**
+   * React and Angular component props are resolved by the TypeScript compiler
+   */
+  private isCompilerTyped(): boolean {
+    return this.frameworkAdapter.type === 'react' || this.frameworkAdapter.type === 'angular';
+  }
+
+  /**
+   * Combine props read from types with argTypes from story files. Story
+   * argTypes are written by hand, so their fields win; types fill the gaps.
+   */
+  private mergePropTypes(typed: PropInfo[], fromStories: PropInfo[]): PropInfo[] {
+    const merged = new Map(typed.map(prop => [prop.name, { ...prop }]));
+    for (const storyProp of fromStories) {
+      const existing = merged.get(storyProp.name);
+      if (!existing) {
+        merged.set(storyProp.name, storyProp);
+        continue;
+      }
+      for (const [key, value] of Object.entries(storyProp) as [keyof PropInfo, unknown][]) {
+        if (value === undefined || (key === 'type' && value === 'unknown')) continue;
+        Object.assign(existing, { [key]: value });
+      }
+    }
+    return Array.from(merged.values());
+  }
+
   /**
    * Check if a file should be skipped (stories, tests, etc.)
    */
@@ -797,6 +928,7 @@ export class EnhancedComponentDiscovery {
     const fileName = path.basename(filePath);
     const skipPatterns = [
       /\.stories?\.(tsx?|jsx?)$/i,    // Story files
+      /\.stories\.svelte$/i,          // Svelte CSF story files
       /\.test\.(tsx?|jsx?)$/i,        // Test files
       /\.spec\.(tsx?|jsx?)$/i,        // Spec files
       /\.d\.ts$/i,                    // Type definition files
@@ -1480,29 +1612,18 @@ export class EnhancedComponentDiscovery {
     }
 
     try {
-      const customElements = JSON.parse(fs.readFileSync(source.path, 'utf-8'));
-
-      if (customElements.modules) {
-        for (const module of customElements.modules) {
-          if (module.declarations) {
-            for (const declaration of module.declarations) {
-              if (declaration.kind === 'class' && declaration.customElement) {
-                const componentName = this.config.componentPrefix + declaration.name;
-
-                this.discoveredComponents.set(componentName, {
-                  name: componentName,
-                  filePath: module.path || '',
-                  props: this.extractPropsFromDeclaration(declaration),
-                  source,
-                  description: declaration.description || `${componentName} component`,
-                  category: this.categorizeComponent(componentName, declaration.description || ''),
-                  slots: declaration.slots?.map((s: any) => s.name) || [],
-                  examples: []
-                });
-              }
-            }
-          }
-        }
+      for (const element of discoverCustomElements(source.path)) {
+        const componentName = (this.config.componentPrefix || '') + element.name;
+
+        this.discoveredComponents.set(componentName, {
+          name: componentName,
+          filePath: element.modulePath,
+          source,
+          description: element.description || `${componentName} component`,
+          category: this.categorizeComponent(componentName, element.description || ''),
+          examples: [],
+          ...this.customElementDetails(element)
+        });
       }
     } catch (error) {
       console.warn('Error parsing custom elements:', error);
@@ -1510,29 +1631,82 @@ export class EnhancedComponentDiscovery {
   }
 
   /**
-   * Extract props from custom element declaration
+   * Read the custom-elements.json an installed package ships, keyed by class name
    */
-  private extractPropsFromDeclaration(declaration: any): string[] {
-    const props: string[] = [];
+  private readPackageCustomElements(packagePath: string): Map<string, CustomElementComponent> {
+    const manifestPath = findCustomElementsManifest(packagePath);
+    if (!manifestPath) {
+      return new Map();
+    }
 
-    if (declaration.members) {
-      for (const member of declaration.members) {
-        if (member.kind === 'field' && member.privacy !== 'private') {
-          props.push(member.name);
-        }
-      }
+    try {
+      return new Map(discoverCustomElements(manifestPath).map(element => [element.name, element]));
+    } catch (error) {
+      logger.warn(`⚠️  Could not read ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+      return new Map();
     }
+  }
 
-    return props;
+  /**
+   * The API a custom elements manifest records for one element
+   */
+  private customElementDetails(element: CustomElementComponent) {
+    return {
+      props: element.props.map(prop => prop.name),
+      ...(element.props.length ? { propTypes: element.props } : {}),
+      propsComplete: true,
+      slots: element.slots,
+      ...(element.events.length ? { events: element.events } : {}),
+      ...(element.tagName ? { selector: element.tagName } : {}),
+      ...(element.cssParts.length ? { cssParts: element.cssParts } : {}),
+      ...(element.cssProperties.length ? { cssProperties: element.cssProperties } : {}),
+    };
   }
 
   /**
    * Discover from TypeScript definitions
    */
   private async discoverFromTypeScript(source: ComponentSource): Promise<void> {
-    // This would require TypeScript compiler API
-    // For now, we'll rely on other discovery methods
-    console.log(`TypeScript discovery for ${source.path} - using fallback methods`);
+    const entry = fs.existsSync(source.path) && fs.statSync(source.path).isDirectory()
+      ? path.join(source.path, 'index.d.ts')
+      : source.path;
+    if (!fs.existsSync(entry)) {
+      logger.log(`⚠️  TypeScript definitions do not exist (skipping): ${entry}`);
+      return;
+    }
+    logger.log(`🔍 Reading component types from: ${entry}`);
+
+    for (const typed of discoverTypeScriptComponents([entry], { projectRoot: this.getProjectRoot() })) {
+      const existing = this.discoveredComponents.get(typed.name);
+
+      if (existing) {
+        // Already found by package or file discovery; the types add detail
+        for (const prop of typed.props) {
+          if (!existing.props.includes(prop.name)) {
+            existing.props.push(prop.name);
+          }
+        }
+        existing.propTypes = this.mergePropTypes(typed.props, existing.propTypes || []);
+        existing.propsComplete = true;
+        if (typed.description && existing.description === `${existing.name} component`) {
+          existing.description = typed.description;
+        }
+        continue;
+      }
+
+      this.discoveredComponents.set(typed.name, {
+        name: typed.name,
+        filePath: typed.filePath,
+        props: typed.props.map(prop => prop.name),
+        propTypes: typed.props.length > 0 ? typed.props : undefined,
+        propsComplete: true,
+        source,
+        description: typed.description || `${typed.name} component`,
+        category: this.categorizeComponent(typed.name, typed.description || ''),
+        slots: [],
+        examples: []
+      });
+    }
   }
 
   /**
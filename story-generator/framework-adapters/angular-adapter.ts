@@ -119,6 +119,8 @@ CRITICAL RULES:
 - Import modules/components in moduleMetadata or applicationConfig
 - Use Angular template syntax in render functions
 - Event bindings use (event) syntax
+- Use each component's selector from the component reference in templates, bind its inputs as [input] and its outputs as (output)
+- Add standalone components to moduleMetadata imports; for components declared in an NgModule, import that module instead
 
 TYPESCRIPT STRICT MODE COMPATIBILITY (CRITICAL):
 - NEVER use "this.property" syntax in render functions or templates
@@ -478,6 +480,55 @@ export const Default: Story = {
 `;
   }
 
+  /**
+   * Format a component entry in Angular terms: selector, `[input]` and
+   * `(output)` bindings, content projection and what to import
+   */
+  protected formatComponentEntry(
+    component: DiscoveredComponent,
+    config: StoryUIConfig
+  ): string {
+    if (!component.selector && !component.propTypes?.length && !component.events?.length) {
+      return super.formatComponentEntry(component, config);
+    }
+
+    let entry = `- **${component.name}** (import from '${this.getImportPath(component, config)}')`;
+
+    if (component.selector) {
+      // Element selectors read as tags; attribute and class selectors as written
+      const selector = /^[a-z][\w-]*$/.test(component.selector) ? `<${component.selector}>` : component.selector;
+      entry += `\n  Selector: ${selector}`;
+    }
+
+    const inputs = this.formatPropList(component, name => `[${name}]`);
+    if (inputs) {
+      entry += `\n  Inputs: ${inputs}`;
+    }
+
+    if (component.events?.length) {
+      const outputs = component.events.map(event => `(${event.name})${event.payload ? `: ${event.payload}` : ''}`);
+      entry += `\n  Outputs: ${outputs.join(', ')}`;
+    }
+
+    if (component.slots?.length) {
+      const slots = component.slots.map(slot =>
+        slot === 'default' ? 'default <ng-content>' : `<ng-content select="${slot}">`);
+      entry += `\n  Content projection: ${slots.join(', ')}`;
+    }
+
+    if (component.ngModule) {
+      entry += `\n  Declared in ${component.ngModule}: add ${component.ngModule} to moduleMetadata imports`;
+    } else if (component.standalone) {
+      entry += `\n  Standalone: add ${component.name} to moduleMetadata imports`;
+    }
+
+    if (component.description) {
+      entry += `\n  ${component.description}`;
+    }
+
+    return entry;
+  }
+
   getStoryTemplate(options?: StoryGenerationOptions): string {
     return `
 // {{componentName}}.stories.ts
@@ -13,8 +13,12 @@ import {
   StoryGenerationOptions,
 } from './types.js';
 import { StoryUIConfig } from '../../story-ui.config.js';
-import { DiscoveredComponent } from '../componentDiscovery.js';
+import { DiscoveredComponent, PropInfo } from '../componentDiscovery.js';
 import { logger } from '../logger.js';
+import { getInteractiveComponents, INTERACTION_TEST_MODULE } from '../playFunctionValidator.js';
+
+/** Typed props listed per component in the reference before it is truncated */
+const MAX_REFERENCE_PROPS = 8;
 
 /**
  * Abstract Base Framework Adapter
@@ -70,6 +74,25 @@ export abstract class BaseFrameworkAdapter implements FrameworkAdapter {
     return `# Available Components\n\n${sections.join('\n\n')}`;
   }
 
+  /**
+   * Generate a compact component index (names only, grouped by package)
+   */
+  generateComponentIndex(components: DiscoveredComponent[]): string {
+    if (components.length === 0) {
+      return 'No components discovered.';
+    }
+
+    const groupedComponents = this.groupComponentsByPackage(components);
+    const sections: string[] = [];
+
+    for (const [packageName, pkgComponents] of Object.entries(groupedComponents)) {
+      const names = pkgComponents.map(comp => comp.name).sort().join(', ');
+      sections.push(`## ${packageName}\n${names}`);
+    }
+
+    return `# Available Components (names only)\n\n${sections.join('\n\n')}`;
+  }
+
   /**
    * Format a single component entry
    */
@@ -94,6 +117,37 @@ export abstract class BaseFrameworkAdapter implements FrameworkAdapter {
     return entry;
   }
 
+  /**
+   * A component's props for the reference: typed entries when prop types
+   * were discovered, the prop names otherwise
+   */
+  protected formatPropList(
+    component: DiscoveredComponent,
+    formatName: (name: string) => string = name => name
+  ): string {
+    const props = component.propTypes?.length
+      ? component.propTypes.map(prop => this.formatProp(prop, formatName(prop.name)))
+      : component.props.map(formatName);
+    const more = props.length > MAX_REFERENCE_PROPS ? '...' : '';
+    return `${props.slice(0, MAX_REFERENCE_PROPS).join('; ')}${more}`;
+  }
+
+  /**
+   * One typed prop: `size: "sm" | "md" (default: "md") - Control size`
+   */
+  protected formatProp(prop: PropInfo, name = prop.name): string {
+    let text = name;
+    if (prop.options?.length) {
+      text += `: ${prop.options.map(option => `"${option}"`).join(' | ')}`;
+    } else if (prop.type !== 'unknown') {
+      text += `: ${prop.type}`;
+    }
+    if (prop.required) text += ' (required)';
+    if (prop.defaultValue !== undefined) text += ` (default: ${JSON.stringify(prop.defaultValue)})`;
+    if (prop.description) text += ` - ${prop.description}`;
+    return text;
+  }
+
   /**
    * Get the import path for a component
    */
@@ -235,6 +289,43 @@ export abstract class BaseFrameworkAdapter implements FrameworkAdapter {
     components: DiscoveredComponent[]
   ): string;
 
+  /**
+   * Generate play-function instructions, naming the discovered form and
+   * navigation components whose stories need an interaction test
+   */
+  generateInteractionTestInstructions(
+    components: DiscoveredComponent[],
+    config: StoryUIConfig
+  ): string {
+    const interactive = getInteractiveComponents(components, config.interactionTests?.categories);
+    const listed = interactive.slice(0, 40).join(', ') + (interactive.length > 40 ? `, ... and ${interactive.length - 40} more` : '');
+    return `
+INTERACTION TESTS (REQUIRED):
+- Every story that renders a form${interactive.length > 0 ? ` or one of these interactive components (${listed})` : ''} MUST have a play function
+- Import the helpers: import { expect, userEvent, within } from '${INTERACTION_TEST_MODULE}';
+- Keep it a smoke test: fill in or click what the story renders, then assert the result with expect
+- Await every userEvent call and every expect
+- Query by role and accessible name first (getByRole('button', { name: 'Save' })), then getByLabelText, then getByText
+- ONLY query text, labels and names that appear literally in the story's markup or args
+
+${this.getPlayFunctionExample()}`;
+  }
+
+  /**
+   * Example story with a play function, in this framework's story format
+   */
+  protected getPlayFunctionExample(): string {
+    return `Play function example:
+export const FilledIn: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.type(canvas.getByLabelText('Email'), 'jane@example.com');
+    await userEvent.click(canvas.getByRole('button', { name: 'Subscribe' }));
+    await expect(canvas.getByLabelText('Email')).toHaveValue('jane@example.com');
+  },
+};`;
+  }
+
   /**
    * Generate import statements for components
    */
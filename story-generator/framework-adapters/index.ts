@@ -197,10 +197,15 @@ class AdapterRegistry {
 
     return {
       systemPrompt: adapter.generateSystemPrompt(config, options),
-      componentReference: adapter.generateComponentReference(components, config),
+      componentReference: options?.componentReference === 'index'
+        ? adapter.generateComponentIndex(components)
+        : adapter.generateComponentReference(components, config),
       layoutInstructions: layoutInstructionsString,
       examples: adapter.generateExamples(config),
       sampleStory: adapter.generateSampleStory(config, components),
+      interactionTests: options?.includeInteractionTests
+        ? adapter.generateInteractionTestInstructions(components, config)
+        : '',
       framework: this.detectedFramework || {
         componentFramework: adapter.type,
         storyFramework: adapter.supportedStoryFrameworks[0],
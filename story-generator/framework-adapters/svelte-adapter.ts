@@ -230,6 +230,8 @@ SVELTE 5 TEMPLATE SYNTAX:
 - Loops: {#each items as item}...{/each}
 - Classes: class="flex gap-2" (use Tailwind classes)
 - Snippets: {#snippet name(args)}...{/snippet}
+- Pass only the props listed for a component in the reference, with values from its options
+- Fill a component's named snippets with {#snippet name()}...{/snippet} between its tags
 
 ${this.getCommonRules()}`;
   }
@@ -397,6 +399,43 @@ ${this.getCommonRules()}`;
 `;
   }
 
+  /**
+   * Format a component entry in Svelte terms: typed props, the snippets it
+   * renders (a default slot is the `children` snippet) and its events
+   */
+  protected formatComponentEntry(
+    component: DiscoveredComponent,
+    config: StoryUIConfig
+  ): string {
+    if (!component.propTypes?.length && !component.events?.length && !component.slots?.length) {
+      return super.formatComponentEntry(component, config);
+    }
+
+    let entry = `- **${component.name}** (import from '${this.getImportPath(component, config)}')`;
+
+    const props = this.formatPropList(component);
+    if (props) {
+      entry += `\n  Props: ${props}`;
+    }
+
+    if (component.slots?.length) {
+      const snippets = component.slots.map(slot =>
+        slot === 'default' || slot === 'children' ? 'children' : `{#snippet ${slot}()}`);
+      entry += `\n  Snippets: ${Array.from(new Set(snippets)).join(', ')}`;
+    }
+
+    if (component.events?.length) {
+      const events = component.events.map(event => `${event.name}${event.payload ? ` (${event.payload})` : ''}`);
+      entry += `\n  Events: ${events.join(', ')}`;
+    }
+
+    if (component.description) {
+      entry += `\n  ${component.description}`;
+    }
+
+    return entry;
+  }
+
   getStoryTemplate(options?: StoryGenerationOptions): string {
     return `
 <script module>
@@ -416,6 +455,21 @@ ${this.getCommonRules()}`;
 `;
   }
 
+  /**
+   * Play functions are a Story prop; helpers are imported in the module script
+   */
+  protected getPlayFunctionExample(): string {
+    return `Play function example (import { expect, userEvent, within } from '@storybook/test' inside <script module>):
+<Story name="Filled In" play={async ({ canvasElement }) => {
+  const canvas = within(canvasElement);
+  await userEvent.type(canvas.getByLabelText('Email'), 'jane@example.com');
+  await userEvent.click(canvas.getByRole('button', { name: 'Subscribe' }));
+  await expect(canvas.getByLabelText('Email')).toHaveValue('jane@example.com');
+}}>
+  ...story markup...
+</Story>`;
+  }
+
   /**
    * Post-process Svelte stories
    */
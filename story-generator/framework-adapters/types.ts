@@ -83,6 +83,8 @@ export interface FrameworkPrompt {
   examples: string;
   /** Sample story template */
   sampleStory: string;
+  /** Play-function instructions (empty unless interaction tests are requested) */
+  interactionTests: string;
   /** Framework metadata */
   framework: DetectedFramework;
 }
@@ -99,10 +101,21 @@ export interface StoryGenerationOptions {
   typescript?: boolean;
   /** Include story documentation */
   includeDocumentation?: boolean;
-  /** Include accessibility tests */
+  /**
+   * Include accessibility requirements in the prompt; the generation routes
+   * also audit the story and add Storybook a11y addon parameters
+   */
   includeA11yTests?: boolean;
-  /** Include interaction tests */
+  /**
+   * Instruct the model to add play functions (@storybook/test) to stories
+   * that render form and navigation components
+   */
   includeInteractionTests?: boolean;
+  /**
+   * 'full' lists every component with its props; 'index' lists names only,
+   * for tool-calling generation where props are looked up on demand
+   */
+  componentReference?: 'full' | 'index';
 }
 
 /**
@@ -140,6 +153,11 @@ export interface FrameworkAdapter {
     config: StoryUIConfig
   ): string;
 
+  /**
+   * Generate a compact component index (names only, grouped by package)
+   */
+  generateComponentIndex(components: DiscoveredComponent[]): string;
+
   /**
    * Generate example stories
    */
@@ -153,6 +171,14 @@ export interface FrameworkAdapter {
     components: DiscoveredComponent[]
   ): string;
 
+  /**
+   * Generate play-function instructions for interaction tests
+   */
+  generateInteractionTestInstructions(
+    components: DiscoveredComponent[],
+    config: StoryUIConfig
+  ): string;
+
   /**
    * Generate import statements for components
    */
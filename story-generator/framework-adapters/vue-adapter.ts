@@ -388,6 +388,41 @@ export const Default: Story = {
 `;
   }
 
+  /**
+   * Format a component entry in Vue terms: typed props, `@event` listeners
+   * and `#slot` templates
+   */
+  protected formatComponentEntry(
+    component: DiscoveredComponent,
+    config: StoryUIConfig
+  ): string {
+    if (!component.propTypes?.length && !component.events?.length && !component.slots?.length) {
+      return super.formatComponentEntry(component, config);
+    }
+
+    let entry = `- **${component.name}** (import from '${this.getImportPath(component, config)}')`;
+
+    const props = this.formatPropList(component);
+    if (props) {
+      entry += `\n  Props: ${props}`;
+    }
+
+    if (component.events?.length) {
+      const events = component.events.map(event => `@${event.name}${event.payload ? `(${event.payload})` : ''}`);
+      entry += `\n  Events: ${events.join(', ')}`;
+    }
+
+    if (component.slots?.length) {
+      entry += `\n  Slots: ${component.slots.map(slot => `#${slot}`).join(', ')}`;
+    }
+
+    if (component.description) {
+      entry += `\n  ${component.description}`;
+    }
+
+    return entry;
+  }
+
   /**
    * Post-process Vue stories
    */
@@ -13,7 +13,7 @@ import {
 } from './types.js';
 import { BaseFrameworkAdapter } from './base-adapter.js';
 import { StoryUIConfig } from '../../story-ui.config.js';
-import { DiscoveredComponent } from '../componentDiscovery.js';
+import { DiscoveredComponent, PropInfo } from '../componentDiscovery.js';
 
 export class WebComponentsAdapter extends BaseFrameworkAdapter {
   readonly type: FrameworkType = 'web-components';
@@ -181,6 +181,7 @@ CRITICAL RULES:
 - Use kebab-case for tag names
 - Use .property for property binding, attribute for attributes
 - Use @event for event handlers
+- Style component internals ONLY with the listed ::part() names and CSS custom properties, never with selectors into the shadow root
 
 Example structure:
 \`\`\`typescript
@@ -232,6 +233,16 @@ SLOTS:
 - Named slots: Use slot="name" attribute
 - Example: <my-card><span slot="header">Title</span>Content</my-card>
 
+EVENTS:
+- Custom events carry their data in event.detail: @my-change=\${(e: CustomEvent) => console.log(e.detail)}
+- To log events in the Actions panel, add argTypes: { onMyChange: { action: 'my-change' } } and bind @my-change=\${args.onMyChange}
+
+THEMING WITH CSS PARTS AND CUSTOM PROPERTIES:
+- Shadow DOM hides a component's internals from outside selectors
+- Style internals through the CSS parts listed for the component: my-button::part(base) { border-radius: 0; }
+- Set the CSS custom properties listed for the component: <my-button style="--my-button-radius: 0"></my-button>
+- Put theme rules in a <style> element inside the story template
+
 ${this.getCommonRules()}`;
   }
 
@@ -338,6 +349,31 @@ export const WithClickHandler: Story = {
   \`,
 };
 \`\`\`
+
+### Theming with CSS Parts and Custom Properties
+\`\`\`typescript
+import { html } from 'lit';
+import type { Meta, StoryObj } from '@storybook/web-components';
+import 'your-library/button';
+
+const meta: Meta = {
+  title: 'Components/Button',
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Themed: Story = {
+  render: () => html\`
+    <style>
+      .brand { --my-button-radius: 999px; }
+      .brand::part(base) { background: #4f46e5; color: white; }
+      .brand::part(label) { text-transform: uppercase; }
+    </style>
+    <my-button class="brand">Brand button</my-button>
+  \`,
+};
+\`\`\`
 `;
   }
 
@@ -367,29 +403,166 @@ export const Default: Story = {
 `;
     }
 
-    // Convert PascalCase to kebab-case for tag name
-    const tagName = this.toKebabCase(firstComponent.name);
+    // Prefer the manifest's tag name; otherwise convert PascalCase to kebab-case
+    const tagName = firstComponent.selector || this.toKebabCase(firstComponent.name);
+
+    // Controls for attributes with a simple value, and an action per event
+    const controls = (firstComponent.propTypes || [])
+      .filter(prop => prop.attribute && (prop.options?.length || ['boolean', 'number', 'string'].includes(prop.type)))
+      .slice(0, 6);
+    const events = (firstComponent.events || []).slice(0, 4);
+    const argTypes = [
+      ...controls.map(prop => `    ${this.argKey(prop.name)}: ${this.sampleArgType(prop)},`),
+      ...events.map(event => `    ${this.eventArgName(event.name)}: { action: '${event.name}' },`),
+    ];
+    const args = controls
+      .filter(prop => prop.defaultValue !== undefined)
+      .map(prop => `${this.argKey(prop.name)}: ${typeof prop.defaultValue === 'string' ? `'${prop.defaultValue}'` : String(prop.defaultValue)}`);
+    const bindings = [
+      ...controls.map(prop => {
+        const value = this.argKey(prop.name) === prop.name ? `args.${prop.name}` : `args[${this.argKey(prop.name)}]`;
+        return `${prop.type === 'boolean' ? '?' : ''}${prop.attribute}=\${${value}}`;
+      }),
+      ...events.map(event => `@${event.name}=\${args.${this.eventArgName(event.name)}}`),
+    ];
+
+    // Theme through the element's custom properties and shadow parts
+    const themeRules = [
+      ...(firstComponent.cssProperties || []).slice(0, 4)
+        .map(property => `      .themed { ${property.name}: ${property.defaultValue || 'initial'}; }`),
+      ...(firstComponent.cssParts || []).slice(0, 4)
+        .map(part => `      .themed::part(${part.name}) { outline: 2px dashed currentColor; }`),
+    ];
+    const themed = themeRules.length ? `
+
+export const Themed: Story = {
+  render: () => html\`
+    <style>
+${themeRules.join('\n')}
+    </style>
+    <${tagName} class="themed"></${tagName}>
+  \`,
+};` : '';
 
     return `
 import { html } from 'lit';
 import type { Meta, StoryObj } from '@storybook/web-components';
-import '${lib}/${tagName}';
+import '${lib}/${this.toKebabCase(firstComponent.name)}';
 
 const meta: Meta = {
   title: 'Components/${firstComponent.name}',
+  component: '${tagName}',
   tags: ['autodocs'],
-  parameters: { layout: 'centered' },
+  parameters: { layout: 'centered' },${argTypes.length ? `
+  argTypes: {
+${argTypes.join('\n')}
+  },` : ''}${args.length ? `
+  args: { ${args.join(', ')} },` : ''}
 };
 
 export default meta;
 type Story = StoryObj;
 
 export const Default: Story = {
-  render: () => html\`<${tagName}></${tagName}>\`,
-};
+  render: (${bindings.length ? 'args' : ''}) => html\`<${tagName}${bindings.map(binding => ` ${binding}`).join('')}></${tagName}>\`,
+};${themed}
 `;
   }
 
+  /**
+   * Object key for an arg: attribute-only props keep their kebab-case name
+   */
+  private argKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+  }
+
+  /**
+   * A Storybook argType for an attribute-backed prop
+   */
+  private sampleArgType(prop: PropInfo): string {
+    if (prop.options?.length) {
+      return `{ control: 'select', options: [${prop.options.map(option => `'${option}'`).join(', ')}] }`;
+    }
+    return `{ control: '${prop.type === 'string' ? 'text' : prop.type}' }`;
+  }
+
+  /**
+   * Arg that logs an event: `sl-change` → `onSlChange`
+   */
+  private eventArgName(eventName: string): string {
+    return `on${eventName.split(/[^A-Za-z0-9]+/).filter(Boolean).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')}`;
+  }
+
+  /**
+   * Describe the element's full public API as recorded in its custom
+   * elements manifest: tag, attributes vs properties, events, slots and the
+   * CSS parts and custom properties it can be themed through
+   */
+  protected formatComponentEntry(
+    component: DiscoveredComponent,
+    config: StoryUIConfig
+  ): string {
+    if (!component.selector && !component.propTypes?.length && !component.events?.length
+      && !component.cssParts?.length && !component.cssProperties?.length) {
+      return super.formatComponentEntry(component, config);
+    }
+
+    let entry = `- **${component.name}** (import from '${this.getImportPath(component, config)}')`;
+
+    if (component.selector) {
+      entry += `\n  Tag: <${component.selector}>`;
+    }
+
+    const propTypes = component.propTypes || [];
+    const attributes = propTypes.filter(prop => prop.attribute);
+    const properties = propTypes.filter(prop => !prop.attribute);
+    if (attributes.length) {
+      const byName = new Map(attributes.map(prop => [prop.name, prop]));
+      const list = this.formatPropList({ ...component, propTypes: attributes }, name => {
+        const prop = byName.get(name)!;
+        return `${prop.type === 'boolean' ? '?' : ''}${prop.attribute}${prop.reflects ? ' (reflected)' : ''}`;
+      });
+      entry += `\n  Attributes: ${list}`;
+    }
+    if (properties.length) {
+      entry += `\n  Properties: ${this.formatPropList({ ...component, propTypes: properties }, name => `.${name}`)}`;
+    } else if (!propTypes.length && component.props.length) {
+      entry += `\n  Props: ${this.formatPropList(component)}`;
+    }
+
+    if (component.events?.length) {
+      const events = component.events.map(event => `@${event.name}${event.payload ? ` (detail: ${event.payload})` : ''}`);
+      entry += `\n  Events: ${events.join(', ')}`;
+    }
+
+    if (component.slots?.length) {
+      const slots = component.slots.map(slot => slot === 'default' ? 'default' : `slot="${slot}"`);
+      entry += `\n  Slots: ${slots.join(', ')}`;
+    }
+
+    if (component.cssParts?.length) {
+      const parts = component.cssParts.map(part => `::part(${part.name})${part.description ? ` - ${part.description}` : ''}`);
+      entry += `\n  CSS parts: ${parts.join('; ')}`;
+    }
+
+    if (component.cssProperties?.length) {
+      const properties = component.cssProperties.map(property => {
+        let text = property.name;
+        if (property.syntax) text += `: ${property.syntax}`;
+        if (property.defaultValue) text += ` (default: ${property.defaultValue})`;
+        if (property.description) text += ` - ${property.description}`;
+        return text;
+      });
+      entry += `\n  CSS custom properties: ${properties.join('; ')}`;
+    }
+
+    if (component.description) {
+      entry += `\n  ${component.description}`;
+    }
+
+    return entry;
+  }
+
   getStoryTemplate(options?: StoryGenerationOptions): string {
     return `
 // {{componentName}}.stories.ts
@@ -414,6 +587,25 @@ export const Default: Story = {
 
   // toKebabCase inherited from BaseFrameworkAdapter
 
+  /**
+   * Queries don't reach into shadow roots, so interact with the host element
+   * or query its shadowRoot directly
+   */
+  protected getPlayFunctionExample(): string {
+    return `Play function example (testing-library queries do not pierce shadow DOM):
+export const FilledIn: Story = {
+  render: () => html\`<form><label>Email <input type="email" /></label><my-button>Subscribe</my-button></form>\`,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.type(canvas.getByLabelText('Email'), 'jane@example.com');
+    await userEvent.click(canvas.getByText('Subscribe'));
+    await expect(canvas.getByLabelText('Email')).toHaveValue('jane@example.com');
+  },
+};
+- Query light-DOM content (slotted text, native inputs) with within(canvasElement)
+- For elements inside a component's shadow root, use canvasElement.querySelector('my-element')!.shadowRoot!.querySelector(...)`;
+  }
+
   /**
    * Post-process Web Components stories
    */
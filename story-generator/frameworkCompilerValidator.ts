@@ -0,0 +1,349 @@
+/**
+ * Framework Compiler Validator
+ *
+ * Runs generated Vue, Svelte and Angular stories through the framework's own
+ * compiler, so template errors the TypeScript parse can't see (unclosed
+ * tags, invalid directives, broken bindings and control flow) are caught
+ * before the story is saved:
+ * - Vue: `template:` strings in CSF stories and .vue SFCs with @vue/compiler-sfc
+ * - Svelte: .stories.svelte files (addon-svelte-csf defineMeta) with svelte/compiler
+ * - Angular: `template:` strings with @angular/compiler's parseTemplate
+ *
+ * Compiler errors are mapped back to lines of the story file and merged into
+ * the syntax errors of the self-healing loop.
+ *
+ * The compilers are resolved from the user's project (every Vue, Svelte and
+ * Angular project installs them); when they can't be found the check is skipped.
+ */
+
+import path from 'path';
+import * as ts from 'typescript';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { StoryUIConfig } from '../story-ui.config.js';
+import type { ValidationError } from './storyValidator.js';
+import type { ValidationResult } from './validateStory.js';
+import { toDiagnostic, formatDiagnostic } from './diagnostics.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type StoryCompiler = 'vue' | 'svelte' | 'angular';
+
+export interface CompilerFinding extends ValidationError {
+  compiler: StoryCompiler;
+  /** 1-based, when the compiler reports one */
+  column?: number;
+}
+
+export interface CompilerValidationResult {
+  /** False when no compiler ran (see skippedReason) */
+  checked: boolean;
+  skippedReason?: string;
+  compiler?: StoryCompiler;
+  errors: CompilerFinding[];
+}
+
+/** A template string found in a story, with the story position its text starts at */
+interface EmbeddedTemplate {
+  source: string;
+  line: number;
+  /** 0-based column of the first template character */
+  column: number;
+}
+
+/** Error location shapes reported by the three compilers */
+interface VueCompilerError {
+  message: string;
+  loc?: { start: { line: number; column: number } };
+}
+
+interface VueCompilerSfc {
+  parse(source: string, options: Record<string, unknown>): {
+    descriptor: {
+      template: { content: string; loc: { start: { line: number } } } | null;
+      script: unknown;
+      scriptSetup: unknown;
+    };
+    errors: Array<VueCompilerError | SyntaxError>;
+  };
+  compileTemplate(options: Record<string, unknown>): { errors: Array<string | VueCompilerError> };
+  compileScript(descriptor: unknown, options: Record<string, unknown>): unknown;
+}
+
+interface SvelteCompiler {
+  compile(source: string, options: Record<string, unknown>): unknown;
+}
+
+interface AngularParseError {
+  msg: string;
+  level?: number;
+  span?: { start: { line: number; col: number } };
+}
+
+interface AngularCompiler {
+  parseTemplate(template: string, templateUrl: string, options?: Record<string, unknown>): {
+    errors: AngularParseError[] | null;
+  };
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const COMPILER_MODULES: Record<StoryCompiler, string[]> = {
+  vue: ['@vue/compiler-sfc', 'vue/compiler-sfc'],
+  svelte: ['svelte/compiler'],
+  angular: ['@angular/compiler'],
+};
+
+const COMPILER_LABELS: Record<StoryCompiler, string> = {
+  vue: 'vue template compiler',
+  svelte: 'svelte compiler',
+  angular: 'angular template parser',
+};
+
+/** Angular's ParseErrorLevel.WARNING */
+const ANGULAR_WARNING_LEVEL = 0;
+
+/** Stands in for `${...}` substitutions so the surrounding markup still parses */
+const SUBSTITUTION_PLACEHOLDER = '_';
+
+const MAX_ERRORS = 5;
+
+// ── State ──────────────────────────────────────────────────────────────────
+
+/** Loaded compiler modules by resolved path (undefined when the import failed) */
+const moduleCache = new Map<string, Promise<unknown>>();
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function skipped(reason: string, compiler?: StoryCompiler): CompilerValidationResult {
+  return { checked: false, skippedReason: reason, compiler, errors: [] };
+}
+
+function tryResolve(require: NodeRequire, id: string): string | undefined {
+  try {
+    return require.resolve(id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load a compiler from the project, falling back to this package's own
+ * dependencies. Uses import() since @angular/compiler ships only ES modules.
+ */
+async function loadCompiler<T>(compiler: StoryCompiler, projectRoot: string): Promise<T | undefined> {
+  const requires = [createRequire(path.join(projectRoot, 'package.json')), createRequire(import.meta.url)];
+  for (const require of requires) {
+    for (const id of COMPILER_MODULES[compiler]) {
+      const resolved = tryResolve(require, id);
+      if (!resolved) continue;
+      if (!moduleCache.has(resolved)) {
+        moduleCache.set(resolved, import(pathToFileURL(resolved).href).catch(() => undefined));
+      }
+      const loaded = await moduleCache.get(resolved) as Record<string, any> | undefined;
+      if (loaded) {
+        // CommonJS builds expose their API on the default export
+        return (loaded.default && typeof loaded.default === 'object' ? { ...loaded.default, ...loaded } : loaded) as T;
+      }
+    }
+  }
+  return undefined;
+}
+
+function compilerFor(framework: string, fileName: string): StoryCompiler | undefined {
+  if (fileName.endsWith('.svelte')) return 'svelte';
+  if (fileName.endsWith('.vue')) return 'vue';
+  if (!/\.[cm]?[jt]sx?$/.test(fileName)) return undefined;
+  if (framework === 'vue') return 'vue';
+  if (framework === 'angular') return 'angular';
+  return undefined;
+}
+
+function firstLine(message: string): string {
+  return message.split('\n')[0].trim();
+}
+
+function finding(compiler: StoryCompiler, message: string, line: number, column?: number): CompilerFinding {
+  return { compiler, rule: compiler, message: `${firstLine(message)} (${COMPILER_LABELS[compiler]})`, line, column };
+}
+
+/**
+ * Collect the `template:` property values of a TS/JS story (Vue and Angular
+ * render functions, Angular @Component metadata). Substitutions in template
+ * literals are replaced with a placeholder; newlines are kept so compiler
+ * line numbers map back onto the story.
+ */
+function findEmbeddedTemplates(code: string, fileName: string): EmbeddedTemplate[] {
+  const scriptKind = /x$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const templates: EmbeddedTemplate[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name)) &&
+      node.name.text === 'template'
+    ) {
+      const value = node.initializer;
+      const start = value.getStart(sourceFile);
+      const position = sourceFile.getLineAndCharacterOfPosition(start + 1);
+      const line = position.line + 1;
+      const column = position.character;
+
+      if (ts.isStringLiteral(value)) {
+        templates.push({ source: value.text, line, column });
+      } else if (ts.isNoSubstitutionTemplateLiteral(value)) {
+        templates.push({ source: code.slice(start + 1, value.getEnd() - 1), line, column });
+      } else if (ts.isTemplateExpression(value)) {
+        let source = '';
+        let cursor = start + 1;
+        for (const span of value.templateSpans) {
+          // `${` precedes the expression; the closing `}` opens the literal that follows it
+          const substitutionStart = span.expression.getFullStart() - 2;
+          const substitutionEnd = span.literal.getStart(sourceFile) + 1;
+          const newlines = code.slice(substitutionStart, substitutionEnd).replace(/[^\n]/g, '');
+          source += code.slice(cursor, substitutionStart) + SUBSTITUTION_PLACEHOLDER + newlines;
+          cursor = substitutionEnd;
+        }
+        templates.push({ source: source + code.slice(cursor, value.getEnd() - 1), line, column });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return templates;
+}
+
+/**
+ * Map a position inside an embedded template (1-based line and column) onto
+ * the story; the first template line continues the line of the opening quote
+ */
+function templatePosition(template: EmbeddedTemplate, line: number, column?: number): [number, number | undefined] {
+  if (column === undefined) return [template.line + line - 1, undefined];
+  return [template.line + line - 1, line === 1 ? template.column + column : column];
+}
+
+function vueError(error: string | VueCompilerError | SyntaxError, template?: EmbeddedTemplate, lineOffset = 0): CompilerFinding {
+  if (typeof error === 'string') return finding('vue', error, template ? template.line : lineOffset + 1);
+  // Vue positions are 1-based
+  const loc = (error as VueCompilerError).loc?.start;
+  const [line, column] = template
+    ? templatePosition(template, loc?.line ?? 1, loc?.column)
+    : [lineOffset + (loc?.line ?? 1), loc?.column];
+  return finding('vue', error.message, line, column);
+}
+
+function compileVueTemplates(compiler: VueCompilerSfc, code: string, fileName: string): CompilerFinding[] {
+  return findEmbeddedTemplates(code, fileName).flatMap(template => {
+    const { errors } = compiler.compileTemplate({ source: template.source, filename: fileName, id: 'story-ui' });
+    return errors.map(error => vueError(error, template));
+  });
+}
+
+function compileVueSfc(compiler: VueCompilerSfc, code: string, fileName: string): CompilerFinding[] {
+  const { descriptor, errors } = compiler.parse(code, { filename: fileName, sourceMap: false });
+  if (errors.length > 0) {
+    return errors.map(error => vueError(error));
+  }
+
+  const findings: CompilerFinding[] = [];
+  if (descriptor.template) {
+    const lineOffset = descriptor.template.loc.start.line - 1;
+    const result = compiler.compileTemplate({ source: descriptor.template.content, filename: fileName, id: 'story-ui' });
+    findings.push(...result.errors.map(error => vueError(error, undefined, lineOffset)));
+  }
+  if (descriptor.script || descriptor.scriptSetup) {
+    try {
+      compiler.compileScript(descriptor, { id: 'story-ui' });
+    } catch (error: any) {
+      findings.push(vueError(error));
+    }
+  }
+  return findings;
+}
+
+function compileSvelte(compiler: SvelteCompiler, code: string, fileName: string): CompilerFinding[] {
+  try {
+    compiler.compile(code, { filename: fileName, generate: false });
+    return [];
+  } catch (error: any) {
+    // Svelte 5 CompileError and Svelte 4 errors both carry a start position (1-based line, 0-based column)
+    const start = error?.start as { line: number; column: number } | undefined;
+    if (!start && typeof error?.code !== 'string') throw error;
+    return [finding('svelte', error.message ?? String(error), start?.line ?? 1, start ? start.column + 1 : undefined)];
+  }
+}
+
+function parseAngularTemplates(compiler: AngularCompiler, code: string, fileName: string): CompilerFinding[] {
+  return findEmbeddedTemplates(code, fileName).flatMap(template => {
+    const { errors } = compiler.parseTemplate(template.source, fileName, { preserveWhitespaces: true });
+    return (errors ?? [])
+      .filter(error => error.level !== ANGULAR_WARNING_LEVEL)
+      .map(error => {
+        // Angular locations are 0-based
+        const start = error.span?.start;
+        const [line, column] = templatePosition(template, (start?.line ?? 0) + 1, start ? start.col + 1 : undefined);
+        return finding('angular', error.msg, line, column);
+      });
+  });
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Compile a generated story with its framework's compiler. Never throws: a
+ * missing compiler or an unexpected compiler failure skips the check.
+ */
+export async function validateFrameworkCompilation(
+  code: string,
+  fileName: string,
+  framework: string,
+  config?: StoryUIConfig,
+  projectRoot: string = process.cwd()
+): Promise<CompilerValidationResult> {
+  if (config?.compilerCheck?.enabled === false) {
+    return skipped('Compiler check is disabled');
+  }
+  const compiler = compilerFor(framework, fileName);
+  if (!compiler) {
+    return skipped(`No compiler check for ${framework} stories`);
+  }
+
+  try {
+    let errors: CompilerFinding[];
+    if (compiler === 'vue') {
+      const vue = await loadCompiler<VueCompilerSfc>('vue', projectRoot);
+      if (!vue?.compileTemplate) return skipped('@vue/compiler-sfc is not installed', compiler);
+      errors = fileName.endsWith('.vue') ? compileVueSfc(vue, code, fileName) : compileVueTemplates(vue, code, fileName);
+    } else if (compiler === 'svelte') {
+      const svelte = await loadCompiler<SvelteCompiler>('svelte', projectRoot);
+      if (!svelte?.compile) return skipped('svelte is not installed', compiler);
+      errors = compileSvelte(svelte, code, fileName);
+    } else {
+      const angular = await loadCompiler<AngularCompiler>('angular', projectRoot);
+      if (!angular?.parseTemplate) return skipped('@angular/compiler is not installed', compiler);
+      errors = parseAngularTemplates(angular, code, fileName);
+    }
+    return { checked: true, compiler, errors: errors.slice(0, MAX_ERRORS) };
+  } catch (error) {
+    // The compiler check is an extra safety net; never fail a generation because of it
+    logger.warn(`Framework compiler check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return skipped('Compiler check error', compiler);
+  }
+}
+
+/**
+ * Add compiler errors to the AST validation result, so they reach the
+ * self-healing loop as syntax errors and gate the later checks.
+ */
+export function mergeCompilerErrors(astResult: ValidationResult, findings: CompilerFinding[]): ValidationResult {
+  if (findings.length === 0) return astResult;
+  return {
+    ...astResult,
+    isValid: false,
+    errors: [...astResult.errors, ...findings.map(f => formatDiagnostic(toDiagnostic('compiler', f)))],
+    compilerErrors: [...(astResult.compilerErrors ?? []), ...findings],
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Headless Render Harness
+ *
+ * The part of the headless render check that runs inside the render worker
+ * (see headlessRenderValidator.ts). It is bundled by esbuild together with
+ * the generated story and evaluated in the same vm context, so it must not
+ * import anything at runtime: React, the DOM emulation and util.format are
+ * handed in by the worker.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+type CsfExports = Record<string, any>;
+
+type StoryFn = (context: Record<string, any>) => unknown;
+
+/** What the worker provides to the harness */
+export interface RenderEnvironment {
+  require: (id: string) => any;
+  format: (...args: unknown[]) => string;
+}
+
+/** Raw outcome of a render; headlessRenderValidator.ts maps it to a result */
+export interface RenderOutcome {
+  /** Set when the story module threw while loading */
+  loadError?: string;
+  missingMeta?: boolean;
+  storyNames: string[];
+  /** Export names of the stories that rendered without throwing */
+  renderedStories: string[];
+  failures: string[];
+  warnings: string[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const MAX_WARNINGS = 5;
+const MAX_MESSAGE_LENGTH = 300;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function tryRequire<T>(require: RenderEnvironment['require'], id: string): T | undefined {
+  try {
+    return require(id) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function truncate(message: string): string {
+  const firstLines = message.split('\n').slice(0, 3).join('\n');
+  return firstLines.length > MAX_MESSAGE_LENGTH ? `${firstLines.slice(0, MAX_MESSAGE_LENGTH)}...` : firstLines;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  return String(error);
+}
+
+/**
+ * Install the window globals of happy-dom or jsdom (whichever the project
+ * has) on globalThis. Returns a function that removes them again.
+ */
+function installDomEnvironment(require: RenderEnvironment['require']): (() => void) | undefined {
+  let window: any;
+  const happyDom = tryRequire<any>(require, 'happy-dom');
+  const jsdom = happyDom ? undefined : tryRequire<any>(require, 'jsdom');
+  if (happyDom?.Window) {
+    window = new happyDom.Window({ url: 'http://localhost/' });
+  } else if (jsdom?.JSDOM) {
+    window = new jsdom.JSDOM('<!doctype html><html><head></head><body></body></html>', {
+      url: 'http://localhost/',
+      pretendToBeVisual: true,
+    }).window;
+  }
+  if (!window) return undefined;
+
+  const names = new Set<string>(['window', 'self', 'document']);
+  for (let target = window; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    Object.getOwnPropertyNames(target).forEach(name => names.add(name));
+  }
+
+  const installed: string[] = [];
+  for (const name of names) {
+    // Never replace the globals the worker provides (timers, console, ...)
+    if (name in globalThis) continue;
+    try {
+      const value = name === 'window' || name === 'self' ? window : window[name];
+      Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+      installed.push(name);
+    } catch {
+      // Some window getters throw outside a browsing context
+    }
+  }
+
+  return () => {
+    for (const name of installed) {
+      delete (globalThis as any)[name];
+    }
+    window.happyDOM?.abort?.();
+    window.close?.();
+  };
+}
+
+/**
+ * Capture console.error / console.warn output (React reports warnings there)
+ */
+function captureConsole(format: RenderEnvironment['format']): { messages: string[]; restore: () => void } {
+  const messages: string[] = [];
+  const { error, warn } = console;
+  console.error = (...args: unknown[]) => { messages.push(format(...args)); };
+  console.warn = (...args: unknown[]) => { messages.push(format(...args)); };
+  return {
+    messages,
+    restore: () => {
+      console.error = error;
+      console.warn = warn;
+    },
+  };
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isStoryExport(name: string, value: unknown, meta: CsfExports): boolean {
+  if (name === 'default' || name === '__esModule') return false;
+  if (typeof value !== 'function' && (typeof value !== 'object' || value === null)) return false;
+  const matches = (filter: unknown) => filter instanceof RegExp ? filter.test(name) : Array.isArray(filter) && filter.includes(name);
+  if (meta.includeStories !== undefined && !matches(meta.includeStories)) return false;
+  return !(meta.excludeStories !== undefined && matches(meta.excludeStories));
+}
+
+/**
+ * Compose a CSF story the way Storybook does: preview, meta and story args
+ * and parameters are merged, and decorators wrap the render function (story
+ * decorators innermost, preview decorators outermost).
+ */
+function composeStory(React: any, name: string, story: any, meta: CsfExports, preview: CsfExports): unknown {
+  const annotations = typeof story === 'function'
+    ? { render: story, args: story.args, decorators: story.decorators, parameters: story.parameters, storyName: story.storyName }
+    : story;
+
+  const context: Record<string, any> = {
+    id: `${String(meta.title ?? 'story').toLowerCase().replace(/[^a-z0-9]+/g, '-')}--${name.toLowerCase()}`,
+    name: annotations.name ?? annotations.storyName ?? name,
+    title: meta.title,
+    args: { ...preview.args, ...meta.args, ...annotations.args },
+    argTypes: { ...preview.argTypes, ...meta.argTypes, ...annotations.argTypes },
+    parameters: { ...preview.parameters, ...meta.parameters, ...annotations.parameters },
+    globals: { ...preview.initialGlobals, ...preview.globals },
+    loaded: {},
+    viewMode: 'story',
+  };
+
+  const render = annotations.render ?? meta.render ?? preview.render ?? ((args: Record<string, unknown>) => {
+    if (!meta.component) {
+      throw new Error('Story has no render function and the default export has no component');
+    }
+    return React.createElement(meta.component, args);
+  });
+
+  let storyFn: StoryFn = ctx => render(ctx.args, ctx);
+  const decorators = [...asArray(annotations.decorators), ...asArray(meta.decorators), ...asArray(preview.decorators)];
+  for (const decorator of decorators) {
+    const inner = storyFn;
+    storyFn = ctx => {
+      const Story = (update?: Record<string, any>) => inner(
+        update && typeof update === 'object' && update.args ? { ...ctx, ...update, args: { ...ctx.args, ...update.args } } : ctx
+      );
+      return decorator(Story, ctx);
+    };
+  }
+
+  // Render inside a component so hooks in render functions and decorators work
+  const StoryRoot = () => storyFn(context);
+  return React.createElement(StoryRoot);
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Load the bundled story and preview inside a DOM emulation and render every
+ * story with react-dom/server, collecting thrown errors and logged warnings.
+ */
+export function renderStories(
+  env: RenderEnvironment,
+  load: () => { story: CsfExports; preview: CsfExports }
+): RenderOutcome {
+  const React = env.require('react');
+  const server = env.require('react-dom/server');
+  const outcome: RenderOutcome = { storyNames: [], renderedStories: [], failures: [], warnings: [] };
+
+  const removeDom = installDomEnvironment(env.require);
+  const capturedConsole = captureConsole(env.format);
+  try {
+    let exports: { story: CsfExports; preview: CsfExports };
+    try {
+      exports = load();
+    } catch (error) {
+      return { ...outcome, loadError: truncate(errorMessage(error)) };
+    }
+
+    const meta: CsfExports = exports.story.default;
+    const preview: CsfExports = exports.preview.default ?? exports.preview;
+    if (!meta || typeof meta !== 'object') {
+      return { ...outcome, missingMeta: true };
+    }
+
+    outcome.storyNames = Object.keys(exports.story).filter(name => isStoryExport(name, exports.story[name], meta));
+    for (const name of outcome.storyNames) {
+      try {
+        server.renderToString(composeStory(React, name, exports.story[name], meta, preview));
+        outcome.renderedStories.push(name);
+      } catch (error) {
+        outcome.failures.push(`Story "${name}" threw: ${truncate(errorMessage(error))}`);
+      }
+    }
+
+    outcome.warnings = Array.from(new Set(capturedConsole.messages.map(truncate))).slice(0, MAX_WARNINGS);
+    return outcome;
+  } finally {
+    capturedConsole.restore();
+    removeDom?.();
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Headless Render Validator
+ *
+ * Renders generated React stories without a running Storybook. The story is
+ * bundled with esbuild together with the project's Storybook preview, each
+ * story is composed with its args and decorators, and rendered with
+ * react-dom/server inside a DOM emulation (happy-dom or jsdom, when
+ * installed). Thrown render errors and React warnings are mapped to a
+ * RuntimeValidationResult, so they feed the same self-healing path as the
+ * live Storybook check in runtimeValidator.ts.
+ *
+ * The check runs model-written code, so it is opt-in (renderCheck.enabled).
+ * The code runs in a worker thread without environment variables, which is
+ * terminated after renderCheck.timeoutMs. Inside it, the bundle is evaluated
+ * in its own vm context without process, fetch or Node's require; its require
+ * only loads React and the DOM emulation (see headlessRenderHarness.ts).
+ * None of this is a security boundary: a vm context can be escaped, so only
+ * enable the check where the model's output may run with the server's
+ * privileges.
+ *
+ * esbuild, React and the DOM emulation are resolved from the user's project
+ * (Storybook installs esbuild); when they can't be found the check is skipped.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { createRequire } from 'module';
+import type { StoryUIConfig } from '../story-ui.config.js';
+import type { RuntimeValidationResult } from './runtimeValidator.js';
+import type { RenderOutcome } from './headlessRenderHarness.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface HeadlessRenderResult extends RuntimeValidationResult {
+  /** False when the story was not rendered (see skippedReason) */
+  checked: boolean;
+  skippedReason?: string;
+  /** Export names of the stories that rendered without throwing */
+  renderedStories: string[];
+  durationMs: number;
+}
+
+/** The part of the esbuild API used here; esbuild is loaded from the project */
+interface EsbuildMessage {
+  text: string;
+  location?: { file: string; line: number; column: number } | null;
+}
+
+interface Esbuild {
+  build(options: Record<string, unknown>): Promise<{ outputFiles?: Array<{ text: string }> }>;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Provided from the project at runtime so the story and react-dom share one React */
+const REACT_EXTERNALS = ['react', 'react/*', 'react-dom', 'react-dom/*'];
+
+const ASSET_LOADERS: Record<string, string> = {
+  '.css': 'empty', '.scss': 'empty', '.sass': 'empty', '.less': 'empty',
+  '.svg': 'dataurl', '.png': 'dataurl', '.jpg': 'dataurl', '.jpeg': 'dataurl', '.gif': 'dataurl', '.webp': 'dataurl',
+  '.woff': 'empty', '.woff2': 'empty', '.ttf': 'empty', '.eot': 'empty',
+};
+
+const PREVIEW_FILES = ['preview.tsx', 'preview.ts', 'preview.jsx', 'preview.js', 'preview.mjs'];
+
+const STORY_MODULE_ID = 'story-ui:story';
+
+/**
+ * Play functions never run during the render check, so the interaction test
+ * helpers they import are stubbed; fn() still returns a callable for args
+ */
+const STORYBOOK_TEST_MODULE = /^(@storybook\/test|storybook\/test)$/;
+const STORYBOOK_TEST_STUB = [
+  'const noop = () => {};',
+  'export const fn = (impl) => impl || noop;',
+  'export const spyOn = noop;',
+  'export const expect = noop;',
+  'export const within = () => ({});',
+  'export const screen = {};',
+  'export const userEvent = {};',
+  'export const fireEvent = {};',
+  'export const waitFor = noop;',
+].join('\n');
+
+/** Bundled with the story from source (tests) or from dist */
+const HARNESS_FILES = ['headlessRenderHarness.js', 'headlessRenderHarness.ts']
+  .map(file => fileURLToPath(new URL(file, import.meta.url)));
+
+/** The only modules the bundle's require loads */
+const WORKER_MODULES = /^(react|react-dom)(\/.*)?$|^(happy-dom|jsdom)$/;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const WORKER_MEMORY_MB = 512;
+
+/**
+ * Worker entry: evaluates the bundle in a fresh vm context that only gets
+ * timers, text and URL helpers and the console (shared, so React's warnings
+ * are captured), and posts the RenderOutcome returned by the harness
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { createRequire } = require('module');
+const { format } = require('util');
+const path = require('path');
+const vm = require('vm');
+
+const projectRequire = createRequire(path.join(workerData.projectRoot, 'package.json'));
+const allowed = new RegExp(workerData.modules);
+const restrictedRequire = id => {
+  if (!allowed.test(id)) throw new Error('Cannot load "' + id + '" in the render check');
+  return projectRequire(id);
+};
+
+const context = vm.createContext({
+  console,
+  setTimeout, clearTimeout, setInterval, clearInterval, queueMicrotask,
+  TextEncoder, TextDecoder, URL, URLSearchParams,
+});
+const module = { exports: {} };
+vm.runInContext('(function (require, module, exports) {\\n' + workerData.bundle + '\\n})', context, {
+  filename: 'story-ui-headless-render.js',
+})(restrictedRequire, module, module.exports);
+parentPort.postMessage(module.exports({ require: restrictedRequire, format }));
+`;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function tryRequire<T>(require: NodeRequire, id: string): T | undefined {
+  try {
+    return require(id) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function skipped(reason: string): HeadlessRenderResult {
+  return { success: true, storyExists: true, checked: false, skippedReason: reason, renderedStories: [], durationMs: 0 };
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  return String(error);
+}
+
+function findPreview(projectRoot: string, previewPath?: string): string | undefined {
+  if (previewPath) {
+    const resolved = path.resolve(projectRoot, previewPath);
+    return fs.existsSync(resolved) ? resolved : undefined;
+  }
+  return PREVIEW_FILES
+    .map(file => path.join(projectRoot, '.storybook', file))
+    .find(file => fs.existsSync(file));
+}
+
+function loaderFor(fileName: string): string {
+  const extension = path.extname(fileName).slice(1);
+  return ['tsx', 'ts', 'jsx'].includes(extension) ? extension : 'jsx';
+}
+
+function formatBuildErrors(errors: EsbuildMessage[], storyPath: string): string {
+  return errors.slice(0, 3).map(({ text, location }) => {
+    if (!location) return text;
+    return location.file === storyPath || location.file.startsWith('story-ui:')
+      ? `Line ${location.line}: ${text}`
+      : `${location.file}:${location.line}: ${text}`;
+  }).join('\n');
+}
+
+async function bundleStory(
+  esbuild: Esbuild,
+  code: string,
+  storyPath: string,
+  projectRoot: string,
+  previewFile: string | undefined,
+  harnessFile: string
+): Promise<string> {
+  // The story and preview are loaded by the harness, once the DOM emulation is installed
+  const preview = previewFile ? `require(${JSON.stringify(previewFile)})` : '{}';
+  const entry = [
+    `const { renderStories } = require(${JSON.stringify(harnessFile)});`,
+    `module.exports = env => renderStories(env, () => ({ story: require(${JSON.stringify(STORY_MODULE_ID)}), preview: ${preview} }));`,
+  ].join('\n');
+
+  const result = await esbuild.build({
+    stdin: { contents: entry, resolveDir: projectRoot, sourcefile: 'story-ui-render-entry.js', loader: 'js' },
+    bundle: true,
+    write: false,
+    format: 'cjs',
+    platform: 'browser',
+    target: 'es2020',
+    jsx: 'automatic',
+    logLevel: 'silent',
+    external: REACT_EXTERNALS,
+    loader: ASSET_LOADERS,
+    define: {
+      'process.env.NODE_ENV': '"development"',
+      'import.meta.env': '{"MODE":"development","DEV":true,"PROD":false,"SSR":false}',
+    },
+    plugins: [{
+      name: 'story-ui-story',
+      setup(build: any) {
+        build.onResolve({ filter: /^story-ui:story$/ }, () => ({ path: storyPath, namespace: 'story-ui' }));
+        build.onLoad({ filter: /.*/, namespace: 'story-ui' }, () => ({
+          contents: code,
+          loader: loaderFor(storyPath),
+          resolveDir: path.dirname(storyPath),
+        }));
+        build.onResolve({ filter: STORYBOOK_TEST_MODULE }, (args: { path: string }) => ({ path: args.path, namespace: 'story-ui-test' }));
+        build.onLoad({ filter: /.*/, namespace: 'story-ui-test' }, () => ({ contents: STORYBOOK_TEST_STUB, loader: 'js' }));
+      },
+    }],
+  });
+
+  return result.outputFiles?.[0]?.text ?? '';
+}
+
+/**
+ * Run the bundle in a fresh worker. Resolves with undefined when the worker
+ * is terminated for running past the timeout.
+ */
+function runInWorker(bundle: string, projectRoot: string, timeoutMs: number): Promise<RenderOutcome | undefined> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: { bundle, projectRoot, modules: WORKER_MODULES.source },
+      resourceLimits: { maxOldGenerationSizeMb: WORKER_MEMORY_MB },
+    });
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      resolve(undefined);
+    }, timeoutMs);
+    const finish = () => {
+      clearTimeout(timer);
+      void worker.terminate();
+    };
+
+    worker.once('message', (outcome: RenderOutcome) => {
+      finish();
+      resolve(outcome);
+    });
+    worker.once('error', error => {
+      finish();
+      reject(error);
+    });
+    worker.once('exit', code => {
+      finish();
+      reject(new Error(`Render worker exited with code ${code}`));
+    });
+  });
+}
+
+async function renderStory(
+  code: string,
+  config: StoryUIConfig,
+  fileName: string,
+  projectRoot: string
+): Promise<HeadlessRenderResult> {
+  const settings = config.renderCheck ?? {};
+  const projectRequire = createRequire(path.join(projectRoot, 'package.json'));
+  const esbuild = tryRequire<Esbuild>(projectRequire, 'esbuild') ?? tryRequire<Esbuild>(createRequire(import.meta.url), 'esbuild');
+  if (!esbuild) {
+    return skipped('esbuild is not installed');
+  }
+  const server = tryRequire<any>(projectRequire, 'react-dom/server');
+  if (!tryRequire(projectRequire, 'react') || !server?.renderToString) {
+    return skipped('react and react-dom are not installed in the project');
+  }
+  const harnessFile = HARNESS_FILES.find(file => fs.existsSync(file));
+  if (!harnessFile) {
+    return skipped('Render harness not found');
+  }
+
+  const startTime = Date.now();
+  const storiesDir = config.generatedStoriesPath
+    ? path.resolve(projectRoot, config.generatedStoriesPath)
+    : projectRoot;
+  const storyPath = path.join(storiesDir, `__story-ui-render__${fileName.slice(fileName.indexOf('.'))}`);
+  const previewFile = findPreview(projectRoot, settings.previewPath);
+  const elapsed = () => Date.now() - startTime;
+
+  let bundle: string;
+  try {
+    bundle = await bundleStory(esbuild, code, storyPath, projectRoot, previewFile, harnessFile);
+  } catch (error: any) {
+    const renderError = Array.isArray(error?.errors) && error.errors.length > 0
+      ? formatBuildErrors(error.errors, storyPath)
+      : errorMessage(error);
+    return {
+      success: false,
+      storyExists: false,
+      checked: true,
+      errorType: 'module_error',
+      renderError,
+      details: 'The story could not be bundled',
+      renderedStories: [],
+      durationMs: elapsed(),
+    };
+  }
+
+  const timeoutMs = settings.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const outcome = await runInWorker(bundle, projectRoot, timeoutMs);
+  if (!outcome) {
+    return {
+      success: false,
+      storyExists: true,
+      checked: true,
+      errorType: 'timeout',
+      renderError: `The story did not finish rendering within ${timeoutMs}ms`,
+      details: 'Look for render loops or synchronous work that never ends',
+      renderedStories: [],
+      durationMs: elapsed(),
+    };
+  }
+
+  if (outcome.loadError) {
+    return {
+      success: false,
+      storyExists: false,
+      checked: true,
+      errorType: 'module_error',
+      renderError: outcome.loadError,
+      details: 'The story module threw while loading',
+      renderedStories: [],
+      durationMs: elapsed(),
+    };
+  }
+  if (outcome.missingMeta) {
+    return {
+      success: false,
+      storyExists: false,
+      checked: true,
+      errorType: 'module_error',
+      renderError: 'Missing default export (meta)',
+      renderedStories: [],
+      durationMs: elapsed(),
+    };
+  }
+  if (outcome.storyNames.length === 0) {
+    return {
+      success: false,
+      storyExists: false,
+      checked: true,
+      errorType: 'not_found',
+      renderError: 'The file does not export any stories',
+      renderedStories: [],
+      durationMs: elapsed(),
+    };
+  }
+
+  const { failures, warnings, renderedStories } = outcome;
+  const durationMs = elapsed();
+  logger.debug('Headless render finished', { stories: outcome.storyNames.length, failures: failures.length, warnings: warnings.length, durationMs });
+
+  if (failures.length > 0) {
+    return {
+      success: false,
+      storyExists: true,
+      checked: true,
+      errorType: 'render_error',
+      renderError: failures[0],
+      details: failures.length > 1 ? failures.slice(1).join('\n') : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      renderedStories,
+      durationMs,
+    };
+  }
+  if (warnings.length > 0 && settings.failOnWarnings) {
+    return {
+      success: false,
+      storyExists: true,
+      checked: true,
+      errorType: 'render_warning',
+      renderError: warnings[0],
+      warnings,
+      renderedStories,
+      durationMs,
+    };
+  }
+  return {
+    success: true,
+    storyExists: true,
+    checked: true,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    renderedStories,
+    durationMs,
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Bundle a generated React story as if it were saved in
+ * `config.generatedStoriesPath` and render every story in it. Only JS/TS
+ * stories are rendered; the check never throws and is skipped unless
+ * `renderCheck.enabled` is true or when its dependencies are missing.
+ */
+export async function renderStoryHeadless(
+  code: string,
+  config: StoryUIConfig,
+  fileName: string = 'story.stories.tsx',
+  projectRoot: string = process.cwd()
+): Promise<HeadlessRenderResult> {
+  if (config.renderCheck?.enabled !== true) {
+    return skipped('Render check is not enabled');
+  }
+  if (!/\.[cm]?[jt]sx?$/.test(fileName)) {
+    return skipped('Not a JavaScript or TypeScript story');
+  }
+
+  try {
+    return await renderStory(code, config, fileName, projectRoot);
+  } catch (error) {
+    // The render check is an extra safety net; never fail a generation because of it
+    logger.warn(`Headless render check failed: ${errorMessage(error)}`);
+    return skipped('Render check error');
+  }
+}
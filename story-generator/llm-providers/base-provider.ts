@@ -158,6 +158,12 @@ export abstract class BaseLLMProvider implements LLMProvider {
     };
   }
 
+  // Context window for a model: the configured override, else the model's limit
+  getContextWindow(model: string = this.config.model): number | undefined {
+    return this.config.contextWindow
+      ?? this.supportedModels.find(m => m.id === model)?.contextWindow;
+  }
+
   // Simple token estimation (providers can override with more accurate methods)
   estimateTokens(text: string): number {
     // Rough estimate: ~4 characters per token for English text
@@ -0,0 +1,168 @@
+/**
+ * Cassette LLM Provider
+ *
+ * Record/replay provider for deterministic tests. In record mode every request
+ * is forwarded to a real (upstream) provider and the ChatResponse is written to
+ * a fixture file named after a hash of the request. In replay mode responses
+ * are served from those fixtures and nothing touches the network, so route
+ * handlers can run under test in CI without API keys.
+ *
+ * Enable with STORY_UI_LLM_CASSETTE=record|replay.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMProvider,
+  ProviderType,
+  ProviderConfig,
+  ModelInfo,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ValidationResult,
+} from './types.js';
+import { BaseLLMProvider } from './base-provider.js';
+import { computeCacheKey } from './response-cache.js';
+import { logger } from '../logger.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export const DEFAULT_CASSETTE_DIR = '__fixtures__/llm-cassettes';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Fixture directory, relative to the working directory */
+  directory?: string;
+  /** Resolves the real provider used in record mode */
+  upstream?: () => LLMProvider | undefined;
+}
+
+export interface CassetteFixture {
+  hash: string;
+  recordedAt: string;
+  upstream: { provider: ProviderType; model: string };
+  /** First characters of the last user message, to make fixtures reviewable */
+  promptPreview: string;
+  response: ChatResponse;
+}
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+const CASSETTE_MODELS: ModelInfo[] = [
+  {
+    id: 'cassette',
+    name: 'Cassette (recorded responses)',
+    provider: 'cassette',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    supportsVision: true,
+    supportsDocuments: true,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+  },
+];
+
+/**
+ * Hash a request the same way in both modes. Tool definitions are included so
+ * agent turns with different tools never share a recording. The model is left
+ * out so that a cassette recorded against one upstream model replays
+ * regardless of which model the client asked for.
+ */
+export function computeCassetteHash(messages: ChatMessage[], options?: ChatOptions): string {
+  return computeCacheKey('cassette', messages, {
+    systemPrompt: options?.systemPrompt,
+    maxTokens: options?.maxTokens,
+    temperature: options?.temperature,
+    tools: options?.tools,
+  }).slice(0, 32);
+}
+
+export class CassetteProvider extends BaseLLMProvider {
+  readonly name = 'Cassette';
+  readonly type: ProviderType = 'cassette';
+  readonly supportedModels: ModelInfo[] = CASSETTE_MODELS;
+
+  private readonly mode: CassetteMode;
+  private readonly directory: string;
+  private readonly resolveUpstream?: () => LLMProvider | undefined;
+
+  constructor(options: CassetteOptions, config?: Partial<ProviderConfig>) {
+    super({ model: 'cassette', ...config });
+    this.setProviderType();
+    this.mode = options.mode;
+    this.directory = path.resolve(process.cwd(), options.directory || DEFAULT_CASSETTE_DIR);
+    this.resolveUpstream = options.upstream;
+  }
+
+  /**
+   * Replay needs nothing but fixtures; record needs a real provider to forward to
+   */
+  isConfigured(): boolean {
+    if (this.mode === 'replay') return true;
+    return !!this.resolveUpstream?.()?.isConfigured();
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    this.validateMessages(messages);
+    this.logRequest(messages, options);
+
+    const hash = computeCassetteHash(messages, options);
+    const fixturePath = path.join(this.directory, `${hash}.json`);
+
+    if (this.mode === 'replay') {
+      if (!fs.existsSync(fixturePath)) {
+        throw new Error(
+          `Cassette has no recording for request ${hash} (${fixturePath}). ` +
+          'Re-run with STORY_UI_LLM_CASSETTE=record and a real provider configured.'
+        );
+      }
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as CassetteFixture;
+      logger.debug(`Cassette replaying ${hash}`, { upstream: fixture.upstream });
+      this.logResponse(fixture.response);
+      return fixture.response;
+    }
+
+    const upstream = this.resolveUpstream?.();
+    if (!upstream || !upstream.isConfigured()) {
+      throw new Error('Cassette record mode needs a configured upstream provider (STORY_UI_LLM_CASSETTE_UPSTREAM)');
+    }
+
+    // The upstream uses its own configured model rather than "cassette"
+    const response = await upstream.chat(messages, { ...options, model: undefined });
+    const fixture: CassetteFixture = {
+      hash,
+      recordedAt: new Date().toISOString(),
+      upstream: { provider: upstream.type, model: response.model },
+      promptPreview: this.getPromptPreview(messages),
+      // Provider-specific payloads are large and not needed for replay
+      response: { ...response, raw: undefined },
+    };
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+    logger.info(`Cassette recorded ${hash} from ${upstream.name}`);
+    this.logResponse(response);
+    return response;
+  }
+
+  async validateApiKey(_apiKey: string): Promise<ValidationResult> {
+    return this.isConfigured()
+      ? { valid: true, models: this.supportedModels }
+      : { valid: false, error: 'Cassette record mode has no configured upstream provider' };
+  }
+
+  private getPromptPreview(messages: ChatMessage[]): string {
+    const lastUser = [...messages].reverse().find(msg => msg.role === 'user');
+    if (!lastUser) return '';
+    const text = typeof lastUser.content === 'string'
+      ? lastUser.content
+      : lastUser.content.map(part => (part.type === 'text' ? part.text : `[${part.type}]`)).join(' ');
+    return text.slice(0, PROMPT_PREVIEW_LENGTH);
+  }
+}
+
+// Factory function
+export function createCassetteProvider(options: CassetteOptions, config?: Partial<ProviderConfig>): CassetteProvider {
+  return new CassetteProvider(options, config);
+}
@@ -33,6 +33,7 @@ const CLAUDE_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.015,
     outputPricePer1kTokens: 0.075,
+    cachedInputPricePer1kTokens: 0.0015,
   },
   {
     id: 'claude-sonnet-4-6',
@@ -46,6 +47,7 @@ const CLAUDE_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.003,
     outputPricePer1kTokens: 0.015,
+    cachedInputPricePer1kTokens: 0.0003,
   },
   {
     id: 'claude-haiku-4-5-20251001',
@@ -59,6 +61,7 @@ const CLAUDE_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.0008,
     outputPricePer1kTokens: 0.015,
+    cachedInputPricePer1kTokens: 0.00008,
   },
 ];
 
@@ -75,7 +78,7 @@ interface AnthropicMessage {
 }
 
 interface AnthropicContent {
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'tool_use' | 'tool_result';
   text?: string;
   source?: {
     type: 'base64' | 'url';
@@ -83,19 +86,28 @@ interface AnthropicContent {
     data?: string;
     url?: string;
   };
+  // tool_use
+  id?: string;
+  name?: string;
+  input?: Record<string, any>;
+  // tool_result
+  tool_use_id?: string;
+  content?: string;
+  is_error?: boolean;
 }
 
 interface AnthropicResponse {
   id: string;
   type: string;
   role: string;
-  content: Array<{ type: string; text?: string }>;
+  content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, any> }>;
   model: string;
   stop_reason: string | null;
   stop_sequence: string | null;
   usage: {
     input_tokens: number;
     output_tokens: number;
+    cache_read_input_tokens?: number;
   };
 }
 
@@ -149,6 +161,13 @@ export class ClaudeProvider extends BaseLLMProvider {
     if (options?.stopSequences?.length) {
       requestBody.stop_sequences = options.stopSequences;
     }
+    if (options?.tools?.length) {
+      requestBody.tools = options.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema,
+      }));
+    }
 
     try {
       const response = await fetch(ANTHROPIC_API_URL, {
@@ -239,6 +258,8 @@ export class ClaudeProvider extends BaseLLMProvider {
       let buffer = '';
       let inputTokens = 0;
       let outputTokens = 0;
+      let cachedTokens = 0;
+      let stopReason: string | null = null;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -259,9 +280,12 @@ export class ClaudeProvider extends BaseLLMProvider {
               if (event.type === 'content_block_delta' && event.delta?.text) {
                 yield { type: 'text', content: event.delta.text };
               } else if (event.type === 'message_start' && event.message?.usage) {
-                inputTokens = event.message.usage.input_tokens || 0;
-              } else if (event.type === 'message_delta' && event.usage) {
-                outputTokens = event.usage.output_tokens || 0;
+                // Anthropic reports cache reads separately from input_tokens
+                cachedTokens = event.message.usage.cache_read_input_tokens || 0;
+                inputTokens = (event.message.usage.input_tokens || 0) + cachedTokens;
+              } else if (event.type === 'message_delta') {
+                outputTokens = event.usage?.output_tokens || outputTokens;
+                stopReason = event.delta?.stop_reason ?? stopReason;
               }
             } catch {
               // Skip malformed JSON
@@ -276,7 +300,9 @@ export class ClaudeProvider extends BaseLLMProvider {
           promptTokens: inputTokens,
           completionTokens: outputTokens,
           totalTokens: inputTokens + outputTokens,
+          cachedTokens,
         },
+        finishReason: this.mapStopReason(stopReason),
       };
     } catch (error) {
       yield {
@@ -364,6 +390,17 @@ export class ClaudeProvider extends BaseLLMProvider {
           },
         };
       }
+      if (item.type === 'tool_use') {
+        return { type: 'tool_use' as const, id: item.id, name: item.name, input: item.input };
+      }
+      if (item.type === 'tool_result') {
+        return {
+          type: 'tool_result' as const,
+          tool_use_id: item.toolCallId,
+          content: item.content,
+          ...(item.isError && { is_error: true }),
+        };
+      }
       // Document type - convert to text representation for now
       if (item.type === 'document') {
         return {
@@ -381,15 +418,25 @@ export class ClaudeProvider extends BaseLLMProvider {
       .map(block => block.text || '')
       .join('');
 
+    const toolCalls = data.content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id || '', name: block.name || '', arguments: block.input || {} }));
+
+    // Anthropic reports cache reads separately from input_tokens
+    const cachedTokens = data.usage.cache_read_input_tokens || 0;
+    const promptTokens = data.usage.input_tokens + cachedTokens;
+
     return {
       id: data.id,
       model: data.model,
       content: textContent,
       finishReason: this.mapStopReason(data.stop_reason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
-        promptTokens: data.usage.input_tokens,
+        promptTokens,
         completionTokens: data.usage.output_tokens,
-        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        totalTokens: promptTokens + data.usage.output_tokens,
+        cachedTokens,
       },
       raw: data,
     };
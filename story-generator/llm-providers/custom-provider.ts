@@ -0,0 +1,519 @@
+/**
+ * Custom OpenAI-Compatible LLM Provider
+ *
+ * Speaks the OpenAI chat-completions wire format against an arbitrary base URL.
+ * Works with internal gateways, vLLM, LM Studio, LiteLLM and Azure OpenAI
+ * deployments. Models are declared by the user since these endpoints rarely
+ * report context windows or vision support.
+ */
+
+import {
+  ProviderType,
+  ProviderConfig,
+  ModelInfo,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  StreamChunk,
+  ValidationResult,
+  MessageContent,
+  ImageContent,
+  CustomModelDefinition,
+} from './types.js';
+import { BaseLLMProvider } from './base-provider.js';
+import {
+  OpenAIToolCall,
+  parseOpenAIToolCalls,
+  partitionToolContent,
+  toOpenAIToolCallMessages,
+  toOpenAITools,
+} from './tool-format.js';
+import { logger } from '../logger.js';
+
+// Conservative defaults for models the user didn't describe
+const DEFAULT_CONTEXT_WINDOW = 32768;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+const DEFAULT_TIMEOUT_MS = 120000;
+
+interface OpenAICompatibleMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string | OpenAICompatibleContent[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAICompatibleContent {
+  type: 'text' | 'image_url';
+  text?: string;
+  image_url?: {
+    url: string;
+  };
+}
+
+interface OpenAICompatibleResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAICompatibleModelList {
+  data?: Array<{ id: string }>;
+}
+
+/**
+ * Convert a user-declared model into the shared ModelInfo shape
+ */
+export function toCustomModelInfo(definition: CustomModelDefinition): ModelInfo {
+  return {
+    id: definition.id,
+    name: definition.name || definition.id,
+    provider: 'custom',
+    contextWindow: definition.contextWindow || DEFAULT_CONTEXT_WINDOW,
+    maxOutputTokens: definition.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+    supportsVision: definition.supportsVision ?? false,
+    supportsDocuments: false,
+    supportsFunctionCalling: definition.supportsFunctionCalling ?? false,
+    supportsStreaming: true,
+    inputPricePer1kTokens: definition.inputPricePer1kTokens,
+    outputPricePer1kTokens: definition.outputPricePer1kTokens,
+  };
+}
+
+export class CustomProvider extends BaseLLMProvider {
+  readonly name = 'Custom';
+  readonly type: ProviderType = 'custom';
+
+  private models: ModelInfo[] = [];
+
+  constructor(config?: Partial<ProviderConfig>) {
+    super(config);
+    // Set the provider type after base constructor
+    this.setProviderType();
+    this.models = (this.config.models || []).map(toCustomModelInfo);
+    if (!this.config.model && this.models.length > 0) {
+      this.config.model = this.models[0].id;
+    }
+  }
+
+  get supportedModels(): ModelInfo[] {
+    return this.models;
+  }
+
+  /**
+   * Self-hosted endpoints (vLLM, LM Studio) often need no key, so only a
+   * base URL and a model are required.
+   */
+  isConfigured(): boolean {
+    return !!this.config.baseUrl && !!this.config.model;
+  }
+
+  configure(config: ProviderConfig): void {
+    super.configure(config);
+    if (config.models) {
+      this.models = config.models.map(toCustomModelInfo);
+    }
+    if (!this.config.model && this.models.length > 0) {
+      this.config.model = this.models[0].id;
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    this.validateMessages(messages);
+    this.logRequest(messages, options);
+
+    if (!this.config.baseUrl) {
+      throw new Error('Custom provider base URL not configured');
+    }
+
+    const model = options?.model || this.config.model;
+    const requestBody = this.buildRequestBody(messages, model, options, false);
+
+    try {
+      const response = await fetch(this.getChatUrl(), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(this.getTimeout()),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error('Custom provider API error response', { status: response.status, body: errorBody });
+        throw new Error(`Custom provider API error: ${response.status} - ${errorBody}`);
+      }
+
+      const data = (await response.json()) as OpenAICompatibleResponse;
+      const chatResponse = this.convertResponse(data, model);
+      this.logResponse(chatResponse);
+      return chatResponse;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Custom provider request timed out after ${this.getTimeout()}ms`);
+      }
+      throw error;
+    }
+  }
+
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncIterable<StreamChunk> {
+    this.validateMessages(messages);
+    this.logRequest(messages, options);
+
+    if (!this.config.baseUrl) {
+      yield { type: 'error', error: 'Custom provider base URL not configured' };
+      return;
+    }
+
+    const model = options?.model || this.config.model;
+    const requestBody = this.buildRequestBody(messages, model, options, true);
+
+    try {
+      const response = await fetch(this.getChatUrl(), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(this.getTimeout()),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        yield { type: 'error', error: `Custom provider API error: ${response.status} - ${errorBody}` };
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        yield { type: 'error', error: 'No response body' };
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let finishReason: string | null = null;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            const data = line.slice(6).trim();
+            if (!data || data === '[DONE]') continue;
+
+            try {
+              const event = JSON.parse(data);
+
+              if (event.choices?.[0]?.delta?.content) {
+                yield { type: 'text', content: event.choices[0].delta.content };
+              }
+
+              if (event.choices?.[0]?.finish_reason) {
+                finishReason = event.choices[0].finish_reason;
+              }
+
+              // Usage is only sent by servers honoring stream_options.include_usage
+              if (event.usage) {
+                promptTokens = event.usage.prompt_tokens || 0;
+                completionTokens = event.usage.completion_tokens || 0;
+              }
+            } catch {
+              // Skip malformed JSON
+            }
+          }
+        }
+      }
+
+      yield {
+        type: 'done',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        finishReason: this.mapFinishReason(finishReason),
+      };
+    } catch (error) {
+      yield {
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Validate by listing models from the endpoint. Servers without a /models
+   * route (some gateways, Azure deployments) get a minimal completion instead.
+   */
+  async validateApiKey(apiKey: string): Promise<ValidationResult> {
+    if (!this.config.baseUrl) {
+      return { valid: false, error: 'Custom provider base URL not configured' };
+    }
+
+    const headers = this.buildHeaders(apiKey);
+
+    try {
+      const response = await fetch(this.getModelsUrl(), {
+        headers,
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.ok) {
+        const data = (await response.json().catch(() => ({}))) as OpenAICompatibleModelList;
+        const remoteIds = (data.data || []).map(m => m.id);
+        logger.debug('Custom provider models', { models: remoteIds });
+        return {
+          valid: true,
+          models: this.models.length > 0
+            ? this.models
+            : remoteIds.map(id => toCustomModelInfo({ id })),
+        };
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return { valid: false, error: 'Invalid API key' };
+      }
+
+      // Fall back to a one-token completion
+      const probe = await fetch(this.getChatUrl(), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.config.model,
+          max_tokens: 1,
+          messages: [{ role: 'user', content: 'Hi' }],
+        }),
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (probe.ok) {
+        return { valid: true, models: this.models };
+      }
+
+      if (probe.status === 401 || probe.status === 403) {
+        return { valid: false, error: 'Invalid API key' };
+      }
+
+      return {
+        valid: false,
+        error: `API validation failed: ${await probe.text()}`,
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Validation failed',
+      };
+    }
+  }
+
+  protected getSelectedModel(): ModelInfo | undefined {
+    // Undeclared models still work, with conservative capabilities
+    return super.getSelectedModel()
+      ?? (this.config.model ? toCustomModelInfo({ id: this.config.model }) : undefined);
+  }
+
+  /**
+   * Accepts either an API root (".../v1") or a full chat-completions URL,
+   * which is how Azure deployments with ?api-version are usually copied.
+   */
+  private getChatUrl(): string {
+    const baseUrl = this.config.baseUrl!;
+    const [urlPath] = baseUrl.split('?');
+    if (urlPath.endsWith('/chat/completions')) {
+      return baseUrl;
+    }
+    return `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private getModelsUrl(): string {
+    const [urlPath, query] = this.config.baseUrl!.split('?');
+    const root = urlPath.replace(/\/chat\/completions$/, '').replace(/\/+$/, '');
+    return query ? `${root}/models?${query}` : `${root}/models`;
+  }
+
+  private getTimeout(): number {
+    return this.config.timeout || DEFAULT_TIMEOUT_MS;
+  }
+
+  private buildHeaders(apiKey: string | undefined = this.config.apiKey): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      ...this.config.headers,
+    };
+  }
+
+  private buildRequestBody(
+    messages: ChatMessage[],
+    model: string,
+    options: ChatOptions | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    const modelInfo = this.models.find(m => m.id === model) ?? toCustomModelInfo({ id: model });
+
+    const requestBody: Record<string, unknown> = {
+      model,
+      messages: this.convertMessages(messages, options?.systemPrompt),
+      max_tokens: options?.maxTokens || modelInfo.maxOutputTokens,
+    };
+
+    if (stream) {
+      requestBody.stream = true;
+      requestBody.stream_options = { include_usage: true };
+    }
+    if (options?.temperature !== undefined) {
+      requestBody.temperature = options.temperature;
+    }
+    if (options?.topP !== undefined) {
+      requestBody.top_p = options.topP;
+    }
+    if (options?.stopSequences?.length) {
+      requestBody.stop = options.stopSequences;
+    }
+    if (options?.tools?.length) {
+      requestBody.tools = toOpenAITools(options.tools);
+    }
+
+    return requestBody;
+  }
+
+  // Convert our message format to the OpenAI wire format
+  private convertMessages(
+    messages: ChatMessage[],
+    systemPrompt?: string
+  ): OpenAICompatibleMessage[] {
+    const result: OpenAICompatibleMessage[] = [];
+
+    if (systemPrompt) {
+      result.push({ role: 'system', content: systemPrompt });
+    }
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        result.push({
+          role: 'system',
+          content: typeof msg.content === 'string' ? msg.content : this.extractTextContent(msg.content),
+        });
+      } else {
+        result.push(...this.convertToolMessages(msg));
+      }
+    }
+
+    return result;
+  }
+
+  // Tool calls ride on the assistant message; each tool result is its own 'tool' message
+  private convertToolMessages(msg: ChatMessage): OpenAICompatibleMessage[] {
+    const { toolUses, toolResults, other } = partitionToolContent(msg.content);
+    const result: OpenAICompatibleMessage[] = toolResults.map(toolResult => ({
+      role: 'tool' as const,
+      tool_call_id: toolResult.toolCallId,
+      content: toolResult.content,
+    }));
+
+    if (toolUses.length > 0) {
+      const text = typeof other === 'string' ? other : this.extractTextContent(other);
+      result.push({ role: 'assistant', content: text || null, tool_calls: toOpenAIToolCallMessages(toolUses) });
+    } else if (typeof other === 'string' || other.length > 0) {
+      result.push({ role: msg.role, content: this.convertContent(other) });
+    }
+
+    return result;
+  }
+
+  private extractTextContent(content: MessageContent[]): string {
+    return content
+      .filter(item => item.type === 'text')
+      .map(item => (item as { type: 'text'; text: string }).text)
+      .join('\n');
+  }
+
+  private convertContent(content: string | MessageContent[]): string | OpenAICompatibleContent[] {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map(item => {
+      if (item.type === 'text') {
+        return { type: 'text' as const, text: item.text };
+      }
+      if (item.type === 'image') {
+        const imageContent = item as ImageContent;
+        const imageUrl = imageContent.source.url ||
+          `data:${imageContent.source.mediaType || 'image/png'};base64,${imageContent.source.data}`;
+        return {
+          type: 'image_url' as const,
+          image_url: { url: imageUrl },
+        };
+      }
+      if (item.type === 'document') {
+        return {
+          type: 'text' as const,
+          text: `[Document: ${item.source.name || 'unnamed'}]`,
+        };
+      }
+      return { type: 'text' as const, text: '' };
+    });
+  }
+
+  private convertResponse(data: OpenAICompatibleResponse, model: string): ChatResponse {
+    const choice = data.choices?.[0];
+    const promptTokens = data.usage?.prompt_tokens || 0;
+    const completionTokens = data.usage?.completion_tokens || 0;
+
+    return {
+      id: data.id || `custom-${Date.now()}`,
+      model: data.model || model,
+      content: choice?.message?.content || '',
+      finishReason: this.mapFinishReason(choice?.finish_reason ?? null),
+      toolCalls: parseOpenAIToolCalls(choice?.message?.tool_calls, 'custom-call'),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usage?.total_tokens || promptTokens + completionTokens,
+      },
+      raw: data,
+    };
+  }
+
+  private mapFinishReason(
+    finishReason: string | null
+  ): 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'error' {
+    switch (finishReason) {
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+}
+
+// Factory function
+export function createCustomProvider(config?: Partial<ProviderConfig>): CustomProvider {
+  return new CustomProvider(config);
+}
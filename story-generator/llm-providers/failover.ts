@@ -0,0 +1,157 @@
+/**
+ * Provider Failover Policy
+ *
+ * Classifies provider errors and decides whether a failed request should be
+ * retried against the same provider (with exponential backoff) or handed to the
+ * next provider/model in the configured fallback chain.
+ */
+
+import { ProviderType } from './types.js';
+import type { LLMFailoverConfig } from '../../story-ui.config.js';
+
+export type ProviderErrorClass =
+  | 'rate_limit'       // 429
+  | 'overloaded'       // 500/502/503/504/529
+  | 'auth'             // 401/403, missing keys
+  | 'timeout'          // request exceeded its timeout
+  | 'network'          // provider unreachable
+  | 'invalid_request'  // 400/404/413 - the request itself is wrong
+  | 'unknown';
+
+export interface FailoverTarget {
+  provider: ProviderType;
+  model?: string;
+}
+
+export interface ErrorClassRule {
+  /** Retry the same provider with backoff */
+  retry: boolean;
+  /** Move on to the next provider in the chain once retries are exhausted */
+  failover: boolean;
+}
+
+export interface FailoverPolicy {
+  /** Providers tried, in order, after the requested one */
+  chain: FailoverTarget[];
+  /** Retries per provider for retryable errors (0 = single attempt) */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  rules: Record<ProviderErrorClass, ErrorClassRule>;
+}
+
+const VALID_PROVIDERS: ProviderType[] = ['claude', 'openai', 'gemini', 'ollama', 'custom'];
+
+export const DEFAULT_ERROR_RULES: Record<ProviderErrorClass, ErrorClassRule> = {
+  rate_limit: { retry: true, failover: true },
+  overloaded: { retry: true, failover: true },
+  timeout: { retry: true, failover: true },
+  network: { retry: false, failover: true },
+  auth: { retry: false, failover: true },
+  // A malformed request fails the same way everywhere
+  invalid_request: { retry: false, failover: false },
+  unknown: { retry: false, failover: true },
+};
+
+export const DEFAULT_FAILOVER_POLICY: FailoverPolicy = {
+  chain: [],
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  rules: DEFAULT_ERROR_RULES,
+};
+
+/**
+ * Classify an error thrown by a provider.
+ * Providers report HTTP failures as "<Name> API error: <status> - <body>".
+ */
+export function classifyProviderError(error: unknown): ProviderErrorClass {
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+
+  if (/API_KEY_INVALID/.test(message)) return 'auth';
+
+  const statusMatch = message.match(/error:\s*(\d{3})\b/i);
+  if (statusMatch) {
+    const status = parseInt(statusMatch[1], 10);
+    if (status === 429) return 'rate_limit';
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 529 || status >= 500) return 'overloaded';
+    if (status === 400 || status === 404 || status === 413 || status === 422) return 'invalid_request';
+  }
+
+  if (/overloaded/i.test(message)) return 'overloaded';
+  if (/rate.?limit|quota|RESOURCE_EXHAUSTED/i.test(message)) return 'rate_limit';
+  if (name === 'TimeoutError' || /timed out|timeout/i.test(message)) return 'timeout';
+  if (/api key|not configured|unauthori[sz]ed|permission/i.test(message)) return 'auth';
+  if (name === 'TypeError' || /fetch failed|ECONNREFUSED|ENOTFOUND|ECONNRESET|Could not reach/i.test(message)) {
+    return 'network';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Exponential backoff with equal jitter (half the ceiling fixed, half random),
+ * capped at maxDelayMs
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: Pick<FailoverPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Parse "provider:model,provider" chains as used by LLM_FALLBACK_CHAIN
+ */
+export function parseFailoverChain(value: string): FailoverTarget[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, ...modelParts] = entry.split(':');
+      const model = modelParts.join(':').trim();
+      return { provider: provider.trim() as ProviderType, ...(model && { model }) };
+    })
+    .filter(target => VALID_PROVIDERS.includes(target.provider));
+}
+
+/**
+ * Build the effective policy from story-ui.config and environment.
+ * Environment variables win so deployments can override a checked-in config.
+ */
+export function resolveFailoverPolicy(
+  config?: LLMFailoverConfig,
+  env: NodeJS.ProcessEnv = process.env
+): FailoverPolicy {
+  const rules = { ...DEFAULT_ERROR_RULES };
+  for (const [errorClass, rule] of Object.entries(config?.rules || {})) {
+    if (errorClass in rules && rule) {
+      const key = errorClass as ProviderErrorClass;
+      rules[key] = { ...rules[key], ...rule };
+    }
+  }
+
+  const chain = env.LLM_FALLBACK_CHAIN
+    ? parseFailoverChain(env.LLM_FALLBACK_CHAIN)
+    : (config?.chain || [])
+      .filter(target => VALID_PROVIDERS.includes(target.provider as ProviderType))
+      .map(target => ({ provider: target.provider as ProviderType, model: target.model }));
+
+  const envNumber = (key: string): number | undefined => {
+    const parsed = env[key] !== undefined ? parseInt(env[key]!, 10) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  return {
+    chain,
+    maxRetries: envNumber('LLM_MAX_RETRIES') ?? config?.maxRetries ?? DEFAULT_FAILOVER_POLICY.maxRetries,
+    baseDelayMs: envNumber('LLM_RETRY_BASE_DELAY_MS') ?? config?.baseDelayMs ?? DEFAULT_FAILOVER_POLICY.baseDelayMs,
+    maxDelayMs: envNumber('LLM_RETRY_MAX_DELAY_MS') ?? config?.maxDelayMs ?? DEFAULT_FAILOVER_POLICY.maxDelayMs,
+    rules,
+  };
+}
@@ -35,6 +35,7 @@ const GEMINI_MODELS: ModelInfo[] = [
     supportsReasoning: true,
     inputPricePer1kTokens: 0.002,
     outputPricePer1kTokens: 0.012,
+    cachedInputPricePer1kTokens: 0.0002,
   },
   {
     id: 'gemini-3-flash-preview',
@@ -48,6 +49,7 @@ const GEMINI_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.00015,
     outputPricePer1kTokens: 0.0006,
+    cachedInputPricePer1kTokens: 0.0000375,
   },
   {
     id: 'gemini-2.5-flash',
@@ -62,6 +64,7 @@ const GEMINI_MODELS: ModelInfo[] = [
     supportsReasoning: true,
     inputPricePer1kTokens: 0.00015,
     outputPricePer1kTokens: 0.0006,
+    cachedInputPricePer1kTokens: 0.0000375,
   },
 ];
 
@@ -82,12 +85,21 @@ interface GeminiPart {
     mimeType: string;
     data: string;
   };
+  functionCall?: {
+    name: string;
+    args?: Record<string, any>;
+  };
+  functionResponse?: {
+    name: string;
+    response: Record<string, any>;
+  };
+  thoughtSignature?: string;
 }
 
 interface GeminiResponse {
   candidates: Array<{
     content: {
-      parts: Array<{ text?: string }>;
+      parts: GeminiPart[];
       role: string;
     };
     finishReason: string;
@@ -100,6 +112,7 @@ interface GeminiResponse {
     promptTokenCount: number;
     candidatesTokenCount: number;
     totalTokenCount: number;
+    cachedContentTokenCount?: number;
   };
 }
 
@@ -153,6 +166,15 @@ export class GeminiProvider extends BaseLLMProvider {
         parts: [{ text: systemPrompt }],
       };
     }
+    if (options?.tools?.length) {
+      requestBody.tools = [{
+        functionDeclarations: options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        })),
+      }];
+    }
 
     const url = this.getApiUrl(model);
 
@@ -245,6 +267,8 @@ export class GeminiProvider extends BaseLLMProvider {
       let buffer = '';
       let promptTokens = 0;
       let completionTokens = 0;
+      let cachedTokens = 0;
+      let finishReason: string | undefined;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -272,10 +296,13 @@ export class GeminiProvider extends BaseLLMProvider {
                 yield { type: 'text', content: text };
               }
 
+              finishReason = event.candidates?.[0]?.finishReason ?? finishReason;
+
               // Extract usage metadata
               if (event.usageMetadata) {
                 promptTokens = event.usageMetadata.promptTokenCount || 0;
                 completionTokens = event.usageMetadata.candidatesTokenCount || 0;
+                cachedTokens = event.usageMetadata.cachedContentTokenCount || 0;
               }
             } catch {
               // Skip malformed JSON
@@ -290,7 +317,9 @@ export class GeminiProvider extends BaseLLMProvider {
           promptTokens,
           completionTokens,
           totalTokens: promptTokens + completionTokens,
+          cachedTokens,
         },
+        finishReason: this.mapFinishReason(finishReason),
       };
     } catch (error) {
       yield {
@@ -385,6 +414,21 @@ export class GeminiProvider extends BaseLLMProvider {
         }
         return { text: '[Invalid image content]' };
       }
+      // Gemini matches function results to calls by name, not id
+      if (item.type === 'tool_use') {
+        return {
+          functionCall: { name: item.name, args: item.input },
+          ...(item.metadata?.thoughtSignature && { thoughtSignature: item.metadata.thoughtSignature }),
+        };
+      }
+      if (item.type === 'tool_result') {
+        return {
+          functionResponse: {
+            name: item.name,
+            response: item.isError ? { error: item.content } : { result: item.content },
+          },
+        };
+      }
       // Document type
       if (item.type === 'document') {
         return { text: `[Document: ${item.source.name || 'unnamed'}]` };
@@ -395,18 +439,29 @@ export class GeminiProvider extends BaseLLMProvider {
 
   private convertResponse(data: GeminiResponse, model: string): ChatResponse {
     const candidate = data.candidates?.[0];
-    const textParts = candidate?.content?.parts || [];
-    const content = textParts.map(p => p.text || '').join('');
+    const parts = candidate?.content?.parts || [];
+    const content = parts.map(p => p.text || '').join('');
+    const toolCalls = parts
+      .filter(p => p.functionCall)
+      .map((p, index) => ({
+        id: `gemini-call-${Date.now()}-${index}`,
+        name: p.functionCall!.name,
+        arguments: p.functionCall!.args || {},
+        ...(p.thoughtSignature && { metadata: { thoughtSignature: p.thoughtSignature } }),
+      }));
 
     return {
       id: `gemini-${Date.now()}`, // Gemini doesn't return an ID
       model,
       content,
-      finishReason: this.mapFinishReason(candidate?.finishReason),
+      // Gemini reports STOP even when the turn ends in function calls
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(candidate?.finishReason),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       usage: {
         promptTokens: data.usageMetadata?.promptTokenCount || 0,
         completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
         totalTokens: data.usageMetadata?.totalTokenCount || 0,
+        cachedTokens: data.usageMetadata?.cachedContentTokenCount || 0,
       },
       raw: data,
     };
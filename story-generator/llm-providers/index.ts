@@ -14,6 +14,9 @@ export { BaseLLMProvider } from './base-provider.js';
 export { ClaudeProvider, createClaudeProvider } from './claude-provider.js';
 export { OpenAIProvider, createOpenAIProvider } from './openai-provider.js';
 export { GeminiProvider, createGeminiProvider } from './gemini-provider.js';
+export { OllamaProvider, createOllamaProvider } from './ollama-provider.js';
+export { CustomProvider, createCustomProvider } from './custom-provider.js';
+export { CassetteProvider, createCassetteProvider } from './cassette-provider.js';
 
 // Provider registry
 import {
@@ -26,6 +29,10 @@ import {
 import { ClaudeProvider } from './claude-provider.js';
 import { OpenAIProvider } from './openai-provider.js';
 import { GeminiProvider } from './gemini-provider.js';
+import { OllamaProvider, DEFAULT_OLLAMA_BASE_URL } from './ollama-provider.js';
+import { CustomProvider } from './custom-provider.js';
+import { createCassetteProvider, CassetteMode } from './cassette-provider.js';
+import type { CustomProviderConfig } from '../../story-ui.config.js';
 import { logger } from '../logger.js';
 
 /**
@@ -45,7 +52,9 @@ class DefaultProviderRegistry implements ProviderRegistry {
     this.register(new ClaudeProvider());
     this.register(new OpenAIProvider());
     this.register(new GeminiProvider());
-    logger.debug('Registered built-in providers: Claude, OpenAI, Gemini');
+    this.register(new OllamaProvider());
+    this.register(new CustomProvider());
+    logger.debug('Registered built-in providers: Claude, OpenAI, Gemini, Ollama, Custom');
   }
 
   register(provider: LLMProvider): void {
@@ -157,6 +166,31 @@ export function getDefaultProvider(): LLMProvider | undefined {
   return getProviderRegistry().getDefault();
 }
 
+/**
+ * Create a provider instance outside the registry, e.g. to try out settings
+ * without touching the shared provider that in-flight requests are using.
+ * Cassette providers need replay options and are not created here.
+ */
+export function createStandaloneProvider(
+  type: ProviderType,
+  config?: Partial<ProviderConfig>
+): LLMProvider | undefined {
+  switch (type) {
+    case 'claude':
+      return new ClaudeProvider(config);
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'custom':
+      return new CustomProvider(config);
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Convenience function to configure a provider
  */
@@ -203,4 +237,80 @@ export function initializeFromEnv(): void {
     });
     logger.info('Gemini provider configured from environment');
   }
+
+  // Configure Ollama if a local daemon address or model is set
+  // Ollama needs no API key, so it is opt-in to avoid shadowing hosted providers
+  const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || process.env.OLLAMA_HOST;
+  if (ollamaBaseUrl || process.env.OLLAMA_MODEL) {
+    registry.configureProvider('ollama', {
+      baseUrl: normalizeOllamaUrl(ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL),
+      model: process.env.OLLAMA_MODEL || 'qwen2.5-coder',
+      ...(process.env.OLLAMA_NUM_CTX && { contextWindow: parseInt(process.env.OLLAMA_NUM_CTX, 10) }),
+    });
+    logger.info('Ollama provider configured from environment');
+  }
+
+  // Configure the OpenAI-compatible custom provider if an endpoint is set
+  const customBaseUrl = process.env.CUSTOM_LLM_BASE_URL;
+  if (customBaseUrl) {
+    const current = registry.get('custom')?.getConfig();
+    registry.configureProvider('custom', {
+      baseUrl: customBaseUrl,
+      apiKey: process.env.CUSTOM_LLM_API_KEY || current?.apiKey,
+      model: process.env.CUSTOM_LLM_MODEL || current?.model || '',
+    });
+    logger.info('Custom provider configured from environment');
+  }
+
+  // Register the record/replay cassette provider for deterministic tests
+  const cassetteMode = process.env.STORY_UI_LLM_CASSETTE;
+  if (cassetteMode) {
+    if (cassetteMode !== 'record' && cassetteMode !== 'replay') {
+      logger.warn(`Ignoring STORY_UI_LLM_CASSETTE=${cassetteMode} (expected "record" or "replay")`);
+    } else {
+      registry.register(createCassetteProvider({
+        mode: cassetteMode as CassetteMode,
+        directory: process.env.STORY_UI_LLM_CASSETTE_DIR,
+        upstream: () => resolveCassetteUpstream(process.env.STORY_UI_LLM_CASSETTE_UPSTREAM as ProviderType | undefined),
+      }));
+      logger.info(`Cassette provider registered in ${cassetteMode} mode`);
+    }
+  }
+}
+
+/**
+ * Real provider a recording cassette forwards to: the named one, or the first configured
+ */
+function resolveCassetteUpstream(type?: ProviderType): LLMProvider | undefined {
+  const registry = getProviderRegistry();
+  if (type) {
+    return registry.get(type);
+  }
+  return registry.getConfiguredProviders().find(provider => provider.type !== 'cassette');
+}
+
+/**
+ * Initialize the custom provider from story-ui.config.js
+ * Environment variables applied afterwards by initializeFromEnv() take precedence
+ */
+export function initializeFromConfig(customProvider?: CustomProviderConfig): void {
+  if (!customProvider?.baseUrl) return;
+
+  const apiKeyEnv = customProvider.apiKeyEnv || 'CUSTOM_LLM_API_KEY';
+  getProviderRegistry().configureProvider('custom', {
+    baseUrl: customProvider.baseUrl,
+    apiKey: customProvider.apiKey || process.env[apiKeyEnv],
+    headers: customProvider.headers,
+    models: customProvider.models || [],
+    model: customProvider.defaultModel || customProvider.models?.[0]?.id || '',
+    ...(customProvider.timeout && { timeout: customProvider.timeout }),
+  });
+  logger.info('Custom provider configured from story-ui.config');
+}
+
+/**
+ * OLLAMA_HOST is commonly set as a bare "host:port" for the Ollama CLI
+ */
+function normalizeOllamaUrl(url: string): string {
+  return /^https?:\/\//.test(url) ? url : `http://${url}`;
 }
@@ -0,0 +1,552 @@
+/**
+ * Ollama LLM Provider
+ *
+ * Implementation of the LLM provider interface for locally hosted models
+ * served by an Ollama daemon. No API key is required; models are listed
+ * from the daemon itself so whatever the user has pulled becomes selectable.
+ */
+
+import {
+  ProviderType,
+  ProviderConfig,
+  ModelInfo,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  StreamChunk,
+  ValidationResult,
+  MessageContent,
+  ImageContent,
+} from './types.js';
+import { BaseLLMProvider } from './base-provider.js';
+import { OpenAIToolCall, parseOpenAIToolCalls, partitionToolContent, toOpenAITools } from './tool-format.js';
+import { logger } from '../logger.js';
+
+// Default daemon address used by `ollama serve`
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+// Default model - a widely available code-capable local model
+const DEFAULT_MODEL = 'qwen2.5-coder';
+
+// Ollama falls back to a tiny context (2-4k) unless num_ctx is set, which
+// silently truncates Story UI's component reference. Request a larger window
+// by default, capped by what the model reports.
+const DEFAULT_NUM_CTX = 32768;
+
+// Local models can be slow to load, so chat requests get the usual generous timeout
+const DEFAULT_TIMEOUT_MS = 120000;
+
+// Local model families known to accept images. Used when the daemon is too
+// old to report capabilities via /api/show.
+const VISION_MODEL_PATTERNS = [
+  /llava/i,
+  /bakllava/i,
+  /vision/i,
+  /moondream/i,
+  /minicpm-v/i,
+  /qwen2\.5vl/i,
+  /qwen2\.5-vl/i,
+  /gemma3/i,
+  /llama4/i,
+  /mistral-small3\.[12]/i,
+  /granite3\.2-vision/i,
+];
+
+// Fallback model list shown before the daemon has been queried
+const OLLAMA_MODELS: ModelInfo[] = [
+  {
+    id: 'qwen2.5-coder',
+    name: 'Qwen 2.5 Coder',
+    provider: 'ollama',
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    supportsVision: false,
+    supportsDocuments: false,
+    supportsFunctionCalling: true,
+    supportsStreaming: true,
+    inputPricePer1kTokens: 0,
+    outputPricePer1kTokens: 0,
+    description: 'Local code model (pull with `ollama pull qwen2.5-coder`)',
+  },
+  {
+    id: 'llama3.2-vision',
+    name: 'Llama 3.2 Vision',
+    provider: 'ollama',
+    contextWindow: 131072,
+    maxOutputTokens: 8192,
+    supportsVision: true,
+    supportsDocuments: false,
+    supportsFunctionCalling: false,
+    supportsStreaming: true,
+    inputPricePer1kTokens: 0,
+    outputPricePer1kTokens: 0,
+    description: 'Local multimodal model for screenshot-to-story',
+  },
+];
+
+interface OllamaMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  images?: string[];
+  tool_calls?: OpenAIToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: {
+    role: string;
+    content: string;
+    tool_calls?: OpenAIToolCall[];
+  };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models: Array<{
+    name: string;
+    model: string;
+    size?: number;
+    details?: {
+      family?: string;
+      families?: string[] | null;
+      parameter_size?: string;
+      quantization_level?: string;
+    };
+  }>;
+}
+
+interface OllamaShowResponse {
+  capabilities?: string[];
+  model_info?: Record<string, unknown>;
+  details?: {
+    family?: string;
+    families?: string[] | null;
+  };
+}
+
+export class OllamaProvider extends BaseLLMProvider {
+  readonly name = 'Ollama';
+  readonly type: ProviderType = 'ollama';
+
+  private models: ModelInfo[] = [...OLLAMA_MODELS];
+
+  constructor(config?: Partial<ProviderConfig>) {
+    super(config);
+    // Set the provider type after base constructor
+    this.setProviderType();
+    // Set default model if not provided
+    if (!this.config.model) {
+      this.config.model = DEFAULT_MODEL;
+    }
+  }
+
+  get supportedModels(): ModelInfo[] {
+    return this.models;
+  }
+
+  /**
+   * Ollama needs no API key. The provider counts as configured once a
+   * daemon address has been supplied (env, config file or the configure route),
+   * so it never shadows a hosted provider by accident.
+   */
+  isConfigured(): boolean {
+    return !!this.config.baseUrl && !!this.config.model;
+  }
+
+  configure(config: ProviderConfig): void {
+    super.configure(config);
+    // Pick up whatever the user has pulled locally; failures are non-fatal
+    this.refreshModels().catch(error => {
+      logger.debug('Could not list Ollama models', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Query the daemon for installed models and replace the model list.
+   * An explicit key is sent instead of the configured one without storing it.
+   */
+  async refreshModels(apiKey: string | undefined = this.config.apiKey): Promise<ModelInfo[]> {
+    const headers = this.buildHeaders(apiKey);
+    const response = await fetch(`${this.getBaseUrl()}/api/tags`, {
+      headers,
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data = (await response.json()) as OllamaTagsResponse;
+    const models = await Promise.all(
+      (data.models || []).map(entry => this.describeModel(entry.name, entry.details?.families, headers))
+    );
+
+    if (models.length > 0) {
+      this.models = models;
+      logger.debug(`Loaded ${models.length} Ollama models`, { models: models.map(m => m.id) });
+    }
+
+    return this.models;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    this.validateMessages(messages);
+    this.logRequest(messages, options);
+
+    const model = options?.model || this.config.model;
+    const requestBody = this.buildRequestBody(messages, model, options, false);
+
+    try {
+      const response = await fetch(`${this.getBaseUrl()}/api/chat`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(this.getTimeout()),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error('Ollama API error response', { status: response.status, body: errorBody });
+        throw new Error(`Ollama API error: ${response.status} - ${errorBody}`);
+      }
+
+      const data = (await response.json()) as OllamaChatResponse;
+      if (data.error) {
+        throw new Error(`Ollama API error: ${data.error}`);
+      }
+
+      const chatResponse = this.convertResponse(data, model);
+      this.logResponse(chatResponse);
+      return chatResponse;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Ollama API request timed out after ${this.getTimeout()}ms`);
+      }
+      if (error instanceof TypeError) {
+        throw new Error(`Could not reach Ollama at ${this.getBaseUrl()}. Is \`ollama serve\` running?`);
+      }
+      throw error;
+    }
+  }
+
+  async *chatStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncIterable<StreamChunk> {
+    this.validateMessages(messages);
+    this.logRequest(messages, options);
+
+    const model = options?.model || this.config.model;
+    const requestBody = this.buildRequestBody(messages, model, options, true);
+
+    try {
+      const response = await fetch(`${this.getBaseUrl()}/api/chat`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(requestBody),
+        signal: AbortSignal.timeout(this.getTimeout()),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        yield { type: 'error', error: `Ollama API error: ${response.status} - ${errorBody}` };
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        yield { type: 'error', error: 'No response body' };
+        return;
+      }
+
+      // Ollama streams newline-delimited JSON rather than SSE
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let doneReason: string | undefined;
+      let hasToolCalls = false;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          try {
+            const event = JSON.parse(line) as OllamaChatResponse;
+
+            if (event.error) {
+              yield { type: 'error', error: `Ollama API error: ${event.error}` };
+              return;
+            }
+
+            if (event.message?.content) {
+              yield { type: 'text', content: event.message.content };
+            }
+
+            // Ollama sends each tool call complete, in the chunk that produces it
+            for (const toolCall of parseOpenAIToolCalls(event.message?.tool_calls, 'ollama-call') ?? []) {
+              hasToolCalls = true;
+              yield { type: 'tool_call', toolCall };
+            }
+
+            // Token counts are only reported on the final chunk
+            if (event.done) {
+              promptTokens = event.prompt_eval_count || 0;
+              completionTokens = event.eval_count || 0;
+              doneReason = event.done_reason;
+            }
+          } catch {
+            // Skip malformed JSON
+          }
+        }
+      }
+
+      yield {
+        type: 'done',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        finishReason: hasToolCalls ? 'tool_calls' : doneReason === 'length' ? 'length' : 'stop',
+      };
+    } catch (error) {
+      yield {
+        type: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Ollama has no API keys, so "validation" is a reachability check against
+   * the daemon. The key argument is forwarded as a bearer token for setups
+   * that put Ollama behind an authenticating reverse proxy.
+   */
+  async validateApiKey(apiKey: string): Promise<ValidationResult> {
+    try {
+      const models = await this.refreshModels(apiKey || this.config.apiKey);
+      return {
+        valid: true,
+        models,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Validation failed';
+      return {
+        valid: false,
+        error: error instanceof TypeError || (error instanceof Error && error.name === 'TimeoutError')
+          ? `Could not reach Ollama at ${this.getBaseUrl()}. Is \`ollama serve\` running?`
+          : message,
+      };
+    }
+  }
+
+  protected getSelectedModel(): ModelInfo | undefined {
+    // Models pulled after startup aren't listed yet; infer their capabilities
+    return super.getSelectedModel() ?? this.inferModelInfo(this.config.model);
+  }
+
+  // num_ctx sent with every request; Ollama silently drops tokens beyond it
+  getContextWindow(model: string = this.config.model): number {
+    const modelInfo = this.supportedModels.find(m => m.id === model) ?? this.inferModelInfo(model);
+    return this.config.contextWindow
+      || Math.min(modelInfo.contextWindow, DEFAULT_NUM_CTX);
+  }
+
+  private getBaseUrl(): string {
+    return (this.config.baseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+  }
+
+  private getTimeout(): number {
+    return this.config.timeout || DEFAULT_TIMEOUT_MS;
+  }
+
+  private buildHeaders(apiKey: string | undefined = this.config.apiKey): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+    };
+  }
+
+  private buildRequestBody(
+    messages: ChatMessage[],
+    model: string,
+    options: ChatOptions | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    const modelInfo = this.supportedModels.find(m => m.id === model) ?? this.inferModelInfo(model);
+    const numCtx = this.getContextWindow(model);
+
+    return {
+      model,
+      messages: this.convertMessages(messages, options?.systemPrompt),
+      stream,
+      options: {
+        num_ctx: numCtx,
+        num_predict: options?.maxTokens || modelInfo.maxOutputTokens,
+        ...(options?.temperature !== undefined && { temperature: options.temperature }),
+        ...(options?.topP !== undefined && { top_p: options.topP }),
+        ...(options?.topK !== undefined && { top_k: options.topK }),
+        ...(options?.stopSequences?.length && { stop: options.stopSequences }),
+      },
+      ...(options?.tools?.length && { tools: toOpenAITools(options.tools) }),
+    };
+  }
+
+  // Convert our message format to Ollama format
+  private convertMessages(messages: ChatMessage[], systemPrompt?: string): OllamaMessage[] {
+    const result: OllamaMessage[] = [];
+
+    if (systemPrompt) {
+      result.push({ role: 'system', content: systemPrompt });
+    }
+
+    for (const msg of messages) {
+      if (typeof msg.content === 'string') {
+        result.push({ role: msg.role, content: msg.content });
+        continue;
+      }
+
+      // Ollama takes tool call arguments as objects and one 'tool' message per result
+      const { toolUses, toolResults, other } = partitionToolContent(msg.content);
+      for (const toolResult of toolResults) {
+        result.push({ role: 'tool', content: toolResult.content, tool_name: toolResult.name });
+      }
+
+      const { text, images } = this.convertContent(other as MessageContent[]);
+      if (toolUses.length === 0 && !text && images.length === 0 && toolResults.length > 0) {
+        continue;
+      }
+      result.push({
+        role: msg.role,
+        content: text,
+        ...(images.length > 0 && { images }),
+        ...(toolUses.length > 0 && {
+          tool_calls: toolUses.map(use => ({ function: { name: use.name, arguments: use.input } })),
+        }),
+      });
+    }
+
+    return result;
+  }
+
+  private convertContent(content: MessageContent[]): { text: string; images: string[] } {
+    const textParts: string[] = [];
+    const images: string[] = [];
+
+    for (const item of content) {
+      if (item.type === 'text') {
+        textParts.push(item.text);
+      } else if (item.type === 'image') {
+        const imageContent = item as ImageContent;
+        // Ollama only accepts raw base64 image data
+        if (imageContent.source.type === 'base64' && imageContent.source.data) {
+          images.push(imageContent.source.data);
+        } else if (imageContent.source.url) {
+          logger.warn(`Ollama provider received URL image that wasn't pre-converted to base64. URL: ${imageContent.source.url}`);
+          textParts.push(`[Image URL - requires base64 conversion: ${imageContent.source.url}]`);
+        }
+      } else if (item.type === 'document') {
+        textParts.push(`[Document: ${item.source.name || 'unnamed'}]`);
+      }
+    }
+
+    return { text: textParts.join('\n'), images };
+  }
+
+  private convertResponse(data: OllamaChatResponse, model: string): ChatResponse {
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+
+    return {
+      id: `ollama-${Date.now()}`, // Ollama doesn't return an ID
+      model: data.model || model,
+      content: data.message?.content || '',
+      finishReason: data.message?.tool_calls?.length ? 'tool_calls' : data.done_reason === 'length' ? 'length' : 'stop',
+      toolCalls: parseOpenAIToolCalls(data.message?.tool_calls, 'ollama-call'),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      raw: data,
+    };
+  }
+
+  private async describeModel(
+    name: string,
+    families: string[] | null | undefined,
+    headers: Record<string, string>
+  ): Promise<ModelInfo> {
+    const info = this.inferModelInfo(name, families);
+
+    try {
+      const response = await fetch(`${this.getBaseUrl()}/api/show`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: name }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return info;
+
+      const details = (await response.json()) as OllamaShowResponse;
+
+      if (details.capabilities) {
+        info.supportsVision = details.capabilities.includes('vision');
+        info.supportsFunctionCalling = details.capabilities.includes('tools');
+        info.supportsReasoning = details.capabilities.includes('thinking');
+      }
+
+      // model_info keys are architecture-prefixed, e.g. "llama.context_length"
+      const contextKey = Object.keys(details.model_info || {}).find(k => k.endsWith('.context_length'));
+      const contextLength = contextKey ? Number(details.model_info![contextKey]) : NaN;
+      if (Number.isFinite(contextLength) && contextLength > 0) {
+        info.contextWindow = contextLength;
+      }
+    } catch {
+      // Older daemons may not support /api/show; keep inferred values
+    }
+
+    return info;
+  }
+
+  private inferModelInfo(name: string, families?: string[] | null): ModelInfo {
+    const isVision = VISION_MODEL_PATTERNS.some(pattern => pattern.test(name))
+      || !!families?.some(family => family === 'clip' || family === 'mllama');
+
+    return {
+      id: name,
+      name,
+      provider: 'ollama',
+      contextWindow: DEFAULT_NUM_CTX,
+      maxOutputTokens: 8192,
+      supportsVision: isVision,
+      supportsDocuments: false,
+      supportsFunctionCalling: false,
+      supportsStreaming: true,
+      inputPricePer1kTokens: 0,
+      outputPricePer1kTokens: 0,
+      description: 'Local model served by Ollama',
+    };
+  }
+}
+
+// Factory function
+export function createOllamaProvider(config?: Partial<ProviderConfig>): OllamaProvider {
+  return new OllamaProvider(config);
+}
@@ -17,6 +17,13 @@ import {
   ImageContent,
 } from './types.js';
 import { BaseLLMProvider } from './base-provider.js';
+import {
+  OpenAIToolCall,
+  parseOpenAIToolCalls,
+  partitionToolContent,
+  toOpenAIToolCallMessages,
+  toOpenAITools,
+} from './tool-format.js';
 import { logger } from '../logger.js';
 
 // OpenAI model definitions - Updated March 2026
@@ -34,6 +41,7 @@ const OPENAI_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.002,
     outputPricePer1kTokens: 0.008,
+    cachedInputPricePer1kTokens: 0.0005,
   },
   {
     id: 'gpt-5.4-mini',
@@ -47,6 +55,7 @@ const OPENAI_MODELS: ModelInfo[] = [
     supportsStreaming: true,
     inputPricePer1kTokens: 0.0004,
     outputPricePer1kTokens: 0.0016,
+    cachedInputPricePer1kTokens: 0.0001,
   },
   {
     id: 'o4-mini',
@@ -61,6 +70,7 @@ const OPENAI_MODELS: ModelInfo[] = [
     supportsReasoning: true,
     inputPricePer1kTokens: 0.0011,
     outputPricePer1kTokens: 0.0044,
+    cachedInputPricePer1kTokens: 0.000275,
   },
 ];
 
@@ -71,8 +81,10 @@ const DEFAULT_MODEL = 'gpt-5.4';
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
 
 interface OpenAIMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string | OpenAIContent[];
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string | OpenAIContent[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 }
 
 interface OpenAIContent {
@@ -94,6 +106,7 @@ interface OpenAIResponse {
     message: {
       role: string;
       content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string | null;
   }>;
@@ -101,6 +114,7 @@ interface OpenAIResponse {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
   };
 }
 
@@ -155,6 +169,9 @@ export class OpenAIProvider extends BaseLLMProvider {
     if (options?.stopSequences?.length) {
       requestBody.stop = options.stopSequences;
     }
+    if (options?.tools?.length) {
+      requestBody.tools = toOpenAITools(options.tools);
+    }
 
     try {
       const response = await fetch(this.config.baseUrl || OPENAI_API_URL, {
@@ -249,6 +266,8 @@ export class OpenAIProvider extends BaseLLMProvider {
       let buffer = '';
       let promptTokens = 0;
       let completionTokens = 0;
+      let cachedTokens = 0;
+      let finishReason: string | null = null;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -270,10 +289,15 @@ export class OpenAIProvider extends BaseLLMProvider {
                 yield { type: 'text', content: event.choices[0].delta.content };
               }
 
+              if (event.choices?.[0]?.finish_reason) {
+                finishReason = event.choices[0].finish_reason;
+              }
+
               // Usage may be included in the final message
               if (event.usage) {
                 promptTokens = event.usage.prompt_tokens || 0;
                 completionTokens = event.usage.completion_tokens || 0;
+                cachedTokens = event.usage.prompt_tokens_details?.cached_tokens || 0;
               }
             } catch {
               // Skip malformed JSON
@@ -288,7 +312,9 @@ export class OpenAIProvider extends BaseLLMProvider {
           promptTokens,
           completionTokens,
           totalTokens: promptTokens + completionTokens,
+          cachedTokens,
         },
+        finishReason: this.mapFinishReason(finishReason),
       };
     } catch (error) {
       yield {
@@ -365,16 +391,32 @@ export class OpenAIProvider extends BaseLLMProvider {
           content: typeof msg.content === 'string' ? msg.content : this.extractTextContent(msg.content),
         });
       } else {
-        result.push({
-          role: msg.role as 'user' | 'assistant',
-          content: this.convertContent(msg.content),
-        });
+        result.push(...this.convertToolMessages(msg));
       }
     }
 
     return result;
   }
 
+  // Tool calls ride on the assistant message; each tool result is its own 'tool' message
+  private convertToolMessages(msg: ChatMessage): OpenAIMessage[] {
+    const { toolUses, toolResults, other } = partitionToolContent(msg.content);
+    const result: OpenAIMessage[] = toolResults.map(toolResult => ({
+      role: 'tool' as const,
+      tool_call_id: toolResult.toolCallId,
+      content: toolResult.content,
+    }));
+
+    if (toolUses.length > 0) {
+      const text = typeof other === 'string' ? other : this.extractTextContent(other);
+      result.push({ role: 'assistant', content: text || null, tool_calls: toOpenAIToolCallMessages(toolUses) });
+    } else if (typeof other === 'string' || other.length > 0) {
+      result.push({ role: msg.role as 'user' | 'assistant', content: this.convertContent(other) });
+    }
+
+    return result;
+  }
+
   private extractTextContent(content: MessageContent[]): string {
     return content
       .filter(item => item.type === 'text')
@@ -424,10 +466,12 @@ export class OpenAIProvider extends BaseLLMProvider {
       model: data.model,
       content,
       finishReason: this.mapFinishReason(choice?.finish_reason),
+      toolCalls: parseOpenAIToolCalls(choice?.message?.tool_calls, 'openai-call'),
       usage: {
         promptTokens: data.usage.prompt_tokens,
         completionTokens: data.usage.completion_tokens,
         totalTokens: data.usage.total_tokens,
+        cachedTokens: data.usage.prompt_tokens_details?.cached_tokens || 0,
       },
       raw: data,
     };
@@ -0,0 +1,200 @@
+/**
+ * LLM Response Cache
+ *
+ * Persists chat completions on disk so that re-running an identical prompt
+ * (same messages, system prompt, provider and model) returns the stored answer
+ * instead of paying for another LLM call. Entries are JSON files under
+ * `.story-ui-cache/llm/`, expire after a TTL and are evicted oldest-first once
+ * the entry count or total size cap is exceeded.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ChatMessage, ChatOptions, ChatResponse, ProviderType } from './types.js';
+import type { LLMCacheConfig } from '../../story-ui.config.js';
+import { logger } from '../logger.js';
+
+export const DEFAULT_CACHE_DIR = '.story-ui-cache/llm';
+
+export interface ResponseCacheOptions {
+  enabled: boolean;
+  directory: string;
+  ttlMs: number;
+  maxEntries: number;
+  maxSizeBytes: number;
+}
+
+export interface CachedResponse {
+  key: string;
+  provider: ProviderType;
+  model: string;
+  content: string;
+  usage: ChatResponse['usage'];
+  createdAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  sizeBytes: number;
+  directory: string;
+}
+
+// Opt-in: a cached answer hides prompt and model changes, so it is only used when asked for
+export const DEFAULT_CACHE_OPTIONS: ResponseCacheOptions = {
+  enabled: false,
+  directory: DEFAULT_CACHE_DIR,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 500,
+  maxSizeBytes: 50 * 1024 * 1024,
+};
+
+/**
+ * Hash everything that influences the completion into a stable cache key
+ */
+export function computeCacheKey(
+  provider: ProviderType,
+  messages: ChatMessage[],
+  options: Pick<ChatOptions, 'model' | 'systemPrompt' | 'maxTokens' | 'temperature' | 'tools'>
+): string {
+  const payload = JSON.stringify({
+    provider,
+    model: options.model,
+    systemPrompt: options.systemPrompt,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    tools: options.tools,
+    messages,
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Build cache options from story-ui.config and environment.
+ * STORY_UI_LLM_CACHE=true|false turns the cache on or off without touching the config.
+ */
+export function resolveCacheOptions(
+  config?: LLMCacheConfig,
+  env: NodeJS.ProcessEnv = process.env
+): ResponseCacheOptions {
+  const envNumber = (key: string): number | undefined => {
+    const parsed = env[key] !== undefined ? parseFloat(env[key]!) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+  };
+
+  const envEnabled = env.STORY_UI_LLM_CACHE;
+  const enabled = envEnabled !== undefined
+    ? !['false', '0', 'off'].includes(envEnabled.toLowerCase())
+    : config?.enabled ?? DEFAULT_CACHE_OPTIONS.enabled;
+
+  const ttlHours = envNumber('LLM_CACHE_TTL_HOURS') ?? config?.ttlHours;
+  const maxSizeMB = envNumber('LLM_CACHE_MAX_SIZE_MB') ?? config?.maxSizeMB;
+
+  return {
+    enabled,
+    directory: env.LLM_CACHE_DIR || config?.directory || DEFAULT_CACHE_OPTIONS.directory,
+    ttlMs: ttlHours !== undefined ? ttlHours * 60 * 60 * 1000 : DEFAULT_CACHE_OPTIONS.ttlMs,
+    maxEntries: envNumber('LLM_CACHE_MAX_ENTRIES') ?? config?.maxEntries ?? DEFAULT_CACHE_OPTIONS.maxEntries,
+    maxSizeBytes: maxSizeMB !== undefined ? maxSizeMB * 1024 * 1024 : DEFAULT_CACHE_OPTIONS.maxSizeBytes,
+  };
+}
+
+export class ResponseCache {
+  private readonly dir: string;
+
+  constructor(private readonly options: ResponseCacheOptions) {
+    this.dir = path.resolve(process.cwd(), options.directory);
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  get(key: string): CachedResponse | null {
+    if (!this.options.enabled) return null;
+
+    const filePath = this.entryPath(key);
+    try {
+      if (!fs.existsSync(filePath)) return null;
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CachedResponse;
+      if (Date.now() - entry.createdAt > this.options.ttlMs) {
+        fs.unlinkSync(filePath);
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      logger.warn('[llm-cache] Failed to read cache entry, ignoring', { key, error: String(error) });
+      return null;
+    }
+  }
+
+  set(entry: Omit<CachedResponse, 'createdAt'>): void {
+    // Empty answers are never worth replaying
+    if (!this.options.enabled || !entry.content.trim()) return;
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const record: CachedResponse = { ...entry, createdAt: Date.now() };
+      fs.writeFileSync(this.entryPath(entry.key), JSON.stringify(record));
+      this.prune();
+    } catch (error) {
+      // Non-fatal — a failed cache write only costs a future LLM call
+      logger.warn('[llm-cache] Failed to write cache entry', { error: String(error) });
+    }
+  }
+
+  /**
+   * Remove every cached response. Returns the number of entries deleted.
+   */
+  clear(): number {
+    const files = this.listEntries();
+    for (const file of files) {
+      fs.unlinkSync(file.path);
+    }
+    return files.length;
+  }
+
+  stats(): CacheStats {
+    const files = this.listEntries();
+    return {
+      entries: files.length,
+      sizeBytes: files.reduce((total, file) => total + file.size, 0),
+      directory: this.dir,
+    };
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private listEntries(): Array<{ path: string; size: number; mtimeMs: number }> {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const filePath = path.join(this.dir, name);
+        const stat = fs.statSync(filePath);
+        return { path: filePath, size: stat.size, mtimeMs: stat.mtimeMs };
+      });
+  }
+
+  /**
+   * Drop expired entries, then evict oldest-first until under both caps
+   */
+  private prune(): void {
+    const now = Date.now();
+    const files = this.listEntries().sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalSize = files.reduce((total, file) => total + file.size, 0);
+    let remaining = files.length;
+
+    for (const file of files) {
+      const expired = now - file.mtimeMs > this.options.ttlMs;
+      if (!expired && remaining <= this.options.maxEntries && totalSize <= this.options.maxSizeBytes) {
+        continue;
+      }
+      fs.unlinkSync(file.path);
+      totalSize -= file.size;
+      remaining--;
+    }
+  }
+}
@@ -5,7 +5,7 @@
  * Combines environment variables (DevOps guardrails) with user preferences.
  *
  * Environment Variables:
- * - DEFAULT_PROVIDER: Default provider (claude, openai, gemini)
+ * - DEFAULT_PROVIDER: Default provider (claude, openai, gemini, ollama, custom)
  * - DEFAULT_MODEL: Default model ID
  * - ALLOWED_MODELS: Comma-separated list of allowed model IDs (optional)
  * - ALLOWED_PROVIDERS: Comma-separated list of allowed providers (optional)
@@ -60,7 +60,7 @@ export function loadSettingsConfig(): SettingsConfig {
   const allowedProvidersEnv = process.env.ALLOWED_PROVIDERS;
   const allowedProviders: ProviderType[] = allowedProvidersEnv
     ? (allowedProvidersEnv.split(',').map(p => p.trim()) as ProviderType[])
-    : ['claude', 'openai', 'gemini']; // All providers allowed by default
+    : ['claude', 'openai', 'gemini', 'ollama', 'custom']; // All providers allowed by default
 
   // Parse allowed models
   const allowedModelsEnv = process.env.ALLOWED_MODELS;
@@ -98,6 +98,7 @@ export function getAvailableProviders(config: SettingsConfig): AvailableOption[]
     gemini: 'Google Gemini',
     ollama: 'Ollama (Local)',
     custom: 'Custom Provider',
+    cassette: 'Cassette (Recorded)',
   };
 
   const recommendedProviders: ProviderType[] = ['claude', 'openai', 'gemini'];
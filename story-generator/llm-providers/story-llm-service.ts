@@ -8,26 +8,72 @@
 
 import {
   getProviderRegistry,
+  createStandaloneProvider,
   initializeFromEnv,
+  initializeFromConfig,
   ChatMessage,
+  ChatOptions,
   ChatResponse,
   LLMProvider,
   ProviderType,
+  ProviderConfig,
   ImageContent,
   MessageContent,
+  ToolCall,
+  ToolDefinition,
 } from './index.js';
+import {
+  FailoverPolicy,
+  ProviderErrorClass,
+  DEFAULT_FAILOVER_POLICY,
+  classifyProviderError,
+  computeBackoffDelay,
+  resolveFailoverPolicy,
+} from './failover.js';
+import { ResponseCache, computeCacheKey, resolveCacheOptions } from './response-cache.js';
+import type { CachedResponse } from './response-cache.js';
+import { loadUserConfig } from '../configLoader.js';
+import { getUsageLedger, UsageContext } from '../usageLedger.js';
+import { assertWithinBudget } from '../budgetGuard.js';
+import type { PromptBudget } from '../promptBudget.js';
 import { logger } from '../logger.js';
 
+/** Share of the remaining context window a prompt may fill */
+const PROMPT_BUDGET_MARGIN = 0.85;
+
+// Follow-up requests made when an answer stops at the output token limit
+const MAX_CONTINUATIONS = 2;
+const CONTINUE_PROMPT = 'Your previous answer was cut off. Continue exactly where it stopped, without repeating anything or adding commentary.';
+
 // Initialize providers from environment on module load
 let initialized = false;
+let failoverPolicy: FailoverPolicy | null = null;
+let responseCache: ResponseCache | null = null;
 
 function ensureInitialized(): void {
   if (!initialized) {
+    const userConfig = loadUserConfig();
+    initializeFromConfig(userConfig.customProvider);
     initializeFromEnv();
+    failoverPolicy = resolveFailoverPolicy(userConfig.llmFailover);
+    responseCache = new ResponseCache(resolveCacheOptions(userConfig.llmCache));
     initialized = true;
   }
 }
 
+function getFailoverPolicy(): FailoverPolicy {
+  return failoverPolicy ?? DEFAULT_FAILOVER_POLICY;
+}
+
+/**
+ * The cassette provider takes over every request while it is registered,
+ * so recordings capture all traffic and replays never reach the network
+ */
+function getActiveCassette(): LLMProvider | undefined {
+  const cassette = getProviderRegistry().get('cassette');
+  return cassette?.isConfigured() ? cassette : undefined;
+}
+
 /**
  * Get the currently configured provider for story generation
  */
@@ -35,6 +81,11 @@ export function getStoryProvider(): LLMProvider {
   ensureInitialized();
   const registry = getProviderRegistry();
 
+  const cassette = getActiveCassette();
+  if (cassette) {
+    return cassette;
+  }
+
   // First try to get a configured provider
   const configured = registry.getConfiguredProviders();
   if (configured.length > 0) {
@@ -47,7 +98,7 @@ export function getStoryProvider(): LLMProvider {
     return defaultProvider;
   }
 
-  throw new Error('No LLM provider configured. Please set CLAUDE_API_KEY, OPENAI_API_KEY, or GEMINI_API_KEY.');
+  throw new Error('No LLM provider configured. Please set CLAUDE_API_KEY, OPENAI_API_KEY, GEMINI_API_KEY, OLLAMA_BASE_URL, or CUSTOM_LLM_BASE_URL.');
 }
 
 /**
@@ -77,37 +128,368 @@ export function getAvailableProviders(): Array<{
 }
 
 /**
- * Simple chat completion for story generation
- * Maintains backwards compatibility with the old callClaude interface
- * Now supports explicit provider selection from UI
+ * Callback receiving incremental text as the model writes it
  */
-export async function chatCompletion(
-  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
-  options?: {
-    provider?: ProviderType;  // Explicit provider selection from UI
-    model?: string;
-    maxTokens?: number;
-    temperature?: number;
+export type TextDeltaHandler = (delta: string) => void;
+
+/**
+ * Send a chat request to a provider.
+ * When onDelta is given and the provider can stream, text is forwarded as it
+ * arrives and the full response is assembled from the stream.
+ */
+async function runChat(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  onDelta?: TextDeltaHandler
+): Promise<ChatResponse> {
+  // Streams only carry text, so tool-calling turns always use a plain request
+  if (!onDelta || !provider.chatStream || !provider.supportsStreaming() || options.tools?.length) {
+    return provider.chat(messages, options);
   }
-): Promise<string> {
-  ensureInitialized();
 
-  // Use explicitly requested provider, or fall back to first configured
-  let provider: LLMProvider;
-  if (options?.provider) {
-    const registry = getProviderRegistry();
-    const requestedProvider = registry.get(options.provider);
+  let content = '';
+  let usage: ChatResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let finishReason: ChatResponse['finishReason'] = 'stop';
+
+  for await (const chunk of provider.chatStream(messages, options)) {
+    if (chunk.type === 'text' && chunk.content) {
+      content += chunk.content;
+      onDelta(chunk.content);
+    } else if (chunk.type === 'error') {
+      throw new Error(chunk.error || `${provider.name} stream failed`);
+    } else if (chunk.type === 'done') {
+      usage = chunk.usage ?? usage;
+      // Truncated streams must report 'length' so the caller can continue them
+      finishReason = chunk.finishReason ?? finishReason;
+    }
+  }
+
+  return {
+    id: `${provider.type}-stream-${Date.now()}`,
+    model: options.model || provider.getConfig().model,
+    content,
+    finishReason,
+    usage,
+  };
+}
+
+/**
+ * Ask the model to finish an answer that hit the output token limit, appending
+ * each continuation to the response. Tool-calling turns are left as they are.
+ */
+async function continueTruncated(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  response: ChatResponse,
+  onDelta?: TextDeltaHandler
+): Promise<ChatResponse> {
+  let combined = response;
+
+  for (let continuation = 1; continuation <= MAX_CONTINUATIONS; continuation++) {
+    if (combined.finishReason !== 'length' || options.tools?.length) break;
+
+    logger.log(`✂️ ${provider.name} hit the output limit, continuing (${continuation}/${MAX_CONTINUATIONS})`);
+    const next = await runChat(provider, [
+      ...messages,
+      { role: 'assistant', content: combined.content },
+      { role: 'user', content: CONTINUE_PROMPT },
+    ], options, onDelta);
+
+    combined = {
+      ...next,
+      content: combined.content + next.content,
+      usage: {
+        promptTokens: combined.usage.promptTokens + next.usage.promptTokens,
+        completionTokens: combined.usage.completionTokens + next.usage.completionTokens,
+        totalTokens: combined.usage.totalTokens + next.usage.totalTokens,
+        cachedTokens: (combined.usage.cachedTokens ?? 0) + (next.usage.cachedTokens ?? 0),
+      },
+    };
+  }
+
+  return combined;
+}
+
+/**
+ * Options shared by the story chat completion helpers
+ */
+export interface StoryChatOptions {
+  provider?: ProviderType;  // Explicit provider selection from UI
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  onDelta?: TextDeltaHandler;  // Stream generated text as it arrives
+  onFailover?: FailoverHandler;  // Notified before a retry or a switch to the next provider
+  bypassCache?: boolean;  // Always call the provider, ignoring (but refreshing) cached responses
+  usageContext?: UsageContext;  // Story/chat/client the call is billed to in the usage ledger
+}
+
+/**
+ * Emitted when a provider call fails and the failover policy acts on it
+ */
+export interface FailoverEvent {
+  action: 'retry' | 'failover';
+  errorClass: ProviderErrorClass;
+  error: string;
+  from: { provider: ProviderType; model: string };
+  to: { provider: ProviderType; model: string };
+  delayMs: number;
+}
+
+export type FailoverHandler = (event: FailoverEvent) => void;
+
+/**
+ * Chat completion result, including which provider/model actually answered
+ */
+export interface StoryChatResult {
+  content: string;
+  provider: ProviderType;
+  model: string;
+  usage: ChatResponse['usage'];
+  /** Why the model stopped; 'length' means the answer is still cut off after continuing */
+  finishReason: ChatResponse['finishReason'];
+  /** True when the answer came from a fallback rather than the requested provider/model */
+  fallbackUsed: boolean;
+  /** Total provider calls made, including retries (0 when served from cache) */
+  attempts: number;
+  /** True when the response came from the on-disk cache */
+  cached: boolean;
+  /** Estimated cost in USD from the model's price table */
+  costUsd: number;
+  /** Usage ledger record for this call, used to attribute it to a story later */
+  usageRecordId: string;
+  /** Tools the model asked to call (tool-calling requests only) */
+  toolCalls?: ToolCall[];
+}
+
+interface ChainLink {
+  provider: LLMProvider;
+  model: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Use explicitly requested provider, or fall back to first configured
+ */
+function resolveRequestedProvider(requested: ProviderType | undefined, purpose: string): LLMProvider {
+  const cassette = getActiveCassette();
+  if (cassette) {
+    return cassette;
+  }
+
+  if (requested) {
+    const requestedProvider = getProviderRegistry().get(requested);
     if (requestedProvider && requestedProvider.isConfigured()) {
-      provider = requestedProvider;
-      logger.log(`🎯 Using explicitly requested provider: ${provider.name}`);
-    } else {
-      logger.warn(`Requested provider '${options.provider}' not configured, falling back to default`);
-      provider = getStoryProvider();
+      logger.log(`🎯 Using explicitly requested provider${purpose}: ${requestedProvider.name}`);
+      return requestedProvider;
+    }
+    logger.warn(`Requested provider '${requested}' not configured, falling back to default`);
+  }
+  return getStoryProvider();
+}
+
+/**
+ * Build the ordered list of provider/model pairs to try: the requested one
+ * first, then configured fallbacks that are ready to use. Links whose model
+ * lacks a required capability are dropped.
+ */
+function buildProviderChain(
+  primary: LLMProvider,
+  model: string | undefined,
+  requires: { vision?: boolean; tools?: boolean } = {}
+): ChainLink[] {
+  const registry = getProviderRegistry();
+  const chain: ChainLink[] = [{ provider: primary, model: model || primary.getConfig().model }];
+
+  for (const target of getFailoverPolicy().chain) {
+    const provider = registry.get(target.provider);
+    if (!provider || !provider.isConfigured()) continue;
+
+    const targetModel = target.model || provider.getConfig().model;
+    if (chain.some(link => link.provider === provider && link.model === targetModel)) continue;
+
+    chain.push({ provider, model: targetModel });
+  }
+
+  if (!requires.vision && !requires.tools) {
+    return chain;
+  }
+
+  return chain.filter(link => {
+    const modelInfo = link.provider.supportedModels.find(m => m.id === link.model);
+    if (requires.vision && !(modelInfo ? modelInfo.supportsVision : link.provider.supportsVision())) {
+      return false;
+    }
+    if (requires.tools && !(modelInfo ? modelInfo.supportsFunctionCalling : link.provider.supportsFunctionCalling())) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Run a chat request down the provider chain, retrying with exponential
+ * backoff and failing over according to the error class rules.
+ */
+async function completeWithFailover(
+  chain: ChainLink[],
+  messages: ChatMessage[],
+  chatOptions: Omit<ChatOptions, 'model'>,
+  options?: StoryChatOptions
+): Promise<StoryChatResult> {
+  const policy = getFailoverPolicy();
+  let attempts = 0;
+  let lastError: unknown;
+
+  const cacheKeyFor = (link: ChainLink) => computeCacheKey(link.provider.type, messages, { ...chatOptions, model: link.model });
+  // Cached entries only hold text, so tool-calling turns are never cached
+  const useCache = !chatOptions.tools?.length;
+
+  if (useCache && responseCache?.enabled && !options?.bypassCache) {
+    // Answers are stored under the key of the link that gave them, so a
+    // fallback's answer is found while the primary is down
+    let hit: CachedResponse | null = null;
+    for (let linkIndex = 0; linkIndex < chain.length && !hit; linkIndex++) {
+      hit = responseCache.get(cacheKeyFor(chain[linkIndex]));
+    }
+    if (hit) {
+      logger.log(`💾 Using cached response from ${hit.provider} (${hit.model})`);
+      options?.onDelta?.(hit.content);
+      const record = getUsageLedger().record(
+        { provider: hit.provider, model: hit.model, usage: hit.usage, responseCached: true },
+        options?.usageContext
+      );
+      return {
+        content: hit.content,
+        provider: hit.provider,
+        model: hit.model,
+        usage: hit.usage,
+        finishReason: 'stop',
+        fallbackUsed: false,
+        attempts: 0,
+        cached: true,
+        costUsd: 0,
+        usageRecordId: record.id,
+      };
     }
-  } else {
-    provider = getStoryProvider();
   }
 
+  // Cached answers are free; anything that reaches a provider counts against the budget
+  assertWithinBudget(options?.usageContext?.client);
+
+  for (let linkIndex = 0; linkIndex < chain.length; linkIndex++) {
+    const { provider, model } = chain[linkIndex];
+
+    for (let retry = 0; ; retry++) {
+      attempts++;
+      try {
+        const response = await continueTruncated(
+          provider,
+          messages,
+          { ...chatOptions, model },
+          await runChat(provider, messages, { ...chatOptions, model }, options?.onDelta),
+          options?.onDelta
+        );
+        if (linkIndex > 0) {
+          logger.log(`🔀 Answered by fallback provider ${provider.name} (${model})`);
+        }
+        // Never cache an answer that is still cut off
+        if (useCache && response.finishReason !== 'length') {
+          responseCache?.set({
+            key: cacheKeyFor(chain[linkIndex]),
+            provider: provider.type,
+            model,
+            content: response.content,
+            usage: response.usage,
+          });
+        }
+        const record = getUsageLedger().record(
+          {
+            provider: provider.type,
+            model,
+            usage: response.usage,
+            pricing: provider.supportedModels.find(m => m.id === model),
+          },
+          options?.usageContext
+        );
+        return {
+          content: response.content,
+          provider: provider.type,
+          model,
+          usage: response.usage,
+          finishReason: response.finishReason,
+          fallbackUsed: linkIndex > 0,
+          attempts,
+          cached: false,
+          costUsd: record.costUsd,
+          usageRecordId: record.id,
+          toolCalls: response.toolCalls,
+        };
+      } catch (error) {
+        lastError = error;
+        const errorClass = classifyProviderError(error);
+        const rule = policy.rules[errorClass];
+        const message = error instanceof Error ? error.message : String(error);
+
+        logger.error('LLM chat completion failed', {
+          provider: provider.name,
+          model,
+          errorClass,
+          error: message,
+        });
+
+        if (rule.retry && retry < policy.maxRetries) {
+          const delayMs = computeBackoffDelay(retry, policy);
+          options?.onFailover?.({
+            action: 'retry',
+            errorClass,
+            error: message,
+            from: { provider: provider.type, model },
+            to: { provider: provider.type, model },
+            delayMs,
+          });
+          logger.log(`⏳ ${provider.name} ${errorClass}, retrying in ${delayMs}ms (${retry + 1}/${policy.maxRetries})`);
+          await sleep(delayMs);
+          continue;
+        }
+
+        const next = chain[linkIndex + 1];
+        if (!rule.failover || !next) {
+          throw error;
+        }
+
+        options?.onFailover?.({
+          action: 'failover',
+          errorClass,
+          error: message,
+          from: { provider: provider.type, model },
+          to: { provider: next.provider.type, model: next.model },
+          delayMs: 0,
+        });
+        logger.warn(`🔀 ${provider.name} failed (${errorClass}), failing over to ${next.provider.name} (${next.model})`);
+        break;
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Chat completion for story generation with provider/model details
+ * Supports explicit provider selection from UI and the configured failover chain
+ */
+export async function chatCompletionDetailed(
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
+  options?: StoryChatOptions
+): Promise<StoryChatResult> {
+  ensureInitialized();
+
+  const provider = resolveRequestedProvider(options?.provider, '');
+
   if (!provider.isConfigured()) {
     throw new Error(`${provider.name} provider is not configured. Please set the API key.`);
   }
@@ -130,58 +512,38 @@ export async function chatCompletion(
     hasSystemPrompt: !!systemPrompt,
   });
 
-  try {
-    const response = await provider.chat(chatMessages, {
-      model: options?.model,
-      maxTokens: options?.maxTokens,
-      temperature: options?.temperature,
-      systemPrompt,
-    });
-
-    return response.content;
-  } catch (error) {
-    logger.error('LLM chat completion failed', {
-      provider: provider.name,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
+  return completeWithFailover(buildProviderChain(provider, options?.model), chatMessages, {
+    maxTokens: options?.maxTokens,
+    temperature: options?.temperature,
+    systemPrompt,
+  }, options);
 }
 
 /**
- * Chat completion with image support for vision-based story generation
- * Supports sending images alongside text prompts
- * Now supports explicit provider selection from UI
+ * Simple chat completion for story generation
+ * Maintains backwards compatibility with the old callClaude interface
  */
-export async function chatCompletionWithImages(
+export async function chatCompletion(
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
+  options?: StoryChatOptions
+): Promise<string> {
+  return (await chatCompletionDetailed(messages, options)).content;
+}
+
+/**
+ * Chat completion with image support for vision-based story generation,
+ * with provider/model details. Fallbacks without vision support are skipped.
+ */
+export async function chatCompletionWithImagesDetailed(
   messages: Array<{
     role: 'user' | 'assistant';
     content: string | MessageContent[];
   }>,
-  options?: {
-    provider?: ProviderType;  // Explicit provider selection from UI
-    model?: string;
-    maxTokens?: number;
-    temperature?: number;
-  }
-): Promise<string> {
+  options?: StoryChatOptions
+): Promise<StoryChatResult> {
   ensureInitialized();
 
-  // Use explicitly requested provider, or fall back to first configured
-  let provider: LLMProvider;
-  if (options?.provider) {
-    const registry = getProviderRegistry();
-    const requestedProvider = registry.get(options.provider);
-    if (requestedProvider && requestedProvider.isConfigured()) {
-      provider = requestedProvider;
-      logger.log(`🎯 Using explicitly requested provider for vision: ${provider.name}`);
-    } else {
-      logger.warn(`Requested provider '${options.provider}' not configured, falling back to default`);
-      provider = getStoryProvider();
-    }
-  } else {
-    provider = getStoryProvider();
-  }
+  const provider = resolveRequestedProvider(options?.provider, ' for vision');
 
   if (!provider.isConfigured()) {
     throw new Error(`${provider.name} provider is not configured. Please set the API key.`);
@@ -192,7 +554,8 @@ export async function chatCompletionWithImages(
     Array.isArray(msg.content) && msg.content.some(c => c.type === 'image')
   );
 
-  if (hasImages && !provider.supportsVision()) {
+  const chain = buildProviderChain(provider, options?.model, { vision: hasImages });
+  if (chain.length === 0) {
     throw new Error(`${provider.name} does not support vision/image analysis. Please use a vision-capable model.`);
   }
 
@@ -202,27 +565,126 @@ export async function chatCompletionWithImages(
   }));
 
   logger.debug('Sending chat request with images to provider', {
-    provider: provider.name,
-    model: options?.model || provider.getConfig().model,
+    provider: chain[0].provider.name,
+    model: chain[0].model,
     messageCount: messages.length,
     hasImages,
   });
 
+  return completeWithFailover(chain, chatMessages, {
+    maxTokens: options?.maxTokens,
+    temperature: options?.temperature,
+  }, options);
+}
+
+/**
+ * Chat completion with image support for vision-based story generation
+ * Supports sending images alongside text prompts
+ */
+export async function chatCompletionWithImages(
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string | MessageContent[];
+  }>,
+  options?: StoryChatOptions
+): Promise<string> {
+  return (await chatCompletionWithImagesDetailed(messages, options)).content;
+}
+/**
+ * Whether the provider/model a request would use can call tools
+ */
+export function supportsToolCalling(providerType?: ProviderType, model?: string): boolean {
+  ensureInitialized();
+  try {
+    const provider = resolveRequestedProvider(providerType, '');
+    const modelId = model || provider.getConfig().model;
+    const modelInfo = provider.supportedModels.find(m => m.id === modelId);
+    return provider.isConfigured() && (modelInfo ? modelInfo.supportsFunctionCalling : provider.supportsFunctionCalling());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Token budget for a generation prompt. Uses the smallest context window in
+ * the failover chain so a fallback model can take the same prompt, reserves
+ * room for the response and keeps a margin for estimation error and the
+ * self-healing turns appended to the conversation.
+ */
+export function getPromptBudget(
+  providerType?: ProviderType,
+  model?: string,
+  maxOutputTokens: number = 8192
+): PromptBudget | null {
+  ensureInitialized();
+  let provider: LLMProvider;
   try {
-    const response = await provider.chat(chatMessages, {
-      model: options?.model,
-      maxTokens: options?.maxTokens,
-      temperature: options?.temperature,
-    });
-
-    return response.content;
-  } catch (error) {
-    logger.error('LLM chat completion with images failed', {
-      provider: provider.name,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
+    provider = resolveRequestedProvider(providerType, ' for prompt budgeting');
+  } catch {
+    return null;
+  }
+
+  let budget: PromptBudget | null = null;
+  for (const link of buildProviderChain(provider, model)) {
+    const contextWindow = link.provider.getContextWindow?.(link.model);
+    if (!contextWindow) continue;
+
+    const modelInfo = link.provider.supportedModels.find(m => m.id === link.model);
+    const reserved = Math.min(maxOutputTokens, modelInfo?.maxOutputTokens ?? maxOutputTokens);
+    const maxPromptTokens = Math.floor((contextWindow - reserved) * PROMPT_BUDGET_MARGIN);
+    if (!budget || maxPromptTokens < budget.maxPromptTokens) {
+      const estimator = link.provider;
+      budget = {
+        contextWindow,
+        maxPromptTokens: Math.max(0, maxPromptTokens),
+        estimateTokens: (text: string) => estimator.estimateTokens?.(text) ?? Math.ceil(text.length / 4),
+      };
+    }
+  }
+  return budget;
+}
+
+/**
+ * One tool-calling turn: the model either answers or asks for tool calls,
+ * which the caller runs and appends to `messages` before the next turn.
+ * Goes through the same failover chain, budgets and usage ledger as other
+ * calls; fallbacks that cannot call tools (or see images) are skipped.
+ */
+export async function chatWithToolsDetailed(
+  messages: ChatMessage[],
+  tools: ToolDefinition[],
+  options?: StoryChatOptions & { systemPrompt?: string }
+): Promise<StoryChatResult> {
+  ensureInitialized();
+
+  const provider = resolveRequestedProvider(options?.provider, ' for tool calling');
+
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.name} provider is not configured. Please set the API key.`);
   }
+
+  const hasImages = messages.some(msg =>
+    Array.isArray(msg.content) && msg.content.some(c => c.type === 'image')
+  );
+
+  const chain = buildProviderChain(provider, options?.model, { vision: hasImages, tools: true });
+  if (chain.length === 0) {
+    throw new Error(`${provider.name} (${options?.model || provider.getConfig().model}) does not support tool calling.`);
+  }
+
+  logger.debug('Sending tool-calling request to provider', {
+    provider: chain[0].provider.name,
+    model: chain[0].model,
+    messageCount: messages.length,
+    toolCount: tools.length,
+  });
+
+  return completeWithFailover(chain, messages, {
+    maxTokens: options?.maxTokens,
+    temperature: options?.temperature,
+    systemPrompt: options?.systemPrompt,
+    tools,
+  }, options);
 }
 
 /**
@@ -270,6 +732,7 @@ export async function generateTitle(description: string): Promise<string> {
   const response = await chatCompletion([{ role: 'user', content: titlePrompt }], {
     maxTokens: 100,
     temperature: 0.7,
+    usageContext: { source: 'title' },
   });
 
   // Extract the first non-empty line
@@ -315,13 +778,23 @@ export function getProviderInfo(): {
   }
 }
 
+/**
+ * Whether a request names an endpoint other than the configured one; the
+ * stored key and headers are never sent there
+ */
+function isOtherEndpoint(stored: ProviderConfig, baseUrl: string | undefined): boolean {
+  return !!baseUrl && baseUrl !== stored.baseUrl;
+}
+
 /**
  * Configure a specific provider with API key
+ * Local and custom providers also take a base URL, headers and declared models
  */
 export function configureProvider(
   type: ProviderType,
-  apiKey: string,
-  model?: string
+  apiKey: string | undefined,
+  model?: string,
+  endpoint?: Pick<ProviderConfig, 'baseUrl' | 'headers' | 'models'>
 ): boolean {
   ensureInitialized();
   const registry = getProviderRegistry();
@@ -332,9 +805,14 @@ export function configureProvider(
     return false;
   }
 
+  // Headers stored for the previous endpoint are not carried over to a new one
+  const headers = endpoint?.headers ?? (isOtherEndpoint(provider.getConfig(), endpoint?.baseUrl) ? undefined : provider.getConfig().headers);
   registry.configureProvider(type, {
     apiKey,
-    model: model || provider.supportedModels[0]?.id,
+    model: model || endpoint?.models?.[0]?.id || provider.supportedModels[0]?.id,
+    ...(endpoint?.baseUrl && { baseUrl: endpoint.baseUrl }),
+    headers,
+    ...(endpoint?.models && { models: endpoint.models }),
   });
 
   logger.info(`Configured ${type} provider`, { model: model || 'default' });
@@ -346,16 +824,27 @@ export function configureProvider(
  */
 export async function validateProviderKey(
   type: ProviderType,
-  apiKey: string
+  apiKey: string,
+  endpoint?: Pick<ProviderConfig, 'baseUrl' | 'headers'>
 ): Promise<{ valid: boolean; error?: string }> {
   ensureInitialized();
-  const registry = getProviderRegistry();
-  const provider = registry.get(type);
+  const registered = getProviderRegistry().get(type);
 
-  if (!provider) {
+  if (!registered) {
     return { valid: false, error: `Unknown provider type: ${type}` };
   }
 
+  // Validate on a separate instance so the key and endpoint under test never
+  // reach the shared provider that concurrent requests are using. Another
+  // endpoint only gets the credentials the request supplies.
+  const stored = registered.getConfig();
+  const provider = createStandaloneProvider(type, {
+    ...stored,
+    ...(isOtherEndpoint(stored, endpoint?.baseUrl) && { apiKey: undefined, headers: undefined }),
+    ...(endpoint?.baseUrl && { baseUrl: endpoint.baseUrl }),
+    ...(endpoint?.headers && { headers: endpoint.headers }),
+  }) ?? registered;
+
   const result = await provider.validateApiKey(apiKey);
   return { valid: result.valid, error: result.error };
 }
@@ -0,0 +1,95 @@
+/**
+ * Tool Calling Wire Formats
+ *
+ * Helpers shared by the providers that speak the OpenAI chat format (OpenAI,
+ * custom OpenAI-compatible endpoints and Ollama) for sending tool definitions,
+ * replaying tool calls/results from the conversation history and reading the
+ * tool calls a model makes.
+ */
+
+import type {
+  MessageContent,
+  ToolCall,
+  ToolDefinition,
+  ToolResultContent,
+  ToolUseContent,
+} from './types.js';
+
+export interface OpenAIToolCall {
+  id?: string;
+  type?: 'function';
+  function: {
+    name: string;
+    arguments: string | Record<string, any>;
+  };
+}
+
+/**
+ * Tool definitions in the OpenAI `tools` request format
+ */
+export function toOpenAITools(tools: ToolDefinition[]): Array<{ type: 'function'; function: Record<string, unknown> }> {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema,
+    },
+  }));
+}
+
+/**
+ * Tool arguments arrive as a JSON string (OpenAI) or an object (Ollama).
+ * Unparseable arguments are passed through so the tool can report the problem.
+ */
+export function parseToolArguments(raw: string | Record<string, any> | undefined): Record<string, any> {
+  if (!raw) return {};
+  if (typeof raw !== 'string') return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return { _raw: raw };
+  }
+}
+
+/**
+ * Convert OpenAI-format tool calls from a response into ToolCalls
+ */
+export function parseOpenAIToolCalls(toolCalls: OpenAIToolCall[] | undefined, idPrefix: string): ToolCall[] | undefined {
+  if (!toolCalls || toolCalls.length === 0) return undefined;
+  return toolCalls.map((call, index) => ({
+    id: call.id || `${idPrefix}-${Date.now()}-${index}`,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.arguments),
+  }));
+}
+
+/**
+ * Split message content into tool calls, tool results and everything else
+ */
+export function partitionToolContent(content: string | MessageContent[]): {
+  toolUses: ToolUseContent[];
+  toolResults: ToolResultContent[];
+  other: string | MessageContent[];
+} {
+  if (typeof content === 'string') {
+    return { toolUses: [], toolResults: [], other: content };
+  }
+  return {
+    toolUses: content.filter((item): item is ToolUseContent => item.type === 'tool_use'),
+    toolResults: content.filter((item): item is ToolResultContent => item.type === 'tool_result'),
+    other: content.filter(item => item.type !== 'tool_use' && item.type !== 'tool_result'),
+  };
+}
+
+/**
+ * Assistant tool calls in the OpenAI `tool_calls` message format
+ */
+export function toOpenAIToolCallMessages(toolUses: ToolUseContent[]): OpenAIToolCall[] {
+  return toolUses.map(use => ({
+    id: use.id,
+    type: 'function' as const,
+    function: { name: use.name, arguments: JSON.stringify(use.input) },
+  }));
+}
@@ -38,7 +38,25 @@ export interface DocumentContent {
   };
 }
 
-export type MessageContent = TextContent | ImageContent | DocumentContent;
+// Tool call made by the assistant, replayed as part of the conversation history
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  metadata?: Record<string, any>; // Copied from ToolCall.metadata
+}
+
+// Result of a tool call, sent back to the model in a user message
+export interface ToolResultContent {
+  type: 'tool_result';
+  toolCallId: string;
+  name: string; // Tool name (Gemini matches results by name rather than id)
+  content: string;
+  isError?: boolean;
+}
+
+export type MessageContent = TextContent | ImageContent | DocumentContent | ToolUseContent | ToolResultContent;
 
 // Model information
 export interface ModelInfo {
@@ -54,11 +72,12 @@ export interface ModelInfo {
   supportsReasoning?: boolean; // Native reasoning/thinking capability (GPT-5.1, Gemini 3, o1)
   inputPricePer1kTokens?: number;
   outputPricePer1kTokens?: number;
+  cachedInputPricePer1kTokens?: number; // Input tokens served from the provider's prompt cache
   description?: string; // Human-readable description for UI
 }
 
 // Provider types
-export type ProviderType = 'claude' | 'openai' | 'gemini' | 'ollama' | 'custom';
+export type ProviderType = 'claude' | 'openai' | 'gemini' | 'ollama' | 'custom' | 'cassette';
 
 // Provider configuration
 export interface ProviderConfig {
@@ -69,6 +88,21 @@ export interface ProviderConfig {
   organizationId?: string; // For OpenAI
   projectId?: string; // For GCP/Gemini
   timeout?: number; // Request timeout in ms
+  contextWindow?: number; // Override the model's context window (local models)
+  headers?: Record<string, string>; // Extra HTTP headers sent with every request (custom provider)
+  models?: CustomModelDefinition[]; // User-declared models (custom provider)
+}
+
+// Model declared by the user for an OpenAI-compatible endpoint
+export interface CustomModelDefinition {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  supportsVision?: boolean;
+  supportsFunctionCalling?: boolean;
+  inputPricePer1kTokens?: number;  // USD per 1k tokens, used for cost estimates in the usage ledger
+  outputPricePer1kTokens?: number;
 }
 
 // Chat request options
@@ -95,6 +129,7 @@ export interface ToolCall {
   id: string;
   name: string;
   arguments: Record<string, any>;
+  metadata?: Record<string, any>; // Provider data that must be echoed back with the call (e.g. Gemini thought signatures)
 }
 
 // Chat response
@@ -107,6 +142,7 @@ export interface ChatResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    cachedTokens?: number; // Portion of promptTokens read from the provider's prompt cache
   };
   toolCalls?: ToolCall[];
   raw?: any; // Original response from provider
@@ -119,6 +155,7 @@ export interface StreamChunk {
   toolCall?: Partial<ToolCall>;
   error?: string;
   usage?: ChatResponse['usage'];
+  finishReason?: ChatResponse['finishReason']; // Sent with the 'done' chunk
 }
 
 // Image analysis response
@@ -171,6 +208,9 @@ export interface LLMProvider {
 
   // Token counting (estimate)
   estimateTokens?(text: string): number;
+
+  // Context window actually used for a model (config override or model limit)
+  getContextWindow?(model?: string): number | undefined;
 }
 
 /**
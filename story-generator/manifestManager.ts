@@ -47,8 +47,12 @@ export interface ManifestEntry {
   /** Chat conversation — text only, max 50 messages, no base64 image data */
   conversation: ManifestMessage[];
   metadata: {
+    /** Provider/model that actually answered (may be a fallback) */
     provider?: string;
     model?: string;
+    /** Provider/model requested by the client, when different from the answering one */
+    requestedProvider?: string;
+    requestedModel?: string;
     /** The original generation prompt */
     prompt?: string;
   };
@@ -0,0 +1,482 @@
+/**
+ * Play Function Validator
+ *
+ * Static checks for Storybook interaction tests in generated stories: stories
+ * that render interactive (form/navigation) components need a play function,
+ * the @storybook/test helpers a play function uses must be imported, and its
+ * getBy* queries must target text, labels and roles the story renders.
+ * findBy* and queryBy* queries are not checked - they look for elements that
+ * appear after an interaction or must be absent.
+ */
+
+import * as ts from 'typescript';
+import type { DiscoveredComponent } from './componentDiscovery.js';
+import type { ValidationError } from './storyValidator.js';
+import type { InteractionTestsConfig } from '../story-ui.config.js';
+import { TEMPLATE_ATTRIBUTE_VALUE, lineAt } from './templateMarkup.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface InteractionFinding extends ValidationError {
+  story: string;
+}
+
+export interface PlayFunctionValidationOptions {
+  /** Components whose stories must have a play function (see getInteractiveComponents) */
+  interactiveComponents?: string[];
+}
+
+interface PlaySource {
+  source: string;
+  /** Offset of the source in the story file */
+  position: number;
+}
+
+interface StoryBlock {
+  name: string;
+  position: number;
+  play?: PlaySource;
+  /** Source the story renders: its render function or markup, plus args */
+  markup: string;
+  /** False when the meta component renders straight from args, so its output is unknown */
+  hasMarkup: boolean;
+  /** Tag names in the markup, plus the meta component when rendered from args */
+  tags: Set<string>;
+}
+
+interface RoleElements {
+  elements: string[];
+  inputTypes?: string[];
+  /** Component or custom element names that usually render the role */
+  components: RegExp;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_CATEGORIES: NonNullable<InteractionTestsConfig['categories']> = ['form', 'navigation'];
+
+export const INTERACTION_TEST_MODULE = '@storybook/test';
+
+const TEST_HELPERS = ['expect', 'userEvent', 'within', 'waitFor', 'fireEvent', 'screen', 'fn'];
+
+const STRING_OR_REGEX = String.raw`(?:(["'\`])((?:\\.|(?!\1)[^\\])*)\1|\/((?:\\.|[^/\\\n])+)\/([a-z]*))`;
+const QUERY = new RegExp(String.raw`\b(getBy|getAllBy)(Role|Text|LabelText|PlaceholderText|TestId|AltText|Title|DisplayValue)\(\s*${STRING_OR_REGEX.replace(/\\1/g, '\\3')}`, 'g');
+const NAME_OPTION = new RegExp(String.raw`^\s*,\s*\{[^}]*?\bname\s*:\s*${STRING_OR_REGEX}`);
+
+const QUERY_SUBJECT: Record<string, string> = {
+  Text: 'text',
+  LabelText: 'label',
+  PlaceholderText: 'placeholder',
+  TestId: 'test id',
+  AltText: 'alt text',
+  Title: 'title',
+  DisplayValue: 'value',
+};
+
+const ROLES: Record<string, RoleElements> = {
+  button: { elements: ['button'], inputTypes: ['button', 'submit', 'reset', 'image'], components: /button|btn/i },
+  link: { elements: ['a'], components: /link|anchor/i },
+  textbox: { elements: ['textarea'], inputTypes: ['', 'text', 'email', 'tel', 'url'], components: /input|field|textarea|textbox/i },
+  searchbox: { elements: [], inputTypes: ['search'], components: /search/i },
+  checkbox: { elements: [], inputTypes: ['checkbox'], components: /checkbox/i },
+  radio: { elements: [], inputTypes: ['radio'], components: /radio/i },
+  switch: { elements: [], components: /switch|toggle/i },
+  slider: { elements: [], inputTypes: ['range'], components: /slider|range/i },
+  spinbutton: { elements: [], inputTypes: ['number'], components: /number|stepper/i },
+  combobox: { elements: ['select'], components: /select|combo|autocomplete|dropdown|picker/i },
+  listbox: { elements: ['select', 'datalist'], components: /listbox|select/i },
+  option: { elements: ['option'], components: /option|select|item/i },
+  heading: { elements: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'], components: /heading|title/i },
+  img: { elements: ['img', 'svg'], components: /image|img|avatar|icon|logo/i },
+  list: { elements: ['ul', 'ol'], components: /list/i },
+  listitem: { elements: ['li'], components: /list|item/i },
+  navigation: { elements: ['nav'], components: /nav|menu|breadcrumb/i },
+  menu: { elements: ['menu'], components: /menu|dropdown/i },
+  menuitem: { elements: [], components: /menu|dropdown/i },
+  tablist: { elements: [], components: /tab/i },
+  tab: { elements: [], components: /tab/i },
+  tabpanel: { elements: [], components: /tab/i },
+  dialog: { elements: ['dialog'], components: /dialog|modal|drawer|sheet|popover/i },
+  alert: { elements: [], components: /alert|toast|banner|notification/i },
+  form: { elements: ['form'], components: /form/i },
+  table: { elements: ['table'], components: /table|grid/i },
+  row: { elements: ['tr'], components: /table|grid|row/i },
+  cell: { elements: ['td'], components: /table|grid|cell/i },
+  columnheader: { elements: ['th'], components: /table|grid|header/i },
+  progressbar: { elements: ['progress'], components: /progress|loader|spinner/i },
+  group: { elements: ['fieldset', 'details'], components: /group|fieldset/i },
+};
+
+const TAG = /<([A-Za-z][\w.:-]*)/g;
+const INPUT_TAG = new RegExp(String.raw`<input\b((?:\s+[^\s=>/]+(?:\s*=\s*(?:${TEMPLATE_ATTRIBUTE_VALUE}))?)*)`, 'g');
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function normalizeName(name: string): string {
+  return name.replace(/[-_.]/g, '').toLowerCase();
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isCustomTag(tag: string): boolean {
+  return /^[A-Z]/.test(tag) || /[-.]/.test(tag);
+}
+
+function collectTags(markup: string): Set<string> {
+  return new Set(Array.from(markup.matchAll(TAG), match => match[1]));
+}
+
+function inputTypes(markup: string): Set<string> {
+  const types = new Set<string>();
+  for (const match of markup.matchAll(INPUT_TAG)) {
+    const type = match[1].match(/\btype\s*=\s*\{?\s*["'`]?([\w-]+)/);
+    types.add(type ? type[1].toLowerCase() : '');
+  }
+  return types;
+}
+
+/**
+ * Index of the bracket closing the one at `open`, skipping strings and
+ * comments; -1 when unbalanced
+ */
+function matchBracket(text: string, open: number): number {
+  const pairs: Record<string, string> = { '{': '}', '(': ')', '[': ']' };
+  const stack: string[] = [];
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'" || char === '`') {
+      for (i++; i < text.length && text[i] !== char; i++) {
+        if (text[i] === '\\') i++;
+      }
+    } else if (char === '/' && text[i + 1] === '/') {
+      i = text.indexOf('\n', i);
+      if (i === -1) return -1;
+    } else if (char === '/' && text[i + 1] === '*') {
+      i = text.indexOf('*/', i + 2) + 1;
+      if (i === 0) return -1;
+    } else if (pairs[char]) {
+      stack.push(pairs[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/** Blank out ranges while keeping offsets and line numbers */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+// ── Story collection ───────────────────────────────────────────────────────
+
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isTypeAssertionExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function propertyNode(object: ts.ObjectLiteralExpression | undefined, name: string): ts.Node | undefined {
+  const property = object?.properties.find(p => p.name && ts.isIdentifier(p.name) && p.name.text === name);
+  if (!property) return undefined;
+  return ts.isPropertyAssignment(property) ? property.initializer : property;
+}
+
+function collectTsStories(code: string, fileName: string): StoryBlock[] {
+  const scriptKind = /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const declarations = new Map<string, ts.Node>();
+  const exported: Array<{ name: string; node: ts.Expression; position: number }> = [];
+  let meta: ts.ObjectLiteralExpression | undefined;
+  let metaName: string | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      declarations.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      const isExported = statement.modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+        const initializer = unwrapExpression(declaration.initializer);
+        declarations.set(declaration.name.text, initializer);
+        if (isExported) exported.push({ name: declaration.name.text, node: initializer, position: statement.getStart(sourceFile) });
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      const expression = unwrapExpression(statement.expression);
+      if (ts.isObjectLiteralExpression(expression)) meta = expression;
+      else if (ts.isIdentifier(expression)) metaName = expression.text;
+    }
+  }
+  if (metaName) {
+    const node = declarations.get(metaName);
+    if (node && ts.isObjectLiteralExpression(node)) meta = node;
+  }
+
+  const playSource = (node: ts.Node | undefined): PlaySource | undefined => {
+    if (node && ts.isIdentifier(node)) node = declarations.get(node.text);
+    return node ? { source: node.getText(sourceFile), position: node.getStart(sourceFile) } : undefined;
+  };
+  const text = (node: ts.Node | undefined) => node?.getText(sourceFile) ?? '';
+
+  const metaPlay = playSource(propertyNode(meta, 'play'));
+  const metaRender = propertyNode(meta, 'render');
+  const metaComponent = propertyNode(meta, 'component');
+
+  const stories: StoryBlock[] = [];
+  for (const { name, node, position } of exported) {
+    if (name === metaName) continue;
+    let render: ts.Node | undefined;
+    let story: ts.ObjectLiteralExpression | undefined;
+    if (ts.isObjectLiteralExpression(node)) {
+      story = node;
+      render = propertyNode(node, 'render') ?? metaRender;
+    } else if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      render = node;
+    } else {
+      continue;
+    }
+
+    const markup = [text(render), text(propertyNode(story, 'args')), text(propertyNode(meta, 'args'))].join('\n');
+    const tags = collectTags(text(render));
+    if (!render && metaComponent) tags.add(text(metaComponent));
+    stories.push({
+      name,
+      position,
+      play: playSource(propertyNode(story, 'play')) ?? metaPlay,
+      markup,
+      hasMarkup: !!render,
+      tags,
+    });
+  }
+  return stories;
+}
+
+function collectSvelteStories(code: string): StoryBlock[] {
+  const scripts = code.match(/<script\b[\s\S]*?<\/script>/g) ?? [];
+  const markupOnly = code.replace(/<script\b[\s\S]*?<\/script>/g, blank);
+  const metaCall = scripts.join('\n').match(/defineMeta\(([\s\S]*?)\);?\s*(\n|$)/)?.[1] ?? '';
+  const metaComponent = metaCall.match(/\bcomponent\s*:\s*([A-Za-z_$][\w.$]*)/)?.[1];
+  const template = markupOnly.match(/\{#snippet template\b[\s\S]*?\{\/snippet\}/)?.[0];
+
+  const stories: StoryBlock[] = [];
+  const storyTag = /<Story\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = storyTag.exec(markupOnly))) {
+    // Walk the opening tag, skipping {...} attribute values
+    let end = match.index + match[0].length;
+    let play: PlaySource | undefined;
+    while (end < markupOnly.length && markupOnly[end] !== '>') {
+      if (markupOnly[end] === '{') {
+        const close = matchBracket(markupOnly, end);
+        if (close === -1) break;
+        if (/\bplay\s*=\s*$/.test(markupOnly.slice(match.index, end))) {
+          play = { source: code.slice(end + 1, close), position: end + 1 };
+        }
+        end = close;
+      } else if (markupOnly[end] === '"' || markupOnly[end] === "'") {
+        end = markupOnly.indexOf(markupOnly[end], end + 1);
+        if (end === -1) break;
+      }
+      end++;
+    }
+    const openingTag = markupOnly.slice(match.index, end + 1);
+    const selfClosing = /\/\s*>$/.test(openingTag);
+    const closeIndex = selfClosing ? -1 : markupOnly.indexOf('</Story>', end);
+    const children = closeIndex === -1 ? '' : markupOnly.slice(end + 1, closeIndex);
+    const rendered = children.trim() ? children : template ?? '';
+
+    const name = openingTag.match(/\b(?:name|exportName)\s*=\s*["']([^"']+)["']/)?.[1] ?? 'Default';
+    const tags = collectTags(rendered);
+    if (!rendered && metaComponent) tags.add(metaComponent);
+    stories.push({
+      name,
+      position: match.index,
+      play,
+      markup: [rendered, play ? openingTag.replace(play.source, '') : openingTag, metaCall].join('\n'),
+      hasMarkup: !!rendered.trim(),
+      tags,
+    });
+    storyTag.lastIndex = Math.max(end, closeIndex);
+  }
+  return stories;
+}
+
+// ── Checks ─────────────────────────────────────────────────────────────────
+
+function unescapeString(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/** Whether `query` appears in the story's markup: a substring for strings, any match for regexes */
+function markupContains(markup: string, query: { text?: string; pattern?: RegExp }): boolean {
+  if (query.text !== undefined) {
+    if (query.text.includes('${')) return true;
+    return normalizeText(markup).includes(normalizeText(unescapeString(query.text)));
+  }
+  const pattern = query.pattern!;
+  const candidates = [
+    ...Array.from(markup.matchAll(/>([^<>{}]+)</g), m => m[1]),
+    ...Array.from(markup.matchAll(/"([^"]*)"|'([^']*)'|`([^`]*)`/g), m => m[1] ?? m[2] ?? m[3]),
+  ];
+  return candidates.some(candidate => pattern.test(normalizeText(candidate))) || pattern.test(markup);
+}
+
+function rendersRole(story: StoryBlock, role: string): boolean {
+  const elements = ROLES[role];
+  if (!elements) return true;
+  if (new RegExp(String.raw`\brole\s*[=:]\s*\{?\s*["'\`]${role}["'\`]`).test(story.markup)) return true;
+  if (elements.elements.some(element => story.tags.has(element))) return true;
+  if (elements.inputTypes && elements.inputTypes.some(type => inputTypes(story.markup).has(type))) return true;
+
+  const customTags = Array.from(story.tags).filter(isCustomTag);
+  if (customTags.some(tag => elements.components.test(tag))) return true;
+  // Components that match no known role might render anything
+  return customTags.some(tag => !Object.values(ROLES).some(r => r.components.test(tag)));
+}
+
+function checkQueries(story: StoryBlock, code: string): InteractionFinding[] {
+  const play = story.play!;
+  if (!story.hasMarkup || play.source.includes('shadowRoot')) return [];
+
+  const findings: InteractionFinding[] = [];
+  const report = (index: number, message: string) => findings.push({
+    story: story.name,
+    rule: 'unmatched-query',
+    line: lineAt(code, play.position + index),
+    message: `Play function for "${story.name}" ${message}`,
+  });
+
+  for (const match of play.source.matchAll(QUERY)) {
+    const [call, method, kind, , text, pattern, flags] = match;
+    const query = text !== undefined ? { text } : { pattern: safeRegExp(pattern, flags) };
+    if (!query.text && !query.pattern) continue;
+    const shown = call.slice(call.indexOf('(') + 1).trim();
+
+    if (kind !== 'Role') {
+      if (!markupContains(story.markup, query)) {
+        report(match.index!, `calls ${method}${kind}(${shown}), but the story renders no ${QUERY_SUBJECT[kind]} ${shown}`);
+      }
+      continue;
+    }
+
+    const role = query.text ?? '';
+    if (query.text !== undefined && !rendersRole(story, role)) {
+      report(match.index!, `calls ${method}Role(${shown}), but the story renders no element with role "${role}"`);
+      continue;
+    }
+    const name = play.source.slice(match.index! + call.length).match(NAME_OPTION);
+    if (name) {
+      const nameQuery = name[2] !== undefined ? { text: name[2] } : { pattern: safeRegExp(name[3], name[4]) };
+      if ((nameQuery.text !== undefined || nameQuery.pattern) && !markupContains(story.markup, nameQuery)) {
+        const shownName = name[0].slice(name[0].lastIndexOf(':') + 1).trim();
+        report(match.index!, `calls ${method}Role(${shown}, { name: ${shownName} }), but the story renders no accessible name ${shownName}`);
+      }
+    }
+  }
+  return findings;
+}
+
+function safeRegExp(pattern: string, flags: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, flags.replace('g', ''));
+  } catch {
+    return undefined;
+  }
+}
+
+function importedNames(code: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of code.matchAll(/\bimport\s+(?:type\s+)?(?:[\w$]+\s*,\s*)?\{([^}]*)\}\s*from/g)) {
+    for (const specifier of match[1].split(',')) {
+      const local = specifier.trim().split(/\s+as\s+/).pop()?.replace(/^type\s+/, '');
+      if (local) names.add(local);
+    }
+  }
+  for (const match of code.matchAll(/\b(?:import\s+(?:\*\s+as\s+)?|const\s+|let\s+|var\s+|function\s+)([\w$]+)/g)) {
+    names.add(match[1]);
+  }
+  return names;
+}
+
+function checkHelperImports(story: StoryBlock, code: string, imported: Set<string>, reported: Set<string>): InteractionFinding[] {
+  const play = story.play!;
+  const parameters = play.source.slice(0, play.source.indexOf(')') + 1);
+  const findings: InteractionFinding[] = [];
+  for (const helper of TEST_HELPERS) {
+    if (imported.has(helper) || reported.has(helper) || new RegExp(`\\b${helper}\\b`).test(parameters)) continue;
+    const use = play.source.search(new RegExp(`(?<![\\w.$])${helper}\\s*[.(]`));
+    if (use === -1) continue;
+    reported.add(helper);
+    findings.push({
+      story: story.name,
+      rule: 'missing-import',
+      line: lineAt(code, play.position + use),
+      message: `Play function for "${story.name}" uses ${helper} without importing it; import it from '${INTERACTION_TEST_MODULE}'`,
+    });
+  }
+  return findings;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Names of the discovered components whose stories need a play function:
+ * those in the configured categories (default: form and navigation)
+ */
+export function getInteractiveComponents(
+  components: DiscoveredComponent[],
+  categories: InteractionTestsConfig['categories'] = DEFAULT_CATEGORIES
+): string[] {
+  return components.filter(component => categories.includes(component.category)).map(component => component.name);
+}
+
+/**
+ * Check the play functions of a story file. Stories that render a <form> or
+ * one of `interactiveComponents` without a play function are reported too.
+ */
+export function validatePlayFunctions(
+  code: string,
+  fileName = 'story.stories.tsx',
+  options: PlayFunctionValidationOptions = {}
+): InteractionFinding[] {
+  let stories: StoryBlock[];
+  try {
+    stories = fileName.endsWith('.svelte') ? collectSvelteStories(code) : collectTsStories(code, fileName);
+  } catch {
+    return [];
+  }
+
+  const interactive = new Set((options.interactiveComponents ?? []).map(normalizeName));
+  const imported = importedNames(code);
+  const reportedHelpers = new Set<string>();
+  const findings: InteractionFinding[] = [];
+
+  for (const story of stories) {
+    if (!story.play) {
+      const rendered = Array.from(story.tags).filter(tag => tag === 'form' || interactive.has(normalizeName(tag.split('.').pop()!)));
+      if (rendered.length > 0) {
+        findings.push({
+          story: story.name,
+          rule: 'missing-play-function',
+          line: lineAt(code, story.position),
+          message: `Story "${story.name}" renders ${rendered.map(tag => `<${tag}>`).join(', ')} but has no play function; add one that interacts with it using '${INTERACTION_TEST_MODULE}'`,
+        });
+      }
+      continue;
+    }
+    findings.push(...checkHelperImports(story, code, imported, reportedHelpers), ...checkQueries(story, code));
+  }
+
+  // A meta-level play function runs for every story; report each problem once
+  const seen = new Set<string>();
+  return findings.filter(finding => {
+    const key = `${finding.line}:${finding.message.replace(/"[^"]*"/, '')}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Prompt Budget
+ *
+ * Fits a generation prompt into the selected model's context window. Prompts
+ * are built as ordered sections; when the estimated size exceeds the budget,
+ * optional sections are condensed, truncated or dropped, lowest priority
+ * first. The report says what was cut so the UI can explain it instead of the
+ * provider failing with a context-length error.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface PromptSection {
+  id: string;
+  content: string;
+  /** Name used when reporting adjustments */
+  label?: string;
+  /** Sections without a priority are always kept in full; lower priorities are trimmed first */
+  priority?: number;
+  /** Shorter alternative tried before truncating or dropping */
+  fallback?: string;
+  /** Allow cutting the section down, keeping its start or its end */
+  truncate?: 'keepStart' | 'keepEnd';
+  /** Never drop the section (it may still be condensed or truncated) */
+  required?: boolean;
+}
+
+export interface PromptBudget {
+  contextWindow: number;
+  /** Tokens available for the prompt after reserving room for the response */
+  maxPromptTokens: number;
+  estimateTokens: (text: string) => number;
+}
+
+export interface PromptSectionAdjustment {
+  section: string;
+  label: string;
+  action: 'condensed' | 'truncated' | 'dropped';
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+export interface PromptBudgetReport {
+  contextWindow: number;
+  maxPromptTokens: number;
+  estimatedTokens: number;
+  adjustments: PromptSectionAdjustment[];
+  /** Still over budget after trimming everything that may be trimmed */
+  overBudget: boolean;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Trim order for the sections the generation routes add; lower goes first */
+export const PROMPT_SECTION_PRIORITY = {
+  storybookContext: 10,
+  bundledDocumentation: 20,
+  documentation: 30,
+  conversation: 40,
+  considerations: 50,
+  componentReference: 60,
+} as const;
+
+/** Truncating below this many tokens leaves nothing useful, so the section is dropped */
+const MIN_TRUNCATED_TOKENS = 200;
+
+const TRUNCATION_MARKER = '[... trimmed to fit the model context window ...]';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function renderPromptSections(sections: PromptSection[]): string {
+  return sections
+    .map(section => section.content)
+    .filter(content => content.trim().length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Insert sections before the section with the given id (or at the end)
+ */
+export function insertPromptSections(sections: PromptSection[], beforeId: string, ...inserted: PromptSection[]): PromptSection[] {
+  const index = sections.findIndex(section => section.id === beforeId);
+  if (index === -1) return [...sections, ...inserted];
+  return [...sections.slice(0, index), ...inserted, ...sections.slice(index)];
+}
+
+function truncateContent(content: string, targetTokens: number, tokens: number, keep: 'keepStart' | 'keepEnd'): string {
+  const targetChars = Math.max(0, Math.floor(content.length * (targetTokens / tokens)) - TRUNCATION_MARKER.length - 1);
+  return keep === 'keepStart'
+    ? `${content.slice(0, targetChars)}\n${TRUNCATION_MARKER}`
+    : `${TRUNCATION_MARKER}\n${content.slice(content.length - targetChars)}`;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Condense, truncate or drop optional sections, lowest priority first, until
+ * the prompt fits `budget.maxPromptTokens`. Sections keep their order.
+ */
+export function fitPromptToBudget(
+  sections: PromptSection[],
+  budget: PromptBudget
+): { sections: PromptSection[]; report: PromptBudgetReport } {
+  const fitted = sections.map(section => ({ ...section }));
+  const tokens = fitted.map(section => budget.estimateTokens(section.content));
+  const original = [...tokens];
+  const actions = new Map<number, PromptSectionAdjustment['action']>();
+  const total = () => tokens.reduce((sum, count) => sum + count, 0);
+
+  const candidates = fitted
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => section.priority !== undefined && section.content.length > 0)
+    .sort((a, b) => a.section.priority! - b.section.priority!);
+
+  for (const { section, index } of candidates) {
+    let overflow = total() - budget.maxPromptTokens;
+    if (overflow <= 0) break;
+
+    if (section.fallback !== undefined) {
+      const fallbackTokens = budget.estimateTokens(section.fallback);
+      if (fallbackTokens < tokens[index]) {
+        section.content = section.fallback;
+        tokens[index] = fallbackTokens;
+        actions.set(index, 'condensed');
+        overflow = total() - budget.maxPromptTokens;
+        if (overflow <= 0) break;
+      }
+    }
+
+    const target = tokens[index] - overflow;
+    if (section.truncate && target >= MIN_TRUNCATED_TOKENS) {
+      section.content = truncateContent(section.content, target, tokens[index], section.truncate);
+      tokens[index] = budget.estimateTokens(section.content);
+      actions.set(index, 'truncated');
+    } else if (!section.required) {
+      section.content = '';
+      tokens[index] = 0;
+      actions.set(index, 'dropped');
+    }
+  }
+
+  const adjustments: PromptSectionAdjustment[] = [...actions.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, action]) => ({
+      section: fitted[index].id,
+      label: fitted[index].label || fitted[index].id,
+      action,
+      tokensBefore: original[index],
+      tokensAfter: tokens[index],
+    }));
+
+  return {
+    sections: fitted.filter(section => section.content.length > 0),
+    report: {
+      contextWindow: budget.contextWindow,
+      maxPromptTokens: budget.maxPromptTokens,
+      estimatedTokens: total(),
+      adjustments,
+      overBudget: total() > budget.maxPromptTokens,
+    },
+  };
+}
+
+/** One-line summary of the adjustments, e.g. for logs and progress messages */
+export function describePromptBudget(report: PromptBudgetReport): string {
+  if (report.adjustments.length === 0) {
+    return `Prompt fits the context window (~${report.estimatedTokens.toLocaleString('en-US')} of ${report.maxPromptTokens.toLocaleString('en-US')} tokens)`;
+  }
+  const changes = report.adjustments.map(adjustment => `${adjustment.label} ${adjustment.action}`).join(', ');
+  return `Prompt trimmed to fit the ${report.contextWindow.toLocaleString('en-US')}-token context window: ${changes}` +
+    (report.overBudget ? ' (still over budget)' : '');
+}
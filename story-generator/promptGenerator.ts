@@ -3,6 +3,9 @@ import { DiscoveredComponent, PropInfo } from './componentDiscovery.js';
 import { EnhancedComponentDiscovery } from './enhancedComponentDiscovery.js';
 import { loadConsiderations, considerationsToPrompt } from './considerationsLoader.js';
 import { DocumentationLoader } from './documentationLoader.js';
+import { PromptSection, PROMPT_SECTION_PRIORITY, renderPromptSections } from './promptBudget.js';
+import { getGuidelinePromptRules } from './designGuidelinesValidator.js';
+import { getCustomRulePromptRules } from './customRules.js';
 import {
   getAdapterRegistry,
   FrameworkPrompt,
@@ -647,7 +650,7 @@ function getBaseComponentName(componentName: string): string {
 /**
  * Formats a single component reference
  */
-function formatComponentReference(component: DiscoveredComponent, config: StoryUIConfig): string {
+export function formatComponentReference(component: DiscoveredComponent, config: StoryUIConfig): string {
   let reference = `- ${component.name}`;
 
   // Add import path information
@@ -706,6 +709,18 @@ function formatComponentReference(component: DiscoveredComponent, config: StoryU
     reference += `. Slots: ${component.slots.join(', ')}`;
   }
 
+  if (component.events && component.events.length > 0) {
+    reference += `. Events: ${component.events.map(event => event.name).join(', ')}`;
+  }
+
+  if (component.cssParts && component.cssParts.length > 0) {
+    reference += `. CSS parts: ${component.cssParts.map(part => part.name).join(', ')}`;
+  }
+
+  if (component.cssProperties && component.cssProperties.length > 0) {
+    reference += `. CSS custom properties: ${component.cssProperties.map(property => property.name).join(', ')}`;
+  }
+
   if (component.description && component.description !== `${component.name} component`) {
     reference += ` - ${component.description}`;
   }
@@ -1226,12 +1241,23 @@ export async function buildFrameworkAwarePrompt(
   components: DiscoveredComponent[],
   options?: StoryGenerationOptions
 ): Promise<string> {
-  const generated = await generateFrameworkAwarePrompt(config, components, options);
+  return renderPromptSections(await buildFrameworkAwarePromptSections(userPrompt, config, components, options));
+}
 
-  const promptParts = [
-    generated.systemPrompt,
-    '',
-  ];
+/**
+ * Builds the framework-aware prompt as ordered sections so callers can add
+ * their own context before the user request and fit it to a context window
+ * (see promptBudget.ts). Documentation and the component reference can be
+ * trimmed; everything else is always kept.
+ */
+export async function buildFrameworkAwarePromptSections(
+  userPrompt: string,
+  config: StoryUIConfig,
+  components: DiscoveredComponent[],
+  options?: StoryGenerationOptions
+): Promise<PromptSection[]> {
+  const generated = await generateFrameworkAwarePrompt(config, components, options);
+  const sections: PromptSection[] = [{ id: 'instructions', content: generated.systemPrompt }];
 
   // Load documentation - try new directory-based approach first
   const projectRoot = config.considerationsPath ?
@@ -1246,8 +1272,7 @@ export async function buildFrameworkAwarePrompt(
     if (docs.sources.length > 0) {
       const docPrompt = docLoader.formatForPrompt(docs);
       if (docPrompt) {
-        promptParts.push(docPrompt);
-        promptParts.push('');
+        sections.push(documentationSection(docPrompt));
         documentationAdded = true;
       }
     }
@@ -1259,20 +1284,28 @@ export async function buildFrameworkAwarePrompt(
     if (considerations) {
       const considerationsPrompt = considerationsToPrompt(considerations);
       if (considerationsPrompt) {
-        promptParts.push(considerationsPrompt);
-        promptParts.push('');
+        sections.push(documentationSection(considerationsPrompt));
       }
     }
   }
 
-  promptParts.push(
-    ...generated.layoutInstructions,
-    '',
-    'Available components:',
-    generated.componentReference,
-    '',
-    generated.examples,
-  );
+  sections.push({ id: 'layoutRules', content: generated.layoutInstructions.join('\n') });
+
+  // Without room for the full reference, fall back to component names only
+  const componentIndex = options?.componentReference === 'index'
+    ? undefined
+    : getAdapterRegistry().getAdapter(generated.framework.componentFramework).generateComponentIndex(components);
+  sections.push({
+    id: 'componentReference',
+    label: 'Component reference',
+    content: `Available components:\n${generated.componentReference}`,
+    priority: PROMPT_SECTION_PRIORITY.componentReference,
+    fallback: componentIndex &&
+      `Available components:\n${componentIndex}\n\nProps were left out to fit the model's context window - only use props you are certain a component supports.`,
+    required: true,
+  });
+
+  const promptParts = [generated.examples];
 
   // Add additional imports information if configured
   if (config.additionalImports && config.additionalImports.length > 0) {
@@ -1321,6 +1354,26 @@ export async function buildFrameworkAwarePrompt(
     );
   }
 
+  if (options?.includeA11yTests) {
+    promptParts.push(
+      '',
+      'ACCESSIBILITY REQUIREMENTS:',
+      '- Every image needs meaningful alt text (alt="" only for decorative images)',
+      '- Every form control needs a <label> or an aria-label',
+      '- Icon-only buttons and links need an aria-label',
+      '- Use heading levels in order without skipping (h1, h2, h3...)',
+      '- Use <button> or <a href> for anything clickable, never a <div> or <span> with a click handler',
+      '- Keep text contrast at least 4.5:1 against its background',
+    );
+  }
+
+  promptParts.push(...getGuidelinePromptRules(config.designSystemGuidelines));
+  promptParts.push(...getCustomRulePromptRules(config));
+
+  if (generated.interactionTests) {
+    promptParts.push(generated.interactionTests);
+  }
+
   promptParts.push(
     '',
     `Output a complete Storybook story file in TypeScript. Import components as shown in the sample template below. Use the following sample as a template. Respond ONLY with a single code block containing the full file, and nothing else.`,
@@ -1343,12 +1396,24 @@ export async function buildFrameworkAwarePrompt(
     '',
     'Sample story format:',
     generated.sampleStory,
-    '',
-    'User request:',
-    userPrompt
   );
 
-  return promptParts.join('\n');
+  sections.push(
+    { id: 'rules', content: promptParts.join('\n') },
+    { id: 'userRequest', content: `User request:\n${userPrompt}` },
+  );
+
+  return sections;
+}
+
+function documentationSection(content: string): PromptSection {
+  return {
+    id: 'documentation',
+    label: 'Design system documentation',
+    content,
+    priority: PROMPT_SECTION_PRIORITY.documentation,
+    truncate: 'keepStart',
+  };
 }
 
 /**
@@ -0,0 +1,434 @@
+/**
+ * Prop Validator
+ *
+ * Checks how a generated story uses design system components against the
+ * discovered PropInfo: unknown props, values outside a prop's options and
+ * missing required props, with "did you mean" suggestions. Covers JSX,
+ * Storybook `args` and template markup (Vue templates, Lit html``, Svelte
+ * markup), so it also works where the TypeScript type checker can't help
+ * (web components, plain JS libraries).
+ *
+ * Every issue carries a severity. Unknown props are only errors when the
+ * component's prop list is complete (read by the TypeScript compiler or a
+ * custom elements manifest); props scanned from source can miss inherited or
+ * forwarded props, so there they are warnings.
+ */
+
+import * as ts from 'typescript';
+import type { PropIssueKind, PropValidationConfig } from '../story-ui.config.js';
+import type { DiscoveredComponent, PropInfo } from './componentDiscovery.js';
+import type { ValidationError } from './storyValidator.js';
+import { replaceOnLine } from './diagnostics.js';
+import { TEMPLATE_ATTRIBUTE, TEMPLATE_ATTRIBUTE_VALUE, lineAt } from './templateMarkup.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type { PropIssueKind };
+
+export type PropIssueSeverity = 'error' | 'warning';
+
+export interface PropValidationError extends ValidationError {
+  kind: PropIssueKind;
+  severity: PropIssueSeverity;
+  component: string;
+  prop: string;
+  suggestion?: string;
+}
+
+interface PropUsage {
+  name: string;
+  /** String literal value; undefined for expressions and boolean shorthand */
+  value?: string;
+}
+
+interface ComponentUsage {
+  component: DiscoveredComponent;
+  line: number;
+  props: PropUsage[];
+  /** Spread props ({...args}, v-bind="args") may supply anything */
+  hasSpread: boolean;
+  hasChildren: boolean;
+  checkRequired: boolean;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/**
+ * Props every component accepts (React/DOM/custom element globals), plus
+ * common HTML attributes that design system components forward to their root
+ * element without declaring them
+ */
+const UNIVERSAL_PROPS = new Set([
+  'key', 'ref', 'children', 'className', 'class', 'style', 'id', 'slot', 'part', 'role',
+  'title', 'hidden', 'tabIndex', 'lang', 'dir', 'draggable', 'is',
+  'type', 'name', 'value', 'defaultValue', 'disabled', 'href', 'target', 'rel', 'src', 'alt',
+  'width', 'height', 'placeholder', 'htmlFor', 'for', 'autoFocus', 'autoComplete', 'checked',
+  'defaultChecked', 'readOnly', 'required', 'min', 'max', 'step', 'form',
+].map(normalizePropName));
+
+/** Attribute prefixes that never name a component prop */
+const IGNORED_ATTRIBUTE = /^(on[A-Z]|@|v-on:|v-(?!bind:)|\(|\*|on:|bind:|class:|use:|transition:|animate:|let:|#|aria-|data-|xmlns)/;
+
+const TEMPLATE_TAG = new RegExp(String.raw`<([A-Za-z][\w.:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:${TEMPLATE_ATTRIBUTE_VALUE}))?)*)\s*(\/?)>`, 'g');
+
+const MAX_LISTED = 12;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function normalizePropName(name: string): string {
+  return name.replace(/[-_]/g, '').toLowerCase();
+}
+
+function toKebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/([A-Z])([A-Z][a-z])/g, '$1-$2').toLowerCase();
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Closest candidate by edit distance (case-insensitive), if close enough to
+ * be a plausible typo or near miss
+ */
+export function suggestClosest(value: string, candidates: string[]): string | undefined {
+  const needle = value.toLowerCase();
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const distance = lower.includes(needle) || needle.includes(lower)
+      ? Math.abs(lower.length - needle.length) / 2
+      : levenshtein(needle, lower);
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+  const threshold = Math.max(2, Math.floor(value.length / 3));
+  return best && best.distance <= threshold ? best.candidate : undefined;
+}
+
+function knownProps(component: DiscoveredComponent): Map<string, PropInfo | undefined> {
+  const known = new Map<string, PropInfo | undefined>();
+  for (const name of component.props || []) {
+    known.set(normalizePropName(name), undefined);
+  }
+  for (const prop of component.propTypes || []) {
+    known.set(normalizePropName(prop.name), prop);
+  }
+  return known;
+}
+
+function propDisplayNames(component: DiscoveredComponent): string[] {
+  return Array.from(new Set([...(component.propTypes || []).map(p => p.name), ...(component.props || [])]));
+}
+
+/** Severity of an issue kind for a component, or 'off' */
+function severityOf(kind: PropIssueKind, component: DiscoveredComponent, settings: PropValidationConfig): PropIssueSeverity | 'off' {
+  const configured = settings.severity?.[kind];
+  if (configured) return configured;
+  return kind === 'unknown-prop' && !component.propsComplete ? 'warning' : 'error';
+}
+
+function checkUsage(usage: ComponentUsage): Array<Omit<PropValidationError, 'severity'>> {
+  const { component } = usage;
+  const errors: Array<Omit<PropValidationError, 'severity'>> = [];
+  const known = knownProps(component);
+  const names = propDisplayNames(component);
+  const tag = `<${component.name}>`;
+
+  for (const used of usage.props) {
+    const normalized = normalizePropName(used.name);
+    if (!known.has(normalized)) {
+      if (known.size === 0 || UNIVERSAL_PROPS.has(normalized)) continue;
+      const suggestion = suggestClosest(used.name, names);
+      errors.push({
+        kind: 'unknown-prop',
+        rule: 'unknown-prop',
+        component: component.name,
+        prop: used.name,
+        suggestion,
+        line: usage.line,
+        message: `${tag} has no prop "${used.name}". ` + (suggestion
+          ? `Did you mean "${suggestion}"?`
+          : `Known props: ${names.slice(0, MAX_LISTED).join(', ')}${names.length > MAX_LISTED ? ', ...' : ''}`),
+      });
+      continue;
+    }
+
+    const info = known.get(normalized);
+    if (used.value !== undefined && info?.options?.length && !info.options.includes(used.value)) {
+      const suggestion = suggestClosest(used.value, info.options);
+      errors.push({
+        kind: 'invalid-value',
+        rule: 'invalid-value',
+        component: component.name,
+        prop: info.name,
+        suggestion,
+        line: usage.line,
+        message: `${tag} ${info.name}="${used.value}" is not a valid value.` +
+          (suggestion ? ` Did you mean "${suggestion}"?` : '') +
+          ` Allowed: ${info.options.slice(0, MAX_LISTED).map(o => `"${o}"`).join(', ')}`,
+      });
+    }
+  }
+
+  if (usage.checkRequired && !usage.hasSpread) {
+    const provided = new Set(usage.props.map(p => normalizePropName(p.name)));
+    if (usage.hasChildren) provided.add('children');
+    for (const prop of component.propTypes || []) {
+      if (prop.required && !provided.has(normalizePropName(prop.name))) {
+        errors.push({
+          kind: 'missing-required',
+          rule: 'missing-required',
+          component: component.name,
+          prop: prop.name,
+          line: usage.line,
+          message: `${tag} is missing required prop "${prop.name}"`,
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Unknown props with a close match get an edit renaming the attribute, when
+ * it appears once on the reported line
+ */
+function withRenameFix(error: PropValidationError, code: string): PropValidationError {
+  if (error.kind !== 'unknown-prop' || !error.suggestion) return error;
+  const edit = replaceOnLine(code, error.line, `${error.prop}=`, `${error.suggestion}=`);
+  return edit ? { ...error, column: edit.startColumn, fix: { edits: [edit] } } : error;
+}
+
+// ── Usage collection ───────────────────────────────────────────────────────
+
+/**
+ * Local names of imported bindings mapped to the imported name, plus
+ * namespace imports (import * as UI)
+ */
+function collectImports(sourceFile: ts.SourceFile): { named: Map<string, string>; namespaces: Set<string> } {
+  const named = new Map<string, string>();
+  const namespaces = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) continue;
+    const clause = statement.importClause;
+    if (clause.name) named.set(clause.name.text, clause.name.text);
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      namespaces.add(bindings.name.text);
+    } else if (bindings) {
+      for (const element of bindings.elements) {
+        named.set(element.name.text, (element.propertyName ?? element.name).text);
+      }
+    }
+  }
+  return { named, namespaces };
+}
+
+function literalText(node: ts.Node | undefined): string | undefined {
+  if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+    return node.text;
+  }
+  return undefined;
+}
+
+function collectTsUsages(
+  code: string,
+  fileName: string,
+  byName: Map<string, DiscoveredComponent>,
+  byTag: Map<string, DiscoveredComponent>
+): ComponentUsage[] {
+  const scriptKind = /\.(tsx|jsx)$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKind);
+  const imports = collectImports(sourceFile);
+  const usages: ComponentUsage[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const resolveTag = (tagName: ts.JsxTagNameExpression): DiscoveredComponent | undefined => {
+    const text = tagName.getText(sourceFile);
+    const [head, ...rest] = text.split('.');
+    if (imports.namespaces.has(head) && rest.length > 0) {
+      return byName.get(rest.join('.'));
+    }
+    const imported = imports.named.get(head);
+    if (!imported) return undefined;
+    const name = [imported, ...rest].join('.');
+    return byName.get(name) ?? byName.get(name.replace(/\./g, ''));
+  };
+
+  let metaComponent: DiscoveredComponent | undefined;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxSelfClosingElement(node) || ts.isJsxOpeningElement(node)) {
+      const component = resolveTag(node.tagName);
+      if (component) {
+        const props: PropUsage[] = [];
+        let hasSpread = false;
+        for (const attribute of node.attributes.properties) {
+          if (ts.isJsxSpreadAttribute(attribute)) {
+            hasSpread = true;
+            continue;
+          }
+          const name = attribute.name.getText(sourceFile);
+          if (IGNORED_ATTRIBUTE.test(name)) continue;
+          const initializer = attribute.initializer;
+          const value = initializer && ts.isJsxExpression(initializer)
+            ? literalText(initializer.expression)
+            : literalText(initializer);
+          props.push({ name, value });
+        }
+        const hasChildren = ts.isJsxOpeningElement(node) &&
+          ts.isJsxElement(node.parent) &&
+          node.parent.children.some(child => !(ts.isJsxText(child) && child.containsOnlyTriviaWhiteSpaces));
+        usages.push({ component, line: lineOf(node), props, hasSpread, hasChildren, checkRequired: true });
+      }
+    } else if (ts.isPropertyAssignment(node) && ts.isIdentifier(node.name)) {
+      // Storybook meta `component: Button` and story `args: { ... }`
+      if (node.name.text === 'component' && ts.isIdentifier(node.initializer) && !metaComponent) {
+        const imported = imports.named.get(node.initializer.text);
+        metaComponent = imported ? byName.get(imported) : undefined;
+      }
+    } else if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+      const text = node.getText(sourceFile);
+      if (text.includes('<')) {
+        const offset = node.getStart(sourceFile);
+        for (const usage of collectTemplateUsages(text, byName, byTag)) {
+          usages.push({ ...usage, line: lineAt(code, offset) + usage.line - 1 });
+        }
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (metaComponent) {
+    const component = metaComponent;
+    const visitArgs = (node: ts.Node) => {
+      if (ts.isPropertyAssignment(node) && ts.isIdentifier(node.name) && node.name.text === 'args' &&
+          ts.isObjectLiteralExpression(node.initializer)) {
+        const props: PropUsage[] = [];
+        let hasSpread = false;
+        for (const property of node.initializer.properties) {
+          if (ts.isSpreadAssignment(property)) {
+            hasSpread = true;
+          } else if (ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)) {
+            const name = property.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+            if (IGNORED_ATTRIBUTE.test(name)) continue;
+            props.push({ name, value: ts.isPropertyAssignment(property) ? literalText(property.initializer) : undefined });
+          }
+        }
+        usages.push({ component, line: lineOf(node), props, hasSpread, hasChildren: false, checkRequired: false });
+      }
+      ts.forEachChild(node, visitArgs);
+    };
+    visitArgs(sourceFile);
+  }
+
+  return usages;
+}
+
+/**
+ * Scan template markup for component tags. PascalCase tags must match a
+ * component name exactly; kebab-case tags must contain a hyphen (custom
+ * elements, Vue kebab-case) so native elements like <button> never match.
+ * Line numbers are relative to `markup`.
+ */
+function collectTemplateUsages(
+  markup: string,
+  byName: Map<string, DiscoveredComponent>,
+  byTag: Map<string, DiscoveredComponent>
+): ComponentUsage[] {
+  const usages: ComponentUsage[] = [];
+  for (const match of markup.matchAll(TEMPLATE_TAG)) {
+    const [, tag, attributes = '', selfClosing] = match;
+    const component = byName.get(tag) ?? (tag.includes('-') ? byTag.get(tag.toLowerCase()) : undefined);
+    if (!component) continue;
+
+    const props: PropUsage[] = [];
+    let hasSpread = false;
+    for (const [, rawName, rawValue] of attributes.matchAll(TEMPLATE_ATTRIBUTE)) {
+      if (rawName.startsWith('{...') || rawName.startsWith('${') || rawName === 'v-bind' || rawName.startsWith('...')) {
+        hasSpread = true;
+        continue;
+      }
+      if (IGNORED_ATTRIBUTE.test(rawName)) continue;
+
+      // Bound attributes (:prop, v-bind:prop, .prop, ?prop, [prop]) hold expressions
+      const bound = /^(:|v-bind:|\.|\?|\[)/.test(rawName);
+      const name = rawName.replace(/^(:|v-bind:|\.|\?|\[)/, '').replace(/\]$/, '');
+      let value: string | undefined;
+      if (rawValue && !rawValue.includes('${') && !rawValue.startsWith('{')) {
+        const unquoted = rawValue.replace(/^["']|["']$/g, '');
+        // Vue/Angular bindings to a string literal: :size="'lg'"
+        const boundLiteral = unquoted.match(/^'([^']*)'$/);
+        value = bound ? boundLiteral?.[1] : unquoted;
+      }
+      props.push({ name, value });
+    }
+
+    const closeTag = `</${tag}>`;
+    const closeIndex = selfClosing ? -1 : markup.indexOf(closeTag, match.index! + match[0].length);
+    const hasChildren = closeIndex > -1 && markup.slice(match.index! + match[0].length, closeIndex).trim().length > 0;
+    usages.push({ component, line: lineAt(markup, match.index!), props, hasSpread, hasChildren, checkRequired: true });
+  }
+  return usages;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Validate component prop usage in a story. Components without any known
+ * props are only checked for option values and required props. Callers send
+ * the error-severity issues back to the model and report the rest.
+ */
+export function validateComponentProps(
+  code: string,
+  components: DiscoveredComponent[],
+  fileName: string = 'story.stories.tsx',
+  settings: PropValidationConfig = {}
+): PropValidationError[] {
+  if (components.length === 0 || settings.enabled === false) return [];
+
+  const byName = new Map(components.map(component => [component.name, component]));
+  const byTag = new Map(components.map(component => [toKebabCase(component.name), component]));
+
+  let usages: ComponentUsage[];
+  if (/\.(svelte|vue)$/.test(fileName)) {
+    // Blank out script blocks (keeping newlines) so only markup is scanned
+    const markup = code.replace(/<script[\s\S]*?<\/script>/g, block => block.replace(/[^\n]/g, ' '));
+    usages = collectTemplateUsages(markup, byName, byTag);
+  } else {
+    try {
+      usages = collectTsUsages(code, fileName, byName, byTag);
+    } catch {
+      // Unparseable code is reported by syntax validation
+      return [];
+    }
+  }
+
+  const seen = new Set<string>();
+  const issues: PropValidationError[] = [];
+  for (const usage of usages) {
+    for (const issue of checkUsage(usage)) {
+      const severity = severityOf(issue.kind, usage.component, settings);
+      const key = `${issue.line}:${issue.message}`;
+      if (severity === 'off' || seen.has(key)) continue;
+      seen.add(key);
+      issues.push(withRenameFix({ ...issue, severity }, code));
+    }
+  }
+  return issues;
+}
@@ -17,8 +17,10 @@ export interface RuntimeValidationResult {
   success: boolean;
   storyExists: boolean;
   renderError?: string;
-  errorType?: 'module_error' | 'render_error' | 'not_found' | 'timeout' | 'connection_error';
+  errorType?: 'module_error' | 'render_error' | 'render_warning' | 'not_found' | 'timeout' | 'connection_error';
   details?: string;
+  /** Warnings logged while rendering (headless render check) */
+  warnings?: string[];
 }
 
 export interface RuntimeValidatorConfig {
@@ -418,6 +420,12 @@ export function formatRuntimeErrorForHealing(result: RuntimeValidationResult): s
     parts.push(`- Invalid props passed to components`);
     parts.push(`- Missing required props`);
     parts.push(`- Incorrect component composition`);
+  } else if (result.errorType === 'render_warning') {
+    parts.push(`React logged warnings while rendering the story. Common causes:`);
+    parts.push(`- Missing \`key\` props on elements rendered from arrays`);
+    parts.push(`- Unknown or misspelled props forwarded to DOM elements`);
+    parts.push(`- Controlled inputs without an onChange handler`);
+    parts.push(`- Invalid nesting of DOM elements`);
   } else if (result.errorType === 'not_found') {
     parts.push(`The story was not found in Storybook's index. This usually means:`);
     parts.push(`- The file has syntax errors that prevent Storybook from parsing it`);
@@ -425,6 +433,11 @@ export function formatRuntimeErrorForHealing(result: RuntimeValidationResult): s
     parts.push(`- The default export is missing or invalid`);
   }
 
+  if (result.warnings?.length) {
+    parts.push(`\nWarnings:`);
+    result.warnings.forEach(warning => parts.push(`- ${warning}`));
+  }
+
   if (result.details) {
     parts.push(`\nDetails: ${result.details}`);
   }
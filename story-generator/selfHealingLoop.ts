@@ -9,6 +9,15 @@
 
 import { ValidationResult } from './validateStory.js';
 import { ValidationError } from './storyValidator.js';
+import { RuntimeValidationResult, formatRuntimeErrorForHealing } from './runtimeValidator.js';
+import {
+  StoryDiagnostic,
+  DiagnosticSource,
+  toDiagnostic,
+  parseDiagnostic,
+  formatDiagnostic,
+  isSuppressed,
+} from './diagnostics.js';
 
 /**
  * Aggregated validation errors from all validation systems
@@ -20,8 +29,32 @@ export interface ValidationErrors {
   patternErrors: string[];
   /** Invalid component import errors */
   importErrors: string[];
+  /** TypeScript type errors from checking against the project's tsconfig */
+  typeErrors: string[];
+  /** Unknown props, invalid option values and missing required props */
+  propErrors: string[];
+  /** Errors and warnings from rendering the story (formatted runtime validation results) */
+  runtimeErrors: string[];
+  /** Accessibility audit findings (only when a11y self-healing is enabled) */
+  a11yErrors: string[];
+  /** Missing play functions and play-function queries for elements the story doesn't render */
+  interactionErrors: string[];
+  /** Error-severity design system guideline violations (only when guideline self-healing is enabled) */
+  guidelineErrors: string[];
+  /** Error-severity findings of the project's custom validation rules */
+  customRuleErrors: string[];
+  /** Every error above as a structured diagnostic (code, severity, range, rule, fix) */
+  diagnostics: StoryDiagnostic[];
 }
 
+type ErrorCategory = Exclude<keyof ValidationErrors, 'diagnostics'>;
+
+/**
+ * How an attempt's code was produced: the first generation, targeted edits
+ * to the previous attempt, or a full regeneration
+ */
+export type RepairMode = 'initial' | 'patch' | 'full';
+
 /**
  * Options for self-healing prompt generation
  */
@@ -34,6 +67,12 @@ export interface SelfHealingOptions {
   framework: string;
   /** Import path for the component library */
   importPath: string;
+  /**
+   * Ask for SEARCH/REPLACE edits ('patch') or the complete story ('full').
+   * The routes pass `selfHealing.repairMode`, which defaults to 'patch';
+   * when omitted here the complete story is requested
+   */
+  repairMode?: Exclude<RepairMode, 'initial'>;
 }
 
 /**
@@ -65,7 +104,15 @@ export interface GenerationMetrics {
     syntaxErrors: number;
     patternErrors: number;
     importErrors: number;
+    typeErrors: number;
+    propErrors: number;
+    runtimeErrors: number;
+    a11yErrors: number;
+    interactionErrors: number;
+    guidelineErrors: number;
+    customRuleErrors: number;
     autoFixApplied: boolean;
+    repairMode: RepairMode;
   }>;
 }
 
@@ -76,7 +123,14 @@ export function hasNoErrors(errors: ValidationErrors): boolean {
   return (
     errors.syntaxErrors.length === 0 &&
     errors.patternErrors.length === 0 &&
-    errors.importErrors.length === 0
+    errors.importErrors.length === 0 &&
+    errors.typeErrors.length === 0 &&
+    errors.propErrors.length === 0 &&
+    errors.runtimeErrors.length === 0 &&
+    errors.a11yErrors.length === 0 &&
+    errors.interactionErrors.length === 0 &&
+    errors.guidelineErrors.length === 0 &&
+    errors.customRuleErrors.length === 0
   );
 }
 
@@ -87,7 +141,14 @@ export function getTotalErrorCount(errors: ValidationErrors): number {
   return (
     errors.syntaxErrors.length +
     errors.patternErrors.length +
-    errors.importErrors.length
+    errors.importErrors.length +
+    errors.typeErrors.length +
+    errors.propErrors.length +
+    errors.runtimeErrors.length +
+    errors.a11yErrors.length +
+    errors.interactionErrors.length +
+    errors.guidelineErrors.length +
+    errors.customRuleErrors.length
   );
 }
 
@@ -99,37 +160,131 @@ export function createEmptyErrors(): ValidationErrors {
     syntaxErrors: [],
     patternErrors: [],
     importErrors: [],
+    typeErrors: [],
+    propErrors: [],
+    runtimeErrors: [],
+    a11yErrors: [],
+    interactionErrors: [],
+    guidelineErrors: [],
+    customRuleErrors: [],
+    diagnostics: [],
   };
 }
 
+/**
+ * The ValidationErrors list each diagnostic source reports into
+ */
+const CATEGORY_BY_SOURCE: Record<DiagnosticSource, ErrorCategory> = {
+  syntax: 'syntaxErrors',
+  compiler: 'syntaxErrors',
+  pattern: 'patternErrors',
+  framework: 'patternErrors',
+  import: 'importErrors',
+  ts: 'typeErrors',
+  prop: 'propErrors',
+  runtime: 'runtimeErrors',
+  a11y: 'a11yErrors',
+  interaction: 'interactionErrors',
+  guideline: 'guidelineErrors',
+  custom: 'customRuleErrors',
+};
+
+/**
+ * Build ValidationErrors from diagnostics; each list holds the formatted
+ * diagnostics of its sources
+ */
+export function errorsFromDiagnostics(diagnostics: StoryDiagnostic[]): ValidationErrors {
+  const errors = createEmptyErrors();
+  errors.diagnostics = diagnostics;
+  for (const diagnostic of diagnostics) {
+    errors[CATEGORY_BY_SOURCE[diagnostic.source]].push(formatDiagnostic(diagnostic));
+  }
+  return errors;
+}
+
+/**
+ * Drop the diagnostics whose code matches `diagnostics.suppress`
+ */
+export function suppressDiagnostics(errors: ValidationErrors, suppress: string[] | undefined): ValidationErrors {
+  if (!suppress?.length) return errors;
+  return errorsFromDiagnostics(errors.diagnostics.filter(diagnostic => !isSuppressed(diagnostic.code, suppress)));
+}
+
 /**
  * Aggregate validation errors from different validation systems
  */
 export function aggregateValidationErrors(
   astResult: ValidationResult | null,
   patternErrors: ValidationError[] | null,
-  importErrors: string[] | null
+  importErrors: string[] | null,
+  typeErrors: string[] | null = null,
+  propErrors: ValidationError[] | null = null,
+  runtimeResult: RuntimeValidationResult | null = null,
+  a11yErrors: ValidationError[] | null = null,
+  interactionErrors: ValidationError[] | null = null,
+  guidelineErrors: ValidationError[] | null = null
 ): ValidationErrors {
-  const errors: ValidationErrors = createEmptyErrors();
+  const diagnostics: StoryDiagnostic[] = [];
 
-  // Add AST validation errors
+  // Add AST validation errors (framework compiler errors keep their origin)
   if (astResult && !astResult.isValid) {
-    errors.syntaxErrors = [...astResult.errors];
+    const compilerDiagnostics = new Map(
+      (astResult.compilerErrors ?? []).map(finding => {
+        const diagnostic = toDiagnostic('compiler', finding);
+        return [formatDiagnostic(diagnostic), diagnostic] as const;
+      })
+    );
+    diagnostics.push(...astResult.errors.map(
+      (e) => compilerDiagnostics.get(e) ?? parseDiagnostic('syntax', e)
+    ));
+  }
+
+  // Add custom rule findings (reported by validateStoryCode)
+  if (astResult?.ruleErrors) {
+    diagnostics.push(...astResult.ruleErrors.map((e) => toDiagnostic('custom', e)));
   }
 
   // Add pattern validation errors
-  if (patternErrors && patternErrors.length > 0) {
-    errors.patternErrors = patternErrors.map(
-      (e) => `Line ${e.line}: ${e.message}`
-    );
+  if (patternErrors) {
+    diagnostics.push(...patternErrors.map((e) => toDiagnostic('pattern', e)));
   }
 
   // Add import validation errors
-  if (importErrors && importErrors.length > 0) {
-    errors.importErrors = [...importErrors];
+  if (importErrors) {
+    diagnostics.push(...importErrors.map((e) => parseDiagnostic('import', e)));
   }
 
-  return errors;
+  // Add type errors
+  if (typeErrors) {
+    diagnostics.push(...typeErrors.map((e) => parseDiagnostic('ts', e)));
+  }
+
+  // Add prop validation errors
+  if (propErrors) {
+    diagnostics.push(...propErrors.map((e) => toDiagnostic('prop', e)));
+  }
+
+  // Add runtime render errors
+  if (runtimeResult && !runtimeResult.success) {
+    diagnostics.push(parseDiagnostic('runtime', formatRuntimeErrorForHealing(runtimeResult)));
+  }
+
+  // Add accessibility findings
+  if (a11yErrors) {
+    diagnostics.push(...a11yErrors.map((e) => toDiagnostic('a11y', e)));
+  }
+
+  // Add interaction test findings
+  if (interactionErrors) {
+    diagnostics.push(...interactionErrors.map((e) => toDiagnostic('interaction', e)));
+  }
+
+  // Add design system guideline violations
+  if (guidelineErrors) {
+    diagnostics.push(...guidelineErrors.map((e) => toDiagnostic('guideline', e)));
+  }
+
+  return errorsFromDiagnostics(diagnostics);
 }
 
 /**
@@ -155,12 +310,26 @@ export function shouldContinueRetrying(
       ...currentErrors.syntaxErrors,
       ...currentErrors.patternErrors,
       ...currentErrors.importErrors,
+      ...currentErrors.typeErrors,
+      ...currentErrors.propErrors,
+      ...currentErrors.runtimeErrors,
+      ...currentErrors.a11yErrors,
+      ...currentErrors.interactionErrors,
+      ...currentErrors.guidelineErrors,
+      ...currentErrors.customRuleErrors,
     ]);
 
     const previousSet = new Set([
       ...previousErrors.syntaxErrors,
       ...previousErrors.patternErrors,
       ...previousErrors.importErrors,
+      ...previousErrors.typeErrors,
+      ...previousErrors.propErrors,
+      ...previousErrors.runtimeErrors,
+      ...previousErrors.a11yErrors,
+      ...previousErrors.interactionErrors,
+      ...previousErrors.guidelineErrors,
+      ...previousErrors.customRuleErrors,
     ]);
 
     // Check if same errors are repeating (LLM is stuck)
@@ -303,6 +472,62 @@ export function buildSelfHealingPrompt(
     sections.push('');
   }
 
+  // Type errors section
+  if (errors.typeErrors.length > 0) {
+    sections.push('### TypeScript Type Errors');
+    sections.push('These props or values do not match the component type definitions. Use only the props and values the types allow:');
+    errors.typeErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
+  // Prop errors section
+  if (errors.propErrors.length > 0) {
+    sections.push('### Invalid Component Props');
+    sections.push('These props are not part of the component APIs. Use only the listed props and allowed values, and provide every required prop:');
+    errors.propErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
+  // Runtime errors section
+  if (errors.runtimeErrors.length > 0) {
+    sections.push('### Runtime Render Errors');
+    sections.push('The story passed static validation but failed when rendered:');
+    errors.runtimeErrors.forEach((e) => sections.push(e));
+    sections.push('');
+  }
+
+  // Accessibility section
+  if (errors.a11yErrors.length > 0) {
+    sections.push('### Accessibility Issues');
+    sections.push('Fix these so the story is usable with a keyboard and a screen reader:');
+    errors.a11yErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
+  // Interaction test section
+  if (errors.interactionErrors.length > 0) {
+    sections.push('### Interaction Test Errors');
+    sections.push('Play functions must only query elements, labels and text the story renders, and import their helpers from \'@storybook/test\':');
+    errors.interactionErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
+  // Design system guidelines section
+  if (errors.guidelineErrors.length > 0) {
+    sections.push('### Design System Violations');
+    sections.push('These break the design system guidelines. Use the suggested tokens and library components:');
+    errors.guidelineErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
+  // Custom rules section
+  if (errors.customRuleErrors.length > 0) {
+    sections.push('### Project Rule Violations');
+    sections.push('These break rules set by this project. Apply the fix given with each one:');
+    errors.customRuleErrors.forEach((e) => sections.push(`- ${e}`));
+    sections.push('');
+  }
+
   // Import errors section - with approximation guidance
   if (errors.importErrors.length > 0) {
     sections.push('### Import Errors - MUST USE AVAILABLE COMPONENTS');
@@ -366,6 +591,14 @@ export function buildSelfHealingPrompt(
   sections.push('');
 
   // Correction instructions
+  const patchMode = options.repairMode === 'patch';
+  const returnInstruction = patchMode
+    ? 'Return ONLY SEARCH/REPLACE edit blocks in the format below - do NOT resend the whole story'
+    : `Return the COMPLETE corrected code in a \`\`\`${codeBlockLang} code block`;
+  const explanationInstruction = patchMode
+    ? 'Do NOT include any explanation - just the edit blocks'
+    : 'Do NOT include any explanation - just the corrected code block';
+
   sections.push('### Correction Instructions');
   sections.push('1. Fix ALL errors listed above');
   sections.push('2. Keep the same component structure and layout');
@@ -380,27 +613,46 @@ export function buildSelfHealingPrompt(
     sections.push(
       `8. Only import from ROOT: import { Comp } from "${options.importPath}" - NEVER use deep paths like "${options.importPath}/dist/..." or "${options.importPath}/components/..."`
     );
-    sections.push(`9. Return the COMPLETE corrected code in a \`\`\`svelte code block`);
-    sections.push('10. Do NOT include any explanation - just the corrected code block');
+    sections.push(`9. ${returnInstruction}`);
+    sections.push(`10. ${explanationInstruction}`);
   } else if (options.framework === 'web-components') {
     // Web Components use side-effect imports and often require deep paths
     sections.push('6. Use Lit html template literal for rendering');
     sections.push('7. Web Component imports register custom elements as side-effects');
     sections.push('8. Use correct import path for each component (deep paths are allowed for web components)');
-    sections.push(`9. Return the COMPLETE corrected code in a \`\`\`${codeBlockLang} code block`);
-    sections.push('10. Do NOT include any explanation - just the corrected code block');
+    sections.push(`9. ${returnInstruction}`);
+    sections.push(`10. ${explanationInstruction}`);
   } else {
     sections.push('6. Ensure all JSX elements are properly opened and closed');
     sections.push(
       `7. Only import components that exist in "${options.importPath}"`
     );
-    sections.push(`8. Return the COMPLETE corrected code in a \`\`\`${codeBlockLang} code block`);
-    sections.push('9. Do NOT include any explanation - just the corrected code block');
+    sections.push(`8. ${returnInstruction}`);
+    sections.push(`9. ${explanationInstruction}`);
+  }
+
+  if (patchMode) {
+    sections.push('');
+    sections.push('### Edit Format');
+    sections.push('Each SEARCH section must copy lines from the original code exactly (including indentation) and match only once. Include a few unchanged lines when needed to make it unique:');
+    sections.push('<<<<<<< SEARCH');
+    sections.push('(exact lines from the original code)');
+    sections.push('=======');
+    sections.push('(the corrected lines)');
+    sections.push('>>>>>>> REPLACE');
   }
 
   return sections.join('\n');
 }
 
+/**
+ * Follow-up when the edits from a patch-mode attempt don't apply: ask for
+ * the complete story instead
+ */
+export function buildPatchFallbackPrompt(reason: string, framework: string): string {
+  return `Your edits could not be applied: ${reason}. Return the COMPLETE corrected story in a single \`\`\`${getCodeBlockLanguage(framework)} code block instead, with every error above fixed.`;
+}
+
 /**
  * Format errors for logging
  */
@@ -416,6 +668,27 @@ export function formatErrorsForLog(errors: ValidationErrors): string {
   if (errors.importErrors.length > 0) {
     parts.push(`Import(${errors.importErrors.length})`);
   }
+  if (errors.typeErrors.length > 0) {
+    parts.push(`Type(${errors.typeErrors.length})`);
+  }
+  if (errors.propErrors.length > 0) {
+    parts.push(`Prop(${errors.propErrors.length})`);
+  }
+  if (errors.runtimeErrors.length > 0) {
+    parts.push(`Runtime(${errors.runtimeErrors.length})`);
+  }
+  if (errors.a11yErrors.length > 0) {
+    parts.push(`A11y(${errors.a11yErrors.length})`);
+  }
+  if (errors.interactionErrors.length > 0) {
+    parts.push(`Interaction(${errors.interactionErrors.length})`);
+  }
+  if (errors.guidelineErrors.length > 0) {
+    parts.push(`Guideline(${errors.guidelineErrors.length})`);
+  }
+  if (errors.customRuleErrors.length > 0) {
+    parts.push(`Rule(${errors.customRuleErrors.length})`);
+  }
 
   return parts.length > 0 ? parts.join(', ') : 'None';
 }
@@ -426,7 +699,8 @@ export function formatErrorsForLog(errors: ValidationErrors): string {
 export function createGenerationMetrics(
   attempts: number,
   errorHistory: ValidationErrors[],
-  autoFixApplied: boolean[]
+  autoFixApplied: boolean[],
+  repairModes: RepairMode[] = []
 ): GenerationMetrics {
   return {
     attempts,
@@ -436,7 +710,15 @@ export function createGenerationMetrics(
       syntaxErrors: errors.syntaxErrors.length,
       patternErrors: errors.patternErrors.length,
       importErrors: errors.importErrors.length,
+      typeErrors: errors.typeErrors.length,
+      propErrors: errors.propErrors.length,
+      runtimeErrors: errors.runtimeErrors.length,
+      a11yErrors: errors.a11yErrors.length,
+      interactionErrors: errors.interactionErrors.length,
+      guidelineErrors: errors.guidelineErrors.length,
+      customRuleErrors: errors.customRuleErrors.length,
       autoFixApplied: autoFixApplied[index] || false,
+      repairMode: repairModes[index] ?? (index === 0 ? 'initial' : 'full'),
     })),
   };
 }
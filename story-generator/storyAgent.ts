@@ -0,0 +1,412 @@
+/**
+ * Story Agent
+ *
+ * Tool-calling generation mode for large design systems. Instead of putting
+ * the full component reference in the prompt, the model gets a compact
+ * component index plus tools to look up props and examples on demand,
+ * validate drafts and submit the finished story. It iterates until it submits
+ * code that passes validation or runs out of turns.
+ *
+ * Every turn goes through chatWithToolsDetailed, so failover, budgets and the
+ * usage ledger apply exactly as they do for regular generation.
+ */
+
+import type { StoryUIConfig, AgentModeConfig } from '../story-ui.config.js';
+import type { DiscoveredComponent } from './componentDiscovery.js';
+import type { ChatMessage, ToolCall, ToolDefinition, ToolResultContent, MessageContent } from './llm-providers/types.js';
+import { chatWithToolsDetailed, StoryChatOptions, StoryChatResult } from './llm-providers/story-llm-service.js';
+import { formatComponentReference } from './promptGenerator.js';
+import { validateStoryCode } from './validateStory.js';
+import { validateStory } from './storyValidator.js';
+import { typeCheckStory } from './storyTypeChecker.js';
+import { validateComponentProps } from './propValidator.js';
+import { validateFrameworkCompilation, mergeCompilerErrors } from './frameworkCompilerValidator.js';
+import { ValidationErrors, aggregateValidationErrors, hasNoErrors, suppressDiagnostics } from './selfHealingLoop.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Validation used by validate_story and submit_story */
+export type StoryValidator = (code: string) => Promise<{ errors: ValidationErrors; fixedCode?: string }>;
+
+export interface StoryAgentToolContext {
+  components: DiscoveredComponent[];
+  config: StoryUIConfig;
+  validate: StoryValidator;
+}
+
+export interface StoryAgentToolResult {
+  content: string;
+  isError?: boolean;
+  /** Code passed to validate_story or submit_story (auto-fixed when possible) */
+  draftCode?: string;
+  /** Set when submit_story accepted the code */
+  submittedCode?: string;
+}
+
+export interface StoryAgentOptions extends Pick<StoryChatOptions, 'provider' | 'model' | 'maxTokens' | 'usageContext' | 'onFailover'> {
+  /** Maximum model turns before giving up, at least 1 (default: 12) */
+  maxTurns?: number;
+  /** Called after every model turn, e.g. to track usage */
+  onTurn?: (result: StoryChatResult) => void;
+  /** Called after each tool call has run */
+  onToolCall?: (call: ToolCall, result: StoryAgentToolResult) => void;
+}
+
+export interface StoryAgentResult {
+  /** Final answer: the submitted (or last drafted) story in a code block, or the model's text */
+  content: string;
+  /** True when submit_story accepted the code */
+  submitted: boolean;
+  turns: number;
+  toolCalls: number;
+  /** The last model turn, i.e. the provider/model that produced the answer */
+  lastTurn: StoryChatResult;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const DEFAULT_AGENT_MAX_TURNS = 12;
+export const DEFAULT_AGENT_AUTO_THRESHOLD = 150;
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_PROPS_LOOKUP = 10;
+
+export const STORY_AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'list_components',
+    description: 'Search the design system components by name or description. Returns names, categories and short descriptions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Case-insensitive text to match against component names and descriptions' },
+        category: { type: 'string', enum: ['layout', 'content', 'form', 'navigation', 'feedback', 'other'] },
+        limit: { type: 'number', description: `Maximum results (default ${DEFAULT_LIST_LIMIT}, max ${MAX_LIST_LIMIT})` },
+      },
+    },
+  },
+  {
+    name: 'get_component_props',
+    description: 'Get the import path, props (types, allowed values, defaults) and slots of components. Call this for every component before using it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        components: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Exact component names (up to ${MAX_PROPS_LOOKUP})`,
+        },
+      },
+      required: ['components'],
+    },
+  },
+  {
+    name: 'get_story_example',
+    description: 'Get example story code for a component, or the project sample story when no component is given.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        component: { type: 'string', description: 'Component name' },
+      },
+    },
+  },
+  {
+    name: 'validate_story',
+    description: 'Check a complete story file for syntax, forbidden patterns, invalid imports and type errors without submitting it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'The complete story file' },
+      },
+      required: ['code'],
+    },
+  },
+  {
+    name: 'submit_story',
+    description: 'Submit the finished story file. It is validated first; if there are errors they are returned and you must fix them and submit again.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'The complete story file' },
+      },
+      required: ['code'],
+    },
+  },
+];
+
+const AGENT_SYSTEM_PROMPT = [
+  'You write Storybook stories for a design system with many components, so the prompt only lists component names.',
+  'Use the tools instead of guessing:',
+  '1. Use list_components to find components that fit the request.',
+  '2. Call get_component_props for every component you use - only use the props, values and import paths it returns.',
+  '3. Optionally call get_story_example for usage patterns.',
+  '4. Call validate_story on your draft and fix any errors it reports.',
+  '5. Finish by calling submit_story with the complete file. Do not reply with the code as text.',
+  'All other instructions in the request (imports, story format, rules) still apply.',
+].join('\n');
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Decide whether a generation should use agent mode. An explicit request flag
+ * wins; otherwise `enabled: 'auto'` switches on for large component sets.
+ */
+export function shouldUseAgentMode(
+  config: AgentModeConfig | undefined,
+  requested: boolean | undefined,
+  componentCount: number
+): boolean {
+  if (requested !== undefined) return requested;
+  if (config?.enabled === 'auto') {
+    return componentCount >= (config.autoThreshold ?? DEFAULT_AGENT_AUTO_THRESHOLD);
+  }
+  return config?.enabled === true;
+}
+
+/**
+ * Models sometimes wrap tool arguments in a markdown fence
+ */
+function stripCodeFence(code: string): string {
+  const fenced = code.trim().match(/^```[\w-]*\s*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1] : code;
+}
+
+function formatErrors(errors: ValidationErrors): string {
+  const sections: Array<[string, string[]]> = [
+    ['Syntax errors', errors.syntaxErrors],
+    ['Pattern errors', errors.patternErrors],
+    ['Import errors', errors.importErrors],
+    ['Type errors', errors.typeErrors],
+    ['Prop errors', errors.propErrors],
+  ];
+  return sections
+    .filter(([, list]) => list.length > 0)
+    .map(([label, list]) => `${label}:\n${list.map(error => `- ${error}`).join('\n')}`)
+    .join('\n\n');
+}
+
+/**
+ * Closest component names for a name that was not found
+ */
+export function suggestComponentNames(name: string, available: string[], max = 3): string[] {
+  const needle = name.toLowerCase();
+  return available
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const score = lower === needle ? 0
+        : lower.startsWith(needle) || needle.startsWith(lower) ? 1
+        : lower.includes(needle) || needle.includes(lower) ? 2
+        : 3;
+      return { candidate, score };
+    })
+    .filter(entry => entry.score < 3)
+    .sort((a, b) => a.score - b.score || a.candidate.length - b.candidate.length)
+    .slice(0, max)
+    .map(entry => entry.candidate);
+}
+
+/**
+ * Syntax (validateStoryCode), pattern (storyValidator), prop and type checks;
+ * callers can add import checks backed by EnhancedComponentDiscovery
+ */
+export function createStoryValidator(
+  config: StoryUIConfig,
+  fileName: string,
+  checkImports?: (code: string) => Promise<string[]>,
+  components: DiscoveredComponent[] = []
+): StoryValidator {
+  return async (code: string) => {
+    let astResult = validateStoryCode(code, fileName, config, components);
+    const checked = astResult.fixedCode || code;
+    if (astResult.isValid) {
+      const framework = config.componentFramework || 'react';
+      astResult = mergeCompilerErrors(astResult, (await validateFrameworkCompilation(checked, fileName, framework, config)).errors);
+    }
+    const importErrors = checkImports ? await checkImports(checked) : [];
+    const typeErrors = astResult.isValid && importErrors.length === 0
+      ? typeCheckStory(checked, config, fileName).errors
+      : [];
+    const propErrors = astResult.isValid
+      ? validateComponentProps(checked, components, fileName, config.propValidation).filter(issue => issue.severity === 'error')
+      : [];
+    return {
+      errors: suppressDiagnostics(
+        aggregateValidationErrors(astResult, validateStory(checked), importErrors, typeErrors, propErrors),
+        config.diagnostics?.suppress
+      ),
+      fixedCode: astResult.fixedCode,
+    };
+  };
+}
+
+// ── Tools ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run one tool call. Tool errors are returned to the model rather than thrown
+ * so it can correct itself.
+ */
+export async function executeStoryAgentTool(call: ToolCall, context: StoryAgentToolContext): Promise<StoryAgentToolResult> {
+  const args = call.arguments || {};
+  const names = context.components.map(component => component.name);
+
+  switch (call.name) {
+    case 'list_components': {
+      const query = typeof args.query === 'string' ? args.query.toLowerCase() : '';
+      const limit = Math.min(Math.max(1, Number(args.limit) || DEFAULT_LIST_LIMIT), MAX_LIST_LIMIT);
+      const matches = context.components.filter(component =>
+        (!args.category || component.category === args.category) &&
+        (!query || component.name.toLowerCase().includes(query) || component.description?.toLowerCase().includes(query))
+      );
+      if (matches.length === 0) {
+        return { content: `No components match${query ? ` "${args.query}"` : ''}. Try a broader query.` };
+      }
+      const lines = matches.slice(0, limit).map(component => {
+        const description = component.description && component.description !== `${component.name} component`
+          ? ` - ${component.description.slice(0, 100)}`
+          : '';
+        return `- ${component.name} [${component.category}]${description}`;
+      });
+      return { content: `${matches.length} matching component(s)${matches.length > limit ? `, showing ${limit}` : ''}:\n${lines.join('\n')}` };
+    }
+
+    case 'get_component_props': {
+      const requested: string[] = Array.isArray(args.components)
+        ? args.components.map(String)
+        : typeof args.components === 'string' ? [args.components] : [];
+      if (requested.length === 0) {
+        return { content: 'Pass the component names to look up in "components".', isError: true };
+      }
+      const sections = requested.slice(0, MAX_PROPS_LOOKUP).map(name => {
+        const component = context.components.find(c => c.name === name);
+        if (component) {
+          return formatComponentReference(component, context.config).trimEnd();
+        }
+        const suggestions = suggestComponentNames(name, names);
+        return `- ${name}: not a component in this design system.${suggestions.length > 0 ? ` Did you mean ${suggestions.join(', ')}?` : ''}`;
+      });
+      if (requested.length > MAX_PROPS_LOOKUP) {
+        sections.push(`(Only the first ${MAX_PROPS_LOOKUP} components were looked up.)`);
+      }
+      return { content: sections.join('\n\n') };
+    }
+
+    case 'get_story_example': {
+      if (args.component) {
+        const component = context.components.find(c => c.name === args.component);
+        if (!component) {
+          const suggestions = suggestComponentNames(String(args.component), names);
+          return {
+            content: `Unknown component "${args.component}".${suggestions.length > 0 ? ` Did you mean ${suggestions.join(', ')}?` : ''}`,
+            isError: true,
+          };
+        }
+        if (component.examples?.length) {
+          return { content: component.examples.slice(0, 2).join('\n\n---\n\n') };
+        }
+      }
+      const fallback = context.config.sampleStory || context.config.examples?.[0];
+      return {
+        content: fallback
+          ? `${args.component ? `No example for ${args.component}; project sample story:\n\n` : ''}${fallback}`
+          : 'No examples available. Follow the sample story format from the request.',
+      };
+    }
+
+    case 'validate_story':
+    case 'submit_story': {
+      if (typeof args.code !== 'string' || !args.code.trim()) {
+        return { content: 'Pass the complete story file in "code".', isError: true };
+      }
+      const code = stripCodeFence(args.code);
+      const { errors, fixedCode } = await context.validate(code);
+      const draftCode = fixedCode || code;
+
+      if (!hasNoErrors(errors)) {
+        const next = call.name === 'submit_story' ? 'Fix them and call submit_story again.' : 'Fix them before submitting.';
+        return { content: `The story has errors:\n\n${formatErrors(errors)}\n\n${next}`, isError: true, draftCode };
+      }
+      if (call.name === 'submit_story') {
+        return { content: 'Story accepted.', draftCode, submittedCode: draftCode };
+      }
+      return { content: `No errors found.${fixedCode ? ' (Minor syntax issues were fixed automatically.)' : ''}`, draftCode };
+    }
+
+    default:
+      return { content: `Unknown tool "${call.name}".`, isError: true };
+  }
+}
+
+// ── Agent loop ─────────────────────────────────────────────────────────────
+
+/**
+ * Run the tool-calling loop for one generation attempt. `messages` is the
+ * conversation so far (prompt with component index, plus any self-healing
+ * turns); the result reads like a regular completion so callers can feed it
+ * through the same extraction and validation as non-agent generation.
+ */
+export async function runStoryAgent(
+  messages: ChatMessage[],
+  context: StoryAgentToolContext,
+  options: StoryAgentOptions = {}
+): Promise<StoryAgentResult> {
+  // At least one turn, so there is always an answer to return
+  const maxTurns = Number.isFinite(options.maxTurns) ? Math.max(1, Math.floor(options.maxTurns!)) : DEFAULT_AGENT_MAX_TURNS;
+  const conversation: ChatMessage[] = [...messages];
+  let lastTurn: StoryChatResult | undefined;
+  let lastDraft: string | undefined;
+  let toolCallCount = 0;
+
+  for (let turn = 1; turn <= maxTurns; turn++) {
+    lastTurn = await chatWithToolsDetailed(conversation, STORY_AGENT_TOOLS, {
+      provider: options.provider,
+      model: options.model,
+      maxTokens: options.maxTokens,
+      usageContext: options.usageContext,
+      onFailover: options.onFailover,
+      systemPrompt: AGENT_SYSTEM_PROMPT,
+    });
+    options.onTurn?.(lastTurn);
+
+    const calls = lastTurn.toolCalls ?? [];
+    if (calls.length === 0) {
+      // The model answered in text (usually a code block) instead of submitting
+      return { content: lastTurn.content, submitted: false, turns: turn, toolCalls: toolCallCount, lastTurn };
+    }
+
+    const assistantContent: MessageContent[] = lastTurn.content ? [{ type: 'text', text: lastTurn.content }] : [];
+    for (const call of calls) {
+      assistantContent.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments, metadata: call.metadata });
+    }
+    conversation.push({ role: 'assistant', content: assistantContent });
+
+    const results: ToolResultContent[] = [];
+    let submittedCode: string | undefined;
+    for (const call of calls) {
+      toolCallCount++;
+      const result = await executeStoryAgentTool(call, context);
+      logger.debug(`🧰 Agent tool ${call.name}`, { isError: !!result.isError });
+      options.onToolCall?.(call, result);
+      results.push({ type: 'tool_result', toolCallId: call.id, name: call.name, content: result.content, isError: result.isError });
+      lastDraft = result.draftCode ?? lastDraft;
+      submittedCode = result.submittedCode ?? submittedCode;
+    }
+    conversation.push({ role: 'user', content: results });
+
+    if (submittedCode) {
+      return { content: `\`\`\`\n${submittedCode}\n\`\`\``, submitted: true, turns: turn, toolCalls: toolCallCount, lastTurn };
+    }
+  }
+
+  if (!lastTurn) {
+    throw new Error('Story agent made no model turns');
+  }
+  logger.warn(`Story agent stopped after ${maxTurns} turns without submitting`);
+  return {
+    content: lastDraft ? `\`\`\`\n${lastDraft}\n\`\`\`` : lastTurn.content,
+    submitted: false,
+    turns: maxTurns,
+    toolCalls: toolCallCount,
+    lastTurn,
+  };
+}
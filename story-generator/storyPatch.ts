@@ -0,0 +1,180 @@
+/**
+ * Story Patches
+ *
+ * In patch repair mode the self-healing loop asks the model for targeted
+ * edits instead of the whole story. This module reads those edits (SEARCH/
+ * REPLACE blocks or a unified diff) from the response and applies them to
+ * the failing code. Edits replace whole lines, and a patch applies only when
+ * every edit matches the story exactly once; otherwise the loop falls back
+ * to full regeneration.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface PatchHunk {
+  search: string;
+  replace: string;
+}
+
+export interface PatchResult {
+  applied: boolean;
+  /** The patched story, or the original code when the patch didn't apply */
+  code: string;
+  /** Number of edits found in the response */
+  hunks: number;
+  /** Why the patch didn't apply */
+  reason?: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const SEARCH_MARKER = /^<{5,}\s*SEARCH$/;
+const DIVIDER_MARKER = /^={5,}$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE$/;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function parseSearchReplace(response: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let search: string[] | null = null;
+  let replace: string[] | null = null;
+
+  for (const line of response.split('\n')) {
+    const marker = line.trim();
+    if (SEARCH_MARKER.test(marker)) {
+      search = [];
+      replace = null;
+    } else if (search && !replace && DIVIDER_MARKER.test(marker)) {
+      replace = [];
+    } else if (search && replace && REPLACE_MARKER.test(marker)) {
+      hunks.push({ search: search.join('\n'), replace: replace.join('\n') });
+      search = null;
+      replace = null;
+    } else {
+      (replace ?? search)?.push(line);
+    }
+  }
+
+  return hunks;
+}
+
+function parseUnifiedDiff(response: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: { search: string[]; replace: string[] } | null = null;
+  // Blank lines count as context only when more hunk lines follow them
+  let pendingBlankLines = 0;
+
+  const flush = () => {
+    if (current && (current.search.length > 0 || current.replace.length > 0)) {
+      hunks.push({ search: current.search.join('\n'), replace: current.replace.join('\n') });
+    }
+    current = null;
+    pendingBlankLines = 0;
+  };
+
+  for (const line of response.split('\n')) {
+    if (line.startsWith('@@')) {
+      flush();
+      current = { search: [], replace: [] };
+      continue;
+    }
+    if (!current) continue;
+    const hunk: { search: string[]; replace: string[] } = current;
+
+    if (line === '') {
+      pendingBlankLines++;
+      continue;
+    }
+    if (line.startsWith('```') || line.startsWith('--- ') || line.startsWith('+++ ') || line.startsWith('diff ')) {
+      flush();
+      continue;
+    }
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    if (!/^[ +-]/.test(line)) {
+      flush();
+      continue;
+    }
+
+    for (; pendingBlankLines > 0; pendingBlankLines--) {
+      hunk.search.push('');
+      hunk.replace.push('');
+    }
+    const text = line.slice(1);
+    if (line[0] !== '+') hunk.search.push(text);
+    if (line[0] !== '-') hunk.replace.push(text);
+  }
+  flush();
+
+  return hunks;
+}
+
+/**
+ * Start lines where the search lines match the story, compared as-is or
+ * ignoring each line's indentation
+ */
+function findMatches(lines: string[], searchLines: string[], normalize: (line: string) => string): number[] {
+  const matches: number[] = [];
+  for (let start = 0; start + searchLines.length <= lines.length; start++) {
+    if (searchLines.every((line, offset) => normalize(lines[start + offset]) === normalize(line))) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Apply one edit to whole lines: an exact match first, then a match that
+ * ignores indentation. Ambiguous and missing matches return undefined.
+ */
+function applyHunk(code: string, hunk: PatchHunk): string | undefined {
+  if (!hunk.search.trim()) return undefined;
+
+  const lines = code.split('\n');
+  const searchLines = hunk.search.split('\n');
+  let matches = findMatches(lines, searchLines, line => line);
+  if (matches.length === 0) matches = findMatches(lines, searchLines, line => line.trim());
+  if (matches.length !== 1) return undefined;
+
+  lines.splice(matches[0], searchLines.length, ...hunk.replace.split('\n'));
+  return lines.join('\n');
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * The edits in a model response: SEARCH/REPLACE blocks, or the hunks of a
+ * unified diff when there are none
+ */
+export function parsePatch(response: string): PatchHunk[] {
+  const blocks = parseSearchReplace(response);
+  return blocks.length > 0 ? blocks : parseUnifiedDiff(response);
+}
+
+/**
+ * Apply the edits in a model response to the story they were made against
+ */
+export function applyStoryPatch(code: string, response: string): PatchResult {
+  const hunks = parsePatch(response);
+  if (hunks.length === 0) {
+    return { applied: false, code, hunks: 0, reason: 'no edits found in the response' };
+  }
+
+  let patched = code;
+  for (let i = 0; i < hunks.length; i++) {
+    const next = applyHunk(patched, hunks[i]);
+    if (next === undefined) {
+      return {
+        applied: false,
+        code,
+        hunks: hunks.length,
+        reason: `edit ${i + 1} of ${hunks.length} does not match the story exactly once`,
+      };
+    }
+    patched = next;
+  }
+
+  if (patched === code) {
+    return { applied: false, code, hunks: hunks.length, reason: 'the edits do not change the story' };
+  }
+  return { applied: true, code: patched, hunks: hunks.length };
+}
@@ -0,0 +1,295 @@
+/**
+ * Story Type Checker
+ *
+ * Type-checks a generated story in memory against the project's tsconfig and
+ * installed typings, as if it had been written to the generated stories
+ * directory. Catches what syntax validation cannot: invalid prop values,
+ * wrong prop types, missing required props.
+ *
+ * The compiler host, options and previous program are kept between checks and
+ * library and project files are parsed once, so a check after the first only
+ * re-parses the story itself and re-binds what changed. That keeps the
+ * synchronous check short enough to run on the request thread.
+ */
+
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import type { StoryUIConfig } from '../story-ui.config.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface TypeCheckResult {
+  /** False when the story was not type-checked (see skippedReason) */
+  checked: boolean;
+  errors: string[];
+  skippedReason?: string;
+  durationMs: number;
+}
+
+interface TypeCheckProject {
+  key: string;
+  options: ts.CompilerOptions;
+  configPath?: string;
+  /** Ambient declarations the tsconfig includes (vite-env.d.ts, asset modules, globals) */
+  declarationFiles: string[];
+}
+
+interface CheckHost {
+  key: string;
+  options: ts.CompilerOptions;
+  host: ts.CompilerHost;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_ERRORS = 10;
+
+/**
+ * Diagnostics that are either reported by other validation stages or don't
+ * make a story wrong
+ */
+const IGNORED_DIAGNOSTIC_CODES = new Set([
+  2307, // Cannot find module - unknown imports are reported by import validation
+  2792, // Cannot find module (moduleResolution hint)
+  7016, // No declaration file for module - untyped packages
+  6133, 6192, 6196, 6198, // Unused declarations and imports
+  7005, 7006, 7008, 7031, 7034, // Implicit any - stories are often loosely typed
+]);
+
+/** Used when the project has no tsconfig.json */
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  strict: true,
+};
+
+/** Options that would make a check emit files or need build info */
+const CHECK_ONLY_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  skipLibCheck: true,
+  incremental: false,
+  composite: false,
+  declaration: false,
+  emitDeclarationOnly: false,
+  noUnusedLocals: false,
+  noUnusedParameters: false,
+};
+
+const CHECK_FILE_BASENAME = '__story-ui-typecheck__';
+
+// ── State ──────────────────────────────────────────────────────────────────
+
+let project: TypeCheckProject | null = null;
+let checkHost: CheckHost | null = null;
+let lastProgram: ts.Program | undefined;
+/** Story served by the shared host during the current check */
+let currentStory: { path: string; code: string } | null = null;
+const sourceFileCache = new Map<string, { mtimeMs: number; sourceFile: ts.SourceFile }>();
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function parseConfigFile(configPath: string): ts.ParsedCommandLine | undefined {
+  return ts.getParsedCommandLineOfConfigFile(configPath, undefined, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => {
+      logger.warn(`Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+    },
+  });
+}
+
+/**
+ * Resolve compiler options from the project's tsconfig. Solution-style
+ * configs (no files, only references) use the referenced config that sets
+ * `jsx`, which is the app config in Vite-style setups.
+ */
+function loadProject(projectRoot: string, tsconfigPath?: string): TypeCheckProject {
+  const key = `${projectRoot}::${tsconfigPath ?? ''}`;
+  if (project?.key === key) return project;
+
+  const configPath = tsconfigPath
+    ? path.resolve(projectRoot, tsconfigPath)
+    : ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json');
+
+  let options = DEFAULT_COMPILER_OPTIONS;
+  let declarationFiles: string[] = [];
+  let usedConfig: string | undefined;
+
+  if (configPath && fs.existsSync(configPath)) {
+    let parsed = parseConfigFile(configPath);
+    usedConfig = configPath;
+
+    if (parsed && parsed.fileNames.length === 0 && parsed.projectReferences?.length) {
+      const referenced: Array<{ refPath: string; config: ts.ParsedCommandLine }> = [];
+      for (const ref of parsed.projectReferences) {
+        const refPath: string = ts.resolveProjectReferencePath(ref);
+        const config = fs.existsSync(refPath) ? parseConfigFile(refPath) : undefined;
+        if (config) referenced.push({ refPath, config });
+      }
+      const app = referenced.find(entry => entry.config.options.jsx !== undefined) ?? referenced[0];
+      if (app) {
+        parsed = app.config;
+        usedConfig = app.refPath;
+      }
+    }
+
+    if (parsed) {
+      options = parsed.options;
+      declarationFiles = parsed.fileNames.filter(fileName => fileName.endsWith('.d.ts'));
+    }
+  }
+
+  project = { key, options: { ...options, ...CHECK_ONLY_OPTIONS }, configPath: usedConfig, declarationFiles };
+  lastProgram = undefined;
+  logger.debug('Story type checking configured', { tsconfig: usedConfig ?? '(defaults)' });
+  return project;
+}
+
+/**
+ * Cache parsed library and project files between checks. Files outside
+ * node_modules are re-parsed when they change on disk.
+ */
+function getCachedSourceFile(fileName: string, read: () => ts.SourceFile | undefined): ts.SourceFile | undefined {
+  const cached = sourceFileCache.get(fileName);
+  let mtimeMs = 0;
+  // TypeScript passes normalized paths with forward slashes
+  if (!fileName.includes('/node_modules/')) {
+    try {
+      mtimeMs = fs.statSync(fileName).mtimeMs;
+    } catch {
+      return read();
+    }
+  }
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.sourceFile;
+  }
+  const sourceFile = read();
+  if (sourceFile) {
+    sourceFileCache.set(fileName, { mtimeMs, sourceFile });
+  }
+  return sourceFile;
+}
+
+/**
+ * Compiler host shared by every check of a project. It serves the story being
+ * checked from memory and everything else from the source file cache.
+ */
+function getCheckHost(base: TypeCheckProject, needsJsx: boolean): CheckHost {
+  const key = `${base.key}::${needsJsx && base.options.jsx === undefined ? 'jsx' : ''}`;
+  if (checkHost?.key === key) return checkHost;
+
+  const options = needsJsx && base.options.jsx === undefined
+    ? { ...base.options, jsx: ts.JsxEmit.ReactJSX }
+    : base.options;
+  const host = ts.createCompilerHost(options, true);
+  const isStory = (name: string) => !!currentStory && path.resolve(name) === currentStory.path;
+
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (name, languageVersion, onError, shouldCreate) => isStory(name)
+    ? ts.createSourceFile(name, currentStory!.code, languageVersion, true)
+    : getCachedSourceFile(name, () => getSourceFile(name, languageVersion, onError, shouldCreate));
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = name => isStory(name) || fileExists(name);
+  const readFile = host.readFile.bind(host);
+  host.readFile = name => isStory(name) ? currentStory!.code : readFile(name);
+
+  checkHost = { key, options, host };
+  lastProgram = undefined;
+  return checkHost;
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic): string {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `Line ${position.line + 1}, Column ${position.character + 1}: ${message} (TS${diagnostic.code})`;
+  }
+  return `${message} (TS${diagnostic.code})`;
+}
+
+function skipped(reason: string): TypeCheckResult {
+  return { checked: false, errors: [], skippedReason: reason, durationMs: 0 };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Type-check story code as if it were saved in `config.generatedStoriesPath`,
+ * so relative imports and path aliases resolve the same way they will in
+ * Storybook. Only TypeScript stories are checked; Svelte and other template
+ * files are skipped.
+ */
+export function typeCheckStory(
+  code: string,
+  config: StoryUIConfig,
+  fileName: string = 'story.stories.tsx',
+  projectRoot: string = process.cwd()
+): TypeCheckResult {
+  const settings = config.typeCheck ?? {};
+  if (settings.enabled === false) {
+    return skipped('Type checking is disabled');
+  }
+
+  const extension = fileName.match(/\.[cm]?tsx?$/)?.[0];
+  if (!extension) {
+    return skipped('Not a TypeScript story');
+  }
+
+  const startTime = Date.now();
+  try {
+    const loaded = loadProject(projectRoot, settings.tsconfigPath);
+    const { options, host } = getCheckHost(loaded, extension.endsWith('x'));
+
+    const storiesDir = config.generatedStoriesPath
+      ? path.resolve(projectRoot, config.generatedStoriesPath)
+      : projectRoot;
+    const storyPath = path.join(storiesDir, `${CHECK_FILE_BASENAME}.stories${extension}`);
+
+    currentStory = { path: storyPath, code };
+    const program = ts.createProgram({
+      rootNames: [...loaded.declarationFiles, storyPath],
+      options,
+      host,
+      oldProgram: lastProgram,
+    });
+    lastProgram = program;
+
+    const sourceFile = program.getSourceFile(storyPath);
+    if (!sourceFile) {
+      return skipped('Story could not be loaded into the type checker');
+    }
+
+    const maxErrors = settings.maxErrors ?? DEFAULT_MAX_ERRORS;
+    const diagnostics = program.getSemanticDiagnostics(sourceFile)
+      .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error && !IGNORED_DIAGNOSTIC_CODES.has(diagnostic.code));
+    const errors = diagnostics.slice(0, maxErrors).map(formatDiagnostic);
+    if (diagnostics.length > maxErrors) {
+      errors.push(`...and ${diagnostics.length - maxErrors} more type errors`);
+    }
+
+    const durationMs = Date.now() - startTime;
+    logger.debug('Story type check finished', { tsconfig: loaded.configPath, errors: diagnostics.length, durationMs });
+    return { checked: true, errors, durationMs };
+  } catch (error) {
+    // The type checker is an extra safety net; never fail a generation because of it
+    logger.warn(`Story type check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return skipped('Type checker error');
+  } finally {
+    currentStory = null;
+  }
+}
+
+/**
+ * Forget the loaded tsconfig and parsed files (e.g. after the config changed)
+ */
+export function resetStoryTypeChecker(): void {
+  project = null;
+  checkHost = null;
+  lastProgram = undefined;
+  sourceFileCache.clear();
+}
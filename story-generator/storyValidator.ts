@@ -1,6 +1,13 @@
+import type { DiagnosticFix } from './diagnostics.js';
+
 export interface ValidationError {
   message: string;
   line: number;
+  /** 1-based, when known */
+  column?: number;
+  /** Id of the check that reported it; with the validator it forms the diagnostic code */
+  rule?: string;
+  fix?: DiagnosticFix;
 }
 
 export function validateStory(storyContent: string): ValidationError[] {
@@ -10,25 +17,26 @@ export function validateStory(storyContent: string): ValidationError[] {
   // These are warnings/suggestions rather than strict forbidden patterns
   // Only flag truly problematic patterns that would break the story
   const forbiddenPatterns = [
-    { pattern: /UNSAFE_style\s*=\s*\{/i, message: 'The `UNSAFE_style` prop is strictly forbidden. Do not use it for any reason.' },
-    { pattern: /UNSAFE_className\s*=\s*['"]/i, message: 'The `UNSAFE_className` prop is forbidden.' },
-    { pattern: /<Text\s+as\s*=\s*["']h[1-6]["']/i, message: 'Text component does not support heading elements (h1-h6) in the "as" prop. Use Heading component instead.' },
+    { rule: 'unsafe-style', pattern: /UNSAFE_style\s*=\s*\{/i, message: 'The `UNSAFE_style` prop is strictly forbidden. Do not use it for any reason.' },
+    { rule: 'unsafe-classname', pattern: /UNSAFE_className\s*=\s*['"]/i, message: 'The `UNSAFE_className` prop is forbidden.' },
+    { rule: 'text-heading', pattern: /<Text\s+as\s*=\s*["']h[1-6]["']/i, message: 'Text component does not support heading elements (h1-h6) in the "as" prop. Use Heading component instead.' },
     // Catch imports that don't exist in production environments
-    { pattern: /from\s+['"]@storybook\/addon-actions['"]/i, message: 'Do not import from @storybook/addon-actions. Use argTypes with action property instead: argTypes: { onClick: { action: "clicked" } }' },
+    { rule: 'addon-actions-import', pattern: /from\s+['"]@storybook\/addon-actions['"]/i, message: 'Do not import from @storybook/addon-actions. Use argTypes with action property instead: argTypes: { onClick: { action: "clicked" } }' },
     // Catch Svelte slot property which doesn't work in modern Storybook
-    { pattern: /slot:\s*['"][^'"]+['"]/i, message: 'The slot property in render functions does not work in Svelte Storybook. Use simple args-based stories instead.' },
+    { rule: 'svelte-slot', pattern: /slot:\s*['"][^'"]+['"]/i, message: 'The slot property in render functions does not work in Svelte Storybook. Use simple args-based stories instead.' },
     // Catch Angular TS4111 patterns - "this.property" state management in render functions
-    { pattern: /this\.\w+\s*=\s*\$?event\./i, message: 'Do not use "this.property = event.value" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events and create separate stories for different states.' },
-    { pattern: /this\.\w+\+\+/i, message: 'Do not use "this.property++" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events instead of managing state.' },
-    { pattern: /this\.\w+--/i, message: 'Do not use "this.property--" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events instead of managing state.' },
+    { rule: 'angular-this-state', pattern: /this\.\w+\s*=\s*\$?event\./i, message: 'Do not use "this.property = event.value" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events and create separate stories for different states.' },
+    { rule: 'angular-this-state', pattern: /this\.\w+\+\+/i, message: 'Do not use "this.property++" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events instead of managing state.' },
+    { rule: 'angular-this-state', pattern: /this\.\w+--/i, message: 'Do not use "this.property--" in Angular stories. This causes TS4111 errors. Use argTypes with action property for events instead of managing state.' },
   ];
 
   lines.forEach((line, index) => {
-    for (const { pattern, message } of forbiddenPatterns) {
+    for (const { rule, pattern, message } of forbiddenPatterns) {
       if (pattern.test(line)) {
         errors.push({
           message,
           line: index + 1,
+          rule,
         });
       }
     }
@@ -40,6 +48,7 @@ export function validateStory(storyContent: string): ValidationError[] {
     errors.push({
       message: 'Story appears to be truncated. Multiple closing tags found on a single line followed by abrupt ending.',
       line: lines.length - 1,
+      rule: 'truncated-story',
     });
   }
 
@@ -59,6 +68,7 @@ export function validateStory(storyContent: string): ValidationError[] {
       errors.push({
         message: 'Story is missing required "export default meta" statement.',
         line: 1,
+        rule: 'missing-default-export',
       });
     }
   }
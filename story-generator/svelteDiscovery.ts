@@ -0,0 +1,303 @@
+/**
+ * Svelte Component Discovery
+ *
+ * Reads the props, snippets and events of .svelte components, in both the
+ * Svelte 5 runes syntax and the legacy one:
+ * - Props: `let { ... }: Props = $props()` destructuring (with `$bindable`
+ *   and plain defaults) and legacy `export let` declarations
+ * - Snippets and slots: props typed as `Snippet`, `{@render name()}` tags and
+ *   legacy `<slot>` / `<slot name="...">` outlets
+ * - Events: `createEventDispatcher` types and `dispatch('name')` calls, and
+ *   legacy `on:event` forwarding in the template
+ * - Description: the `<!-- @component -->` doc comment
+ *
+ * Scripts are type-checked next to the .svelte file, so props types imported
+ * from other modules resolve.
+ */
+
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import type { EventInfo, PropInfo } from './componentDiscovery.js';
+import {
+  createScriptProgram,
+  describeType,
+  extractProps,
+  literalValue,
+  scriptFileName,
+} from './typeScriptDiscovery.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface SvelteComponent {
+  filePath: string;
+  /** The `<!-- @component -->` doc comment */
+  description?: string;
+  props: PropInfo[];
+  events: EventInfo[];
+  /** Snippet props and slots; a legacy default slot is 'default' */
+  slots: string[];
+}
+
+export interface SvelteDiscoveryOptions {
+  /** Where to look for tsconfig.json (default: process.cwd()) */
+  projectRoot?: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const SCRIPT_BLOCK = /<script\b[^>]*>([\s\S]*?)<\/script>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style>/gi;
+const DOC_COMMENT = /<!--\s*@component\b([\s\S]*?)-->/;
+const SLOT_OUTLET = /<slot\b([^>]*?)\/?>/gi;
+const SLOT_NAME = /(?:^|\s)name\s*=\s*["']([^"']+)["']/;
+const RENDER_TAG = /\{@render\s+([A-Za-z_$][\w$]*)\s*(?:\?\.)?\s*\(/g;
+const SNIPPET_BLOCK = /\{#snippet\s+([A-Za-z_$][\w$]*)\s*\(/g;
+/** `on:click` without a handler forwards the event to the component's parent */
+const FORWARDED_EVENT = /\son:([a-z][\w-]*)(?=[\s/>])/gi;
+
+const SNIPPET_TYPE = /\bSnippet\b/;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function splitComponent(content: string): { script: string; template: string; description?: string } {
+  const scripts = Array.from(content.matchAll(SCRIPT_BLOCK), match => match[1]);
+  const template = content.replace(SCRIPT_BLOCK, '').replace(STYLE_BLOCK, '');
+  const description = DOC_COMMENT.exec(content)?.[1].trim();
+  return { script: scripts.join('\n'), template, ...(description ? { description } : {}) };
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function isCallTo(node: ts.Expression | undefined, name: string): node is ts.CallExpression {
+  if (!node) return false;
+  const expression = skipParentheses(node);
+  return ts.isCallExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === name;
+}
+
+/** A prop default, unwrapping `$bindable(value)` */
+function defaultValue(initializer: ts.Expression | undefined): unknown {
+  if (!initializer) return undefined;
+  if (isCallTo(initializer, '$bindable')) {
+    const [value] = (skipParentheses(initializer) as ts.CallExpression).arguments;
+    return value ? literalValue(value.getText()) : undefined;
+  }
+  return literalValue(initializer.getText());
+}
+
+function typeOfDefault(checker: ts.TypeChecker, initializer: ts.Expression | undefined): Pick<PropInfo, 'type' | 'options'> {
+  if (!initializer) return { type: 'unknown' };
+  const value = isCallTo(initializer, '$bindable') ? (skipParentheses(initializer) as ts.CallExpression).arguments[0] : initializer;
+  if (!value) return { type: 'unknown' };
+  return describeType(checker, checker.getBaseTypeOfLiteralType(checker.getTypeAtLocation(value)));
+}
+
+function documentation(checker: ts.TypeChecker, node: ts.Node): string | undefined {
+  const symbol = checker.getSymbolAtLocation(node);
+  const text = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+  return text || undefined;
+}
+
+/** Props whose declared type is a `Snippet` (which is what slots are in Svelte 5) */
+function snippetProps(checker: ts.TypeChecker, propsType: ts.Type): Set<string> {
+  const snippets = new Set<string>();
+  const members = propsType.isUnion() ? propsType.types : [propsType];
+  for (const member of members) {
+    for (const prop of checker.getPropertiesOfType(checker.getApparentType(member))) {
+      const declaration = prop.valueDeclaration;
+      const typeNode = declaration && (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration))
+        ? declaration.type
+        : undefined;
+      if (typeNode && SNIPPET_TYPE.test(typeNode.getText())) snippets.add(prop.name);
+    }
+  }
+  return snippets;
+}
+
+/** Props from `let { ... }: Props = $props()` */
+function runesProps(
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  declaration: ts.VariableDeclaration
+): { props: PropInfo[]; snippets: Set<string> } {
+  const call = skipParentheses(declaration.initializer!) as ts.CallExpression;
+  const typeNode = declaration.type ?? call.typeArguments?.[0];
+  const defaults = new Map<string, unknown>();
+  const initializers = new Map<string, ts.Expression | undefined>();
+
+  if (ts.isObjectBindingPattern(declaration.name)) {
+    for (const element of declaration.name.elements) {
+      const key = element.propertyName ?? element.name;
+      if (element.dotDotDotToken || !ts.isIdentifier(key)) continue;
+      initializers.set(key.text, element.initializer);
+      const value = defaultValue(element.initializer);
+      if (value !== undefined) defaults.set(key.text, value);
+    }
+  }
+
+  if (typeNode) {
+    const propsType = checker.getTypeFromTypeNode(typeNode);
+    const snippets = snippetProps(checker, propsType);
+    const props = extractProps(program, checker, propsType, defaults).filter(prop => !snippets.has(prop.name));
+    return { props, snippets };
+  }
+
+  // Untyped props: names from the destructuring, types from the defaults
+  const props = Array.from(initializers, ([name, initializer]): PropInfo => {
+    const value = defaults.get(name);
+    return {
+      name,
+      ...typeOfDefault(checker, initializer),
+      required: false,
+      ...(value !== undefined ? { defaultValue: value } : {}),
+    };
+  });
+  return { props, snippets: new Set() };
+}
+
+/** Props from legacy `export let name: Type = value` declarations */
+function legacyProps(checker: ts.TypeChecker, statement: ts.VariableStatement): PropInfo[] {
+  const exported = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+  if (!exported || !(statement.declarationList.flags & ts.NodeFlags.Let)) return [];
+
+  const props: PropInfo[] = [];
+  for (const declaration of statement.declarationList.declarations) {
+    if (!ts.isIdentifier(declaration.name)) continue;
+    const value = declaration.initializer ? literalValue(declaration.initializer.getText()) : undefined;
+    const description = documentation(checker, declaration.name);
+    props.push({
+      name: declaration.name.text,
+      ...describeType(checker, checker.getTypeAtLocation(declaration.name)),
+      required: !declaration.initializer && !declaration.exclamationToken,
+      ...(description ? { description } : {}),
+      ...(value !== undefined ? { defaultValue: value } : {}),
+    });
+  }
+  return props;
+}
+
+/** Events from `createEventDispatcher<{ change: string }>()` and `dispatch('name', ...)` calls */
+function dispatchedEvents(checker: ts.TypeChecker, sourceFile: ts.SourceFile): EventInfo[] {
+  const events: EventInfo[] = [];
+  const dispatchers = new Set<string>();
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && isCallTo(node.initializer, 'createEventDispatcher')) {
+      dispatchers.add(node.name.text);
+      const typeArgument = (skipParentheses(node.initializer!) as ts.CallExpression).typeArguments?.[0];
+      if (typeArgument) {
+        for (const event of checker.getPropertiesOfType(checker.getTypeFromTypeNode(typeArgument))) {
+          const payload = checker.typeToString(checker.getTypeOfSymbol(event));
+          const description = ts.displayPartsToString(event.getDocumentationComment(checker)).trim();
+          events.push({
+            name: event.name,
+            ...(payload && payload !== 'null' ? { payload } : {}),
+            ...(description ? { description } : {}),
+          });
+        }
+      }
+    }
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && dispatchers.has(node.expression.text)) {
+      const [name] = node.arguments;
+      if (name && ts.isStringLiteral(name)) events.push({ name: name.text });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return events;
+}
+
+/** `{@render name()}` snippets and `<slot>` outlets; snippets defined in the file itself are not slots */
+function templateSlots(template: string): string[] {
+  const local = new Set(Array.from(template.matchAll(SNIPPET_BLOCK), match => match[1]));
+  const rendered = Array.from(template.matchAll(RENDER_TAG), match => match[1]).filter(name => !local.has(name));
+  const outlets = Array.from(template.matchAll(SLOT_OUTLET), match => SLOT_NAME.exec(match[1])?.[1] ?? 'default');
+  return [...rendered, ...outlets];
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Map<string, T>();
+  for (const item of items) {
+    if (!seen.has(key(item))) seen.set(key(item), item);
+  }
+  return Array.from(seen.values());
+}
+
+function analyzeComponent(
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  filePath: string,
+  sourceFile: ts.SourceFile,
+  template: string,
+  description: string | undefined
+): SvelteComponent {
+  const props: PropInfo[] = [];
+  const slots: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    props.push(...legacyProps(checker, statement));
+    for (const declaration of statement.declarationList.declarations) {
+      if (!isCallTo(declaration.initializer, '$props')) continue;
+      const runes = runesProps(program, checker, declaration);
+      props.push(...runes.props);
+      slots.push(...runes.snippets);
+    }
+  }
+  slots.push(...templateSlots(template));
+
+  const forwarded = Array.from(template.matchAll(FORWARDED_EVENT), match => ({ name: match[1] }));
+  const snippetNames = new Set(slots);
+
+  return {
+    filePath,
+    ...(description ? { description } : {}),
+    // Untyped snippet props are only known from {@render} tags
+    props: uniqueBy(props, prop => prop.name).filter(prop => !snippetNames.has(prop.name)),
+    events: uniqueBy([...dispatchedEvents(checker, sourceFile), ...forwarded], event => event.name),
+    slots: Array.from(snippetNames),
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Props, snippets and events of the given .svelte components. Files that
+ * can't be read are skipped.
+ */
+export function discoverSvelteComponents(files: string[], options: SvelteDiscoveryOptions = {}): SvelteComponent[] {
+  const scripts = new Map<string, string>();
+  const parts = new Map<string, { filePath: string; template: string; description?: string }>();
+
+  for (const file of files) {
+    if (!file.endsWith('.svelte')) continue;
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    const { script, template, description } = splitComponent(content);
+    const fileName = scriptFileName(file);
+    scripts.set(fileName, script);
+    parts.set(fileName, { filePath: path.resolve(file), template, description });
+  }
+  if (scripts.size === 0) return [];
+
+  const program = createScriptProgram(scripts, options.projectRoot ?? process.cwd());
+  const checker = program.getTypeChecker();
+
+  const components: SvelteComponent[] = [];
+  for (const [fileName, { filePath, template, description }] of parts) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+    components.push(analyzeComponent(program, checker, filePath, sourceFile, template, description));
+  }
+  return components;
+}
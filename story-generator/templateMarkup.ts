@@ -0,0 +1,28 @@
+/**
+ * Template Markup
+ *
+ * Pieces the story validators share for scanning template markup (Vue
+ * templates, Lit html``, Svelte markup) with regular expressions, and for
+ * mapping source offsets to story lines.
+ */
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Attribute values: quoted, ${expr} / {expr} with one level of nested braces, or bare */
+export const TEMPLATE_ATTRIBUTE_VALUE = String.raw`"[^"]*"|'[^']*'|\$?\{(?:[^{}]|\{[^{}]*\})*\}|[^\s>]+`;
+
+/** One attribute of a tag's attribute list: name, then the raw value when present */
+export const TEMPLATE_ATTRIBUTE = new RegExp(String.raw`([^\s=]+)(?:\s*=\s*(${TEMPLATE_ATTRIBUTE_VALUE}))?`, 'g');
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * 1-based line of a character offset in text
+ */
+export function lineAt(text: string, position: number): number {
+  let line = 1;
+  for (let i = 0; i < position && i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
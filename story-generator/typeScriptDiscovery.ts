@@ -0,0 +1,424 @@
+/**
+ * TypeScript Component Discovery
+ *
+ * Reads component props with the TypeScript compiler instead of regexes.
+ * A program is built over the component files (or a package's .d.ts entry)
+ * and every PascalCase export that is a component - function and class
+ * components, forwardRef and memo wrappers, components typed as FC or
+ * ForwardRefExoticComponent, generic and polymorphic components - has its
+ * props type resolved by the type checker. That covers props inherited from
+ * extended interfaces, intersections and Omit/Pick.
+ *
+ * Props declared by React, the DOM typings or the TypeScript libs (the HTML
+ * attributes a component forwards) are left out; the prop validator accepts
+ * those anyway.
+ */
+
+import * as ts from 'typescript';
+import path from 'path';
+import type { PropInfo } from './componentDiscovery.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface TypeScriptComponent {
+  name: string;
+  /** File the component is declared in */
+  filePath: string;
+  /** The component's JSDoc description */
+  description?: string;
+  props: PropInfo[];
+}
+
+export interface TypeScriptDiscoveryOptions {
+  /** Where to look for tsconfig.json (default: process.cwd()) */
+  projectRoot?: string;
+}
+
+interface PropsSource {
+  type: ts.Type;
+  /** The component function's props parameter, for destructuring defaults */
+  parameter?: ts.ParameterDeclaration;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Used when the project has no tsconfig.json */
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+};
+
+/** Discovery only reads types: no emit, no global @types, no lib checking */
+export const DISCOVERY_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  skipLibCheck: true,
+  incremental: false,
+  composite: false,
+  types: [],
+};
+
+/** Wrappers whose first argument is the component function */
+const COMPONENT_WRAPPERS = new Set(['forwardRef', 'memo']);
+
+/** Component types whose first type argument is the props type */
+const COMPONENT_TYPES = new Set([
+  'FC',
+  'FunctionComponent',
+  'VFC',
+  'ComponentType',
+  'ComponentClass',
+  'ExoticComponent',
+  'NamedExoticComponent',
+  'ForwardRefExoticComponent',
+  'MemoExoticComponent',
+]);
+
+/** React's own typings and the DOM typings it builds on */
+const EXTERNAL_DECLARATIONS = /[\\/]node_modules[\\/](?:@types[\\/])?(?:react|react-dom|prop-types|csstype)[\\/]/;
+
+/** Parameter types that rule out a props object (untyped or primitive first parameter) */
+const NON_PROPS_TYPES = ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.StringLike | ts.TypeFlags.NumberLike |
+  ts.TypeFlags.BooleanLike | ts.TypeFlags.Void | ts.TypeFlags.Undefined | ts.TypeFlags.Null;
+
+const MAX_RESOLVE_DEPTH = 4;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Compiler options from the project's tsconfig.json, or defaults when it has none */
+export function loadCompilerOptions(projectRoot: string): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json');
+  if (!configPath) return DEFAULT_COMPILER_OPTIONS;
+
+  const parsed = ts.getParsedCommandLineOfConfigFile(configPath, undefined, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: diagnostic => {
+      logger.warn(`Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+    },
+  });
+  if (!parsed) return DEFAULT_COMPILER_OPTIONS;
+  return { ...parsed.options, jsx: parsed.options.jsx ?? ts.JsxEmit.Preserve };
+}
+
+/** Where the script of a single-file component (.vue, .svelte) is type-checked: next to the file */
+export function scriptFileName(filePath: string): string {
+  return `${path.resolve(filePath).replace(/\\/g, '/')}.ts`;
+}
+
+/**
+ * A program over the scripts of single-file components, keyed by
+ * scriptFileName(). Each script resolves imports relative to its component.
+ */
+export function createScriptProgram(scripts: Map<string, string>, projectRoot: string): ts.Program {
+  const options = { ...loadCompilerOptions(projectRoot), ...DISCOVERY_OPTIONS };
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const script = scripts.get(fileName);
+    return script !== undefined
+      ? ts.createSourceFile(fileName, script, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  };
+  host.fileExists = fileName => scripts.has(fileName) || ts.sys.fileExists(fileName);
+  host.readFile = fileName => scripts.get(fileName) ?? ts.sys.readFile(fileName);
+
+  return ts.createProgram(Array.from(scripts.keys()), options, host);
+}
+
+function skipParentheses(node: ts.Node): ts.Node {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/** `forwardRef`, `React.forwardRef` and `React.memo` as their last name */
+function calleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return undefined;
+}
+
+function typeReferenceName(node: ts.TypeReferenceNode): string {
+  return ts.isIdentifier(node.typeName) ? node.typeName.text : node.typeName.right.text;
+}
+
+/**
+ * Props type from a component type annotation: FC<P>, ForwardRefExoticComponent<P>,
+ * MemoExoticComponent<FC<P>> or a function type
+ */
+function propsFromTypeNode(checker: ts.TypeChecker, node: ts.TypeNode, depth: number): PropsSource | undefined {
+  if (depth > MAX_RESOLVE_DEPTH) return undefined;
+  if (ts.isFunctionTypeNode(node)) {
+    const parameter = node.parameters[0];
+    return parameter ? { type: checker.getTypeAtLocation(parameter) } : undefined;
+  }
+  if (ts.isTypeReferenceNode(node) && COMPONENT_TYPES.has(typeReferenceName(node)) && node.typeArguments?.length) {
+    const [argument] = node.typeArguments;
+    return typeReferenceName(node) === 'MemoExoticComponent'
+      ? propsFromTypeNode(checker, argument, depth + 1)
+      : { type: checker.getTypeFromTypeNode(argument) };
+  }
+  return undefined;
+}
+
+/**
+ * Props type of a component declaration, read from its syntax where possible
+ * so it doesn't depend on React's typings being installed
+ */
+function propsFromDeclaration(checker: ts.TypeChecker, node: ts.Node, depth = 0): PropsSource | undefined {
+  if (depth > MAX_RESOLVE_DEPTH) return undefined;
+  node = skipParentheses(node);
+
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+    // (props) or (props, ref)
+    const [parameter] = node.parameters;
+    if (!parameter || node.parameters.length > 2) return undefined;
+    return { type: checker.getTypeAtLocation(parameter), parameter };
+  }
+
+  if (ts.isVariableDeclaration(node)) {
+    const annotated = node.type && propsFromTypeNode(checker, node.type, depth + 1);
+    if (annotated) return annotated;
+    return node.initializer ? propsFromDeclaration(checker, node.initializer, depth + 1) : undefined;
+  }
+
+  if (ts.isCallExpression(node)) {
+    const wrapper = calleeName(node);
+    if (!wrapper || !COMPONENT_WRAPPERS.has(wrapper)) return undefined;
+    // forwardRef<Ref, Props>(...)
+    if (wrapper === 'forwardRef' && node.typeArguments?.length === 2) {
+      const inner = node.arguments[0] && propsFromDeclaration(checker, node.arguments[0], depth + 1);
+      return { type: checker.getTypeFromTypeNode(node.typeArguments[1]), parameter: inner?.parameter };
+    }
+    const [inner] = node.arguments;
+    if (!inner) return undefined;
+    if (ts.isIdentifier(inner)) {
+      const declaration = checker.getSymbolAtLocation(inner)?.valueDeclaration;
+      return declaration ? propsFromDeclaration(checker, declaration, depth + 1) : undefined;
+    }
+    return propsFromDeclaration(checker, inner, depth + 1);
+  }
+
+  if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+    // class Button extends React.Component<Props>
+    const base = node.heritageClauses
+      ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)?.types[0];
+    const baseName = base && (ts.isIdentifier(base.expression)
+      ? base.expression.text
+      : ts.isPropertyAccessExpression(base.expression) ? base.expression.name.text : undefined);
+    if (base?.typeArguments?.length && (baseName === 'Component' || baseName === 'PureComponent')) {
+      return { type: checker.getTypeFromTypeNode(base.typeArguments[0]) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Props type from the checker's call signature, for declarations typed with
+ * component types this module doesn't know by name
+ */
+function propsFromSignature(checker: ts.TypeChecker, symbol: ts.Symbol, location: ts.Node): PropsSource | undefined {
+  const signature = checker.getTypeOfSymbolAtLocation(symbol, location).getCallSignatures()[0];
+  const parameter = signature?.getParameters()[0];
+  if (!parameter || signature.getParameters().length > 2) return undefined;
+  return { type: checker.getTypeOfSymbolAtLocation(parameter, location) };
+}
+
+function isOwnDeclaration(program: ts.Program, symbol: ts.Symbol): boolean {
+  const declarations = symbol.declarations ?? [];
+  return declarations.length === 0 || declarations.some(declaration => {
+    const sourceFile = declaration.getSourceFile();
+    return !program.isSourceFileDefaultLibrary(sourceFile) && !EXTERNAL_DECLARATIONS.test(sourceFile.fileName);
+  });
+}
+
+function isStringLike(type: ts.Type): boolean {
+  if (type.flags & ts.TypeFlags.StringLike) return true;
+  // `string & {}`, used to keep literal suggestions in an open union
+  return type.isIntersection() && type.types.some(part => !!(part.flags & ts.TypeFlags.String));
+}
+
+/**
+ * Control type and options of a prop; closed unions of literals become
+ * 'select' with their values as options
+ */
+export function describeType(checker: ts.TypeChecker, declared: ts.Type): Pick<PropInfo, 'type' | 'options'> {
+  const type = checker.getNonNullableType(declared);
+
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter)) return { type: 'unknown' };
+  if (type.flags & ts.TypeFlags.BooleanLike) return { type: 'boolean' };
+
+  if (type.isUnion()) {
+    const members = type.types;
+    if (members.every(member => member.isStringLiteral() || member.isNumberLiteral())) {
+      return { type: 'select', options: members.map(member => String((member as ts.LiteralType).value)) };
+    }
+    if (members.every(isStringLike)) return { type: 'string' };
+    if (members.every(member => member.flags & ts.TypeFlags.NumberLike)) return { type: 'number' };
+    if (members.every(member => member.getCallSignatures().length > 0)) return { type: 'function' };
+    return { type: 'unknown' };
+  }
+
+  if (type.isStringLiteral()) return { type: 'select', options: [type.value] };
+  if (isStringLike(type)) return { type: 'string' };
+  if (type.flags & ts.TypeFlags.NumberLike) return { type: 'number' };
+  if (checker.isArrayType(type) || checker.isTupleType(type)) return { type: 'array' };
+  if (type.getCallSignatures().length > 0) return { type: 'function' };
+  if (type.flags & ts.TypeFlags.Object) return { type: 'object' };
+  return { type: 'unknown' };
+}
+
+/** Value of a literal default (`'md'`, `false`, `3`); other expressions keep their source text */
+export function literalValue(text: string): unknown {
+  const trimmed = text.trim();
+  const quoted = /^(['"`])([\s\S]*)\1$/.exec(trimmed);
+  if (quoted) return quoted[2];
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+}
+
+/**
+ * Defaults from the props parameter's destructuring (`{ size = 'md' }`) and
+ * from `Component.defaultProps = { ... }`
+ */
+function collectDefaults(name: string, source: PropsSource, sourceFile: ts.SourceFile): Map<string, unknown> {
+  const defaults = new Map<string, unknown>();
+
+  const pattern = source.parameter?.name;
+  if (pattern && ts.isObjectBindingPattern(pattern)) {
+    for (const element of pattern.elements) {
+      if (!element.initializer || element.dotDotDotToken) continue;
+      const key = element.propertyName ?? element.name;
+      if (ts.isIdentifier(key)) defaults.set(key.text, literalValue(element.initializer.getText()));
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression)) continue;
+    const { left, right, operatorToken } = statement.expression;
+    if (operatorToken.kind !== ts.SyntaxKind.EqualsToken || !ts.isObjectLiteralExpression(right)) continue;
+    if (left.getText() !== `${name}.defaultProps`) continue;
+    for (const property of right.properties) {
+      if (ts.isPropertyAssignment(property) && !defaults.has(property.name.getText())) {
+        defaults.set(property.name.getText(), literalValue(property.initializer.getText()));
+      }
+    }
+  }
+
+  return defaults;
+}
+
+/** `@default 'md'` / `@defaultValue md` on the prop's declaration */
+function jsDocDefault(checker: ts.TypeChecker, prop: ts.Symbol): unknown {
+  const tag = prop.getJsDocTags(checker).find(t => t.name === 'default' || t.name === 'defaultValue');
+  return tag?.text ? literalValue(ts.displayPartsToString(tag.text)) : undefined;
+}
+
+/**
+ * Props of a component's props type. Each member of a union contributes its
+ * props; a prop is required only when every member requires it.
+ */
+export function extractProps(
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  propsType: ts.Type,
+  defaults: Map<string, unknown>
+): PropInfo[] {
+  const members = propsType.isUnion() ? propsType.types : [propsType];
+  const props = new Map<string, PropInfo & { memberCount: number }>();
+
+  for (const member of members) {
+    for (const prop of checker.getPropertiesOfType(checker.getApparentType(member))) {
+      if (!isOwnDeclaration(program, prop)) continue;
+
+      const required = !(prop.flags & ts.SymbolFlags.Optional);
+      const existing = props.get(prop.name);
+      if (existing) {
+        existing.memberCount++;
+        existing.required = existing.required && required;
+        continue;
+      }
+
+      const description = ts.displayPartsToString(prop.getDocumentationComment(checker)).trim();
+      const defaultValue = defaults.has(prop.name) ? defaults.get(prop.name) : jsDocDefault(checker, prop);
+      props.set(prop.name, {
+        name: prop.name,
+        ...describeType(checker, checker.getTypeOfSymbol(prop)),
+        required: required && defaultValue === undefined,
+        ...(description ? { description } : {}),
+        ...(defaultValue !== undefined ? { defaultValue } : {}),
+        memberCount: 1,
+      });
+    }
+  }
+
+  return Array.from(props.values()).map(({ memberCount, ...prop }) => ({
+    ...prop,
+    required: prop.required && memberCount === members.length,
+  }));
+}
+
+function isComponentSymbol(symbol: ts.Symbol): boolean {
+  return !!(symbol.flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Variable | ts.SymbolFlags.Class));
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Components exported by the given files (.ts, .tsx or a package's .d.ts
+ * entry) with their props read from the type checker. Re-exports are
+ * followed, so a package entry yields the components of the whole package.
+ */
+export function discoverTypeScriptComponents(
+  files: string[],
+  options: TypeScriptDiscoveryOptions = {}
+): TypeScriptComponent[] {
+  const rootFiles = files.filter(file => /\.(?:d\.)?[cm]?tsx?$/.test(file)).map(file => path.resolve(file));
+  if (rootFiles.length === 0) return [];
+
+  const compilerOptions = loadCompilerOptions(options.projectRoot ?? process.cwd());
+  const program = ts.createProgram(rootFiles, { ...compilerOptions, ...DISCOVERY_OPTIONS });
+  const checker = program.getTypeChecker();
+  const components = new Map<string, TypeScriptComponent>();
+
+  for (const fileName of rootFiles) {
+    const sourceFile = program.getSourceFile(fileName);
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    if (!sourceFile || !moduleSymbol) continue;
+
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+      if (!declaration || !isComponentSymbol(symbol)) continue;
+
+      const declaredName = ts.getNameOfDeclaration(declaration);
+      const name = exported.name !== 'default'
+        ? exported.name
+        : declaredName && ts.isIdentifier(declaredName) ? declaredName.text : symbol.name;
+      if (!/^[A-Z][A-Za-z0-9]*$/.test(name) || components.has(name)) continue;
+
+      const source = propsFromDeclaration(checker, declaration) ?? propsFromSignature(checker, symbol, declaration);
+      if (!source || source.type.flags & NON_PROPS_TYPES) continue;
+
+      const declarationFile = declaration.getSourceFile();
+      const description = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+      components.set(name, {
+        name,
+        filePath: declarationFile.fileName,
+        ...(description ? { description } : {}),
+        props: extractProps(program, checker, source.type, collectDefaults(name, source, declarationFile)),
+      });
+    }
+  }
+
+  return Array.from(components.values());
+}
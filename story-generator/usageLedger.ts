@@ -0,0 +1,306 @@
+/**
+ * UsageLedger
+ *
+ * Records every LLM call (tokens, model, estimated cost) in
+ * `.story-ui/usage-ledger.json` so spend can be broken down per story, per chat,
+ * per API client and per day. Costs are estimates computed from the price
+ * fields on `ModelInfo`; providers without prices are recorded at $0.
+ *
+ * Design goals:
+ * - Recording never blocks or fails a generation (debounced, best-effort writes)
+ * - Calls are recorded as they happen and attributed to a story once its
+ *   fileName is known, so failed generations still show up in the totals
+ * - Records older than MAX_AGE_DAYS are dropped on load
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { ChatResponse, ModelInfo } from './llm-providers/types.js';
+import { logger } from './logger.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ModelPricing = Pick<ModelInfo, 'inputPricePer1kTokens' | 'outputPricePer1kTokens' | 'cachedInputPricePer1kTokens'>;
+
+/** Who/what an LLM call belongs to */
+export interface UsageContext {
+  /** Feature that made the call (generate, canvas, title, proxy, ...) */
+  source?: string;
+  /** Panel chat / story id */
+  chatId?: string;
+  /** Story file the call produced */
+  fileName?: string;
+  /** API client or team that made the request */
+  client?: string;
+}
+
+export interface UsageRecord extends UsageContext {
+  id: string;
+  timestamp: string;
+  /** UTC day (YYYY-MM-DD) */
+  day: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache (subset of inputTokens) */
+  cachedTokens: number;
+  costUsd: number;
+  /** Served from Story UI's response cache - no tokens were spent */
+  responseCached: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+  cachedResponses: number;
+}
+
+export interface UsageFilter {
+  /** Inclusive UTC day (YYYY-MM-DD) */
+  from?: string;
+  /** Inclusive UTC day (YYYY-MM-DD) */
+  to?: string;
+  client?: string;
+  chatId?: string;
+  fileName?: string;
+}
+
+export interface UsageSummary {
+  filter: UsageFilter;
+  totals: UsageTotals;
+  byDay: Record<string, UsageTotals>;
+  byStory: Record<string, UsageTotals>;
+  byChat: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byClient: Record<string, UsageTotals>;
+}
+
+interface Ledger {
+  version: number;
+  records: UsageRecord[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const LEDGER_FILE = path.join('.story-ui', 'usage-ledger.json');
+const MAX_AGE_DAYS = 400;
+const FLUSH_DEBOUNCE_MS = 1000;
+const UNATTRIBUTED = '(none)';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function toUsageDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Estimate the USD cost of a call. Cached input tokens are billed at the
+ * cached rate when the model has one, otherwise at the normal input rate.
+ */
+export function estimateCost(usage: ChatResponse['usage'], pricing?: ModelPricing): number {
+  if (!pricing) return 0;
+
+  const inputRate = pricing.inputPricePer1kTokens ?? 0;
+  const cachedRate = pricing.cachedInputPricePer1kTokens ?? inputRate;
+  const outputRate = pricing.outputPricePer1kTokens ?? 0;
+  const cachedTokens = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+
+  const cost =
+    ((usage.promptTokens - cachedTokens) * inputRate +
+      cachedTokens * cachedRate +
+      usage.completionTokens * outputRate) / 1000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0, costUsd: 0, cachedResponses: 0 };
+}
+
+function addTo(bucket: Record<string, UsageTotals>, key: string, record: UsageRecord): void {
+  const totals = bucket[key] ?? (bucket[key] = emptyTotals());
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cachedTokens += record.cachedTokens;
+  totals.costUsd = Math.round((totals.costUsd + record.costUsd) * 1e6) / 1e6;
+  if (record.responseCached) totals.cachedResponses++;
+}
+
+function matchesFilter(record: UsageRecord, filter: UsageFilter): boolean {
+  if (filter.from && record.day < filter.from) return false;
+  if (filter.to && record.day > filter.to) return false;
+  if (filter.client && record.client !== filter.client) return false;
+  if (filter.chatId && record.chatId !== filter.chatId) return false;
+  if (filter.fileName && record.fileName !== filter.fileName) return false;
+  return true;
+}
+
+/**
+ * Aggregate records into totals and per-day/story/chat/model/client buckets
+ */
+export function summarizeUsage(records: UsageRecord[], filter: UsageFilter = {}): UsageSummary {
+  const summary: UsageSummary = {
+    filter,
+    totals: emptyTotals(),
+    byDay: {},
+    byStory: {},
+    byChat: {},
+    byModel: {},
+    byClient: {},
+  };
+  const totalsBucket: Record<string, UsageTotals> = { all: summary.totals };
+
+  for (const record of records) {
+    if (!matchesFilter(record, filter)) continue;
+    addTo(totalsBucket, 'all', record);
+    addTo(summary.byDay, record.day, record);
+    addTo(summary.byStory, record.fileName ?? UNATTRIBUTED, record);
+    addTo(summary.byChat, record.chatId ?? UNATTRIBUTED, record);
+    addTo(summary.byModel, `${record.provider}:${record.model}`, record);
+    addTo(summary.byClient, record.client ?? UNATTRIBUTED, record);
+  }
+
+  return summary;
+}
+
+// ── UsageLedger ────────────────────────────────────────────────────────────
+
+export class UsageLedger {
+  private readonly ledgerPath: string;
+  private ledger: Ledger;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(projectRoot: string = process.cwd()) {
+    this.ledgerPath = path.join(projectRoot, LEDGER_FILE);
+    this.ledger = this.load();
+  }
+
+  // ── Persistence ──────────────────────────────────────────────────────────
+
+  private load(): Ledger {
+    try {
+      if (fs.existsSync(this.ledgerPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.ledgerPath, 'utf-8'));
+        if (parsed && parsed.version === 1 && Array.isArray(parsed.records)) {
+          const cutoff = toUsageDay(new Date(Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000));
+          return { version: 1, records: (parsed.records as UsageRecord[]).filter(r => r.day >= cutoff) };
+        }
+      }
+    } catch (err) {
+      logger.warn('[usage] Failed to load usage ledger, starting fresh:', err);
+    }
+    return { version: 1, records: [] };
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DEBOUNCE_MS);
+  }
+
+  private flush(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true });
+      // Atomic write: write to .tmp then rename
+      const tmp = `${this.ledgerPath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(this.ledger), 'utf-8');
+      fs.renameSync(tmp, this.ledgerPath);
+    } catch (err) {
+      logger.error('[usage] Flush failed:', err);
+    }
+  }
+
+  // ── Public API ────────────────────────────────────────────────────────────
+
+  /** Record a completed LLM call */
+  record(
+    call: { provider: string; model: string; usage: ChatResponse['usage']; pricing?: ModelPricing; responseCached?: boolean },
+    context: UsageContext = {},
+  ): UsageRecord {
+    const now = new Date();
+    const responseCached = !!call.responseCached;
+    const record: UsageRecord = {
+      id: crypto.randomUUID(),
+      timestamp: now.toISOString(),
+      day: toUsageDay(now),
+      provider: call.provider,
+      model: call.model,
+      inputTokens: responseCached ? 0 : call.usage.promptTokens,
+      outputTokens: responseCached ? 0 : call.usage.completionTokens,
+      cachedTokens: responseCached ? 0 : call.usage.cachedTokens ?? 0,
+      costUsd: responseCached ? 0 : estimateCost(call.usage, call.pricing),
+      responseCached,
+      ...context,
+    };
+
+    this.ledger.records.push(record);
+    this.scheduleFlush();
+    return record;
+  }
+
+  /**
+   * Attach story/chat ids to calls recorded before the story was saved
+   */
+  attribute(recordIds: string[], context: Pick<UsageContext, 'chatId' | 'fileName'>): void {
+    if (recordIds.length === 0) return;
+    const ids = new Set(recordIds);
+    for (const record of this.ledger.records) {
+      if (!ids.has(record.id)) continue;
+      if (context.chatId) record.chatId = context.chatId;
+      if (context.fileName) record.fileName = context.fileName;
+    }
+    this.scheduleFlush();
+  }
+
+  getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    return this.ledger.records.filter(record => matchesFilter(record, filter));
+  }
+
+  summarize(filter: UsageFilter = {}): UsageSummary {
+    return summarizeUsage(this.ledger.records, filter);
+  }
+
+  /** Flush any pending writes synchronously (e.g., on server shutdown). */
+  flushSync(): void {
+    if (!this.flushTimer) return;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.flush();
+  }
+}
+
+// ── Singleton ──────────────────────────────────────────────────────────────
+
+let _instance: UsageLedger | null = null;
+
+/**
+ * Writes are debounced, so flush the ledger before the process exits;
+ * usage recorded just before a restart would otherwise not count against
+ * the budgets. After a signal the process still exits as it would have.
+ */
+function flushOnShutdown(): void {
+  process.once('exit', () => _instance?.flushSync());
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      _instance?.flushSync();
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
+
+/**
+ * Returns the shared UsageLedger instance, creating it lazily on first call.
+ */
+export function getUsageLedger(): UsageLedger {
+  if (!_instance) {
+    _instance = new UsageLedger();
+    flushOnShutdown();
+  }
+  return _instance;
+}
@@ -2,18 +2,44 @@ import * as ts from 'typescript';
 import fs from 'fs';
 import path from 'path';
 import { isBlacklistedComponent, validateImports } from './componentBlacklist.js';
+import { runCustomRules, CustomRuleFinding } from './customRules.js';
+import { toDiagnostic, formatDiagnostic, isSuppressed } from './diagnostics.js';
+import type { CompilerFinding } from './frameworkCompilerValidator.js';
+import type { DiscoveredComponent } from './componentDiscovery.js';
 
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   fixedCode?: string;
+  /** Error findings of the custom rules in `customRules` */
+  ruleErrors?: CustomRuleFinding[];
+  /** Warning findings of the custom rules, also formatted into `warnings` */
+  ruleWarnings?: CustomRuleFinding[];
+  /** Framework compiler errors, also formatted into `errors` (see mergeCompilerErrors) */
+  compilerErrors?: CompilerFinding[];
+}
+
+/**
+ * Run the configured custom rules and file their findings on the result
+ */
+function applyCustomRules(result: ValidationResult, code: string, fileName: string, config: any, components?: DiscoveredComponent[]): void {
+  const findings = runCustomRules(code, fileName, config, components)
+    .filter(finding => !isSuppressed(`custom/${finding.rule}`, config?.diagnostics?.suppress));
+  result.ruleErrors = findings.filter(finding => finding.severity === 'error');
+  result.ruleWarnings = findings.filter(finding => finding.severity === 'warning');
+  result.warnings.push(...result.ruleWarnings.map(finding => formatDiagnostic(toDiagnostic('custom', finding, 'warning'))));
 }
 
 /**
  * Validates TypeScript code syntax and attempts to fix common issues
  */
-export function validateStoryCode(code: string, fileName: string = 'story.tsx', config?: any): ValidationResult {
+export function validateStoryCode(
+  code: string,
+  fileName: string = 'story.tsx',
+  config?: any,
+  components?: DiscoveredComponent[]
+): ValidationResult {
   const result: ValidationResult = {
     isValid: true,
     errors: [],
@@ -28,7 +54,9 @@ export function validateStoryCode(code: string, fileName: string = 'story.tsx',
   // These files use Svelte syntax (<script context="module">, <Story>, <Template>) which
   // is not valid TypeScript and will fail TS parsing. Instead, do basic Svelte validation.
   if (fileName.endsWith('.stories.svelte') || fileName.endsWith('.svelte')) {
-    return validateSvelteStory(code, config);
+    const svelteResult = validateSvelteStory(code, config);
+    applyCustomRules(svelteResult, code, fileName, config, components);
+    return svelteResult;
   }
 
     try {
@@ -75,7 +103,7 @@ export function validateStoryCode(code: string, fileName: string = 'story.tsx',
         if (diagnostic.file && diagnostic.start !== undefined) {
           const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
           const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
-          result.errors.push(`Line ${position.line + 1}, Column ${position.character + 1}: ${message}`);
+          result.errors.push(`Line ${position.line + 1}, Column ${position.character + 1}: ${message} (TS${diagnostic.code})`);
         } else {
           result.errors.push(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
         }
@@ -108,6 +136,11 @@ export function validateStoryCode(code: string, fileName: string = 'story.tsx',
       result.fixedCode = code;
     }
 
+    // Custom rules need a parsed story; broken syntax is fixed first
+    if (syntaxErrors.length === 0) {
+      applyCustomRules(result, code, fileName, config, components);
+    }
+
     if (result.errors.length > 0) {
       result.isValid = false;
 
@@ -117,9 +150,10 @@ export function validateStoryCode(code: string, fileName: string = 'story.tsx',
         result.fixedCode = fixedCode;
 
         // Re-validate the fixed code
-        const fixedValidation = validateStoryCode(fixedCode, fileName, config);
+        const fixedValidation = validateStoryCode(fixedCode, fileName, config, components);
         if (fixedValidation.isValid) {
           result.isValid = true;
+          result.ruleErrors = fixedValidation.ruleErrors;
           result.warnings.push('Code was automatically fixed for syntax errors');
         }
       }
@@ -0,0 +1,438 @@
+/**
+ * Vue Component Discovery
+ *
+ * Reads the props, events and slots of Vue single-file components:
+ * - `<script setup>`: defineProps (type-based, runtime and withDefaults or
+ *   destructured defaults), defineEmits, defineSlots and defineModel
+ * - Options API: the `props`, `emits` and `slots` options of
+ *   `export default {}` / `defineComponent({})`
+ * - Templates: `<slot>` and `<slot name="...">` outlets
+ *
+ * The script blocks are type-checked as virtual TypeScript files next to the
+ * .vue file, so props types imported from other modules, extended interfaces
+ * and intersections resolve like they do in the Vue compiler.
+ */
+
+import * as ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import type { EventInfo, PropInfo } from './componentDiscovery.js';
+import {
+  createScriptProgram,
+  describeType,
+  extractProps,
+  literalValue,
+  scriptFileName,
+} from './typeScriptDiscovery.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface VueComponent {
+  filePath: string;
+  /** JSDoc on the component's `export default` */
+  description?: string;
+  props: PropInfo[];
+  events: EventInfo[];
+  slots: string[];
+}
+
+export interface VueDiscoveryOptions {
+  /** Where to look for tsconfig.json (default: process.cwd()) */
+  projectRoot?: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const SCRIPT_BLOCK = /<script\b[^>]*>([\s\S]*?)<\/script>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style>/gi;
+const SLOT_OUTLET = /<slot\b([^>]*?)\/?>/gi;
+const SLOT_NAME = /(?:^|\s)name\s*=\s*["']([^"']+)["']/;
+
+/** Runtime prop constructors and the control type they map to */
+const RUNTIME_TYPES: Record<string, PropInfo['type']> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'array',
+  Object: 'object',
+  Function: 'function',
+  Date: 'object',
+};
+
+const DEFAULT_MODEL = 'modelValue';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** The script blocks as one module; the template is what's left without scripts and styles */
+function splitSfc(content: string): { script: string; template: string } {
+  const scripts = Array.from(content.matchAll(SCRIPT_BLOCK), match => match[1]);
+  const template = content.replace(SCRIPT_BLOCK, '').replace(STYLE_BLOCK, '');
+  return { script: scripts.join('\n'), template };
+}
+
+function calleeName(call: ts.CallExpression): string | undefined {
+  return ts.isIdentifier(call.expression) ? call.expression.text : undefined;
+}
+
+function findMacroCalls(sourceFile: ts.SourceFile): Map<string, ts.CallExpression[]> {
+  const calls = new Map<string, ts.CallExpression[]>();
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const name = calleeName(node);
+      if (name) calls.set(name, [...(calls.get(name) ?? []), node]);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return calls;
+}
+
+function propertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+  const name = property.name;
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+function documentation(checker: ts.TypeChecker, node: ts.Node): string | undefined {
+  const symbol = checker.getSymbolAtLocation(node);
+  const text = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+  return text || undefined;
+}
+
+/** A default's value; factory defaults (`() => []`) use the value they return */
+function defaultValue(initializer: ts.Expression): unknown {
+  if (ts.isArrowFunction(initializer) && !ts.isBlock(initializer.body)) {
+    let body: ts.Node = initializer.body;
+    while (ts.isParenthesizedExpression(body)) body = body.expression;
+    return literalValue(body.getText());
+  }
+  return literalValue(initializer.getText());
+}
+
+/** Defaults from `withDefaults(defineProps<...>(), {...})` or `const { size = 'md' } = defineProps<...>()` */
+function propDefaults(call: ts.CallExpression): Map<string, unknown> {
+  const defaults = new Map<string, unknown>();
+  const parent = call.parent;
+
+  if (ts.isCallExpression(parent) && calleeName(parent) === 'withDefaults' && parent.arguments[1]) {
+    const values = parent.arguments[1];
+    if (ts.isObjectLiteralExpression(values)) {
+      for (const property of values.properties) {
+        const name = propertyName(property);
+        if (name && ts.isPropertyAssignment(property)) defaults.set(name, defaultValue(property.initializer));
+      }
+    }
+  }
+
+  const declaration = ts.isCallExpression(parent) && calleeName(parent) === 'withDefaults' ? parent.parent : parent;
+  if (ts.isVariableDeclaration(declaration) && ts.isObjectBindingPattern(declaration.name)) {
+    for (const element of declaration.name.elements) {
+      const key = element.propertyName ?? element.name;
+      if (element.initializer && !element.dotDotDotToken && ts.isIdentifier(key)) {
+        defaults.set(key.text, literalValue(element.initializer.getText()));
+      }
+    }
+  }
+
+  return defaults;
+}
+
+/** Control type from a runtime `type`: a constructor, a list of them, or `Type as PropType<T>` */
+function runtimeType(checker: ts.TypeChecker, node: ts.Expression): Pick<PropInfo, 'type' | 'options'> {
+  if (ts.isAsExpression(node)) {
+    const target = node.type;
+    if (ts.isTypeReferenceNode(target) && target.typeArguments?.length) {
+      return describeType(checker, checker.getTypeFromTypeNode(target.typeArguments[0]));
+    }
+    return runtimeType(checker, node.expression);
+  }
+  if (ts.isIdentifier(node)) return { type: RUNTIME_TYPES[node.text] ?? 'unknown' };
+  if (ts.isArrayLiteralExpression(node) && node.elements.length === 1) {
+    return runtimeType(checker, node.elements[0]);
+  }
+  return { type: 'unknown' };
+}
+
+/** A runtime prop definition: a constructor or `{ type, required, default }` */
+function runtimeProp(
+  checker: ts.TypeChecker,
+  name: string,
+  definition: ts.Expression,
+  declaredDefault: unknown
+): PropInfo {
+  let info: Pick<PropInfo, 'type' | 'options'> = { type: 'unknown' };
+  let required = false;
+  let value = declaredDefault;
+
+  if (ts.isObjectLiteralExpression(definition)) {
+    for (const option of definition.properties) {
+      if (!ts.isPropertyAssignment(option)) continue;
+      const key = propertyName(option);
+      if (key === 'type') info = runtimeType(checker, option.initializer);
+      if (key === 'required') required = option.initializer.kind === ts.SyntaxKind.TrueKeyword;
+      if (key === 'default' && value === undefined) value = defaultValue(option.initializer);
+    }
+  } else {
+    info = runtimeType(checker, definition);
+  }
+
+  return {
+    name,
+    ...info,
+    required: required && value === undefined,
+    ...(value !== undefined ? { defaultValue: value } : {}),
+  };
+}
+
+/** Props from a runtime declaration: `['label']` or `{ label: String, size: { type, required, default } }` */
+function runtimeProps(checker: ts.TypeChecker, node: ts.Expression, defaults: Map<string, unknown>): PropInfo[] {
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements
+      .filter(ts.isStringLiteral)
+      .map(element => ({ name: element.text, type: 'unknown' as const, required: false }));
+  }
+  if (!ts.isObjectLiteralExpression(node)) return [];
+
+  const props: PropInfo[] = [];
+  for (const property of node.properties) {
+    const name = propertyName(property);
+    if (!name || !ts.isPropertyAssignment(property)) continue;
+    const prop = runtimeProp(checker, name, property.initializer, defaults.get(name));
+    const description = documentation(checker, property.name);
+    props.push(description ? { ...prop, description } : prop);
+  }
+  return props;
+}
+
+function stringLiterals(type: ts.Type): string[] {
+  return (type.isUnion() ? type.types : [type])
+    .filter((member): member is ts.StringLiteralType => member.isStringLiteral())
+    .map(member => member.value);
+}
+
+/**
+ * Events from a defineEmits type: call signatures (`(e: 'change', id: number): void`)
+ * or named tuples (`{ change: [id: number] }`)
+ */
+function typedEvents(checker: ts.TypeChecker, typeNode: ts.TypeNode): EventInfo[] {
+  const type = checker.getTypeFromTypeNode(typeNode);
+  const events: EventInfo[] = [];
+
+  for (const signature of type.getCallSignatures()) {
+    const [event, ...payload] = signature.getParameters();
+    if (!event) continue;
+    const description = ts.displayPartsToString(signature.getDocumentationComment(checker)).trim();
+    const payloadText = payload
+      .map(parameter => `${parameter.name}: ${checker.typeToString(checker.getTypeOfSymbol(parameter))}`)
+      .join(', ');
+    for (const name of stringLiterals(checker.getTypeOfSymbol(event))) {
+      events.push({
+        name,
+        ...(payloadText ? { payload: payloadText } : {}),
+        ...(description ? { description } : {}),
+      });
+    }
+  }
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const description = ts.displayPartsToString(property.getDocumentationComment(checker)).trim();
+    const payloadText = checker.typeToString(checker.getTypeOfSymbol(property)).replace(/^\[|\]$/g, '');
+    events.push({
+      name: property.name,
+      ...(payloadText ? { payload: payloadText } : {}),
+      ...(description ? { description } : {}),
+    });
+  }
+
+  return events;
+}
+
+/** Events from a runtime declaration: `['change']` or `{ change: (id: number) => true }` */
+function runtimeEvents(checker: ts.TypeChecker, node: ts.Expression): EventInfo[] {
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.filter(ts.isStringLiteral).map(element => ({ name: element.text }));
+  }
+  if (!ts.isObjectLiteralExpression(node)) return [];
+
+  const events: EventInfo[] = [];
+  for (const property of node.properties) {
+    const name = propertyName(property);
+    if (!name) continue;
+    const validator = ts.isPropertyAssignment(property) ? property.initializer : property;
+    const parameters = ts.isArrowFunction(validator) || ts.isFunctionExpression(validator) || ts.isMethodDeclaration(validator)
+      ? validator.parameters.map(parameter => parameter.getText()).join(', ')
+      : '';
+    const description = property.name ? documentation(checker, property.name) : undefined;
+    events.push({
+      name,
+      ...(parameters ? { payload: parameters } : {}),
+      ...(description ? { description } : {}),
+    });
+  }
+  return events;
+}
+
+/** The prop and update event declared by `defineModel()` */
+function modelBinding(checker: ts.TypeChecker, call: ts.CallExpression): { prop: PropInfo; event: EventInfo } {
+  const [first, second] = call.arguments;
+  const name = first && ts.isStringLiteral(first) ? first.text : DEFAULT_MODEL;
+  const options = [first, second].find(argument => argument && ts.isObjectLiteralExpression(argument));
+  const typeArgument = call.typeArguments?.[0];
+
+  let prop = options ? runtimeProp(checker, name, options, undefined) : { name, type: 'unknown' as const, required: false };
+  if (typeArgument) {
+    prop = { ...prop, ...describeType(checker, checker.getTypeFromTypeNode(typeArgument)) };
+  }
+
+  return {
+    prop,
+    event: { name: `update:${name}`, ...(typeArgument ? { payload: `value: ${typeArgument.getText()}` } : {}) },
+  };
+}
+
+/** The options object of `export default {...}` or `export default defineComponent({...})` */
+function componentOptions(sourceFile: ts.SourceFile): { options: ts.ObjectLiteralExpression; statement: ts.ExportAssignment } | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportAssignment(statement)) continue;
+    let expression = statement.expression;
+    if (ts.isCallExpression(expression) && calleeName(expression) === 'defineComponent' && expression.arguments[0]) {
+      expression = expression.arguments[0];
+    }
+    if (ts.isObjectLiteralExpression(expression)) return { options: expression, statement };
+  }
+  return undefined;
+}
+
+function optionValue(options: ts.ObjectLiteralExpression, key: string): ts.Expression | undefined {
+  const property = options.properties.find(p => propertyName(p) === key);
+  return property && ts.isPropertyAssignment(property) ? property.initializer : undefined;
+}
+
+function jsDocText(node: ts.Node): string | undefined {
+  const doc = ts.getJSDocCommentsAndTags(node).find(ts.isJSDoc);
+  const text = doc && ts.getTextOfJSDocComment(doc.comment)?.trim();
+  return text || undefined;
+}
+
+function templateSlots(template: string): string[] {
+  return Array.from(template.matchAll(SLOT_OUTLET), match => {
+    const attributes = match[1];
+    // Dynamic slot names can't be listed
+    if (/(?:^|\s)(?::|v-bind:)name\s*=/.test(attributes)) return undefined;
+    return SLOT_NAME.exec(attributes)?.[1] ?? 'default';
+  }).filter((name): name is string => !!name);
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Map<string, T>();
+  for (const item of items) {
+    if (!seen.has(key(item))) seen.set(key(item), item);
+  }
+  return Array.from(seen.values());
+}
+
+function analyzeComponent(
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  filePath: string,
+  sourceFile: ts.SourceFile,
+  template: string
+): VueComponent {
+  const macros = findMacroCalls(sourceFile);
+  const props: PropInfo[] = [];
+  const events: EventInfo[] = [];
+  const slots: string[] = [];
+
+  for (const call of macros.get('defineProps') ?? []) {
+    const defaults = propDefaults(call);
+    const typeArgument = call.typeArguments?.[0];
+    if (typeArgument) {
+      props.push(...extractProps(program, checker, checker.getTypeFromTypeNode(typeArgument), defaults));
+    } else if (call.arguments[0]) {
+      props.push(...runtimeProps(checker, call.arguments[0], defaults));
+    }
+  }
+
+  for (const call of macros.get('defineEmits') ?? []) {
+    const typeArgument = call.typeArguments?.[0];
+    if (typeArgument) events.push(...typedEvents(checker, typeArgument));
+    else if (call.arguments[0]) events.push(...runtimeEvents(checker, call.arguments[0]));
+  }
+
+  for (const call of macros.get('defineModel') ?? []) {
+    const { prop, event } = modelBinding(checker, call);
+    props.push(prop);
+    events.push(event);
+  }
+
+  for (const call of macros.get('defineSlots') ?? []) {
+    const typeArgument = call.typeArguments?.[0];
+    if (typeArgument) {
+      slots.push(...checker.getPropertiesOfType(checker.getTypeFromTypeNode(typeArgument)).map(slot => slot.name));
+    }
+  }
+
+  const component = componentOptions(sourceFile);
+  if (component) {
+    const propsOption = optionValue(component.options, 'props');
+    if (propsOption) props.push(...runtimeProps(checker, propsOption, new Map()));
+    const emitsOption = optionValue(component.options, 'emits');
+    if (emitsOption) events.push(...runtimeEvents(checker, emitsOption));
+    const slotsOption = optionValue(component.options, 'slots');
+    if (slotsOption && ts.isAsExpression(slotsOption) && ts.isTypeReferenceNode(slotsOption.type) && slotsOption.type.typeArguments?.length) {
+      const slotsType = checker.getTypeFromTypeNode(slotsOption.type.typeArguments[0]);
+      slots.push(...checker.getPropertiesOfType(slotsType).map(slot => slot.name));
+    }
+  }
+
+  slots.push(...templateSlots(template));
+  const description = component && jsDocText(component.statement);
+
+  return {
+    filePath,
+    ...(description ? { description } : {}),
+    props: uniqueBy(props, prop => prop.name),
+    events: uniqueBy(events, event => event.name),
+    slots: Array.from(new Set(slots)),
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Props, events and slots of the given .vue single-file components. Files
+ * that can't be read are skipped.
+ */
+export function discoverVueComponents(files: string[], options: VueDiscoveryOptions = {}): VueComponent[] {
+  const scripts = new Map<string, string>();
+  const templates = new Map<string, string>();
+  const sources = new Map<string, string>();
+
+  for (const file of files) {
+    if (!file.endsWith('.vue')) continue;
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    const { script, template } = splitSfc(content);
+    const fileName = scriptFileName(file);
+    scripts.set(fileName, script);
+    templates.set(fileName, template);
+    sources.set(fileName, path.resolve(file));
+  }
+  if (scripts.size === 0) return [];
+
+  const program = createScriptProgram(scripts, options.projectRoot ?? process.cwd());
+  const checker = program.getTypeChecker();
+
+  const components: VueComponent[] = [];
+  for (const [fileName, filePath] of sources) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) continue;
+    components.push(analyzeComponent(program, checker, filePath, sourceFile, templates.get(fileName) ?? ''));
+  }
+  return components;
+}
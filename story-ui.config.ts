@@ -1,5 +1,6 @@
 import { fileURLToPath } from 'url';
 import path from 'path';
+import type { CustomModelDefinition } from './story-generator/llm-providers/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -49,6 +50,18 @@ export interface IconImportsConfig {
 
 
 
+// Rules enforced from designSystemGuidelines (see designGuidelinesValidator.ts)
+export type GuidelineRule =
+  | 'color-token'
+  | 'spacing-token'
+  | 'arbitrary-value'
+  | 'prohibited-class'
+  | 'prohibited-css-framework'
+  | 'inline-style'
+  | 'component-library';
+
+export type GuidelineSeverity = 'error' | 'warning';
+
 // Design system guidelines configuration
 export interface DesignSystemGuidelines {
   name: string;
@@ -64,19 +77,223 @@ export interface DesignSystemGuidelines {
     categories: string[];
   };
   prohibitedPatterns?: {
+    /** CSS frameworks whose imports and utility classes are not allowed (e.g. ['tailwind', 'bootstrap']) */
     cssFrameworks?: string[];
+    /** Regular expressions matched against each class name (e.g. ['^bg-', 'text-red-\\d+']) */
     classNamePatterns?: string[];
+    /** CSS properties not allowed in inline styles (e.g. ['color', 'margin']); '*' prohibits inline styles entirely */
     inlineStyles?: string[];
   };
   enforcementRules?: {
+    /** Colors and spacing must use colorTokens/spacingTokens instead of hex/rgb and px literals */
     requireDesignTokens?: boolean;
+    /** No Tailwind arbitrary classes (w-[37px]) or one-off px sizes in inline styles */
     prohibitArbitraryValues?: boolean;
+    /** No raw HTML elements (<button>, <input>...) where a discovered component exists */
     enforceComponentLibrary?: boolean;
+    /** Send error-severity violations back to the model for self-healing instead of only reporting them (default: false) */
+    selfHeal?: boolean;
+    /** Severity per rule; 'off' disables a rule */
+    severity?: Partial<Record<GuidelineRule, GuidelineSeverity | 'off'>>;
   };
   /** Additional notes/guidelines for AI story generation (e.g., shadcn-specific instructions) */
   additionalNotes?: string;
 }
 
+// OpenAI-compatible endpoint configuration (internal gateways, vLLM, LM Studio, Azure OpenAI)
+export interface CustomProviderConfig {
+  /** API root (e.g. 'http://localhost:8000/v1') or a full chat-completions URL */
+  baseUrl: string;
+  /** API key sent as a Bearer token. Prefer apiKeyEnv to keep secrets out of the config file */
+  apiKey?: string;
+  /** Environment variable to read the API key from (default: CUSTOM_LLM_API_KEY) */
+  apiKeyEnv?: string;
+  /** Extra headers sent with every request (e.g. { 'api-key': '...' } for Azure) */
+  headers?: Record<string, string>;
+  /** Models served by the endpoint; the first one is the default unless defaultModel is set */
+  models?: CustomModelDefinition[];
+  defaultModel?: string;
+  /** Request timeout in milliseconds (default: 120000) */
+  timeout?: number;
+}
+
+// Fallback chain and retry policy for LLM calls
+export interface LLMFailoverConfig {
+  /** Providers tried in order when the requested one fails (e.g. [{ provider: 'openai', model: 'gpt-5.4' }]) */
+  chain?: Array<{ provider: string; model?: string }>;
+  /** Retries per provider for retryable errors (default: 2) */
+  maxRetries?: number;
+  /** First backoff delay in milliseconds, doubled on each retry (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default: 20000) */
+  maxDelayMs?: number;
+  /**
+   * Per error class behavior. Classes: rate_limit, overloaded, timeout, network,
+   * auth, invalid_request, unknown. Example: { auth: { failover: false } }
+   */
+  rules?: Record<string, { retry?: boolean; failover?: boolean }>;
+}
+
+// On-disk cache of LLM responses
+export interface LLMCacheConfig {
+  /** Reuse responses for identical requests (default: false) */
+  enabled?: boolean;
+  /** Cache location relative to the project root (default: .story-ui-cache/llm) */
+  directory?: string;
+  /** How long an entry stays valid (default: 168 = 7 days) */
+  ttlHours?: number;
+  /** Oldest entries are evicted beyond this count (default: 500) */
+  maxEntries?: number;
+  /** Oldest entries are evicted beyond this total size (default: 50) */
+  maxSizeMB?: number;
+}
+
+// Spending limits for a period; a limit of 0 blocks all calls
+export interface BudgetLimits {
+  /** Estimated USD per UTC day */
+  dailyUsd?: number;
+  /** Estimated USD per UTC calendar month */
+  monthlyUsd?: number;
+  /** Input + output tokens per UTC day */
+  dailyTokens?: number;
+  /** Input + output tokens per UTC calendar month */
+  monthlyTokens?: number;
+}
+
+// Source of the client a request is billed to
+export type ClientIdentity = 'header' | 'ip';
+
+// Spending budgets enforced before each LLM call
+export interface BudgetConfig extends BudgetLimits {
+  /** Limits applied to every API client that has no entry in `clients` */
+  perClient?: BudgetLimits;
+  /** Limits for specific API clients, keyed by their client identity */
+  clients?: Record<string, BudgetLimits>;
+  /** Reject generation requests that do not send an X-Story-UI-Client header (default: false) */
+  requireClient?: boolean;
+  /**
+   * How requests are attributed to a client: the self-declared X-Story-UI-Client
+   * header (default, advisory only) or the caller's IP address as seen by Express
+   */
+  clientIdentity?: ClientIdentity;
+}
+
+// Tool-calling generation, where the model looks up components on demand
+export interface AgentModeConfig {
+  /**
+   * true: always; 'auto': when at least `autoThreshold` components are discovered;
+   * false: never (default). Only used with models that support tool calling.
+   */
+  enabled?: boolean | 'auto';
+  /** Component count at which 'auto' switches to agent mode (default: 150) */
+  autoThreshold?: number;
+  /** Maximum model turns per generation attempt, at least 1 (default: 12) */
+  maxTurns?: number;
+}
+
+// Type-checking of generated stories against the project's tsconfig
+export interface TypeCheckConfig {
+  /** Type-check generated TypeScript stories (default: true) */
+  enabled?: boolean;
+  /** tsconfig to use, relative to the project root (default: nearest tsconfig.json) */
+  tsconfigPath?: string;
+  /** Maximum type errors reported per attempt (default: 10) */
+  maxErrors?: number;
+}
+
+// Kinds of prop usage issues the prop validator reports
+export type PropIssueKind = 'unknown-prop' | 'invalid-value' | 'missing-required';
+
+// Prop usage check of generated stories against discovered prop info
+export interface PropValidationConfig {
+  /** Check component props in generated stories (default: true) */
+  enabled?: boolean;
+  /**
+   * Severity per issue kind; 'off' disables it. Errors are sent back to the model
+   * for self-healing, warnings are only reported. Unknown props default to 'error'
+   * when the component's props were read by the TypeScript compiler or a custom
+   * elements manifest and to 'warning' when they were scanned from source;
+   * the other kinds default to 'error'.
+   */
+  severity?: Partial<Record<PropIssueKind, 'error' | 'warning' | 'off'>>;
+}
+
+// Offline render check of generated React stories
+export interface RenderCheckConfig {
+  /**
+   * Render generated React stories headlessly before saving (default: false).
+   * This runs model-written code in a worker on the server; the worker is not
+   * a sandbox
+   */
+  enabled?: boolean;
+  /** Storybook preview whose decorators, args and parameters apply, relative to the project root (default: .storybook/preview.*) */
+  previewPath?: string;
+  /** Treat React warnings logged while rendering as failures (default: false) */
+  failOnWarnings?: boolean;
+  /** Stop the render worker after this many milliseconds and report a timeout (default: 10000) */
+  timeoutMs?: number;
+}
+
+// Framework compiler check of generated Vue, Svelte and Angular stories
+export interface CompilerCheckConfig {
+  /** Compile templates and .svelte stories with the project's framework compiler before saving (default: true) */
+  enabled?: boolean;
+}
+
+// How the self-healing loop asks the model to fix a failing story
+export interface SelfHealingConfig {
+  /**
+   * 'patch' (default) asks for SEARCH/REPLACE edits against the failing story
+   * and falls back to 'full' regeneration when they don't apply
+   */
+  repairMode?: 'patch' | 'full';
+}
+
+// Validation diagnostics
+export interface DiagnosticsConfig {
+  /**
+   * Diagnostic codes to ignore: exact codes ('a11y/image-alt', 'ts/2322'),
+   * whole sources ('interaction') or wildcards ('guideline/*-token')
+   */
+  suppress?: string[];
+}
+
+// Project-specific validation rules
+export interface CustomRulesConfig {
+  /**
+   * CommonJS modules exporting rules (`.cjs`, or `.js` in a CommonJS
+   * package), relative to the config file. A module exports an array of
+   * rules, a single rule or `{ rules: [...] }`; each rule has a `name` and a
+   * `check(context)` that returns `{ message, line, fix }` findings (see
+   * CustomValidationRule)
+   */
+  modules?: string[];
+  /** Override a rule's severity by name, or turn it 'off' */
+  severity?: Record<string, 'error' | 'warning' | 'off'>;
+}
+
+// Accessibility audit of generated stories
+export interface A11yConfig {
+  /** Audit stories and configure the Storybook a11y addon (default: false); `includeA11yTests` in a request overrides it */
+  enabled?: boolean;
+  /** Send audit findings back to the model for self-healing instead of only reporting them (default: false) */
+  selfHeal?: boolean;
+  /** `parameters.a11y.test` added to generated stories (default: 'error') */
+  test?: 'error' | 'todo' | 'off';
+  /** Minimum text contrast ratio (default: 4.5, WCAG AA) */
+  minContrastRatio?: number;
+  /** Color token values used for contrast checks, e.g. { '--color-muted': '#6b7280' } */
+  colorTokens?: Record<string, string>;
+}
+
+// Play-function interaction tests in generated stories
+export interface InteractionTestsConfig {
+  /** Generate play functions for stories with interactive components (default: false); `includeInteractionTests` in a request overrides it */
+  enabled?: boolean;
+  /** Discovered component categories that need a play function (default: ['form', 'navigation']) */
+  categories?: Array<'layout' | 'content' | 'form' | 'navigation' | 'feedback' | 'other'>;
+}
+
 // Main Story UI configuration interface
 export interface StoryUIConfig {
   generatedStoriesPath: string;
@@ -117,6 +334,23 @@ export interface StoryUIConfig {
    */
   importStyle?: 'barrel' | 'individual';
   designSystemGuidelines?: DesignSystemGuidelines;
+  /**
+   * House rules enforced as code: rule modules run against every generated
+   * story, error findings are sent back to the model for self-healing and
+   * warnings are reported with the result.
+   */
+  customRules?: CustomRulesConfig;
+  /**
+   * Every validation finding is a diagnostic with a stable code
+   * (`<source>/<rule>`); suppressed codes are neither sent back to the model
+   * nor reported.
+   */
+  diagnostics?: DiagnosticsConfig;
+  /**
+   * Self-healing retries send the validation errors back to the model; by
+   * default it returns targeted edits instead of regenerating the story.
+   */
+  selfHealing?: SelfHealingConfig;
   /** Icon imports configuration (auto-detected from package.json or manually configured) */
   iconImports?: IconImportsConfig;
   /**
@@ -141,6 +375,65 @@ export interface StoryUIConfig {
    * Default: 5000 (5 seconds)
    */
   storybookMcpTimeout?: number;
+  /**
+   * OpenAI-compatible endpoint exposed as the 'custom' LLM provider.
+   * Lets Story UI talk to internal gateways or self-hosted models without code changes.
+   */
+  customProvider?: CustomProviderConfig;
+  /**
+   * Retry and fallback behavior when a provider errors (rate limits, overload, outages).
+   * LLM_FALLBACK_CHAIN="openai:gpt-5.4,gemini" overrides the chain from the environment.
+   */
+  llmFailover?: LLMFailoverConfig;
+  /**
+   * Cache LLM responses keyed on the assembled prompt and model. Off unless `enabled: true`.
+   * Clear with `npx story-ui cache clear`; skip per request with `bypassCache: true`.
+   */
+  llmCache?: LLMCacheConfig;
+  /**
+   * Daily/monthly token and dollar budgets, globally and per API client.
+   * Usage is read from the usage ledger; STORY_UI_BUDGET_* variables override the global limits.
+   */
+  budgets?: BudgetConfig;
+  /**
+   * Give the model tools (list_components, get_component_props, get_story_example,
+   * validate_story, submit_story) instead of the full component reference in the prompt.
+   * Useful for large design systems; `agentMode` in a generation request overrides `enabled`.
+   */
+  agentMode?: AgentModeConfig;
+  /**
+   * Type-check generated stories in memory against the project's tsconfig and
+   * installed typings; type errors are sent back to the model for self-healing.
+   */
+  typeCheck?: TypeCheckConfig;
+  /**
+   * Check component props used in generated stories against the discovered
+   * prop info; error-severity issues are sent back to the model for self-healing.
+   */
+  propValidation?: PropValidationConfig;
+  /**
+   * Render generated React stories headlessly (esbuild + react-dom/server in a
+   * DOM emulation) without a running Storybook; render errors and React
+   * warnings are sent back to the model for self-healing.
+   */
+  renderCheck?: RenderCheckConfig;
+  /**
+   * Run Vue templates, Svelte stories and Angular templates through the
+   * framework compiler installed in the project; compiler errors are sent
+   * back to the model for self-healing.
+   */
+  compilerCheck?: CompilerCheckConfig;
+  /**
+   * Audit generated stories for accessibility (labels, alt text, heading order,
+   * contrast, interactive roles) and add Storybook a11y addon parameters.
+   */
+  a11y?: A11yConfig;
+  /**
+   * Generate Storybook play functions (@storybook/test userEvent, expect, within)
+   * for stories that render form and navigation components, and check that
+   * their queries target elements the story renders.
+   */
+  interactionTests?: InteractionTestsConfig;
 }
 
 // Default generic configuration
@@ -54,9 +54,19 @@ interface ProgressUpdate {
   message: string;
 }
 
+interface StoryDiagnostic {
+  code: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  range?: { start: { line: number; column?: number } };
+  fix?: { description?: string };
+}
+
 interface ValidationFeedback {
   isValid: boolean;
   errors?: string[];
+  warnings?: string[];
+  diagnostics?: StoryDiagnostic[];
   autoFixApplied?: boolean;
 }
 
@@ -66,6 +76,12 @@ interface RetryInfo {
   reason: string;
 }
 
+interface CodeDelta {
+  attempt: number;
+  delta: string;
+  reset?: boolean;
+}
+
 interface ComponentUsage {
   name: string;
   reason?: string;
@@ -95,7 +111,16 @@ interface CompletionFeedback {
   styleChoices?: StyleChoice[];
   validation?: ValidationFeedback;
   suggestions?: string[];
-  metrics?: { totalTimeMs: number; llmCallsCount: number };
+  llm?: { provider: string; model: string; fallbackUsed: boolean; cached?: boolean };
+  agent?: { turns: number; toolCalls: number; submitted: boolean };
+  metrics?: { totalTimeMs: number; llmCallsCount: number; tokensUsed?: number; estimatedCostUsd?: number };
+}
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
 }
 
 interface ErrorFeedback {
@@ -109,6 +134,7 @@ interface StreamingState {
   progress?: ProgressUpdate;
   validation?: ValidationFeedback;
   retry?: RetryInfo;
+  streamedCode?: string;
   completion?: CompletionFeedback;
   error?: ErrorFeedback;
 }
@@ -132,7 +158,7 @@ interface ProvidersResponse {
 }
 
 interface StreamEvent {
-  type: 'intent' | 'progress' | 'validation' | 'retry' | 'completion' | 'error';
+  type: 'intent' | 'progress' | 'code_delta' | 'validation' | 'retry' | 'completion' | 'error';
   data: unknown;
 }
 
@@ -356,6 +382,7 @@ const PROVIDERS_API = () => `${getApiBase()}/mcp/providers`;
 const STORIES_API = () => `${getApiBase()}/story-ui/stories`;
 const ORPHAN_STORIES_API = () => `${getApiBase()}/story-ui/orphan-stories`;
 const MANIFEST_API = () => `${getApiBase()}/story-ui/manifest`;
+const USAGE_API = () => `${getApiBase()}/story-ui/usage`;
 const MIGRATION_FLAG = 'story-ui-manifest-migrated-v1';
 // v2: also updates reconciled 'mcp-external' entries that have localStorage conversation data
 const MIGRATION_FLAG_V2 = 'story-ui-manifest-migrated-v2';
@@ -386,6 +413,14 @@ function getConnectionDisplayText(): string {
   return `localhost:${port}`;
 }
 
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
 function loadChats(): ChatSession[] {
   try {
     const stored = localStorage.getItem(CHAT_STORAGE_KEY);
@@ -1027,8 +1062,54 @@ interface ProgressIndicatorProps {
   streamingState: StreamingState;
 }
 
+// Number of trailing lines of streamed code shown while the story is being written
+const STREAMED_CODE_TAIL_LINES = 12;
+
+// Diagnostics listed before the rest are summarized as "+N more"
+const MAX_DIAGNOSTICS_SHOWN = 8;
+
+interface DiagnosticListProps {
+  diagnostics: StoryDiagnostic[];
+  /** Story source, to show the line each diagnostic points at */
+  code?: string;
+}
+
+const DiagnosticList: React.FC<DiagnosticListProps> = ({ diagnostics, code }) => {
+  if (diagnostics.length === 0) return null;
+  const lines = code?.split('\n');
+  const shown = diagnostics.slice(0, MAX_DIAGNOSTICS_SHOWN);
+  return (
+    <ul className="sui-diagnostics" aria-label="Validation diagnostics">
+      {shown.map((diagnostic, i) => {
+        const start = diagnostic.range?.start;
+        const lineText = start && lines?.[start.line - 1];
+        return (
+          <li key={i} className={`sui-diagnostic sui-diagnostic-${diagnostic.severity}`}>
+            <div className="sui-diagnostic-header">
+              <span className="sui-diagnostic-code">{diagnostic.code}</span>
+              {start && <span className="sui-diagnostic-location">line {start.line}{start.column ? `:${start.column}` : ''}</span>}
+            </div>
+            <div className="sui-diagnostic-message">{diagnostic.message}</div>
+            {diagnostic.fix?.description && <div className="sui-diagnostic-fix">Fix: {diagnostic.fix.description}</div>}
+            {start && lines && lineText !== undefined && (
+              <pre className="sui-diagnostic-snippet">
+                {start.line > 1 && <code className="sui-diagnostic-line">{`${start.line - 1}  ${lines[start.line - 2]}`}</code>}
+                <code className="sui-diagnostic-line sui-diagnostic-line-highlight">{`${start.line}  ${lineText}`}</code>
+                {start.line < lines.length && <code className="sui-diagnostic-line">{`${start.line + 1}  ${lines[start.line]}`}</code>}
+              </pre>
+            )}
+          </li>
+        );
+      })}
+      {diagnostics.length > shown.length && (
+        <li className="sui-diagnostic-more">+{diagnostics.length - shown.length} more</li>
+      )}
+    </ul>
+  );
+};
+
 const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ streamingState }) => {
-  const { progress, retry, completion, error } = streamingState;
+  const { progress, validation, retry, streamedCode, completion, error } = streamingState;
   if (error) {
     return (
       <div className="sui-error" role="alert">
@@ -1067,8 +1148,17 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ streamingState })
           <div className="sui-completion-metrics">
             <span>{(completion.metrics.totalTimeMs / 1000).toFixed(1)}s</span>
             <span>{completion.metrics.llmCallsCount} {completion.metrics.llmCallsCount === 1 ? 'generation' : 'generations'}</span>
+            {!!completion.metrics.tokensUsed && <span>{formatTokens(completion.metrics.tokensUsed)} tokens</span>}
+            {!!completion.metrics.estimatedCostUsd && <span>{formatCost(completion.metrics.estimatedCostUsd)}</span>}
+            {completion.llm?.cached && <span title="Served from the response cache">cached</span>}
+            {completion.llm?.fallbackUsed && (
+              <span title="The requested model was unavailable">via {completion.llm.model}</span>
+            )}
           </div>
         )}
+        {completion.validation?.diagnostics && (
+          <DiagnosticList diagnostics={completion.validation.diagnostics} code={completion.code} />
+        )}
       </div>
     );
   }
@@ -1084,6 +1174,14 @@ const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({ streamingState })
         </div>
       )}
       {retry && <div className="sui-progress-retry">Retry {retry.attempt}/{retry.maxAttempts}: {retry.reason}</div>}
+      {validation && !validation.isValid && validation.diagnostics && (
+        <DiagnosticList diagnostics={validation.diagnostics} />
+      )}
+      {streamedCode && (
+        <pre className="sui-progress-code" aria-live="off">
+          <code>{streamedCode.split('\n').slice(-STREAMED_CODE_TAIL_LINES).join('\n')}</code>
+        </pre>
+      )}
     </div>
   );
 };
@@ -1112,6 +1210,7 @@ function StoryUIPanel({ mcpPort }: StoryUIPanelProps) {
   const [orphanCount, setOrphanCount] = useState<number>(0);
   const [isDeletingOrphans, setIsDeletingOrphans] = useState<boolean>(false);
   const [storybookOrder, setStorybookOrder] = useState<Map<string, number>>(new Map());
+  const [usage, setUsage] = useState<{ today: UsageTotals; chat?: UsageTotals } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -1799,6 +1898,8 @@ function StoryUIPanel({ mcpPort }: StoryUIPanelProps) {
         let buffer = '';
         let completionData: CompletionFeedback | null = null;
         let errorData: ErrorFeedback | null = null;
+        let streamedCode = '';
+        let streamedAttempt = 0;
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
@@ -1816,6 +1917,17 @@ function StoryUIPanel({ mcpPort }: StoryUIPanelProps) {
                   case 'progress':
                     dispatch({ type: 'UPDATE_STREAMING_STATE', payload: { progress: event.data as ProgressUpdate } });
                     break;
+                  case 'code_delta': {
+                    const { attempt, delta, reset } = event.data as CodeDelta;
+                    // A self-healing retry or provider failover rewrites the story from scratch
+                    if (attempt !== streamedAttempt || reset) {
+                      streamedAttempt = attempt;
+                      streamedCode = '';
+                    }
+                    streamedCode += delta;
+                    dispatch({ type: 'UPDATE_STREAMING_STATE', payload: { streamedCode } });
+                    break;
+                  }
                   case 'validation':
                     dispatch({ type: 'UPDATE_STREAMING_STATE', payload: { validation: event.data as ValidationFeedback } });
                     break;
@@ -1991,6 +2103,30 @@ function StoryUIPanel({ mcpPort }: StoryUIPanelProps) {
     }
   }, [state.connectionStatus.connected, state.recentChats]);
 
+  // Load today's LLM spend and the active chat's total for the sidebar footer
+  const loadUsage = useCallback(async () => {
+    if (!state.connectionStatus.connected) return;
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const response = await fetch(`${USAGE_API()}?from=${today}`);
+      if (!response.ok) return;
+      const summary = await response.json();
+      let chat: UsageTotals | undefined;
+      if (state.activeChatId) {
+        const chatResponse = await fetch(`${USAGE_API()}?chatId=${encodeURIComponent(state.activeChatId)}`);
+        if (chatResponse.ok) chat = (await chatResponse.json()).totals;
+      }
+      setUsage({ today: summary.totals, chat });
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+    }
+  }, [state.connectionStatus.connected, state.activeChatId]);
+
+  // Refresh after each generation (conversation grows) or chat switch
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage, state.conversation.length]);
+
   // Delete all orphan stories
   const handleDeleteOrphans = async () => {
     if (orphanCount === 0) return;
@@ -2231,6 +2367,16 @@ function StoryUIPanel({ mcpPort }: StoryUIPanelProps) {
               ))}
             </div>
 
+            {/* LLM usage */}
+            {usage && usage.today.calls > 0 && (
+              <div className="sui-usage-footer" title="Estimated from model list prices">
+                <span>Today: {formatCost(usage.today.costUsd)} · {formatTokens(usage.today.inputTokens + usage.today.outputTokens)} tokens</span>
+                {usage.chat && usage.chat.calls > 0 && (
+                  <span>This chat: {formatCost(usage.chat.costUsd)}</span>
+                )}
+              </div>
+            )}
+
             {/* Orphan Stories Footer */}
             {orphanCount > 0 && (
               <div className="sui-orphan-footer">